@@ -11,6 +11,8 @@ const generateBtn = document.getElementById('generateBtn');
 const progressCard = document.getElementById('progressCard');
 const progressFill = document.getElementById('progressFill');
 const progressLog = document.getElementById('progressLog');
+const cancelJobBtn = document.getElementById('cancelJobBtn');
+const continueJobBtn = document.getElementById('continueJobBtn');
 const resultCard = document.getElementById('resultCard');
 const resultInfo = document.getElementById('resultInfo');
 const downloadBtn = document.getElementById('downloadBtn');
@@ -43,6 +45,13 @@ const ytProgressBar = document.getElementById('ytProgressBar');
 const ytProgressFill = document.getElementById('ytProgressFill');
 const ytChecks = document.getElementById('ytChecks');
 const ytFixActions = document.getElementById('ytFixActions');
+const thumbTitle = document.getElementById('thumbTitle');
+const thumbSubtitle = document.getElementById('thumbSubtitle');
+const thumbVariants = document.getElementById('thumbVariants');
+const thumbGenerateBtn = document.getElementById('thumbGenerateBtn');
+const claimsCard = document.getElementById('claimsCard');
+const claimsList = document.getElementById('claimsList');
+const claimsSaveBtn = document.getElementById('claimsSaveBtn');
 
 let currentJobId = null;
 let currentVideoPath = null;
@@ -52,6 +61,7 @@ let ytConnected = false;
 let activeFixJobId = null;
 let lastGenerationChannelId = null;
 let lastGenerationTopic = null;
+let draftProjectId = null;
 
 // Channel placeholder examples
 const CHANNEL_EXAMPLES = {
@@ -235,6 +245,7 @@ generateForm.addEventListener('submit', async (e) => {
     // Show progress card
     progressCard.style.display = 'block';
     resultCard.style.display = 'none';
+    continueJobBtn.style.display = 'none';
     progressLog.innerHTML = '';
     updateProgressSteps('script', 'active');
 
@@ -275,39 +286,72 @@ generateForm.addEventListener('submit', async (e) => {
 });
 
 // Socket event handlers
+socket.on('queued', (data) => {
+    const message = `⏳ En file d'attente (position ${data.position})`;
+    addLog(message);
+    if (activeFixJobId) {
+        ytAddLog(message);
+    }
+});
+
+socket.on('cancelled', (data) => {
+    addLog('🛑 Génération annulée', 'error');
+
+    if (activeFixJobId && data.jobId === activeFixJobId) {
+        ytAddLog('🛑 Correction annulée', 'error');
+        activeFixJobId = null;
+    }
+    resetForm();
+});
+
+// Pipeline stage -> UI step
+const STAGE_TO_STEP = {
+    script: 'script',
+    audio: 'audio',
+    collect: 'assets',
+    download: 'download',
+    compose: 'compose'
+};
+const STEP_ORDER = ['script', 'audio', 'assets', 'download', 'compose'];
+
 socket.on('progress', (data) => {
+    // Structured events: { stage, stepIndex, stepCount, percent, detail }
+    if (data.stage) {
+        const step = STAGE_TO_STEP[data.stage];
+        STEP_ORDER.slice(0, STEP_ORDER.indexOf(step)).forEach(s => updateProgressSteps(s, 'completed'));
+        // A duration-contract retry goes back to the script step
+        STEP_ORDER.slice(STEP_ORDER.indexOf(step) + 1).forEach(s => updateProgressSteps(s, null));
+        updateProgressSteps(step, data.percent >= 100 ? 'completed' : 'active');
+        updateProgress(Math.round(((data.stepIndex - 1) + data.percent / 100) / data.stepCount * 100));
+
+        // Only log stage boundaries; intermediate percents just move the bar
+        if (data.percent > 0 && data.percent < 100) return;
+    }
+
     addLog(data.message);
 
     // If we're running a fix job from the pre-publish panel, mirror logs there too.
     if (activeFixJobId) {
         ytAddLog(data.message);
     }
-
-    // Update progress based on keywords
-    const msg = data.message.toLowerCase();
-    if (msg.includes('script')) {
-        updateProgressSteps('script', 'active');
-        updateProgress(20);
-    } else if (msg.includes('audio') || msg.includes('voice') || msg.includes('elevenlabs')) {
-        updateProgressSteps('script', 'completed');
-        updateProgressSteps('audio', 'active');
-        updateProgress(40);
-    } else if (msg.includes('collecting') || msg.includes('assets') || msg.includes('pexels')) {
-        updateProgressSteps('audio', 'completed');
-        updateProgressSteps('assets', 'active');
-        updateProgress(60);
-    } else if (msg.includes('download') || msg.includes('télécharg')) {
-        updateProgressSteps('assets', 'completed');
-        updateProgressSteps('download', 'active');
-        updateProgress(75);
-    } else if (msg.includes('compos') || msg.includes('ffmpeg') || msg.includes('assembl')) {
-        updateProgressSteps('download', 'completed');
-        updateProgressSteps('compose', 'active');
-        updateProgress(90);
-    }
 });
 
 socket.on('complete', (data) => {
+    // Script-only / audio-only drafts: keep the progress card and offer to continue
+    if (data.mode && data.mode !== 'full') {
+        addLog(`✅ ${data.mode === 'script-only' ? 'Script prêt pour relecture' : 'Script + audio prêts'}`, 'success');
+        if (data.scriptPath) addLog(`📄 Script: ${data.scriptPath}`);
+        if (data.audioPath) addLog(`🎵 Audio: ${data.audioPath}`);
+        updateProgressSteps(data.mode === 'script-only' ? 'script' : 'audio', 'completed');
+
+        draftProjectId = data.projectId;
+        continueJobBtn.style.display = 'inline-block';
+        sendNotification('ChrisStudio', 'Brouillon prêt pour relecture');
+        resetForm();
+        loadHistory();
+        return;
+    }
+
     addLog('✅ Génération terminée !', 'success');
     updateProgressSteps('compose', 'completed');
     updateProgress(100);
@@ -353,6 +397,9 @@ socket.on('yt:done', (data) => {
     if (data.videoUrl) {
         ytAddLog(`🔗 ${data.videoUrl}`, 'success');
     }
+    if (data.thumbnail) {
+        renderThumbnailOutcome(currentPublishJobId, data.thumbnail);
+    }
     sendNotification('ChrisStudio', 'Vidéo publiée sur YouTube !');
     currentPublishJobId = null;
     ytPublishBtn.disabled = false;
@@ -420,6 +467,16 @@ function showResult(data) {
     currentPublishJobId = null;
     activeFixJobId = null;
 
+    // Reset thumbnails
+    thumbVariants.innerHTML = '';
+    thumbTitle.value = '';
+    thumbSubtitle.value = '';
+
+    // Reset claims
+    claimsCard.style.display = 'none';
+    claimsList.innerHTML = '';
+    loadClaims();
+
     // Reset checks UI
     if (ytChecks) {
         ytChecks.innerHTML = '<p class="loading">Chargement des vérifications…</p>';
@@ -435,6 +492,51 @@ function showResult(data) {
     });
 }
 
+cancelJobBtn.addEventListener('click', async () => {
+    if (!currentJobId) return;
+
+    cancelJobBtn.disabled = true;
+    try {
+        const response = await fetch(`/api/jobs/${encodeURIComponent(currentJobId)}`, { method: 'DELETE' });
+        const data = await response.json();
+        if (!response.ok) {
+            addLog(`⚠️ Annulation impossible: ${data.error || response.status}`, 'error');
+        } else if (data.status === 'cancelling') {
+            addLog('⏹️ Annulation en cours...');
+        }
+    } catch (error) {
+        addLog(`❌ Erreur: ${error.message}`, 'error');
+    } finally {
+        cancelJobBtn.disabled = false;
+    }
+});
+
+continueJobBtn.addEventListener('click', async () => {
+    if (!draftProjectId) return;
+
+    continueJobBtn.disabled = true;
+    try {
+        const response = await fetch('/api/generate/resume', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ projectId: draftProjectId })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+
+        currentJobId = data.jobId;
+        socket.emit('subscribe', currentJobId);
+        continueJobBtn.style.display = 'none';
+        draftProjectId = null;
+        generateBtn.disabled = true;
+        addLog(`▶️ Suite de la génération lancée (Job: ${currentJobId})`);
+    } catch (error) {
+        addLog(`❌ Erreur: ${error.message}`, 'error');
+    } finally {
+        continueJobBtn.disabled = false;
+    }
+});
+
 function resetForm() {
     generateBtn.disabled = false;
     generateBtn.textContent = '🚀 Générer la vidéo';
@@ -723,6 +825,164 @@ ytPublishBtn.addEventListener('click', async () => {
     }
 });
 
+function renderThumbnailOutcome(publishJobId, thumbnail) {
+    if (thumbnail.status === 'done') {
+        ytAddLog('🖼️ Miniature en ligne', 'success');
+        return;
+    }
+    ytAddLog(`⚠️ Miniature non envoyée: ${thumbnail.error || thumbnail.status}`, 'error');
+    if (!ytFixActions) return;
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'btn-secondary btn-small';
+    btn.textContent = 'Renvoyer la miniature';
+    btn.addEventListener('click', async () => {
+        btn.disabled = true;
+        try {
+            const resp = await fetch(`/api/youtube/publish/${publishJobId}/thumbnail`, { method: 'POST' });
+            const data = await resp.json();
+            if (!resp.ok && !data.thumbnail) throw new Error(data.error || 'Échec de l\'envoi');
+            btn.remove();
+            renderThumbnailOutcome(publishJobId, data.thumbnail);
+        } catch (e) {
+            ytAddLog(`❌ ${e.message || e}`, 'error');
+            btn.disabled = false;
+        }
+    });
+    ytFixActions.appendChild(btn);
+}
+
+function currentProjectId() {
+    return (currentVideoPath || '').split('/').pop().replace(/\.mp4$/i, '');
+}
+
+function renderThumbnails(thumbnails) {
+    thumbVariants.innerHTML = '';
+    thumbnails.variants.forEach((variant, index) => {
+        const img = document.createElement('img');
+        img.src = variant.path;
+        img.alt = `Miniature ${index + 1}`;
+        img.title = `Variante ${index + 1} — score ${variant.score}`;
+        if (index === thumbnails.selected) img.classList.add('selected');
+        img.addEventListener('click', () => selectThumbnail(index));
+        thumbVariants.appendChild(img);
+    });
+}
+
+async function selectThumbnail(index) {
+    try {
+        const resp = await fetch(`/api/projects/${encodeURIComponent(currentProjectId())}/thumbnails/selected`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ index })
+        });
+        const data = await resp.json();
+        if (!resp.ok) throw new Error(data.error || 'Sélection impossible');
+        renderThumbnails(data);
+    } catch (e) {
+        ytAddLog(`❌ ${e.message || e}`, 'error');
+    }
+}
+
+thumbGenerateBtn.addEventListener('click', async () => {
+    if (!currentVideoPath) return;
+    thumbGenerateBtn.disabled = true;
+    ytAddLog('🎨 Génération des miniatures…');
+    try {
+        const body = {};
+        if (thumbTitle.value.trim()) body.title = thumbTitle.value.trim();
+        if (thumbSubtitle.value.trim()) body.subtitle = thumbSubtitle.value.trim();
+        const resp = await fetch(`/api/projects/${encodeURIComponent(currentProjectId())}/thumbnails`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const data = await resp.json();
+        if (!resp.ok) throw new Error(data.error || 'Échec de la génération des miniatures');
+        renderThumbnails(data);
+        ytAddLog(`✅ ${data.variants.length} miniature(s) prête(s). Cliquez pour choisir.`, 'success');
+    } catch (e) {
+        ytAddLog(`❌ ${e.message || e}`, 'error');
+    } finally {
+        thumbGenerateBtn.disabled = false;
+    }
+});
+
+const CLAIM_CONFIDENCE_LABELS = { high: 'fiable', medium: 'à vérifier', low: 'douteux' };
+
+async function loadClaims() {
+    try {
+        const resp = await fetch(`/api/projects/${encodeURIComponent(currentProjectId())}/claims`);
+        if (!resp.ok) return;
+        const data = await resp.json();
+        renderClaims(data.claims || []);
+    } catch (e) {
+        // Projects without claims simply hide the card.
+    }
+}
+
+function renderClaims(claims) {
+    claimsList.innerHTML = '';
+    claimsCard.style.display = claims.length ? 'block' : 'none';
+    claims.forEach((claim) => {
+        const item = document.createElement('div');
+        item.className = `claim-item${claim.status === 'approved' ? ' approved' : ''}`;
+        item.dataset.id = claim.id;
+        item.innerHTML = `
+            <div class="claim-meta">
+                <span class="check-badge ${claim.confidence === 'high' ? 'ok' : 'bad'}">${escapeHtml(CLAIM_CONFIDENCE_LABELS[claim.confidence] || claim.confidence)}</span>
+                <span>${escapeHtml(claim.segment)} · ${escapeHtml(claim.kind)}</span>
+                <label><input type="checkbox" class="claim-approved" ${claim.status === 'approved' ? 'checked' : ''} /> Approuvé</label>
+                <button type="button" class="btn-secondary btn-small claim-remove">✕ Retirer</button>
+            </div>
+            <input type="text" class="claim-text" maxlength="1000" />
+            <input type="text" class="claim-source-title" maxlength="300" placeholder="Source" />
+            <input type="url" class="claim-source-url" maxlength="1000" placeholder="https://…" />
+        `;
+        item.querySelector('.claim-text').value = claim.text;
+        item.querySelector('.claim-source-title').value = claim.source?.title || '';
+        item.querySelector('.claim-source-url').value = claim.source?.url || '';
+        item.querySelector('.claim-approved').addEventListener('change', (e) => {
+            item.classList.toggle('approved', e.target.checked);
+        });
+        item.querySelector('.claim-remove').addEventListener('click', () => item.remove());
+        claimsList.appendChild(item);
+    });
+}
+
+claimsSaveBtn.addEventListener('click', async () => {
+    if (!currentVideoPath) return;
+    const claims = Array.from(claimsList.querySelectorAll('.claim-item')).map((item) => {
+        const title = item.querySelector('.claim-source-title').value.trim();
+        const url = item.querySelector('.claim-source-url').value.trim();
+        return {
+            id: item.dataset.id,
+            text: item.querySelector('.claim-text').value.trim() || undefined,
+            source: title ? { title, ...(url ? { url } : {}) } : null,
+            status: item.querySelector('.claim-approved').checked ? 'approved' : 'pending'
+        };
+    });
+
+    claimsSaveBtn.disabled = true;
+    try {
+        const resp = await fetch(`/api/projects/${encodeURIComponent(currentProjectId())}/claims`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ claims })
+        });
+        const data = await resp.json();
+        if (!resp.ok) throw new Error(data.error || 'Enregistrement impossible');
+        renderClaims(data.claims);
+        claimsCard.style.display = 'block';
+        const approved = data.claims.filter((c) => c.status === 'approved').length;
+        ytAddLog(`✅ Relecture enregistrée: ${approved}/${data.claims.length} fait(s) approuvé(s), sources ajoutées à la publication.`, 'success');
+    } catch (e) {
+        ytAddLog(`❌ ${e.message || e}`, 'error');
+    } finally {
+        claimsSaveBtn.disabled = false;
+    }
+});
+
 function ytAddLog(message, type = 'info') {
     const p = document.createElement('p');
     p.textContent = message;
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { channels } from '../config/channels.js';
+import { budgetRefusal, requireBudget } from '../middleware/budget.js';
+import { CostTracker } from '../services/cost-tracker.js';
+import { ProjectStore } from '../services/project-store.js';
+
+const TEST_DIR = './test-budget';
+const PROJECT_ID = 'what-if-1700000000000';
+
+describe('requireBudget', () => {
+  let store: ProjectStore;
+  let tracker: CostTracker;
+  let server: Server;
+  let baseUrl: string;
+  let queued: string[];
+  const originalBudget = channels['what-if'].monthlyBudgetUsd;
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    store = new ProjectStore({ metaDir: TEST_DIR });
+    tracker = new CostTracker(store, { ledgerPath: `${TEST_DIR}/usage.jsonl` });
+    await store.save(store.newManifest({
+      projectId: PROJECT_ID,
+      channelId: 'what-if',
+      topic: 'Two moons',
+      mode: 'full',
+      scriptPath: `./output/scripts/${PROJECT_ID}.json`,
+      audioPath: `./output/audio/${PROJECT_ID}.mp3`
+    }));
+
+    // Same wiring as POST /api/generate/resume: the channel comes from the project manifest.
+    queued = [];
+    const app = express();
+    app.use(express.json());
+    app.post('/resume', requireBudget(tracker, async (req) => (await store.get(req.body.projectId))?.channelId), (req, res) => {
+      queued.push(req.body.projectId);
+      res.json({ projectId: req.body.projectId });
+    });
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    channels['what-if'].monthlyBudgetUsd = originalBudget;
+    await new Promise((resolve) => server.close(resolve));
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  const resume = (projectId: string) => fetch(`${baseUrl}/resume`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId })
+  });
+
+  it('should refuse with 402 once the channel budget is spent', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record(PROJECT_ID, { provider: 'elevenlabs', operation: 'narration', characters: 20_000, requests: 1 });
+
+    const res = await resume(PROJECT_ID);
+
+    expect(res.status).toBe(402);
+    expect(await res.json()).toMatchObject({ error: 'Monthly budget reached for this channel', channelId: 'what-if', spentUsd: 6, exceeded: true });
+    expect(queued).toEqual([]);
+  });
+
+  it('should let requests through under budget or without a known project', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record(PROJECT_ID, { provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+
+    expect((await resume(PROJECT_ID)).status).toBe(200);
+    expect((await resume('what-if-404')).status).toBe(200);
+    expect(queued).toEqual([PROJECT_ID, 'what-if-404']);
+  });
+});
+
+describe('budgetRefusal', () => {
+  let store: ProjectStore;
+  let tracker: CostTracker;
+  const originalBudget = channels['what-if'].monthlyBudgetUsd;
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    store = new ProjectStore({ metaDir: TEST_DIR });
+    tracker = new CostTracker(store, { ledgerPath: `${TEST_DIR}/usage.jsonl` });
+    await store.save(store.newManifest({
+      projectId: PROJECT_ID,
+      channelId: 'what-if',
+      topic: 'Two moons',
+      mode: 'full',
+      scriptPath: `./output/scripts/${PROJECT_ID}.json`,
+      audioPath: `./output/audio/${PROJECT_ID}.mp3`
+    }));
+  });
+
+  afterEach(async () => {
+    channels['what-if'].monthlyBudgetUsd = originalBudget;
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  // Same wiring as the CLI `resume` command: the channel comes from the project manifest.
+  const refusalForResume = async (projectId: string) => budgetRefusal(tracker, (await store.get(projectId))!.channelId);
+
+  it('should refuse a CLI resume once the channel budget is spent', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record(PROJECT_ID, { provider: 'elevenlabs', operation: 'narration', characters: 20_000, requests: 1 });
+
+    expect(await refusalForResume(PROJECT_ID)).toMatch(/^Monthly budget reached for what-if: \$6 \/ \$5 \(\d{4}-\d{2}\)$/);
+  });
+
+  it('should let a CLI resume spend under budget', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record(PROJECT_ID, { provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+
+    expect(await refusalForResume(PROJECT_ID)).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { assColor, buildAssCaptions, captionLayout } from '../services/burned-captions.js';
+import { WordTiming } from '../types/subtitles.js';
+
+const timed = (text: string, step = 0.5): WordTiming[] =>
+  text.split(' ').map((word, idx) => ({ word, startSeconds: idx * step, endSeconds: (idx + 1) * step }));
+
+const dialogues = (ass: string) => ass.split('\n').filter((l) => l.startsWith('Dialogue:'));
+
+describe('burned captions', () => {
+  it('should convert channel colors to ASS BGR', () => {
+    expect(assColor('#4FC3F7')).toBe('&H00F7C34F');
+    expect(assColor('0x001a33', 0x80)).toBe('&H80331A00');
+    expect(assColor('white')).toBe('&H00FFFFFF');
+    expect(() => assColor('teal-ish')).toThrow('Invalid caption color');
+  });
+
+  it('should keep vertical captions narrower and clear of the Shorts UI', () => {
+    const landscape = captionLayout(undefined, 1920, 1080);
+    const vertical = captionLayout(undefined, 1080, 1920);
+
+    expect(landscape.maxCharsPerLine).toBe(42);
+    expect(vertical.maxCharsPerLine).toBeLessThan(landscape.maxCharsPerLine);
+    expect(vertical.fontSize).toBe(landscape.fontSize);
+    expect(vertical.marginV).toBe(Math.round(1920 * 0.2));
+    expect(captionLayout({ position: 'top', safeMarginPercent: 5 }, 1920, 1080)).toMatchObject({ alignment: 8, marginV: 54 });
+  });
+
+  it('should write one event per cue in classic mode', () => {
+    const ass = buildAssCaptions(timed('The Moon is gone. Tides collapse.'), 'classic', undefined, 1920, 1080);
+
+    expect(ass).toContain('PlayResX: 1920');
+    expect(dialogues(ass)).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:02.00,Caption,,0,0,0,,The Moon is gone.',
+      'Dialogue: 0,0:00:02.00,0:00:03.00,Caption,,0,0,0,,Tides collapse.'
+    ]);
+  });
+
+  it('should highlight the spoken word in karaoke mode', () => {
+    const ass = buildAssCaptions(timed('What if {it} vanished?'), 'karaoke', { highlightColor: 'yellow' }, 1080, 1920);
+    const events = dialogues(ass);
+
+    expect(events).toHaveLength(4);
+    expect(events[1]).toBe('Dialogue: 0,0:00:00.50,0:00:01.00,Caption,,0,0,0,,What {\\c&H0000D4FF}if{\\c&H00FFFFFF} (it) vanished?');
+    expect(events[3]).toContain('0:00:01.50,0:00:02.00');
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { channels } from '../config/channels.js';
+import { DEFAULT_DURATION_CONTRACT, getDurationContract, targetWordCount } from '../config/duration-contract.js';
+import { assColor } from '../services/burned-captions.js';
 
 describe('Channel Configuration', () => {
   it('should have all required channels', () => {
@@ -47,6 +49,16 @@ describe('Channel Configuration', () => {
       }
     });
 
+    it('should have a coherent duration contract', () => {
+      const contract = getDurationContract(channel);
+      expect(contract.minSeconds).toBeGreaterThan(0);
+      expect(contract.maxSeconds).toBeGreaterThan(contract.minSeconds);
+      expect(contract.wordsPerMinute).toBeGreaterThan(0);
+      expect(contract.maxAttempts).toBeGreaterThanOrEqual(1);
+      expect(contract.minBeats).toBeGreaterThanOrEqual(0);
+      expect(contract.minClips).toBeGreaterThanOrEqual(0);
+    });
+
     it('should have valid pacing configuration', () => {
       if (channel.pacing) {
         expect(channel.pacing.minShotSeconds).toBeGreaterThan(0);
@@ -96,6 +108,12 @@ describe('Channel Configuration', () => {
             expect(channel.branding.overlayStyle.boxOpacity).toBeGreaterThanOrEqual(0);
             expect(channel.branding.overlayStyle.boxOpacity).toBeLessThanOrEqual(1);
           }
+          const captions = channel.branding.overlayStyle.captions;
+          if (captions) {
+            for (const color of [captions.textColor, captions.highlightColor, captions.outlineColor]) {
+              if (color) expect(() => assColor(color)).not.toThrow();
+            }
+          }
         }
       }
     });
@@ -134,3 +152,18 @@ describe('Channel Configuration', () => {
     });
   });
 });
+
+describe('Duration contract', () => {
+  it('should keep the original word ranges for the default 9–12 min contract', () => {
+    expect(targetWordCount(DEFAULT_DURATION_CONTRACT)).toEqual({ min: 1500, max: 1800 });
+    expect(targetWordCount(DEFAULT_DURATION_CONTRACT, 'expand')).toEqual({ min: 1700, max: 2000 });
+    expect(targetWordCount(DEFAULT_DURATION_CONTRACT, 'compress')).toEqual({ min: 1350, max: 1550 });
+  });
+
+  it('should scale word ranges to a short explainer contract', () => {
+    const contract = { ...DEFAULT_DURATION_CONTRACT, minSeconds: 4 * 60, maxSeconds: 5 * 60, wordsPerMinute: 160 };
+    const normal = targetWordCount(contract);
+    expect(normal.min).toBeGreaterThanOrEqual(4 * 160);
+    expect(normal.max).toBe(5 * 160);
+  });
+});
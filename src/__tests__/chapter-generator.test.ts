@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChapters,
+  fallbackChapterTitle,
+  formatChapterTimestamp,
+  hasChapterList,
+  mergeChaptersIntoDescription
+} from '../services/chapter-generator.js';
+
+describe('buildChapters', () => {
+  it('should start at 00:00 and fold chapters shorter than 10 seconds', () => {
+    const chapters = buildChapters([
+      { startSeconds: 0.4, title: 'Intro' },
+      { startSeconds: 12, title: 'The Moon disappears' },
+      { startSeconds: 18, title: 'Too soon' },
+      { startSeconds: 95, title: 'Tides collapse' },
+      { startSeconds: 295, title: 'Conclusion' }
+    ], 300);
+
+    expect(chapters).toEqual([
+      { startSeconds: 0, title: 'Intro' },
+      { startSeconds: 12, title: 'The Moon disappears' },
+      { startSeconds: 95, title: 'Tides collapse' }
+    ]);
+  });
+
+  it('should return no chapters when fewer than 3 remain', () => {
+    expect(buildChapters([
+      { startSeconds: 0, title: 'Intro' },
+      { startSeconds: 5, title: 'Too short' },
+      { startSeconds: 40, title: 'Body' }
+    ], 60)).toEqual([]);
+  });
+});
+
+describe('chapter descriptions', () => {
+  const chapters = [
+    { startSeconds: 0, title: 'Intro' },
+    { startSeconds: 72.8, title: 'Tides collapse' },
+    { startSeconds: 610, title: 'Conclusion' }
+  ];
+
+  it('should format timestamps with hours only for long videos', () => {
+    expect(formatChapterTimestamp(72.8, 700)).toBe('01:12');
+    expect(formatChapterTimestamp(3725, 4000)).toBe('1:02:05');
+  });
+
+  it('should replace made-up timestamps with the real chapters after the first paragraph', () => {
+    const description = 'What if the Moon vanished?\nFind out now.\n\nTimestamps:\n0:00 Intro\n2:30 - Chaos\n\nSubscribe! #space';
+
+    expect(mergeChaptersIntoDescription(description, chapters, 700)).toBe(
+      'What if the Moon vanished?\nFind out now.\n\n00:00 Intro\n01:12 Tides collapse\n10:10 Conclusion\n\nSubscribe! #space'
+    );
+  });
+
+  it('should only count a chapter list YouTube accepts', () => {
+    expect(hasChapterList(mergeChaptersIntoDescription('Intro.', chapters, 700))).toBe(true);
+    expect(hasChapterList('Intro.\n\n00:00 Intro\n02:30 Chaos')).toBe(false);
+    expect(hasChapterList('Intro.\n\n00:30 Intro\n02:30 Chaos\n05:00 End')).toBe(false);
+  });
+
+  it('should title untitled sections from their first sentence', () => {
+    expect(fallbackChapterTitle('tides would collapse within hours of the loss. Then...')).toBe('Tides would collapse within hours of…');
+  });
+});
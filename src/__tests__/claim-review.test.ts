@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { applyClaimEdits, mergeSourcesIntoDescription, normalizeClaims } from '../services/claim-review.js';
+import { ScriptClaim } from '../types/claims.js';
+import { VideoScript } from '../types/index.js';
+
+const script: VideoScript = {
+  title: 'The Fall of Rome',
+  hook: 'Rome did not fall in a day.',
+  sections: [
+    { narration: 'In 476, Odoacer deposed Romulus Augustulus.', visualType: 'image', searchQuery: 'rome', duration: 60, transition: 'fade' },
+    { narration: 'The city once held a million people.', visualType: 'image', searchQuery: 'rome', duration: 60, transition: 'fade' }
+  ],
+  conclusion: 'Its legacy remains.',
+  duration: 120
+};
+
+const claim = (overrides: Partial<ScriptClaim>): ScriptClaim => ({
+  id: 'section-1-1',
+  segment: 'section-1',
+  text: 'Odoacer deposed Romulus Augustulus in 476.',
+  kind: 'date',
+  confidence: 'high',
+  status: 'approved',
+  ...overrides
+});
+
+describe('normalizeClaims', () => {
+  it('should keep claims on known segments, number them per segment and drop made-up URLs', () => {
+    const claims = normalizeClaims([
+      { segment: 'section-1', text: ' Odoacer deposed  Romulus Augustulus in 476. ', kind: 'date', confidence: 'high', source: { title: 'Britannica', url: 'https://www.britannica.com/event/Fall-of-Rome' } },
+      { segment: 'section-1', text: 'Romulus Augustulus was a teenager.', kind: 'fact', confidence: 'sure', source: { title: 'Gibbon', url: 'not a url' } },
+      { segment: 'section-9', text: 'Out of range.' },
+      { segment: 'section-2', text: '' }
+    ], script);
+
+    expect(claims.map((c) => c.id)).toEqual(['section-1-1', 'section-1-2']);
+    expect(claims[0]).toMatchObject({ text: 'Odoacer deposed Romulus Augustulus in 476.', status: 'pending' });
+    expect(claims[1]).toMatchObject({ kind: 'event', confidence: 'low', source: { title: 'Gibbon' } });
+    expect(claims[1].source?.url).toBeUndefined();
+  });
+});
+
+describe('applyClaimEdits', () => {
+  it('should apply edits in order, remove claims left out and reject unknown ids', () => {
+    const claims = [claim({ status: 'pending' }), claim({ id: 'section-2-1', segment: 'section-2' })];
+
+    const reviewed = applyClaimEdits(claims, [{ id: 'section-1-1', text: 'Edited.', status: 'approved', source: null }]);
+
+    expect(reviewed).toEqual([claim({ text: 'Edited.', source: undefined })]);
+    expect(() => applyClaimEdits(claims, [{ id: 'hook-1' }])).toThrow('Unknown claim');
+  });
+});
+
+describe('mergeSourcesIntoDescription', () => {
+  it('should replace the sources block with the approved sources, before the hashtags', () => {
+    const claims = [
+      claim({ source: { title: 'Britannica', url: 'https://www.britannica.com/event/Fall-of-Rome' } }),
+      claim({ id: 'section-1-2', source: { title: 'Britannica again', url: 'https://www.britannica.com/event/Fall-of-Rome' } }),
+      claim({ id: 'section-2-1', status: 'pending', source: { title: 'Unchecked' } }),
+      claim({ id: 'hook-1', source: { title: 'The History of the Decline and Fall of the Roman Empire' } })
+    ];
+    const description = 'How Rome fell.\n\nSources:\n- Old source\n\n#history #rome';
+
+    expect(mergeSourcesIntoDescription(description, claims)).toBe(
+      'How Rome fell.\n\n' +
+      'Sources:\n- Britannica: https://www.britannica.com/event/Fall-of-Rome\n- The History of the Decline and Fall of the Roman Empire\n\n' +
+      '#history #rome'
+    );
+    expect(mergeSourcesIntoDescription(description, [])).toBe('How Rome fell.\n\n#history #rome');
+  });
+});
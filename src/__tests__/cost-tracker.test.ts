@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import { CostTracker, monthOf } from '../services/cost-tracker.js';
+import { ProjectStore } from '../services/project-store.js';
+import { DEFAULT_COST_MODEL, estimateCostUsd } from '../config/costs.js';
+import { channels } from '../config/channels.js';
+
+const TEST_DIR = './test-cost-tracker';
+
+describe('estimateCostUsd', () => {
+  it('should price tokens, characters and per-model overrides', () => {
+    expect(estimateCostUsd({ provider: 'openai', operation: 'script', model: 'gpt-4o', inputTokens: 1_000_000, outputTokens: 100_000, requests: 1 }, DEFAULT_COST_MODEL)).toBe(3.5);
+    expect(estimateCostUsd({ provider: 'openai', operation: 'script', model: 'gpt-4o-mini', inputTokens: 1_000_000, requests: 1 }, DEFAULT_COST_MODEL)).toBe(0.15);
+    expect(estimateCostUsd({ provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 }, DEFAULT_COST_MODEL)).toBe(3);
+    expect(estimateCostUsd({ provider: 'edge-tts', operation: 'narration', characters: 10_000, requests: 1 }, DEFAULT_COST_MODEL)).toBe(0);
+  });
+});
+
+describe('CostTracker', () => {
+  let store: ProjectStore;
+  let tracker: CostTracker;
+  const originalBudget = channels['what-if'].monthlyBudgetUsd;
+
+  async function createProject(projectId: string, channelId: string) {
+    await store.save(store.newManifest({
+      projectId,
+      channelId,
+      topic: projectId,
+      mode: 'full',
+      scriptPath: `./output/scripts/${projectId}.json`,
+      audioPath: `./output/audio/${projectId}.mp3`
+    }));
+  }
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    store = new ProjectStore({ metaDir: TEST_DIR });
+    tracker = new CostTracker(store, { ledgerPath: `${TEST_DIR}/ledger/usage.jsonl` });
+    await createProject('what-if-1', 'what-if');
+    await createProject('human-odyssey-1', 'human-odyssey');
+  });
+
+  afterEach(async () => {
+    channels['what-if'].monthlyBudgetUsd = originalBudget;
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should record priced usage in the manifest and aggregate it', async () => {
+    const report = tracker.reporterFor('what-if-1');
+    await report({ provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+    await tracker.reporterFor('what-if-1', { retries: 1 })({ provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+    await tracker.record('human-odyssey-1', { provider: 'pexels', operation: 'image-search', requests: 4 });
+
+    const manifest = await store.get('what-if-1');
+    expect(manifest?.usage).toHaveLength(2);
+    expect(manifest?.usage[1].retries).toBe(1);
+
+    const costs = await tracker.report();
+    expect(costs.total.requests).toBe(6);
+    expect(costs.total.retries).toBe(1);
+    expect(costs.byChannel.find((c) => c.channelId === 'what-if')?.characters).toBe(20_000);
+    expect(costs.byProject.map((p) => p.projectId)).toEqual(['what-if-1', 'human-odyssey-1']);
+    expect(costs.byMonth[0].month).toBe(monthOf(new Date()));
+
+    const filtered = await tracker.report({ channelId: 'human-odyssey', month: '2000-01' });
+    expect(filtered.total.requests).toBe(0);
+    expect(filtered.byChannel).toHaveLength(1);
+  });
+
+  it('should flag a channel once its monthly budget is spent', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record('what-if-1', { provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+
+    expect((await tracker.checkBudget('what-if')).exceeded).toBe(false);
+
+    await tracker.record('what-if-1', { provider: 'elevenlabs', operation: 'narration', characters: 10_000, requests: 1 });
+    const budget = await tracker.checkBudget('what-if');
+    expect(budget).toMatchObject({ spentUsd: 6, monthlyBudgetUsd: 5, exceeded: true });
+
+    const nextMonth = new Date();
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+    expect((await tracker.checkBudget('what-if', nextMonth)).exceeded).toBe(false);
+    expect((await tracker.checkBudget('human-odyssey')).exceeded).toBe(false);
+  });
+
+  it('should keep the spend of deleted projects in reports and budgets', async () => {
+    channels['what-if'].monthlyBudgetUsd = 5;
+    await tracker.record('what-if-1', { provider: 'elevenlabs', operation: 'narration', characters: 20_000, requests: 1 });
+    await store.remove('what-if-1');
+
+    expect(await tracker.checkBudget('what-if')).toMatchObject({ spentUsd: 6, exceeded: true });
+    expect((await tracker.report()).byProject).toEqual([expect.objectContaining({ projectId: 'what-if-1', costUsd: 6 })]);
+  });
+
+  it('should seed the ledger from manifests written before it existed', async () => {
+    await store.update('human-odyssey-1', (curr) => ({
+      ...curr,
+      usage: [{ at: new Date().toISOString(), provider: 'pexels', operation: 'image-search', requests: 2, costUsd: 0 }]
+    }));
+
+    expect((await tracker.report()).total.requests).toBe(2);
+    await tracker.record('human-odyssey-1', { provider: 'pexels', operation: 'image-search', requests: 1 });
+    expect((await tracker.entries()).map((e) => e.requests)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { channels } from '../config/channels.js';
+import { FakeScriptGenerator, FAKE_WORDS_PER_MINUTE } from '../providers/fake-script-generator.js';
+import { AssetLibrary } from '../services/asset-library.js';
+import { CostTracker } from '../services/cost-tracker.js';
+import { ProjectStore } from '../services/project-store.js';
+import { TimelinePlanner } from '../services/timeline-planner.js';
+import { UnifiedVoiceGenerator } from '../services/voice-generator-factory.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { Asset, VideoScript, VisualRequest, VoiceConfig } from '../types/index.js';
+import { PipelineStage } from '../types/pipeline.js';
+import { AssetProvider } from '../types/providers.js';
+import { FullVideoPipeline, resolveLastCompletedStage } from '../workflows/full-video-pipeline.js';
+
+const TEST_DIR = './test-full-video-pipeline';
+const PROJECT_ID = 'what-if-1700000000000';
+const TOPIC = 'Earth with two moons';
+
+const STAGES: PipelineStage[] = ['script', 'audio', 'collect', 'download', 'compose'];
+
+const channel = channels['what-if'];
+
+const wordsOf = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Writes the text as the "audio", where the narration renderer expects it. */
+class StubVoiceGenerator implements UnifiedVoiceGenerator {
+  calls = 0;
+  failing = false;
+
+  async generateAudio(text: string, _voice: VoiceConfig, outputFile: string): Promise<string> {
+    this.calls++;
+    if (this.failing) throw new Error('TTS quota exceeded');
+    const outputPath = path.join(TEST_DIR, 'audio', outputFile);
+    await writeFile(outputPath, text);
+    return outputPath;
+  }
+}
+
+/** Spoken at the pace the canned scripts are sized for, so the duration contract holds. */
+const media = {
+  probeDurationSeconds: async (file: string) => (wordsOf(await readFile(file, 'utf-8')) / FAKE_WORDS_PER_MINUTE) * 60,
+  concatAudioFiles: async (files: string[], output: string) => {
+    await writeFile(output, (await Promise.all(files.map((f) => readFile(f, 'utf-8')))).join(' '));
+  }
+};
+
+class CountingScriptGenerator extends FakeScriptGenerator {
+  scripts = 0;
+
+  async generateScript(...args: Parameters<FakeScriptGenerator['generateScript']>) {
+    this.scripts++;
+    return super.generateScript(...args);
+  }
+}
+
+class RecordingAssetCollector implements AssetProvider {
+  requests: VisualRequest[] = [];
+
+  async collectAssetsForTimeline(requests: VisualRequest[]): Promise<Asset[]> {
+    this.requests.push(...requests);
+    return requests.map((r) => ({ type: r.preferredType, url: `stub://${r.searchQuery}`, duration: r.durationSeconds, searchQuery: r.searchQuery }));
+  }
+}
+
+describe('FullVideoPipeline', () => {
+  let store: ProjectStore;
+  let scriptGenerator: CountingScriptGenerator;
+  let voice: StubVoiceGenerator;
+  let collector: RecordingAssetCollector;
+  let downloads: number;
+  let renders: number;
+  let pipeline: FullVideoPipeline;
+
+  beforeEach(async () => {
+    await mkdir(path.join(TEST_DIR, 'audio'), { recursive: true });
+    store = new ProjectStore({ metaDir: path.join(TEST_DIR, 'projects') });
+    scriptGenerator = new CountingScriptGenerator();
+    voice = new StubVoiceGenerator();
+    collector = new RecordingAssetCollector();
+    downloads = 0;
+    renders = 0;
+    pipeline = new FullVideoPipeline(
+      { scriptGenerator, voiceGenerator: voice, assetCollector: collector },
+      store,
+      new CostTracker(store, { ledgerPath: path.join(TEST_DIR, 'usage.jsonl') }),
+      {
+        outputDir: TEST_DIR,
+        media,
+        assetDownloader: {
+          downloadAssets: async (assets: Asset[]) => {
+            downloads++;
+            return Promise.all(assets.map(async (a, idx) => {
+              const localPath = `${TEST_DIR}/asset-${idx}.jpg`;
+              await writeFile(localPath, 'image');
+              return { ...a, localPath };
+            }));
+          }
+        },
+        videoComposer: {
+          composeVideo: async (_script: VideoScript, _audioPath: string, _assets: Asset[], outputFile: string) => {
+            renders++;
+            const videoPath = path.join(TEST_DIR, outputFile);
+            await writeFile(videoPath, 'video');
+            return videoPath;
+          }
+        }
+      }
+    );
+  });
+
+  const counts = () => ({ scripts: scriptGenerator.scripts, voiced: voice.calls, collected: collector.requests.length, downloads, renders });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should plan the beats the pipeline collects', async () => {
+    await pipeline.generateProject(channel, TOPIC, PROJECT_ID);
+    const manifest = (await store.get(PROJECT_ID))!;
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    const planner = new TimelinePlanner(new AssetLibrary({ indexPath: path.join(TEST_DIR, 'library.json'), preferLocalAssets: false }));
+
+    const plan = await planner.planProject(channel, manifest, script, manifest.audioDurationSeconds!);
+
+    const beat = (r: VisualRequest) => [r.label, r.searchQuery, r.preferredType, r.durationSeconds];
+    expect(manifest.status).toBe('complete');
+    expect(script.title).not.toBe(TOPIC);
+    expect(plan.topic).toBe(TOPIC);
+    expect(plan.beats.map(beat)).toEqual(collector.requests.map(beat));
+    // Seeded with the script title, the same script gets other shots.
+    const byTitle = await planner.plan(channel, script.title, script, manifest.audioDurationSeconds!);
+    expect(byTitle.beats.map(beat)).not.toEqual(collector.requests.map(beat));
+  });
+
+  describe('generateProject modes', () => {
+    it('should stop a script-only run after the script, as a draft', async () => {
+      const result = await pipeline.generateProject(channel, TOPIC, PROJECT_ID, { mode: 'script-only' });
+
+      expect(result).toEqual({ projectId: PROJECT_ID, mode: 'script-only', stage: 'script', scriptPath: `${TEST_DIR}/scripts/${PROJECT_ID}.json` });
+      expect(existsSync(result.scriptPath)).toBe(true);
+      expect(await store.get(PROJECT_ID)).toMatchObject({ mode: 'script-only', status: 'draft', completedStages: ['script'] });
+      expect(counts()).toEqual({ scripts: 1, voiced: 0, collected: 0, downloads: 0, renders: 0 });
+    });
+
+    it('should stop an audio-only run after the narration, as a draft', async () => {
+      const result = await pipeline.generateProject(channel, TOPIC, PROJECT_ID, { mode: 'audio-only' });
+
+      expect(result).toMatchObject({ mode: 'audio-only', stage: 'audio' });
+      expect(result.videoPath).toBeUndefined();
+      expect(existsSync(result.audioPath!)).toBe(true);
+      const manifest = await store.get(PROJECT_ID);
+      expect(manifest).toMatchObject({ mode: 'audio-only', status: 'draft', completedStages: ['script', 'audio'] });
+      expect(manifest?.audioDurationSeconds).toBeGreaterThan(0);
+      expect(counts()).toMatchObject({ scripts: 1, collected: 0, downloads: 0, renders: 0 });
+    });
+
+    it('should run a full project to a complete manifest', async () => {
+      const result = await pipeline.generateProject(channel, TOPIC, PROJECT_ID);
+
+      expect(result).toMatchObject({ mode: 'full', stage: 'compose' });
+      expect(await store.get(PROJECT_ID)).toMatchObject({ mode: 'full', status: 'complete', completedStages: STAGES, videoPath: result.videoPath });
+      expect(counts()).toMatchObject({ scripts: 1, downloads: 1, renders: 1 });
+    });
+  });
+
+  describe('resolveLastCompletedStage', () => {
+    const paths = { scriptPath: path.join(TEST_DIR, 'script.json'), audioPath: path.join(TEST_DIR, 'audio.mp3') };
+    const manifest = (fields: Partial<ProjectManifest> = {}): ProjectManifest => ({
+      ...store.newManifest({ projectId: PROJECT_ID, channelId: channel.id, topic: TOPIC, mode: 'full', ...paths }),
+      ...fields
+    });
+
+    it('should stop at the first recorded stage whose output is gone', async () => {
+      await writeFile(paths.scriptPath, '{}');
+
+      expect(resolveLastCompletedStage(manifest({ completedStages: ['script', 'audio'] }), paths)).toBe('script');
+      expect(resolveLastCompletedStage(manifest({ completedStages: [] }), paths)).toBe('script');
+      await rm(paths.scriptPath);
+      expect(resolveLastCompletedStage(manifest({ completedStages: ['script'] }), paths)).toBeNull();
+    });
+
+    it('should not trust outputs of stages the manifest does not record', async () => {
+      await writeFile(paths.scriptPath, '{}');
+      await writeFile(paths.audioPath, 'audio');
+
+      expect(resolveLastCompletedStage(manifest({ completedStages: ['script'] }), paths)).toBe('script');
+    });
+
+    it('should infer the stages of manifests written before checkpoints', async () => {
+      await writeFile(paths.scriptPath, '{}');
+      await writeFile(paths.audioPath, 'audio');
+      const collected: Asset[] = [{ type: 'image', url: 'stub://moon' }];
+
+      expect(resolveLastCompletedStage(manifest({ collectedAssets: collected }), paths)).toBe('collect');
+    });
+  });
+
+  describe('resumeProject', () => {
+    /** Roll the project back to `stage`, as if the run had stopped right after it. */
+    const stopAfter = async (stage: PipelineStage) => {
+      if (stage === 'script') {
+        // Nothing voiced yet: no narration clips to reuse.
+        await rm(path.join(TEST_DIR, 'audio'), { recursive: true, force: true });
+        await mkdir(path.join(TEST_DIR, 'audio'), { recursive: true });
+      }
+      await store.update(PROJECT_ID, (curr) => ({
+        ...curr,
+        status: 'failed',
+        completedStages: STAGES.slice(0, STAGES.indexOf(stage) + 1),
+        ...(STAGES.indexOf(stage) < STAGES.indexOf('download') ? { downloadedAssets: [] } : {}),
+        ...(STAGES.indexOf(stage) < STAGES.indexOf('compose') ? { videoPath: undefined } : {})
+      }));
+    };
+
+    it('should checkpoint the script before voicing and resume from it', async () => {
+      voice.failing = true;
+      await expect(pipeline.generateProject(channel, TOPIC, PROJECT_ID)).rejects.toThrow('TTS quota exceeded');
+      expect(await store.get(PROJECT_ID)).toMatchObject({ status: 'failed', completedStages: ['script'] });
+
+      voice.failing = false;
+      await pipeline.resumeProject(PROJECT_ID);
+
+      expect(scriptGenerator.scripts).toBe(1);
+      expect(await store.get(PROJECT_ID)).toMatchObject({ status: 'complete', completedStages: STAGES });
+    });
+
+    it.each([
+      ['script', { scripts: 0, voiced: true, collected: true, downloads: 1, renders: 1 }],
+      ['audio', { scripts: 0, voiced: false, collected: true, downloads: 1, renders: 1 }],
+      ['collect', { scripts: 0, voiced: false, collected: false, downloads: 1, renders: 1 }],
+      ['download', { scripts: 0, voiced: false, collected: false, downloads: 0, renders: 1 }],
+      ['compose', { scripts: 0, voiced: false, collected: false, downloads: 0, renders: 0 }]
+    ] as const)('should resume after %s with only the later stages', async (stage, expected) => {
+      await pipeline.generateProject(channel, TOPIC, PROJECT_ID);
+      const { videoPath } = (await store.get(PROJECT_ID))!;
+      await stopAfter(stage);
+      const before = counts();
+
+      const resumed = await pipeline.resumeProject(PROJECT_ID);
+
+      const after = counts();
+      expect({
+        scripts: after.scripts - before.scripts,
+        voiced: after.voiced > before.voiced,
+        collected: after.collected > before.collected,
+        downloads: after.downloads - before.downloads,
+        renders: after.renders - before.renders
+      }).toEqual(expected);
+      expect(resumed).toBe(videoPath);
+      expect((await store.get(PROJECT_ID))?.completedStages).toEqual(STAGES);
+    });
+  });
+
+  describe('updateScript', () => {
+    const readScript = async () => JSON.parse(await readFile(path.join(TEST_DIR, 'scripts', `${PROJECT_ID}.json`), 'utf-8')) as VideoScript;
+
+    it('should send a voiced project back to draft when its narration changed', async () => {
+      await pipeline.generateProject(channel, TOPIC, PROJECT_ID, { mode: 'audio-only' });
+      const script = await readScript();
+      script.sections[1] = { ...script.sections[1], narration: 'A second moon would light every night.' };
+
+      const update = await pipeline.updateScript(PROJECT_ID, script);
+
+      expect(update).toEqual({ projectId: PROJECT_ID, changedSegments: ['section-2'], revoice: true });
+      expect(await store.get(PROJECT_ID)).toMatchObject({ status: 'draft', completedStages: ['script'] });
+      expect((await readScript()).sections[1].narration).toBe('A second moon would light every night.');
+    });
+
+    it('should keep the narration when only visuals changed', async () => {
+      await pipeline.generateProject(channel, TOPIC, PROJECT_ID, { mode: 'audio-only' });
+      const script = await readScript();
+      script.sections[1] = { ...script.sections[1], searchQuery: 'twin moons night sky' };
+
+      const update = await pipeline.updateScript(PROJECT_ID, script);
+
+      expect(update).toEqual({ projectId: PROJECT_ID, changedSegments: [], revoice: false });
+      expect((await store.get(PROJECT_ID))?.completedStages).toEqual(['script', 'audio']);
+    });
+
+    it('should only save the edit of a script that was never voiced', async () => {
+      await pipeline.generateProject(channel, TOPIC, PROJECT_ID, { mode: 'script-only' });
+      const script = await readScript();
+      script.hook = 'Tonight, look up: there are two moons.';
+
+      const update = await pipeline.updateScript(PROJECT_ID, script);
+
+      expect(update.revoice).toBe(false);
+      expect(await store.get(PROJECT_ID)).toMatchObject({ status: 'draft', completedStages: ['script'] });
+      expect((await readScript()).hook).toBe('Tonight, look up: there are two moons.');
+    });
+  });
+});
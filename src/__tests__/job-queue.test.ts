@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { GenerationJobQueue } from '../services/job-queue.js';
+import { GenerationJob, NewGenerationJob } from '../types/job-queue.js';
+
+const TEST_DIR = './test-job-queue';
+const QUEUE_PATH = path.join(TEST_DIR, 'generation-jobs.json');
+
+function newJob(topic: string, priority?: number): NewGenerationJob {
+  return { kind: 'generate', channelId: 'what-if', topic, projectId: `what-if-${topic}`, priority };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+function waitFor(queue: GenerationJobQueue, event: string, count: number): Promise<GenerationJob[]> {
+  return new Promise((resolve) => {
+    const seen: GenerationJob[] = [];
+    queue.on(event, (job: GenerationJob) => {
+      seen.push(job);
+      if (seen.length === count) resolve(seen);
+    });
+  });
+}
+
+describe('GenerationJobQueue', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should run jobs by priority, then in submission order', async () => {
+    const queue = new GenerationJobQueue({ filePath: QUEUE_PATH, concurrency: 1 });
+    await queue.enqueue(newJob('first'));
+    await queue.enqueue(newJob('second'));
+    await queue.enqueue(newJob('urgent', 5));
+
+    const order: string[] = [];
+    const done = waitFor(queue, 'completed', 3);
+    await queue.start(async (job) => {
+      order.push(job.topic);
+      return { videoPath: `./output/videos/${job.projectId}.mp4` };
+    });
+    await done;
+
+    expect(order).toEqual(['urgent', 'first', 'second']);
+  });
+
+  it('should not run more jobs than the concurrency limit', async () => {
+    const queue = new GenerationJobQueue({ filePath: QUEUE_PATH, concurrency: 2 });
+    const gate = deferred();
+    let active = 0;
+    let maxActive = 0;
+
+    const done = waitFor(queue, 'completed', 4);
+    await queue.start(async (job) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await gate.promise;
+      active--;
+      return { videoPath: job.projectId };
+    });
+
+    for (const topic of ['a', 'b', 'c', 'd']) {
+      await queue.enqueue(newJob(topic));
+    }
+    expect(queue.runningCount).toBe(2);
+    expect(queue.getPosition((await queue.list()).find((j) => j.topic === 'd')!.id)).toBe(2);
+
+    gate.resolve();
+    await done;
+    expect(maxActive).toBe(2);
+  });
+
+  it('should record failures on the job', async () => {
+    const queue = new GenerationJobQueue({ filePath: QUEUE_PATH });
+    const failed = waitFor(queue, 'failed', 1);
+    await queue.start(async () => {
+      throw new Error('ffmpeg exploded');
+    });
+    const job = await queue.enqueue(newJob('boom'));
+    await failed;
+
+    const stored = await queue.get(job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.error).toBe('ffmpeg exploded');
+    expect(stored?.attempts).toBe(1);
+  });
+
+  it('should persist jobs and requeue interrupted ones after a restart', async () => {
+    const now = new Date().toISOString();
+    const interrupted: GenerationJob = {
+      id: 'job-1',
+      kind: 'generate',
+      status: 'running',
+      priority: 0,
+      source: 'api',
+      channelId: 'what-if',
+      topic: 'interrupted',
+      projectId: 'what-if-1',
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      attempts: 1
+    };
+    await writeFile(QUEUE_PATH, JSON.stringify([interrupted]));
+
+    const queue = new GenerationJobQueue({ filePath: QUEUE_PATH });
+    expect((await queue.get('job-1'))?.status).toBe('queued');
+
+    const completed = waitFor(queue, 'completed', 1);
+    await queue.start(async (job) => ({ videoPath: `./output/videos/${job.projectId}.mp4` }));
+    const [job] = await completed;
+
+    expect(job.attempts).toBe(2);
+    const onDisk = JSON.parse(await readFile(QUEUE_PATH, 'utf-8')) as GenerationJob[];
+    expect(onDisk.find((j) => j.id === 'job-1')?.status).toBe('completed');
+  });
+
+  describe('cancel', () => {
+    it('should drop a queued job without running it', async () => {
+      const queue = new GenerationJobQueue({ filePath: QUEUE_PATH });
+      const job = await queue.enqueue(newJob('never'));
+      const cancelled = waitFor(queue, 'cancelled', 1);
+
+      await queue.cancel(job.id);
+      await cancelled;
+
+      const ran: string[] = [];
+      await queue.start(async (j) => {
+        ran.push(j.topic);
+        return { videoPath: j.projectId };
+      });
+
+      expect(ran).toEqual([]);
+      expect((await queue.get(job.id))?.status).toBe('cancelled');
+      expect(queue.getPosition(job.id)).toBe(0);
+    });
+
+    it('should abort the signal of a running job', async () => {
+      const queue = new GenerationJobQueue({ filePath: QUEUE_PATH });
+      const started = waitFor(queue, 'started', 1);
+      const cancelled = waitFor(queue, 'cancelled', 1);
+
+      await queue.start((_job, signal) => new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('CANCELLED')));
+      }));
+      const job = await queue.enqueue(newJob('long render'));
+      await started;
+
+      await queue.cancel(job.id);
+      await cancelled;
+
+      const stored = await queue.get(job.id);
+      expect(stored?.status).toBe('cancelled');
+      expect(stored?.error).toBeUndefined();
+    });
+
+    it('should return null for an unknown job', async () => {
+      const queue = new GenerationJobQueue({ filePath: QUEUE_PATH });
+      expect(await queue.cancel('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getLlmSettings } from '../config/llm.js';
+import { LlmClient } from '../services/llm-client.js';
+import { LlmProvider, LlmRequest, LlmResponse } from '../types/llm.js';
+import { UsageEvent } from '../types/usage.js';
+
+/** Replays the given outcomes in order and records every request. */
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly supportsJsonMode = true;
+  requests: LlmRequest[] = [];
+
+  constructor(private outcomes: Array<string | Error>) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(request);
+    const outcome = this.outcomes.shift();
+    if (outcome === undefined || outcome instanceof Error) throw outcome || new Error('No outcome left');
+    return { content: outcome, model: request.model, inputTokens: 10, outputTokens: 5 };
+  }
+}
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const env = { ...process.env };
+beforeEach(() => {
+  for (const name of ['LLM_PROVIDER', 'LLM_MODEL', 'LLM_SMALL_MODEL']) delete process.env[name];
+});
+afterEach(() => {
+  process.env = { ...env };
+});
+
+const messages = [{ role: 'system' as const, content: 'You write titles.' }, { role: 'user' as const, content: 'A title?' }];
+
+describe('LlmClient', () => {
+  it('should retry transient failures and report usage once', async () => {
+    const provider = new ScriptedProvider([httpError(503, 'Overloaded'), httpError(429, 'Rate limited'), 'The Moon']);
+    const usage: UsageEvent[] = [];
+
+    const response = await new LlmClient({ openai: provider }, { retryDelayMs: 1 }).complete('topic', {
+      messages,
+      onUsage: (event) => { usage.push(event); }
+    });
+
+    expect(response.content).toBe('The Moon');
+    expect(provider.requests).toHaveLength(3);
+    expect(usage).toEqual([{ provider: 'openai', operation: 'topic', model: 'gpt-4o-mini', inputTokens: 10, outputTokens: 5, requests: 1 }]);
+  });
+
+  it('should not retry other client errors', async () => {
+    const provider = new ScriptedProvider([httpError(401, 'Bad key'), 'unused']);
+
+    await expect(new LlmClient({ openai: provider }, { retryDelayMs: 1 }).complete('topic', { messages })).rejects.toThrow('Bad key');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('should ask for JSON in the prompt once the model rejects JSON mode', async () => {
+    const provider = new ScriptedProvider([
+      httpError(400, "'response_format' of type 'json_object' is not supported with this model"),
+      'Sure:\n```json\n{ "title": "The Moon", }\n```',
+      '{ "title": "Mars" }'
+    ]);
+    const client = new LlmClient({ openai: provider }, { retryDelayMs: 1 });
+
+    expect(await client.completeJson('metadata', { messages })).toEqual({ title: 'The Moon' });
+    expect(await client.completeJson('metadata', { messages })).toEqual({ title: 'Mars' });
+    expect(provider.requests.map((r) => r.json)).toEqual([true, false, false]);
+    expect(provider.requests[1].messages[0].content).toContain('single valid JSON object');
+  });
+});
+
+describe('getLlmSettings', () => {
+  it('should resolve overrides, then channel settings, then env models, then task defaults', () => {
+    process.env.LLM_MODEL = 'gpt-4.1';
+    const channel = { llm: { script: { temperature: 0.5 }, claims: { provider: 'anthropic' as const } } };
+
+    expect(getLlmSettings('script', channel)).toEqual({ provider: 'openai', model: 'gpt-4.1', temperature: 0.5, maxTokens: 6000 });
+    expect(getLlmSettings('claims', channel)).toEqual({ provider: 'anthropic', model: 'claude-sonnet-4-5', temperature: 0.2, maxTokens: 4000 });
+    expect(getLlmSettings('script', channel, { model: 'o3', maxTokens: 9000 })).toMatchObject({ model: 'o3', temperature: 0.5, maxTokens: 9000 });
+  });
+});
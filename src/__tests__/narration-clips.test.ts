@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { channels } from '../config/channels.js';
+import { NarrationClipRenderer, matchUnchangedClips } from '../services/narration-clips.js';
+import { UnifiedVoiceGenerator } from '../services/voice-generator-factory.js';
+import { Channel, VideoScript, VoiceConfig } from '../types/index.js';
+import { writeWordTimings } from '../utils/word-timings.js';
+
+const TEST_DIR = './test-narration-clips';
+const PROJECT_ID = 'what-if-1700000000000';
+const CLIP_DIR = path.join(TEST_DIR, 'clips', PROJECT_ID);
+
+const channel: Channel = { ...channels['what-if'], branding: undefined };
+const voice: VoiceConfig = channels['what-if'].voice;
+
+/** Writes the text as the "audio"; `failOn` leaves a truncated file behind and throws, like a killed edge-tts. */
+class StubVoiceGenerator implements UnifiedVoiceGenerator {
+  voiced: string[] = [];
+  failOn?: string;
+
+  async generateAudio(text: string, _voice: VoiceConfig, outputFile: string): Promise<string> {
+    const outputPath = path.join(TEST_DIR, outputFile);
+    if (text === this.failOn) {
+      await writeFile(outputPath, text.slice(0, 3));
+      throw new Error('TTS interrupted');
+    }
+    await writeFile(outputPath, text);
+    await writeWordTimings(outputPath, [{ word: text, startSeconds: 0, endSeconds: text.length }]);
+    this.voiced.push(text);
+    return outputPath;
+  }
+}
+
+/** One second per byte: enough to tell clips apart without ffmpeg. */
+const media = {
+  probeDurationSeconds: async (file: string) => (await stat(file)).size,
+  concatAudioFiles: async (files: string[], output: string) => {
+    await writeFile(output, (await Promise.all(files.map((f) => readFile(f, 'utf-8')))).join(''));
+  }
+};
+
+const script = (sections: string[]): VideoScript => ({
+  title: 'Two Moons',
+  hook: 'Imagine two moons.',
+  sections: sections.map((narration) => ({ narration, visualType: 'image', searchQuery: 'moon', duration: 60, transition: 'fade' })),
+  conclusion: 'One is enough.',
+  duration: 120
+});
+
+describe('NarrationClipRenderer', () => {
+  let tts: StubVoiceGenerator;
+  let renderer: NarrationClipRenderer;
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    tts = new StubVoiceGenerator();
+    renderer = new NarrationClipRenderer(tts, { audioDir: TEST_DIR, media });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should voice only the segments whose text or voice changed', async () => {
+    const first = await renderer.render(PROJECT_ID, channel, script(['Tides double.', 'Nights glow.']), voice);
+    expect(first.voiced).toEqual(['hook', 'section-1', 'section-2', 'conclusion']);
+    expect(await readFile(first.audioPath, 'utf-8')).toBe('Imagine two moons.Tides double.Nights glow.One is enough.');
+
+    tts.voiced = [];
+    const edited = await renderer.render(PROJECT_ID, channel, script(['Tides double.', 'Nights never end.']), voice);
+    expect(edited.voiced).toEqual(['section-2']);
+    expect(tts.voiced).toEqual(['Nights never end.']);
+    expect(edited.clips.map((c) => c.path)).toEqual([first.clips[0].path, first.clips[1].path, expect.any(String), first.clips[3].path]);
+    expect(edited.timing.at(-1)).toMatchObject({ key: 'conclusion', startSeconds: 'Imagine two moons.Tides double.Nights never end.'.length });
+
+    const slower = await renderer.render(PROJECT_ID, channel, script(['Tides double.', 'Nights never end.']), { ...voice, rate: '-10%' });
+    expect(slower.voiced).toEqual(['hook', 'section-1', 'section-2', 'conclusion']);
+  });
+
+  it('should prune the clips the narration no longer uses', async () => {
+    const first = await renderer.render(PROJECT_ID, channel, script(['Tides double.', 'Nights glow.']), voice);
+    const edited = await renderer.render(PROJECT_ID, channel, script(['Tides double.', 'Nights never end.']), voice);
+
+    const names = await readdir(CLIP_DIR);
+    const kept = edited.clips.map((c) => path.basename(c.path!));
+    expect(names.sort()).toEqual([...kept, ...kept.map((n) => n.replace('.mp3', '.words.json'))].sort());
+    expect(existsSync(first.clips[2].path!)).toBe(false);
+  });
+
+  it('should not cache a clip whose take failed', async () => {
+    tts.failOn = 'Tides double.';
+    await expect(renderer.render(PROJECT_ID, channel, script(['Tides double.']), voice)).rejects.toThrow('TTS interrupted');
+    expect((await readdir(CLIP_DIR)).sort()).toEqual([expect.stringMatching(/^\w+\.mp3$/), expect.stringMatching(/^\w+\.words\.json$/)]);
+
+    tts.failOn = undefined;
+    const result = await renderer.render(PROJECT_ID, channel, script(['Tides double.']), voice);
+
+    expect(result.voiced).toEqual(['section-1', 'conclusion']);
+    expect(result.clips.find((c) => c.key === 'section-1')?.durationSeconds).toBe('Tides double.'.length);
+    expect((await readdir(CLIP_DIR)).some((name) => name.includes('.partial'))).toBe(false);
+  });
+});
+
+describe('matchUnchangedClips', () => {
+  const clip = (key: string, textHash: string) => ({ key, textHash });
+
+  it('should map each new segment to the previous one with the same text', () => {
+    const previous = [clip('hook', 'h'), clip('section-1', 'a'), clip('section-2', 'b'), clip('conclusion', 'c')];
+    const next = [clip('hook', 'h'), clip('section-1', 'b'), clip('section-2', 'new'), clip('conclusion', 'c')];
+
+    expect(matchUnchangedClips(previous, next)).toEqual({ hook: 'hook', 'section-1': 'section-2', conclusion: 'conclusion' });
+  });
+
+  it('should use each previous clip once, in narration order', () => {
+    const previous = [clip('section-1', 'same'), clip('section-2', 'same')];
+    const next = [clip('section-1', 'same'), clip('section-2', 'same'), clip('section-3', 'same')];
+
+    expect(matchUnchangedClips(previous, next)).toEqual({ 'section-1': 'section-1', 'section-2': 'section-2' });
+    expect(matchUnchangedClips(previous, [])).toEqual({});
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+import { PrepublishValidator } from '../services/prepublish-validator.js';
+import { ProjectStore } from '../services/project-store.js';
+
+const TEST_DIR = './test-prepublish-validator';
+
+describe('PrepublishValidator', () => {
+  let store: ProjectStore;
+  let validator: PrepublishValidator;
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    store = new ProjectStore({ metaDir: TEST_DIR });
+    validator = new PrepublishValidator(store);
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  const validate = (projectId: string) => validator.validate({
+    videoAbsPath: path.resolve(TEST_DIR, `${projectId}.mp4`),
+    videoUiPath: `/output/videos/${projectId}.mp4`
+  });
+
+  it('should read the channel from the manifest, not from the project id', async () => {
+    // The id starts like another channel's: only the manifest knows the project's channel.
+    await store.save(store.newManifest({
+      projectId: 'what-if-fr-1700000000000',
+      channelId: 'human-odyssey',
+      topic: 'Two moons',
+      mode: 'full',
+      scriptPath: `${TEST_DIR}/scripts/what-if-fr-1700000000000.json`,
+      audioPath: `${TEST_DIR}/audio/what-if-fr-1700000000000.mp3`
+    }));
+
+    const report = await validate('what-if-fr-1700000000000');
+
+    expect(report.channelId).toBe('human-odyssey');
+    expect(report.ok).toBe(false);
+  });
+
+  it('should leave the channel unknown without a manifest', async () => {
+    const report = await validate('what-if-1700000000000');
+
+    expect(report.channelId).toBeUndefined();
+    expect(report.ok).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { ProjectCatalog } from '../services/project-catalog.js';
+import { ProjectStore } from '../services/project-store.js';
+import { YouTubePublishStore } from '../services/youtube-publish-store.js';
+import { GenerationJob } from '../types/job-queue.js';
+
+const TEST_DIR = './test-project-catalog';
+const OUTPUT_DIR = path.join(TEST_DIR, 'output');
+
+describe('ProjectCatalog', () => {
+  let store: ProjectStore;
+  let publishStore: YouTubePublishStore;
+  let jobs: GenerationJob[];
+  let catalog: ProjectCatalog;
+
+  async function createProject(projectId: string, channelId: string, topic: string, createdAt: string) {
+    const scriptPath = path.join(OUTPUT_DIR, 'scripts', `${projectId}.json`);
+    const audioPath = path.join(OUTPUT_DIR, 'audio', `${projectId}.mp3`);
+    await writeFile(scriptPath, JSON.stringify({ title: `${topic} (title)` }));
+    await writeFile(audioPath, 'x'.repeat(100));
+    await store.save({
+      ...store.newManifest({ projectId, channelId, topic, mode: 'full', scriptPath, audioPath }),
+      createdAt,
+      status: 'draft'
+    });
+  }
+
+  beforeEach(async () => {
+    for (const dir of ['scripts', 'audio', 'videos', 'meta']) {
+      await mkdir(path.join(OUTPUT_DIR, dir), { recursive: true });
+    }
+    store = new ProjectStore({ metaDir: path.join(OUTPUT_DIR, 'meta') });
+    publishStore = new YouTubePublishStore(path.join(TEST_DIR, 'publish.json'));
+    jobs = [];
+    catalog = new ProjectCatalog(store, publishStore, { list: async () => jobs }, OUTPUT_DIR);
+
+    await createProject('what-if-1000', 'what-if', 'Two moons', '2024-01-01T00:00:00.000Z');
+    await createProject('human-odyssey-2000', 'human-odyssey', 'First fire', '2024-01-02T00:00:00.000Z');
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should list projects with their manifest channel, artifacts and disk usage', async () => {
+    const page = await catalog.list();
+
+    expect(page.total).toBe(2);
+    expect(page.items.map((p) => p.projectId)).toEqual(['human-odyssey-2000', 'what-if-1000']);
+    const [odyssey] = page.items;
+    expect(odyssey.channelId).toBe('human-odyssey');
+    expect(odyssey.title).toBe('First fire (title)');
+    expect(odyssey.artifacts.audio).toBe('/output/audio/human-odyssey-2000.mp3');
+    expect(odyssey.artifacts.video).toBeNull();
+    expect(odyssey.diskUsageBytes).toBeGreaterThan(100);
+  });
+
+  it('should filter, search and paginate', async () => {
+    expect((await catalog.list({ channelId: 'what-if' })).items.map((p) => p.projectId)).toEqual(['what-if-1000']);
+    expect((await catalog.list({ q: 'FIRE' })).total).toBe(1);
+    expect((await catalog.list({ status: 'complete' })).total).toBe(0);
+
+    const second = await catalog.list({ page: 2, pageSize: 1 });
+    expect(second.total).toBe(2);
+    expect(second.items.map((p) => p.projectId)).toEqual(['what-if-1000']);
+  });
+
+  it('should report the latest publish job and any active generation job', async () => {
+    await publishStore.upsert({
+      id: 'pub-1',
+      status: 'done',
+      progress: 100,
+      createdAt: '2024-01-03T00:00:00.000Z',
+      updatedAt: '2024-01-03T00:00:00.000Z',
+      videoPath: path.resolve(OUTPUT_DIR, 'videos', 'what-if-1000.mp4'),
+      request: { title: 't', description: 'd', tags: [], categoryId: '22', privacyStatus: 'unlisted' },
+      videoId: 'abc',
+      videoUrl: 'https://www.youtube.com/watch?v=abc'
+    });
+    jobs = [{ id: 'job-1', projectId: 'what-if-1000', status: 'running' } as GenerationJob];
+
+    const project = await catalog.get('what-if-1000');
+    expect(project?.publish).toMatchObject({ jobId: 'pub-1', status: 'done', videoId: 'abc' });
+    expect(project?.activeJobId).toBe('job-1');
+  });
+
+  it('should delete project artifacts and keep other files', async () => {
+    await writeFile(path.join(OUTPUT_DIR, 'videos', 'what-if-1000.mp4'), 'video');
+    await writeFile(path.join(OUTPUT_DIR, 'videos', 'what-if-10001.mp4'), 'other project');
+    await mkdir(path.join(TEST_DIR, 'assets'), { recursive: true });
+    const libraryAsset = path.join(TEST_DIR, 'assets', 'what-if-1000.jpg');
+    await writeFile(libraryAsset, 'library');
+
+    const result = await catalog.delete('what-if-1000');
+
+    expect(result?.deletedFiles).toHaveLength(4);
+    expect(result?.deletedFiles.at(-1)).toBe('/output/meta/what-if-1000.json');
+    expect(await store.get('what-if-1000')).toBeNull();
+    expect(existsSync(path.join(OUTPUT_DIR, 'videos', 'what-if-1000.mp4'))).toBe(false);
+    expect(existsSync(path.join(OUTPUT_DIR, 'videos', 'what-if-10001.mp4'))).toBe(true);
+    expect(existsSync(libraryAsset)).toBe(true);
+    expect(await catalog.delete('what-if-1000')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { retimeAssets } from '../services/project-localizer.js';
+import { Asset } from '../types/index.js';
+import { NarrationTiming } from '../types/timeline.js';
+
+const asset = (name: string, duration: number): Asset => ({ type: 'image', url: name, localPath: `/tmp/${name}.jpg`, duration });
+const timing = (...parts: Array<[string, number]>): NarrationTiming => {
+  let startSeconds = 0;
+  return parts.map(([key, durationSeconds]) => {
+    const entry = { key, startSeconds, durationSeconds };
+    startSeconds += durationSeconds;
+    return entry;
+  });
+};
+
+describe('retimeAssets', () => {
+  it('should keep each shot within its narration segment when segments change length differently', () => {
+    // Two segments: 0–10s and 10–20s. Translated: first segment doubles, second stays.
+    const assets = [asset('a', 5), asset('b', 5), asset('c', 5), asset('d', 5)];
+
+    const retimed = retimeAssets(assets, timing(['hook', 10], ['conclusion', 10]), 20, timing(['hook', 20], ['conclusion', 10]), 30);
+
+    expect(retimed.map((a) => a.duration)).toEqual([10, 10, 5, 5]);
+    expect(retimed.reduce((sum, a) => sum + (a.duration || 0), 0)).toBe(30);
+  });
+
+  it('should follow the measured source timing rather than an even speaking rate', () => {
+    // Same word counts, but the hook was spoken slowly: 0–15s, then 15–20s.
+    const assets = [asset('a', 15), asset('b', 5)];
+
+    const retimed = retimeAssets(assets, timing(['hook', 15], ['conclusion', 5]), 20, timing(['hook', 10], ['conclusion', 10]), 20);
+
+    expect(retimed.map((a) => a.duration)).toEqual([10, 10]);
+  });
+
+  it('should stretch uniformly when the segments do not line up and drop unusable assets', () => {
+    const assets = [asset('a', 4), { type: 'video', url: 'missing' } as Asset, asset('b', 6)];
+
+    const retimed = retimeAssets(assets, timing(['hook', 10]), 10, timing(['hook', 7.5], ['conclusion', 7.5]), 15);
+
+    expect(retimed.map((a) => [a.url, a.duration])).toEqual([['a', 6], ['b', 9]]);
+  });
+});
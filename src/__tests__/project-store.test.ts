@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { ProjectStore } from '../services/project-store.js';
+import { PROJECT_MANIFEST_VERSION } from '../schemas/project-manifest.js';
+
+const TEST_DIR = './test-project-store';
+
+describe('ProjectStore', () => {
+  let store: ProjectStore;
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    store = new ProjectStore({ metaDir: TEST_DIR });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should migrate and persist an unversioned (v1) manifest', async () => {
+    await writeFile(path.join(TEST_DIR, 'what-if-1700000000000.json'), JSON.stringify({
+      projectId: 'what-if-1700000000000',
+      channelId: 'what-if',
+      topic: 'Two moons',
+      scriptPath: './output/scripts/what-if-1700000000000.json',
+      audioPath: './output/audio/what-if-1700000000000.mp3',
+      audioDurationSeconds: null,
+      forceImagesOnly: true,
+      minClipsRequested: 3,
+      completedStages: ['script', 'audio'],
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    }));
+
+    const manifest = await store.get('what-if-1700000000000');
+
+    expect(manifest?.schemaVersion).toBe(PROJECT_MANIFEST_VERSION);
+    expect(manifest?.visualOverrides).toEqual({ forceImagesOnly: true, minClipsRequested: 3 });
+    expect(manifest?.audioDurationSeconds).toBeUndefined();
+    expect(manifest?.status).toBe('failed');
+
+    const onDisk = JSON.parse(await readFile(path.join(TEST_DIR, 'what-if-1700000000000.json'), 'utf-8'));
+    expect(onDisk.schemaVersion).toBe(PROJECT_MANIFEST_VERSION);
+    expect(onDisk.forceImagesOnly).toBeUndefined();
+  });
+
+  it('should not let a migrating read overwrite a concurrent update', async () => {
+    await writeFile(path.join(TEST_DIR, 'what-if-1700000000000.json'), JSON.stringify({
+      projectId: 'what-if-1700000000000',
+      channelId: 'what-if',
+      topic: 'Two moons',
+      scriptPath: './output/scripts/what-if-1700000000000.json',
+      audioPath: './output/audio/what-if-1700000000000.mp3',
+      completedStages: ['script']
+    }));
+
+    await Promise.all([
+      store.get('what-if-1700000000000'),
+      store.update('what-if-1700000000000', (m) => ({ ...m, completedStages: ['script', 'audio'] })),
+      store.get('what-if-1700000000000')
+    ]);
+
+    const onDisk = JSON.parse(await readFile(path.join(TEST_DIR, 'what-if-1700000000000.json'), 'utf-8'));
+    expect(onDisk.completedStages).toEqual(['script', 'audio']);
+  });
+
+  it('should serialize concurrent updates and bump updatedAt', async () => {
+    const created = await store.save(store.newManifest({
+      projectId: 'what-if-1',
+      channelId: 'what-if',
+      topic: 'Two moons',
+      mode: 'full',
+      scriptPath: './output/scripts/what-if-1.json',
+      audioPath: './output/audio/what-if-1.mp3'
+    }));
+
+    await Promise.all([
+      store.update('what-if-1', (m) => ({ ...m, completedStages: [...m.completedStages, 'script'] })),
+      store.update('what-if-1', (m) => ({ ...m, completedStages: [...m.completedStages, 'audio'] }))
+    ]);
+
+    const manifest = await store.get('what-if-1');
+    expect(manifest?.completedStages).toEqual(['script', 'audio']);
+    expect(manifest!.updatedAt >= created.updatedAt).toBe(true);
+  });
+
+  it('should reject invalid manifests, newer versions and unsafe ids', async () => {
+    await writeFile(path.join(TEST_DIR, 'bad-1.json'), JSON.stringify({ schemaVersion: 2, projectId: 'bad-1' }));
+    await writeFile(path.join(TEST_DIR, 'future-1.json'), JSON.stringify({ schemaVersion: 99, projectId: 'future-1' }));
+
+    await expect(store.get('bad-1')).rejects.toThrow('Invalid manifest');
+    await expect(store.get('future-1')).rejects.toThrow('Unsupported manifest schemaVersion 99');
+    await expect(store.get('../secrets')).rejects.toThrow('Invalid projectId');
+    expect(await store.get('missing-1')).toBeNull();
+  });
+});
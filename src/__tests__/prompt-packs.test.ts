@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { cp, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { channels } from '../config/channels.js';
+import { getPromptPack, renderPrompt } from '../config/prompt-packs.js';
+
+describe('getPromptPack', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    await cp('./prompts', dir, { recursive: true });
+    const v1 = JSON.parse(await readFile('./prompts/what-if/v1.json', 'utf-8'));
+    await writeFile(path.join(dir, 'what-if', 'v2.json'), JSON.stringify({ ...v1, description: 'Second take' }));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should ship a valid pack for every built-in channel', () => {
+    for (const channel of Object.values(channels)) {
+      expect(getPromptPack(channel)).toMatchObject({ id: channel.id, version: 1 });
+    }
+  });
+
+  it('should pick the latest version unless the channel pins one', () => {
+    const channel = channels['what-if'];
+
+    expect(getPromptPack(channel, dir)).toMatchObject({ id: 'what-if', version: 2, description: 'Second take' });
+    expect(getPromptPack({ ...channel, promptPack: { version: 1 } }, dir).version).toBe(1);
+    expect(() => getPromptPack({ ...channel, promptPack: { version: 7 } }, dir)).toThrow('Prompt pack what-if has no version 7');
+  });
+
+  it('should fall back to the default pack for channels without one', () => {
+    expect(getPromptPack({ id: 'deep-sea' }, dir)).toMatchObject({ id: 'default', version: 1 });
+    expect(getPromptPack({ id: 'deep-sea', promptPack: { id: 'human-odyssey' } }, dir).id).toBe('human-odyssey');
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should fill the variables and reject unknown ones', () => {
+    expect(renderPrompt('A script for "{{channelName}}" about {{ topic }}.', { channelName: 'What If...', topic: 'two moons' }))
+      .toBe('A script for "What If..." about two moons.');
+    expect(() => renderPrompt('{{chapterCount}} chapters', { channelName: 'What If...' })).toThrow('Unknown prompt variable {{chapterCount}}');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createProviders, FakeScriptGenerator, FakeUploadServer, FakeYouTubeUploader, getProviderMode } from '../providers/index.js';
+import { channels } from '../config/channels.js';
+
+const TEST_DIR = './test-providers';
+
+describe('providers', () => {
+  const originalProviders = process.env.PROVIDERS;
+
+  afterEach(() => {
+    if (originalProviders === undefined) delete process.env.PROVIDERS;
+    else process.env.PROVIDERS = originalProviders;
+  });
+
+  it('should select fake providers from PROVIDERS=fake', () => {
+    process.env.PROVIDERS = 'fake';
+    const providers = createProviders();
+    expect(providers.mode).toBe('fake');
+    expect(providers.youtubeUploader).toBeInstanceOf(FakeYouTubeUploader);
+  });
+
+  it('should reject an unknown PROVIDERS value', () => {
+    process.env.PROVIDERS = 'mock';
+    expect(() => getProviderMode()).toThrow('Invalid PROVIDERS value');
+  });
+});
+
+describe('FakeScriptGenerator', () => {
+  it('should return the same script for the same topic, sized to the target word count', async () => {
+    const generator = new FakeScriptGenerator();
+    const channel = channels['what-if'];
+    const options = { targetWordCount: { min: 1500, max: 1800 } };
+
+    const first = await generator.generateScript(channel, 'Earth with two moons', options);
+    const second = await generator.generateScript(channel, 'Earth with two moons', options);
+
+    expect(second).toEqual(first);
+    const words = [first.hook, ...first.sections.map((s) => s.narration), first.conclusion]
+      .join(' ')
+      .split(/\s+/).length;
+    expect(words).toBeGreaterThanOrEqual(1500);
+    expect(words).toBeLessThanOrEqual(1800);
+    expect(first.duration).toBeGreaterThanOrEqual(9 * 60);
+  });
+});
+
+describe('FakeYouTubeUploader', () => {
+  const originalChunk = process.env.YOUTUBE_UPLOAD_CHUNK_MB;
+  const videoPath = path.join(TEST_DIR, 'video.mp4');
+  let server: FakeUploadServer;
+
+  beforeEach(async () => {
+    process.env.YOUTUBE_UPLOAD_CHUNK_MB = '1';
+    await mkdir(TEST_DIR, { recursive: true });
+    // 2.5 MB => three chunks of 1 MB
+    await writeFile(videoPath, crypto.randomBytes(2.5 * 1024 * 1024));
+  });
+
+  afterEach(async () => {
+    if (originalChunk === undefined) delete process.env.YOUTUBE_UPLOAD_CHUNK_MB;
+    else process.env.YOUTUBE_UPLOAD_CHUNK_MB = originalChunk;
+    await server?.stop();
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should upload in chunks through the resumable protocol and retry transient failures', async () => {
+    server = new FakeUploadServer({ failFirstChunks: 1 });
+    const uploader = new FakeYouTubeUploader(server);
+    const progress: number[] = [];
+
+    const result = await uploader.uploadVideoResumable(
+      videoPath,
+      { title: 'Fake upload', description: 'Offline', tags: ['test'], category: '27', privacy: 'private' },
+      'http://localhost/callback',
+      (pct) => progress.push(pct)
+    );
+
+    const upload = server.getUpload(result.videoId);
+    const expected = crypto.createHash('sha256').update(await readFile(videoPath)).digest('hex');
+    expect(result.videoUrl).toBe(`https://www.youtube.com/watch?v=${result.videoId}`);
+    expect(upload?.metadata.snippet?.title).toBe('Fake upload');
+    expect(upload?.receivedBytes).toBe(2.5 * 1024 * 1024);
+    expect(upload?.sha256).toBe(expected);
+    expect(progress.at(-1)).toBe(100);
+  });
+
+  it('should refuse a thumbnail that is missing or over 2 MB', async () => {
+    server = new FakeUploadServer();
+    const uploader = new FakeYouTubeUploader(server);
+    const thumbnailPath = path.join(TEST_DIR, 'thumb.jpg');
+    await writeFile(thumbnailPath, crypto.randomBytes(2.1 * 1024 * 1024));
+
+    await expect(uploader.setThumbnail('abc', path.join(TEST_DIR, 'none.jpg'), 'http://localhost/callback'))
+      .rejects.toThrow('Thumbnail file not found');
+    await expect(uploader.setThumbnail('abc', thumbnailPath, 'http://localhost/callback'))
+      .rejects.toThrow('larger than 2 MB');
+
+    await writeFile(thumbnailPath, crypto.randomBytes(1024));
+    await expect(uploader.setThumbnail('abc', thumbnailPath, 'http://localhost/callback')).resolves.toBeUndefined();
+  });
+});
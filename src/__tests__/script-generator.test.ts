@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { channels } from '../config/channels.js';
+import { FakeScriptGenerator } from '../providers/index.js';
+import { enhancedScriptSchema } from '../schemas/script.js';
+import { LlmClient } from '../services/llm-client.js';
+import { ScriptGenerator } from '../services/script-generator.js';
+import { LlmProvider, LlmRequest, LlmResponse } from '../types/llm.js';
+
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly supportsJsonMode = true;
+  requests: LlmRequest[] = [];
+
+  constructor(private answers: string[]) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(request);
+    return { content: this.answers.shift() || '', model: request.model, inputTokens: 100, outputTokens: 50 };
+  }
+}
+
+const channel = channels['what-if'];
+
+const section = (overrides: Record<string, unknown> = {}) => ({
+  narration: 'The Moon would pull the tides twice as hard.',
+  visualType: 'image',
+  searchQuery: 'ocean tide waves',
+  duration: 60,
+  transition: 'fade',
+  ...overrides
+});
+
+const answer = (sections: unknown[]) =>
+  JSON.stringify({ title: 'Two Moons', hook: 'Imagine two moons.', sections, conclusion: 'One is enough.' });
+
+beforeEach(() => {
+  delete process.env.LLM_PROVIDER;
+});
+
+describe('ScriptGenerator', () => {
+  it('should send validation errors back and keep the repaired script', async () => {
+    const provider = new ScriptedProvider([
+      answer([section({ transition: 'dip_to_black' }), section({ narration: ' ', contentType: 'twist' })]),
+      answer([section({ contentType: 'hook', act: 1 }), section({ transition: 'zoom' })])
+    ]);
+    const operations: string[] = [];
+    const generator = new ScriptGenerator(new LlmClient({ openai: provider }));
+
+    const script = await generator.generateScript(channel, 'Earth with two moons', {
+      onUsage: (event) => { operations.push(event.operation); }
+    });
+
+    expect(operations).toEqual(['script', 'script-repair']);
+    const repair = provider.requests[1].messages.at(-1)!.content;
+    expect(repair).toContain("sections.0.transition: Invalid enum value. Expected 'fade' | 'dissolve' | 'zoom', received 'dip_to_black'");
+    expect(repair).toContain('sections.1.narration: Narration is empty');
+    expect(repair).toContain('sections.1.contentType');
+    expect(script.duration).toBe(120);
+    expect(script.prompt).toEqual({ id: 'what-if', version: 1 });
+    expect(script.sections.map((s) => [s.transition, s.contentType, s.act])).toEqual([['fade', 'hook', 1], ['zoom', 'conclusion', 2]]);
+  });
+
+  it('should fail with the last validation report after the allowed attempts', async () => {
+    const provider = new ScriptedProvider(['not json', answer([section({ visualType: 'gif' })])]);
+    const generator = new ScriptGenerator(new LlmClient({ openai: provider }));
+
+    await expect(generator.generateScript(channel, 'Earth with two moons', { maxParseAttempts: 2 })).rejects.toThrow(
+      /after 2 attempt\(s\):\n- sections\.0\.visualType: Invalid enum value/
+    );
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should size rewritten sections with the channel speaking rate', async () => {
+    const provider = new ScriptedProvider([JSON.stringify({ segments: [{ segment: 'section-2', narration: 'Tides would double.' }] })]);
+    const generator = new ScriptGenerator(new LlmClient({ openai: provider }));
+    const slowChannel = { ...channel, durationContract: { ...channel.durationContract, wordsPerMinute: 120 } };
+    const script = JSON.parse(answer([section(), section({ duration: 30 })]));
+
+    const revised = await generator.reviseScript(slowChannel, script, [{ segment: 'section-2', message: 'Stock line' }]);
+
+    const prompt = provider.requests[0].messages.at(-1)!.content;
+    expect(prompt).toContain('(120 words per minute of screen time)');
+    expect(prompt).toContain('"targetWords": 60');
+    expect(revised.sections[1].narration).toBe('Tides would double.');
+  });
+
+  it('should accept the scripts of the offline generator', async () => {
+    const script = await new FakeScriptGenerator().generateScript(channel, 'the Moon');
+
+    expect(enhancedScriptSchema.safeParse(script).success).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { channels } from '../config/channels.js';
+import { FakeScriptGenerator } from '../providers/index.js';
+import { EnhancedVideoScript } from '../services/script-generator.js';
+import { ScriptLinter, blockingSegments } from '../services/script-linter.js';
+import { Channel } from '../types/index.js';
+
+const channel: Channel = { ...channels['what-if'], scriptRules: { bannedWords: ['delve'] } };
+const linter = new ScriptLinter();
+
+async function cannedScript(): Promise<EnhancedVideoScript> {
+  return new FakeScriptGenerator().generateScript(channel, 'the Moon', { targetWordCount: { min: 1500, max: 1800 } });
+}
+
+describe('ScriptLinter', () => {
+  it('should pass a canned script with warnings only', async () => {
+    const report = linter.lint(channel, await cannedScript());
+
+    expect(report.ok).toBe(true);
+    expect(report.issues.every((i) => i.severity === 'warning')).toBe(true);
+    expect(report.wordCount).toBeGreaterThan(1400);
+  });
+
+  it('should block the segments that break the rules', async () => {
+    const script = await cannedScript();
+    script.hook = 'Let us delve into the Moon.';
+    script.sections[1] = { ...script.sections[1], narration: 'Too short. But wait... there\'s more to this story.', searchQuery: '' };
+    script.sections[2] = { ...script.sections[2], narration: `${script.sections[2].narration} But wait... there's more to this story.` };
+
+    const report = linter.lint(channel, script);
+
+    expect(report.ok).toBe(false);
+    expect(report.issues.filter((i) => i.severity === 'error').map((i) => `${i.check}:${i.segment}`)).toEqual([
+      'pace:section-2',
+      'banned-word:hook',
+      'hook-pattern:section-3',
+      'search-query:section-2'
+    ]);
+    expect(blockingSegments(report)).toEqual(['section-2', 'hook', 'section-3']);
+  });
+
+  it('should warn when the acts are out of balance with threeActStructure', async () => {
+    const script = await cannedScript();
+    script.threeActStructure = { act1End: 5, act2End: 6, climaxSection: 6 };
+
+    const messages = linter.lint(channel, script).issues.filter((i) => i.check === 'act-balance').map((i) => i.message);
+
+    expect(messages[0]).toMatch(/^Act 1 holds \d+% of the words \(target 25%\)$/);
+    expect(messages.at(-1)).toContain('Act labels disagree with threeActStructure');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { excerptScript, pickShortWindows, selectAssetsForWindow } from '../services/shorts-generator.js';
+import { EnhancedVideoScript } from '../services/script-generator.js';
+import { Asset } from '../types/index.js';
+import { timingFromDurations } from '../utils/narration.js';
+
+function section(narration: string, duration: number) {
+  return {
+    narration,
+    visualType: 'image' as const,
+    searchQuery: 'space',
+    duration,
+    transition: 'fade' as const,
+    contentType: 'exposition' as const,
+    emotionalTone: 'curiosity' as const,
+    act: 1 as const
+  };
+}
+
+// Planned for 600s, narrated in 300s: arc timestamps are rescaled by half.
+const script = {
+  title: 'Two moons',
+  hook: 'one two three four five six seven eight nine ten',
+  sections: [
+    section('a '.repeat(40), 200),
+    section('b '.repeat(40), 200),
+    section('c '.repeat(40), 200)
+  ],
+  conclusion: 'end '.repeat(10),
+  duration: 300,
+  microHooks: [],
+  emotionalArc: [
+    { timestamp: 0, intensity: 3, tone: 'curiosity' },
+    { timestamp: 300, intensity: 3, tone: 'wonder' },
+    { timestamp: 400, intensity: 10, tone: 'tension' },
+    { timestamp: 600, intensity: 2, tone: 'resolution' }
+  ],
+  threeActStructure: { act1End: 0, act2End: 1, climaxSection: 2 }
+} as EnhancedVideoScript;
+
+/** Word-count timing of `script` (10 + 3×40 + 10 words) over `audioDuration`. */
+const evenTiming = (audioDuration: number) => timingFromDurations([
+  { key: 'hook', durationSeconds: 10 },
+  { key: 'section-1', durationSeconds: 40 },
+  { key: 'section-2', durationSeconds: 40 },
+  { key: 'section-3', durationSeconds: 40 },
+  { key: 'conclusion', durationSeconds: 10 }
+], audioDuration);
+
+describe('pickShortWindows', () => {
+  it('should pick the most intense window, rescaled to the real audio', () => {
+    const [best] = pickShortWindows(script, 300, evenTiming(300));
+
+    expect(best.durationSeconds).toBe(58);
+    expect(best.startSeconds).toBeGreaterThanOrEqual(150);
+    expect(best.startSeconds).toBeLessThanOrEqual(200);
+    expect(best.intensity).toBeGreaterThan(6);
+  });
+
+  it('should return non-overlapping windows, best first, within 60s', () => {
+    const windows = pickShortWindows(script, 300, evenTiming(300), { count: 3, maxSeconds: 90 });
+
+    expect(windows).toHaveLength(3);
+    expect(windows.every((w) => w.durationSeconds === 60)).toBe(true);
+    expect(windows[0].intensity).toBeGreaterThanOrEqual(windows[1].intensity);
+    const sorted = [...windows].sort((a, b) => a.startSeconds - b.startSeconds);
+    for (let i = 1; i < sorted.length; i++) {
+      expect(sorted[i].startSeconds).toBeGreaterThanOrEqual(sorted[i - 1].startSeconds + 60);
+    }
+  });
+
+  it('should fall back to the hook without an emotional arc', () => {
+    const [window] = pickShortWindows({ ...script, emotionalArc: [] } as EnhancedVideoScript, 40, evenTiming(40));
+    expect(window).toMatchObject({ startSeconds: 0, durationSeconds: 40, intensity: 5 });
+  });
+
+  it('should start windows where the measured narration blocks start', () => {
+    // A flat arc scores every start alike: each window opens on a block start, none in between.
+    const flat = { ...script, emotionalArc: [], hook: '' } as EnhancedVideoScript;
+    const measured = [
+      { key: 'hook', startSeconds: 0, durationSeconds: 0 },
+      { key: 'section-1', startSeconds: 0, durationSeconds: 37 },
+      { key: 'section-2', startSeconds: 37, durationSeconds: 100 },
+      { key: 'section-3', startSeconds: 137, durationSeconds: 100 },
+      { key: 'conclusion', startSeconds: 237, durationSeconds: 63 }
+    ];
+
+    const windows = pickShortWindows(flat, 300, measured, { count: 5, maxSeconds: 30 });
+
+    expect(windows.map((w) => w.startSeconds)).toEqual([0, 37, 137, 237]);
+  });
+});
+
+describe('selectAssetsForWindow', () => {
+  const asset = (name: string, duration: number): Asset => ({ type: 'image', url: name, localPath: `/tmp/${name}.jpg`, duration });
+
+  it('should keep the assets on screen during the window, trimmed to it', () => {
+    const assets = [asset('a', 10), { type: 'image', url: 'missing' } as Asset, asset('b', 10), asset('c', 10)];
+
+    const selected = selectAssetsForWindow(assets, 40, { startSeconds: 5, durationSeconds: 30, intensity: 5 });
+
+    expect(selected.map((a) => [a.url, a.duration])).toEqual([['a', 5], ['b', 10], ['c', 15]]);
+  });
+});
+
+describe('excerptScript', () => {
+  it('should keep the narration spoken during the window', () => {
+    const short = excerptScript(script, evenTiming(300), { startSeconds: 0, durationSeconds: 20, intensity: 3 });
+
+    expect(short.title).toBe('Two moons #Shorts');
+    expect(short.duration).toBe(20);
+    expect(short.sections[0].narration.startsWith('one two three')).toBe(true);
+    expect(short.sections[0].narration.split(' ')).toHaveLength(10);
+  });
+
+  it('should follow the measured narration timing rather than an even speaking rate', () => {
+    // The hook was spoken slowly: its 10 words fill the first 40s.
+    const measured = [
+      { key: 'hook', startSeconds: 0, durationSeconds: 40 },
+      { key: 'section-1', startSeconds: 40, durationSeconds: 80 },
+      { key: 'section-2', startSeconds: 120, durationSeconds: 80 },
+      { key: 'section-3', startSeconds: 200, durationSeconds: 80 },
+      { key: 'conclusion', startSeconds: 280, durationSeconds: 20 }
+    ];
+
+    const short = excerptScript(script, measured, { startSeconds: 0, durationSeconds: 20, intensity: 3 });
+
+    expect(short.sections[0].narration).toBe('one two three four five');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { buildCues, formatSrt, formatVtt } from '../services/subtitle-generator.js';
+import { alignWordsToSpeech, wordsFromCharacterAlignment, wordsFromCueFile } from '../utils/word-timings.js';
+import { WordTiming } from '../types/subtitles.js';
+
+const timed = (text: string, start = 0, step = 0.4): WordTiming[] =>
+  text.split(' ').map((word, idx) => ({ word, startSeconds: start + idx * step, endSeconds: start + (idx + 1) * step }));
+
+describe('buildCues', () => {
+  it('should split cues at sentence ends and keep lines readable', () => {
+    const words = timed('What if the Moon vanished tonight? The tides would collapse within hours and coastal ecosystems would start to fail.');
+
+    const cues = buildCues(words, { maxCharsPerLine: 32 });
+
+    expect(cues[0].lines).toEqual(['What if the Moon vanished', 'tonight?']);
+    expect(cues.every((c) => c.lines.length <= 2 && c.lines.every((l) => l.length <= 32))).toBe(true);
+    expect(cues.flatMap((c) => c.lines).join(' ')).toBe(words.map((w) => w.word).join(' '));
+    expect(cues[1].startSeconds).toBeCloseTo(cues[0].endSeconds, 5);
+  });
+
+  it('should start a new cue after a pause and cap the cue length', () => {
+    const words = [...timed('Silence falls', 0), ...timed('and then nothing at all remains here for anyone', 3, 1)];
+
+    const cues = buildCues(words, { maxCueSeconds: 4 });
+
+    expect(cues[0].lines).toEqual(['Silence falls']);
+    expect(cues.slice(1).every((c) => c.endSeconds - c.startSeconds <= 4)).toBe(true);
+  });
+});
+
+describe('subtitle formats', () => {
+  const cues = [{ startSeconds: 61.5, endSeconds: 63.25, lines: ['Hello', 'world'] }];
+
+  it('should write SRT and WebVTT timestamps', () => {
+    expect(formatSrt(cues)).toBe('1\n00:01:01,500 --> 00:01:03,250\nHello\nworld\n');
+    expect(formatVtt(cues)).toBe('WEBVTT\n\n00:01:01.500 --> 00:01:03.250\nHello\nworld\n');
+  });
+});
+
+describe('word timings', () => {
+  it('should group ElevenLabs character timings into words', () => {
+    const words = wordsFromCharacterAlignment({
+      characters: ['H', 'i', ' ', 'y', 'o', 'u'],
+      character_start_times_seconds: [0, 0.1, 0.2, 0.3, 0.4, 0.5],
+      character_end_times_seconds: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6]
+    });
+
+    expect(words).toEqual([
+      { word: 'Hi', startSeconds: 0, endSeconds: 0.2 },
+      { word: 'you', startSeconds: 0.3, endSeconds: 0.6 }
+    ]);
+  });
+
+  it('should read Edge TTS cues, spreading sentence cues over their words', () => {
+    const vtt = 'WEBVTT\n\n00:00:00.100 --> 00:00:00.500\nHello\n\n00:00:01.000 --> 00:00:02.000\nab abc\n';
+
+    const words = wordsFromCueFile(vtt);
+
+    expect(words.map((w) => w.word)).toEqual(['Hello', 'ab', 'abc']);
+    expect(words[0]).toMatchObject({ startSeconds: 0.1, endSeconds: 0.5 });
+    expect(words[1].endSeconds).toBeCloseTo(1.4, 5);
+    expect(words[2].endSeconds).toBeCloseTo(2, 5);
+  });
+
+  it('should align words to speech regions without straddling a pause', () => {
+    const words = alignWordsToSpeech('one two three four', [
+      { startSeconds: 0, endSeconds: 2 },
+      { startSeconds: 3, endSeconds: 5 }
+    ]);
+
+    expect(words.map((w) => w.word)).toEqual(['one', 'two', 'three', 'four']);
+    expect(words.every((w) => w.endSeconds <= 2 || w.startSeconds >= 3)).toBe(true);
+    expect(words[words.length - 1].endSeconds).toBe(5);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { scoreFrameStats, wrapThumbnailText } from '../services/thumbnail-generator.js';
+
+describe('thumbnail frames', () => {
+  it('should prefer vivid, contrasted, mid-brightness frames', () => {
+    const strong = scoreFrameStats({ brightness: 115, contrast: 210, saturation: 90 });
+    const dark = scoreFrameStats({ brightness: 20, contrast: 60, saturation: 15 });
+    const washedOut = scoreFrameStats({ brightness: 240, contrast: 40, saturation: 10 });
+
+    expect(strong).toBe(1);
+    expect(dark).toBeLessThan(strong);
+    expect(washedOut).toBeLessThan(dark);
+  });
+});
+
+describe('wrapThumbnailText', () => {
+  it('should wrap words and keep to the line limit with an ellipsis', () => {
+    expect(wrapThumbnailText('What if the Moon vanished', 12, 3)).toEqual(['What if the', 'Moon', 'vanished']);
+    expect(wrapThumbnailText('What if the Moon vanished tonight, forever?', 12, 2)).toEqual(['What if the', 'Moon…']);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { TimelinePlanner, spliceReusedBeats } from '../services/timeline-planner.js';
+import { AssetLibrary } from '../services/asset-library.js';
+import { channels } from '../config/channels.js';
+import { Asset, VideoScript, VisualRequest } from '../types/index.js';
+import { narrationSegments, timingFromDurations } from '../utils/narration.js';
+
+const TEST_DIR = './test-timeline-planner';
+
+const script: VideoScript = {
+  title: 'Two Moons',
+  hook: 'What if Earth had a second moon tonight?',
+  sections: [
+    {
+      narration: 'The tides would change first, and coastal cities would notice within days. '.repeat(12),
+      visualType: 'image',
+      searchQuery: 'mysterious landscape',
+      duration: 60,
+      transition: 'fade'
+    },
+    {
+      narration: 'Then the nights would never be dark again, and animals would have to adapt. '.repeat(12),
+      visualType: 'video',
+      searchQuery: 'night sky moon',
+      duration: 60,
+      transition: 'dissolve'
+    }
+  ],
+  conclusion: 'One extra moon would rewrite life on Earth.',
+  duration: 150
+};
+
+describe('TimelinePlanner', () => {
+  const channel = channels['what-if'];
+
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should plan contiguous beats covering the whole narration', async () => {
+    const library = new AssetLibrary({ indexPath: path.join(TEST_DIR, 'library.json'), preferLocalAssets: false });
+    const plan = await new TimelinePlanner(library).plan(channel, 'Two moons', script, 150);
+
+    expect(plan.summary.beatCount).toBe(plan.beats.length);
+    expect(plan.beats[0].startSeconds).toBe(0);
+    const total = plan.beats.reduce((sum, b) => sum + b.durationSeconds, 0);
+    expect(total).toBeCloseTo(150, 1);
+    for (const beat of plan.beats) {
+      expect(beat.searchQuery).toBeTruthy();
+      expect(beat.renderSeconds).toBeGreaterThan(0);
+      expect(beat.library.hit).toBe(false);
+    }
+  });
+
+  it('should match the requests the pipeline collects', async () => {
+    const library = new AssetLibrary({ indexPath: path.join(TEST_DIR, 'library.json'), preferLocalAssets: false });
+    const planner = new TimelinePlanner(library);
+    const plan = await planner.plan(channel, 'Two moons', script, 150, { forceImagesOnly: true });
+    const requests = planner.buildRequests(channel, 'Two moons', script, 150, { forceImagesOnly: true });
+
+    expect(plan.beats.map((b) => b.searchQuery)).toEqual(requests.map((r) => r.searchQuery));
+    expect(plan.summary.videos).toBe(0);
+  });
+
+  it('should predict library hits without reusing an asset twice', async () => {
+    const imagePath = path.join(TEST_DIR, 'landscape.jpg');
+    await writeFile(imagePath, 'jpg');
+    await writeFile(path.join(TEST_DIR, 'library.json'), JSON.stringify({
+      version: 1,
+      entries: [{
+        id: 'lib-1',
+        localPath: imagePath,
+        type: 'image',
+        source: 'pexels',
+        searchQuery: 'mysterious landscape',
+        tags: ['mysterious', 'landscape'],
+        createdAt: new Date().toISOString()
+      }]
+    }));
+
+    const library = new AssetLibrary({ indexPath: path.join(TEST_DIR, 'library.json'), preferLocalAssets: true });
+    const plan = await new TimelinePlanner(library).plan(channel, 'Two moons', script, 150, { forceImagesOnly: true });
+
+    const hits = plan.beats.filter((b) => b.library.hit);
+    expect(plan.summary.libraryHits).toBe(1);
+    expect(hits[0].library.libraryId).toBe('lib-1');
+    expect(hits[0].searchQuery).toContain('mysterious landscape');
+  });
+});
+
+describe('TimelinePlanner timing map', () => {
+  const channel = channels['what-if'];
+
+  it('should give each segment the seconds it is actually spoken', () => {
+    // Section 1 is read slowly: 60s instead of its word-count share.
+    const parts = narrationSegments(channel, script).map((s) => ({
+      key: s.key,
+      durationSeconds: s.key === 'section-1' ? 60 : 10
+    }));
+    const timing = timingFromDurations(parts, 130);
+
+    const requests = new TimelinePlanner().buildRequests(channel, 'Two moons', script, 130, {}, timing);
+    const secondsOf = (segment: string) => requests
+      .filter((r) => r.label?.startsWith(`${segment}-beat-`))
+      .reduce((sum, r) => sum + r.durationSeconds, 0);
+
+    expect(secondsOf('section-1')).toBeCloseTo(60, 1);
+    expect(secondsOf('soft-cta')).toBeCloseTo(10, 1);
+    expect(secondsOf('section-2')).toBeCloseTo(10, 1);
+  });
+});
+
+describe('spliceReusedBeats', () => {
+  const beat = (label: string, durationSeconds: number): VisualRequest => ({
+    label,
+    durationSeconds,
+    searchQuery: label,
+    preferredType: 'image'
+  });
+  const asset = (name: string): Asset => ({ type: 'image', url: name, localPath: `/tmp/${name}.jpg` });
+
+  it('should keep the shots of unchanged segments, stretched to their new length', () => {
+    const previous = [beat('hook-beat-1', 6), beat('section-1-beat-1', 6), beat('section-1-beat-2', 6), beat('section-2-beat-1', 6)];
+    const assets = [asset('h'), asset('s1a'), asset('s1b'), asset('s2')];
+    const next = [beat('hook-beat-1', 7), beat('section-1-beat-1', 7), beat('section-1-beat-2', 7), beat('section-2-beat-1', 9)];
+
+    // The old second section now comes first; the hook was rewritten.
+    const spliced = spliceReusedBeats(next, previous, assets, { 'section-1': 'section-2', 'section-2': 'section-1' });
+
+    expect(spliced.requests.map((r) => [r.label, r.durationSeconds])).toEqual([
+      ['hook-beat-1', 7],
+      ['section-1-beat-1', 14],
+      ['section-2-beat-1', 4.5],
+      ['section-2-beat-2', 4.5]
+    ]);
+    expect(spliced.assets.map((a) => a?.url)).toEqual([undefined, 's2', 's1a', 's1b']);
+    expect(spliced.assets[1]?.duration).toBe(14);
+  });
+
+  it('should collect again a segment whose previous shots are incomplete', () => {
+    const previous = [beat('hook-beat-1', 6), beat('hook-beat-2', 6)];
+    const spliced = spliceReusedBeats([beat('hook-beat-1', 12)], previous, [asset('a')], { hook: 'hook' });
+
+    expect(spliced.requests).toHaveLength(1);
+    expect(spliced.assets).toEqual([undefined]);
+  });
+});
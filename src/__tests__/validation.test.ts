@@ -1,4 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { validateBody } from '../middleware/validation.js';
 import {
   generateVideoSchema,
   scheduleVideoSchema,
@@ -7,6 +11,8 @@ import {
   youtubePublishSchema,
   prepublishValidateSchema,
   regenerateAssetsSchema,
+  resumeProjectSchema,
+  updateScriptSchema,
   idParamSchema,
   filenameParamSchema
 } from '../schemas/api.js';
@@ -242,6 +248,23 @@ describe('API Validation Schemas', () => {
     });
   });
 
+  describe('resumeProjectSchema', () => {
+    it('should accept a project id', () => {
+      const result = resumeProjectSchema.safeParse({ projectId: 'human-odyssey-1739000000000' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject path traversal', () => {
+      const result = resumeProjectSchema.safeParse({ projectId: '../what-if-123' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject missing projectId', () => {
+      const result = resumeProjectSchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('idParamSchema', () => {
     it('should accept valid id', () => {
       const input = { id: 'video-123-abc' };
@@ -288,3 +311,67 @@ describe('API Validation Schemas', () => {
     });
   });
 });
+
+describe('PUT /api/projects/:id/script validation', () => {
+  let server: Server;
+  let baseUrl: string;
+  const saved: unknown[] = [];
+
+  beforeAll(() => {
+    const app = express();
+    app.use(express.json());
+    app.put('/api/projects/:id/script', validateBody(updateScriptSchema), (req, res) => {
+      saved.push(req.body.script);
+      res.json({ ok: true });
+    });
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const section = (overrides: Record<string, unknown> = {}) => ({
+    narration: 'The Moon would pull the tides twice as hard.',
+    visualType: 'image',
+    searchQuery: 'ocean tide waves',
+    duration: 60,
+    transition: 'fade',
+    ...overrides
+  });
+
+  const put = (script: unknown) => fetch(`${baseUrl}/api/projects/what-if-1700000000000/script`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ script })
+  });
+
+  it('should reject an edit the generator would not have accepted', async () => {
+    const res = await put({
+      title: 'Two Moons',
+      hook: 'Imagine two moons.',
+      sections: [section({ narration: ' ', act: 4 }), section({ transition: 'dip_to_black' })],
+      conclusion: 'One is enough.',
+      duration: 120
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json() as { details: Array<{ field: string }> };
+    expect(body.details.map((d) => d.field)).toEqual(['script.sections.0.narration', 'script.sections.0.act', 'script.sections.1.transition']);
+    expect(saved).toEqual([]);
+  });
+
+  it('should keep the saved extras of a valid edit', async () => {
+    const res = await put({
+      title: 'Two Moons',
+      hook: 'Imagine two moons.',
+      sections: [section({ contentType: 'hook', act: 1 })],
+      conclusion: 'One is enough.',
+      prompt: { id: 'what-if', version: 1 }
+    });
+
+    expect(res.status).toBe(200);
+    expect(saved).toEqual([expect.objectContaining({ duration: 0, prompt: { id: 'what-if', version: 1 } })]);
+  });
+});
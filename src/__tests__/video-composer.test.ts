@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { parseLastFfmpegTime } from '../services/video-composer.js';
+
+describe('parseLastFfmpegTime', () => {
+  it('should parse fractional seconds', () => {
+    const line = 'frame=  240 fps= 30 q=28.0 size=    1024kB time=00:01:02.50 bitrate=1000.0kbits/s speed=1.0x';
+    expect(parseLastFfmpegTime(line)).toBeCloseTo(62.5);
+  });
+
+  it('should use the latest status line of a chunk', () => {
+    const chunk = 'time=00:00:10.00 bitrate=1k\rtime=00:00:12.25 bitrate=1k\rtime=01:00:00.00 bitrate=1k';
+    expect(parseLastFfmpegTime(chunk)).toBe(3600);
+  });
+
+  it('should return null when there is no status line', () => {
+    expect(parseLastFfmpegTime('Input #0, mp3, from narration.mp3:')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LlmClient } from '../services/llm-client.js';
+import { YouTubeMetadata, YouTubeMetadataGenerator } from '../services/youtube-metadata-generator.js';
+import { LlmProvider, LlmRequest, LlmResponse } from '../types/llm.js';
+
+class SilentProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly supportsJsonMode = true;
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    return { content: '{}', model: request.model, inputTokens: 0, outputTokens: 0 };
+  }
+}
+
+const metadata = (description: string): YouTubeMetadata => ({
+  title: 'What if the Moon vanished?',
+  description,
+  tags: ['moon', 'space'],
+  thumbnail: { title: 'NO MOON' },
+  seoScore: 0,
+  trendingKeywords: []
+});
+
+beforeEach(() => {
+  delete process.env.LLM_PROVIDER;
+});
+
+describe('YouTubeMetadataGenerator', () => {
+  const generator = () => new YouTubeMetadataGenerator(new LlmClient({ openai: new SilentProvider() }));
+
+  it('should score chapters only when the description has a real chapter list', () => {
+    const withoutChapters = metadata('The Moon is gone.\n\n00:00 Intro');
+    const withChapters = metadata('The Moon is gone.\n\n00:00 Intro\n01:12 Tides collapse\n10:10 Conclusion');
+
+    expect(generator().scoreMetadata(withChapters) - generator().scoreMetadata(withoutChapters)).toBe(10);
+  });
+
+  it('should not ask for timestamps, which are merged from the narration', async () => {
+    const suggestions = await generator().suggestImprovements(metadata('The Moon is gone.'));
+
+    expect(suggestions.some((s) => /timestamp/i.test(s))).toBe(false);
+  });
+});
@@ -1,9 +1,52 @@
 import 'dotenv/config';
-import { ScriptGenerator } from './services/script-generator.js';
-import { VoiceGeneratorFactory } from './services/voice-generator-factory.js';
 import { VoiceGenerator } from './services/voice-generator.js';
 import { FullVideoPipeline } from './workflows/full-video-pipeline.js';
 import { channels } from './config/channels.js';
+import { TimelinePlanner } from './services/timeline-planner.js';
+import { CostTracker } from './services/cost-tracker.js';
+import { ShortsGenerator } from './services/shorts-generator.js';
+import { ProjectLocalizer } from './services/project-localizer.js';
+import { ProjectStore } from './services/project-store.js';
+import { budgetRefusal } from './middleware/budget.js';
+import { VideoScript } from './types/index.js';
+import { probeDurationSeconds } from './utils/media.js';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+/** Ctrl+C aborts the running pipeline (kills ffmpeg/edge-tts) instead of orphaning it. */
+function abortOnSigint(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('\n🛑 Cancelling...');
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+/** Same gate as the API: no new generation once the channel's monthly budget is spent. */
+async function exitIfOverBudget(channelId: string): Promise<void> {
+  const refusal = await budgetRefusal(new CostTracker(), channelId);
+  if (refusal) {
+    console.error(`❌ ${refusal}`);
+    process.exit(1);
+  }
+}
+
+async function cancelServerJob(jobId: string): Promise<void> {
+  const baseUrl = process.env.CHRISSTUDIO_API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  const token = process.env.CHRISSTUDIO_API_TOKEN;
+
+  const response = await fetch(`${baseUrl}/api/jobs/${encodeURIComponent(jobId)}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+  const body = await response.json().catch(() => ({})) as { status?: string; error?: string };
+
+  if (!response.ok) {
+    throw new Error(`Cancel failed (${response.status}): ${body.error || response.statusText}`);
+  }
+  console.log(`🛑 Job ${jobId}: ${body.status}`);
+}
 
 async function main() {
   const args = process.argv.slice(2);
@@ -22,21 +65,50 @@ async function main() {
         process.exit(1);
       }
 
+      await exitIfOverBudget(fullChannel.id);
+
       console.log('\n🎬 Full Video Generation Pipeline');
       console.log('This will generate: Script → Audio → Assets → Video\n');
 
       const pipeline = new FullVideoPipeline();
-      await pipeline.generateVideo(fullChannel, fullTopic);
+      await pipeline.generateVideo(fullChannel, fullTopic, undefined, { signal: abortOnSigint() });
+      break;
+
+    case 'resume':
+      // Continue a failed/interrupted project from its last checkpoint
+      const resumeProjectId = args[1];
+      if (!resumeProjectId) {
+        console.error('❌ Missing projectId (see output/meta/*.json)');
+        process.exit(1);
+      }
+
+      const resumeManifest = await new ProjectStore().get(resumeProjectId);
+      if (!resumeManifest) {
+        console.error('❌ Unknown project:', resumeProjectId);
+        process.exit(1);
+      }
+
+      await exitIfOverBudget(resumeManifest.channelId);
+      await new FullVideoPipeline().resumeProject(resumeProjectId, { signal: abortOnSigint() });
+      break;
+
+    case 'cancel':
+      // Cancel a queued/running job on the server
+      const cancelJobId = args[1];
+      if (!cancelJobId) {
+        console.error('❌ Missing jobId (see GET /api/jobs)');
+        process.exit(1);
+      }
+
+      await cancelServerJob(cancelJobId);
       break;
 
     case 'generate':
+    case 'script':
+      // Drafts: 'generate' stops after audio, 'script' stops after the script (review before TTS)
       const channelId = args[1] || 'what-if';
       const topic = args.slice(2).join(' ') || 'What if humans could live forever?';
-
-      console.log(`\n🎬 ChrisStudio`);
-      console.log(`${'='.repeat(50)}\n`);
-      console.log(`📺 Channel: ${channelId}`);
-      console.log(`📝 Topic: ${topic}\n`);
+      const mode = command === 'script' ? 'script-only' : 'audio-only';
 
       const channel = channels[channelId];
       if (!channel) {
@@ -45,41 +117,129 @@ async function main() {
         process.exit(1);
       }
 
-      // Generate script
-      const scriptGen = new ScriptGenerator();
-      console.log('📝 Generating script...');
-      const script = await scriptGen.generateScript(channel, topic);
-      console.log(`✅ Script generated: "${script.title}"`);
-      console.log(`📊 Duration: ${script.duration}s (${Math.floor(script.duration / 60)}min ${script.duration % 60}s)`);
-      console.log(`📄 Sections: ${script.sections.length}\n`);
-
-      // Save script to file
-      const fs = await import('fs/promises');
-      const scriptPath = `./output/scripts/${channelId}-${Date.now()}.json`;
-      await fs.mkdir('./output/scripts', { recursive: true });
-      await fs.writeFile(scriptPath, JSON.stringify(script, null, 2));
-      console.log(`💾 Script saved: ${scriptPath}\n`);
-
-      // Generate voice using factory
-      const voiceFactory = new VoiceGeneratorFactory();
-      const fullNarration = `${script.hook} ${script.sections.map(s => s.narration).join(' ')} ${script.conclusion}`;
-      console.log(`📊 Narration length: ${fullNarration.length} characters`);
-      console.log(`🎙️ Voice provider: ${channel.voice.provider}\n`);
-
-      const audioPath = await voiceFactory.generateAudio(
-        fullNarration,
-        channel.voice,
-        `${channelId}-${Date.now()}.mp3`
-      );
+      await exitIfOverBudget(channel.id);
+
+      const result = await new FullVideoPipeline().generateProject(channel, topic, undefined, {
+        mode,
+        signal: abortOnSigint()
+      });
 
       console.log(`\n${'='.repeat(50)}`);
-      console.log(`🎉 Generation complete!\n`);
-      console.log(`📄 Script: ${scriptPath}`);
-      console.log(`🎵 Audio: ${audioPath}`);
-      console.log(`\nNext steps:`);
-      console.log(`1. Download images/videos for visual sections`);
-      console.log(`2. Run video composition with FFmpeg`);
-      console.log(`3. Upload to YouTube\n`);
+      console.log(`🎉 Draft ready (${result.projectId})\n`);
+      console.log(`📄 Script: ${result.scriptPath}`);
+      if (result.audioPath) console.log(`🎵 Audio: ${result.audioPath}`);
+      console.log(`\nNext step: npm run generate:resume ${result.projectId}\n`);
+      break;
+
+    case 'plan':
+      // Dry run: beat plan for an existing script, before any download or render
+      const planChannelId = args[1];
+      const planScriptPath = args[2];
+      const planAudio = args[3];
+      const planChannel = planChannelId ? channels[planChannelId] : undefined;
+      const planTopicIdx = args.indexOf('--topic');
+      const planTopic = planTopicIdx > 0 ? args[planTopicIdx + 1] : undefined;
+      if (!planChannel || !planScriptPath || !planAudio || (planTopicIdx > 0 && !planTopic)) {
+        console.error('❌ Usage: plan <channel> <script.json> <audio file | duration in seconds> [--topic "<topic>"] [--json]');
+        process.exit(1);
+      }
+
+      const planScript = JSON.parse(await readFile(planScriptPath, 'utf-8')) as VideoScript;
+      const planDuration = /^\d+(\.\d+)?$/.test(planAudio) ? parseFloat(planAudio) : await probeDurationSeconds(planAudio);
+      // The pipeline seeds beats with the project's topic: plan a project's script from its manifest.
+      const planManifest = planTopic
+        ? null
+        : await new ProjectStore().get(path.basename(planScriptPath, '.json')).catch(() => null);
+      if (!planTopic && !planManifest) {
+        console.warn('⚠️  No project manifest for this script: seeding beats with its title (pass --topic to match a run)');
+      }
+      const planner = new TimelinePlanner();
+      const plan = planManifest
+        ? await planner.planProject(planChannel, planManifest, planScript, planDuration)
+        : await planner.plan(planChannel, planTopic || planScript.title, planScript, planDuration);
+
+      if (args.includes('--json')) {
+        console.log(JSON.stringify(plan, null, 2));
+        break;
+      }
+
+      console.log(`\n🎞️ ${plan.summary.beatCount} beats for ${Math.round(plan.audioDurationSeconds)}s (avg ${plan.summary.averageBeatSeconds}s/shot)`);
+      console.log(`   Images: ${plan.summary.images} | Videos: ${plan.summary.videos} | Unique queries: ${plan.summary.uniqueQueries}`);
+      console.log(`   Library hits: ${plan.summary.libraryHits}${plan.preferLocal ? '' : ' (local library disabled)'}\n`);
+      plan.beats.forEach((beat) => {
+        const start = `${Math.floor(beat.startSeconds / 60)}:${String(Math.floor(beat.startSeconds % 60)).padStart(2, '0')}`;
+        const hit = beat.library.hit ? '♻️ ' : '🌐';
+        const render = Math.abs(beat.renderSeconds - beat.durationSeconds) > 0.05 ? `→${beat.renderSeconds.toFixed(1)}s` : '';
+        console.log(
+          `${String(beat.index + 1).padStart(3)} ${start.padStart(5)} ${hit} ${beat.preferredType.padEnd(5)} ` +
+          `${(beat.durationSeconds.toFixed(1) + 's' + render).padStart(12)} ${beat.effect.padEnd(18)} ${beat.composerTransition.padEnd(12)} ` +
+          `${(beat.label || '').padEnd(22)} ${beat.searchQuery}`
+        );
+      });
+      console.log('');
+      break;
+
+    case 'shorts':
+      // Vertical Shorts (≤60s) cut from a finished long-form project
+      const shortsSourceId = args[1];
+      if (!shortsSourceId) {
+        console.error('❌ Usage: shorts <projectId> [count]');
+        process.exit(1);
+      }
+
+      const shortsGenerator = new ShortsGenerator();
+      const shortsSignal = abortOnSigint();
+      const plannedShorts = await shortsGenerator.plan(shortsSourceId, { count: args[2] ? parseInt(args[2], 10) : 1 });
+      for (const short of plannedShorts) {
+        await shortsGenerator.render(short, { signal: shortsSignal });
+      }
+      console.log(`🎉 ${plannedShorts.length} Short(s): ${plannedShorts.map((s) => s.projectId).join(', ')}\n`);
+      break;
+
+    case 'localize':
+      // Translated version of a finished project (new project, same visuals)
+      const localizeSourceId = args[1];
+      const localizeLanguage = args[2];
+      if (!localizeSourceId || !localizeLanguage) {
+        console.error('❌ Usage: localize <projectId> <language> (e.g. fr-FR)');
+        process.exit(1);
+      }
+
+      const localizeSource = await new ProjectStore().get(localizeSourceId);
+      if (!localizeSource) {
+        console.error('❌ Unknown project:', localizeSourceId);
+        process.exit(1);
+      }
+
+      await exitIfOverBudget(localizeSource.channelId);
+      await new ProjectLocalizer().localize(localizeSourceId, localizeLanguage, { signal: abortOnSigint() });
+      break;
+
+    case 'edit-script':
+      // Edited script: re-voice the changed sections only, keep the shots of the others
+      const editProjectId = args[1];
+      const editScriptPath = args[2];
+      if (!editProjectId || !editScriptPath) {
+        console.error('❌ Usage: edit-script <projectId> <script.json>');
+        process.exit(1);
+      }
+
+      const editManifest = await new ProjectStore().get(editProjectId);
+      if (!editManifest) {
+        console.error('❌ Unknown project:', editProjectId);
+        process.exit(1);
+      }
+
+      const editPipeline = new FullVideoPipeline();
+      const editedScript = JSON.parse(await readFile(editScriptPath, 'utf-8')) as VideoScript;
+      if (editManifest.completedStages.includes('audio')) {
+        await exitIfOverBudget(editManifest.channelId);
+      }
+      const scriptUpdate = await editPipeline.updateScript(editProjectId, editedScript);
+      console.log(`📝 Changed segments: ${scriptUpdate.changedSegments.join(', ') || 'none'}`);
+      if (scriptUpdate.revoice) {
+        await editPipeline.revoiceProject(editProjectId, { signal: abortOnSigint() });
+      }
       break;
 
     case 'voices':
@@ -92,6 +252,13 @@ async function main() {
       console.log('Commands:');
       console.log('  npm run generate:full [channel] [topic]  - Full pipeline (script→audio→assets→video)');
       console.log('  npm run generate [channel] [topic]       - Generate script & audio only');
+      console.log('  npm run generate:script [channel] [topic] - Generate script only (review before TTS)');
+      console.log('  npm run generate:resume [projectId]      - Resume a project from its last checkpoint');
+      console.log('  npm run jobs:cancel [jobId]              - Cancel a queued/running server job');
+      console.log('  npm run plan [channel] [script] [audio|seconds] [--topic t] - Dry-run beat plan (no download/render)');
+      console.log('  npm run shorts [projectId] [count]       - Vertical Shorts from a finished project');
+      console.log('  npm run localize [projectId] [language]  - Translated version of a finished project');
+      console.log('  npm run edit-script [projectId] [file]   - Apply an edited script (re-voices changed sections)');
       console.log('  npm run voices                           - List available Edge TTS voices');
       console.log('  npm run test:tts                         - Test voice generation');
       console.log('  npm run test:assets                      - Test asset collection');
@@ -1,4 +1,5 @@
 import { Channel } from '../types/index.js';
+import { DEFAULT_SCRIPT_RULES } from './script-rules.js';
 
 export const channels: Record<string, Channel> = {
   'what-if': {
@@ -33,7 +34,20 @@ export const channels: Record<string, Channel> = {
         fontColor: 'white',
         boxColor: '0x001a33',
         boxOpacity: 0.48,
-        boxBorderW: 18
+        boxBorderW: 18,
+        captions: {
+          mode: 'karaoke',
+          textColor: 'white',
+          highlightColor: '#4FC3F7',
+          outlineColor: '0x001a33'
+        }
+      },
+      thumbnail: {
+        textColor: 'white',
+        accentColor: '0x4FC3F7',
+        strokeColor: '0x001a33',
+        strokeWidth: 8,
+        uppercase: true
       }
     },
     style: {
@@ -49,6 +63,10 @@ export const channels: Record<string, Channel> = {
       stability: 0.5,
       similarityBoost: 0.75,
       style: 0.1
+    },
+    localizations: {
+      'fr-FR': { voice: { provider: 'edge-tts', voiceId: 'fr-FR-HenriNeural', language: 'fr-FR' } },
+      'es-ES': { voice: { provider: 'edge-tts', voiceId: 'es-ES-AlvaroNeural', language: 'es-ES' } }
     }
   },
   'human-odyssey': {
@@ -83,7 +101,20 @@ export const channels: Record<string, Channel> = {
         fontColor: 'white',
         boxColor: '0x2a1a00',
         boxOpacity: 0.5,
-        boxBorderW: 18
+        boxBorderW: 18,
+        captions: {
+          mode: 'classic',
+          textColor: '#FFF4E0',
+          outlineColor: '0x2a1a00'
+        }
+      },
+      thumbnail: {
+        textColor: '0xFFF4E0',
+        accentColor: '0xFFC46B',
+        strokeColor: '0x2a1a00',
+        strokeWidth: 6,
+        boxColor: '0x2a1a00',
+        boxOpacity: 0.55
       }
     },
     style: {
@@ -99,7 +130,13 @@ export const channels: Record<string, Channel> = {
       stability: 0.6,
       similarityBoost: 0.8,
       style: 0
-    }
+    },
+    localizations: {
+      'fr-FR': { voice: { provider: 'edge-tts', voiceId: 'fr-FR-RemyMultilingualNeural', language: 'fr-FR' } }
+    },
+    factCheck: true,
+    // Slower, cinematic narration carries longer sentences.
+    scriptRules: { maxSentenceWords: 40, maxAverageSentenceWords: 24 }
   },
   'classified-files': {
     id: 'classified-files',
@@ -133,7 +170,19 @@ export const channels: Record<string, Channel> = {
         fontColor: 'white',
         boxColor: 'black',
         boxOpacity: 0.55,
-        boxBorderW: 18
+        boxBorderW: 18,
+        captions: {
+          mode: 'classic',
+          textColor: 'white',
+          outlineColor: 'black'
+        }
+      },
+      thumbnail: {
+        textColor: 'white',
+        accentColor: '0xE53935',
+        strokeColor: 'black',
+        strokeWidth: 8,
+        uppercase: true
       }
     },
     style: {
@@ -149,6 +198,12 @@ export const channels: Record<string, Channel> = {
       stability: 0.4,
       similarityBoost: 0.7,
       style: 0.2
-    }
+    },
+    localizations: {
+      'fr-FR': { voice: { provider: 'edge-tts', voiceId: 'fr-FR-HenriNeural', language: 'fr-FR', rate: '-5%' } }
+    },
+    factCheck: true,
+    // Theories stay theories: no wording that presents them as settled.
+    scriptRules: { bannedWords: [...DEFAULT_SCRIPT_RULES.bannedWords, 'undeniable proof', 'proven beyond doubt', 'it is a fact that'] }
   }
 };
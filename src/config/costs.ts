@@ -0,0 +1,83 @@
+import { existsSync, readFileSync } from 'fs';
+import { UsageEvent, UsageProvider } from '../types/usage.js';
+import logger from '../utils/logger.js';
+
+export interface ProviderPricing {
+  inputTokensPerMillionUsd?: number;
+  outputTokensPerMillionUsd?: number;
+  charactersPerThousandUsd?: number;
+  perRequestUsd?: number;
+  /** Per-model overrides (LLM prices differ by model). */
+  models?: Record<string, Omit<ProviderPricing, 'models'>>;
+}
+
+export type CostModel = Record<UsageProvider, ProviderPricing>;
+
+/** List prices at the time of writing; override them in COST_MODEL_PATH. */
+export const DEFAULT_COST_MODEL: CostModel = {
+  openai: {
+    inputTokensPerMillionUsd: 2.5,
+    outputTokensPerMillionUsd: 10,
+    models: {
+      'gpt-4o-mini': { inputTokensPerMillionUsd: 0.15, outputTokensPerMillionUsd: 0.6 }
+    }
+  },
+  // Self-hosted servers: free unless priced in COST_MODEL_PATH.
+  'openai-compatible': {},
+  anthropic: {
+    inputTokensPerMillionUsd: 3,
+    outputTokensPerMillionUsd: 15,
+    models: {
+      'claude-haiku-4-5': { inputTokensPerMillionUsd: 1, outputTokensPerMillionUsd: 5 }
+    }
+  },
+  elevenlabs: { charactersPerThousandUsd: 0.3 },
+  'edge-tts': {},
+  pexels: { perRequestUsd: 0 }
+};
+
+let cached: CostModel | null = null;
+
+/**
+ * Default prices merged with the JSON file at COST_MODEL_PATH (default ./data/cost-model.json),
+ * e.g. `{ "elevenlabs": { "charactersPerThousandUsd": 0.18 } }`.
+ */
+export function getCostModel(): CostModel {
+  if (cached) return cached;
+
+  const filePath = process.env.COST_MODEL_PATH || './data/cost-model.json';
+  let overrides: Partial<CostModel> = {};
+  if (existsSync(filePath)) {
+    try {
+      overrides = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<CostModel>;
+    } catch (error: unknown) {
+      logger.warn({ filePath, error: (error as Error).message }, 'Invalid cost model file, using default prices');
+    }
+  }
+
+  const model = { ...DEFAULT_COST_MODEL };
+  for (const provider of Object.keys(DEFAULT_COST_MODEL) as UsageProvider[]) {
+    const override = overrides[provider];
+    if (!override) continue;
+    model[provider] = {
+      ...DEFAULT_COST_MODEL[provider],
+      ...override,
+      models: { ...DEFAULT_COST_MODEL[provider].models, ...override.models }
+    };
+  }
+  cached = model;
+  return model;
+}
+
+export function estimateCostUsd(event: UsageEvent, costModel: CostModel = getCostModel()): number {
+  const providerPricing = costModel[event.provider] || {};
+  const pricing = { ...providerPricing, ...(event.model ? providerPricing.models?.[event.model] : undefined) };
+
+  const cost =
+    ((event.inputTokens || 0) / 1_000_000) * (pricing.inputTokensPerMillionUsd || 0) +
+    ((event.outputTokens || 0) / 1_000_000) * (pricing.outputTokensPerMillionUsd || 0) +
+    ((event.characters || 0) / 1000) * (pricing.charactersPerThousandUsd || 0) +
+    event.requests * (pricing.perRequestUsd || 0);
+
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,57 @@
+import { Channel, DurationContract } from '../types/index.js';
+import type { ScriptDurationMode } from '../services/script-generator.js';
+
+export const DEFAULT_DURATION_CONTRACT: DurationContract = {
+  minSeconds: 9 * 60,
+  maxSeconds: 12 * 60,
+  wordsPerMinute: 150,
+  maxAttempts: 3,
+  minBeats: 60,
+  minClips: 10
+};
+
+/** YouTube Shorts: at most 60 s, a handful of beats, clips optional. */
+export const SHORT_DURATION_CONTRACT: DurationContract = {
+  minSeconds: 15,
+  maxSeconds: 60,
+  wordsPerMinute: 150,
+  maxAttempts: 1,
+  minBeats: 3,
+  minClips: 0
+};
+
+export function getDurationContract(channel?: Channel): DurationContract {
+  return { ...DEFAULT_DURATION_CONTRACT, ...channel?.durationContract };
+}
+
+/**
+ * Script word range for an attempt. The window is split in thirds/ninths the way the
+ * original 9–12 min tuning was (1500–1800 normal, 1700–2000 expand, 1350–1550 compress).
+ */
+export function targetWordCount(contract: DurationContract, mode: ScriptDurationMode = 'normal'): { min: number; max: number } {
+  const minMinutes = contract.minSeconds / 60;
+  const maxMinutes = contract.maxSeconds / 60;
+  const span = maxMinutes - minMinutes;
+
+  const [from, to] =
+    mode === 'expand'
+      ? [minMinutes + (span * 7) / 9, maxMinutes + (span * 4) / 9]
+      : mode === 'compress'
+        ? [minMinutes, minMinutes + (span * 4) / 9]
+        : [minMinutes + span / 3, maxMinutes];
+
+  return {
+    min: Math.round(from * contract.wordsPerMinute),
+    max: Math.round(to * contract.wordsPerMinute)
+  };
+}
+
+/** Midpoint of the window, used as the narration target in the script prompt. */
+export function targetDurationMinutes(contract: DurationContract): number {
+  return Math.round(((contract.minSeconds + contract.maxSeconds) / 2 / 60) * 10) / 10;
+}
+
+export function formatContractWindow(contract: DurationContract): string {
+  const fmt = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+  return `${fmt(contract.minSeconds)}–${fmt(contract.maxSeconds)}`;
+}
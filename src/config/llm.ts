@@ -0,0 +1,60 @@
+import { Channel } from '../types/index.js';
+import { LlmProviderName, LlmTask, LlmTaskSettings } from '../types/llm.js';
+
+type ModelTier = 'large' | 'small';
+
+/** Per-task defaults; the model comes from the provider's model for the tier. */
+export const LLM_TASK_DEFAULTS: Record<LlmTask, { tier: ModelTier; temperature: number; maxTokens: number }> = {
+  script: { tier: 'large', temperature: 0.85, maxTokens: 6000 },
+  'script-revision': { tier: 'large', temperature: 0.7, maxTokens: 6000 },
+  translation: { tier: 'large', temperature: 0.3, maxTokens: 8000 },
+  claims: { tier: 'large', temperature: 0.2, maxTokens: 4000 },
+  topic: { tier: 'small', temperature: 0.9, maxTokens: 100 },
+  'topic-suggestions': { tier: 'large', temperature: 0.8, maxTokens: 3000 },
+  metadata: { tier: 'large', temperature: 0.7, maxTokens: 2000 }
+};
+
+/** Models used when nothing more specific is configured (`LLM_MODEL` / `LLM_SMALL_MODEL` replace them). */
+export const LLM_PROVIDER_MODELS: Record<LlmProviderName, Record<ModelTier, string>> = {
+  openai: { large: 'gpt-4o', small: 'gpt-4o-mini' },
+  'openai-compatible': { large: 'llama3.1', small: 'llama3.1' },
+  anthropic: { large: 'claude-sonnet-4-5', small: 'claude-haiku-4-5' }
+};
+
+const PROVIDERS = Object.keys(LLM_PROVIDER_MODELS) as LlmProviderName[];
+
+/** Provider from LLM_PROVIDER (openai by default). */
+export function defaultLlmProvider(): LlmProviderName {
+  const value = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase() as LlmProviderName;
+  if (!PROVIDERS.includes(value)) {
+    throw new Error(`Invalid LLM_PROVIDER value: ${process.env.LLM_PROVIDER} (expected ${PROVIDERS.join(', ')})`);
+  }
+  return value;
+}
+
+/**
+ * Settings for one call, from the most specific to the least: `overrides`, the channel's
+ * `llm[task]`, then the task defaults with the provider's model for the task's tier.
+ */
+export function getLlmSettings(
+  task: LlmTask,
+  channel?: Pick<Channel, 'llm'>,
+  overrides: Partial<LlmTaskSettings> = {}
+): LlmTaskSettings {
+  const defaults = LLM_TASK_DEFAULTS[task];
+  const configured = { ...channel?.llm?.[task], ...overrides };
+  const fallbackProvider = defaultLlmProvider();
+  const provider = configured.provider || fallbackProvider;
+
+  // LLM_MODEL / LLM_SMALL_MODEL name models of the default provider only.
+  const envModel = provider === fallbackProvider
+    ? (defaults.tier === 'small' ? process.env.LLM_SMALL_MODEL || process.env.LLM_MODEL : process.env.LLM_MODEL)
+    : undefined;
+
+  return {
+    provider,
+    model: configured.model || envModel || LLM_PROVIDER_MODELS[provider][defaults.tier],
+    temperature: configured.temperature ?? defaults.temperature,
+    maxTokens: configured.maxTokens ?? defaults.maxTokens
+  };
+}
@@ -0,0 +1,83 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { promptPackSchema } from '../schemas/prompt-pack.js';
+import { Channel } from '../types/index.js';
+import { PromptPack } from '../types/prompts.js';
+
+/** Pack used by channels without a directory of their own. */
+export const DEFAULT_PROMPT_PACK = 'default';
+
+const VERSION_FILE = /^v(\d+)\.json$/;
+const cache = new Map<string, PromptPack>();
+
+/** PROMPTS_DIR, `./prompts` by default. */
+export function getPromptsDir(): string {
+  return process.env.PROMPTS_DIR || './prompts';
+}
+
+/** Versions on disk for a pack, oldest first. */
+export function listPromptPackVersions(id: string, dir: string = getPromptsDir()): number[] {
+  const packDir = path.join(dir, id);
+  if (!existsSync(packDir)) return [];
+  return readdirSync(packDir)
+    .map((file) => VERSION_FILE.exec(file))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map((match) => Number(match[1]))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Prompt pack of a channel: `channel.promptPack.id` (the channel id by default, then the
+ * default pack), at `channel.promptPack.version` or the latest version on disk. Versions
+ * are never edited in place: a changed prompt is a new `v<N>.json`, so the version recorded
+ * on a project tells which templates wrote its script.
+ */
+export function getPromptPack(channel?: Pick<Channel, 'id' | 'promptPack'>, dir: string = getPromptsDir()): PromptPack {
+  const id = channel?.promptPack?.id
+    || (channel && listPromptPackVersions(channel.id, dir).length > 0 ? channel.id : DEFAULT_PROMPT_PACK);
+
+  const versions = listPromptPackVersions(id, dir);
+  const version = channel?.promptPack?.version ?? versions.at(-1);
+  if (version === undefined || !versions.includes(version)) {
+    throw new Error(`Prompt pack ${id} has no ${version === undefined ? 'version' : `version ${version}`} in ${dir}`);
+  }
+
+  const filePath = path.join(dir, id, `v${version}.json`);
+  const cached = cache.get(filePath);
+  if (cached) return cached;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    throw new Error(`Unreadable prompt pack ${filePath}: ${(error as Error).message}`);
+  }
+  const parsed = promptPackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new Error(`Invalid prompt pack ${filePath}: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  const pack: PromptPack = { ...parsed.data, id, version };
+  cache.set(filePath, pack);
+  return pack;
+}
+
+/** Fills `{{name}}` placeholders; an unknown name is an error, not an empty string. */
+export function renderPrompt(template: string, variables: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown prompt variable {{${name}}} (expected ${Object.keys(variables).join(', ')})`);
+    }
+    return String(variables[name]);
+  });
+}
+
+/** Variables every template of a channel can use. */
+export function channelPromptVariables(channel: Pick<Channel, 'name' | 'description' | 'style'>): Record<string, string> {
+  return {
+    channelName: channel.name,
+    channelDescription: channel.description,
+    theme: channel.style.theme
+  };
+}
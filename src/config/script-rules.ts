@@ -0,0 +1,18 @@
+import { Channel, ScriptRules } from '../types/index.js';
+
+export const DEFAULT_SCRIPT_RULES: ScriptRules = {
+  paceTolerance: 0.35,
+  bannedWords: ['delve', 'tapestry', 'testament to', 'in conclusion', 'smash that like button'],
+  maxSentenceWords: 35,
+  maxAverageSentenceWords: 22,
+  repeatedPhraseWords: 4,
+  maxPhraseRepeats: 2,
+  maxHookPatternUses: 1,
+  minSearchQueryWords: 2,
+  actBalanceTolerance: 0.15,
+  maxRevisions: 2
+};
+
+export function getScriptRules(channel?: Channel): ScriptRules {
+  return { ...DEFAULT_SCRIPT_RULES, ...channel?.scriptRules };
+}
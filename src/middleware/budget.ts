@@ -0,0 +1,37 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.js';
+import { CostTracker } from '../services/cost-tracker.js';
+import logger from '../utils/logger.js';
+
+/** Channel a request spends on; undefined lets the route answer (unknown channel, missing project...). */
+export type ChannelIdResolver = (req: AuthRequest) => string | undefined | Promise<string | undefined>;
+
+/** Why nothing may be spent on `channelId` this month (for the CLI), or undefined when spending is allowed. */
+export async function budgetRefusal(costTracker: CostTracker, channelId: string): Promise<string | undefined> {
+  const budget = await costTracker.checkBudget(channelId);
+  if (!budget.exceeded) return undefined;
+  return `Monthly budget reached for ${channelId}: $${budget.spentUsd} / $${budget.monthlyBudgetUsd} (${budget.month})`;
+}
+
+/** Refuses with 402 any request that would spend on a channel whose monthly budget is reached. */
+export const requireBudget = (costTracker: CostTracker, channelIdOf: ChannelIdResolver) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const channelId = await channelIdOf(req);
+      if (!channelId) {
+        next();
+        return;
+      }
+
+      const budget = await costTracker.checkBudget(channelId);
+      if (budget.exceeded) {
+        logger.warn({ ...budget, path: req.path, user: req.user?.username }, 'Generation refused: monthly budget reached');
+        res.status(402).json({ error: 'Monthly budget reached for this channel', ...budget });
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
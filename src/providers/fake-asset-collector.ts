@@ -0,0 +1,78 @@
+import path from 'path';
+import crypto from 'crypto';
+import { Asset, VisualRequest } from '../types/index.js';
+import { AssetProvider } from '../types/providers.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { renderLavfi } from './fake-media.js';
+
+// Test patterns used for stills; picked from a hash of the search query so runs are repeatable.
+const IMAGE_PATTERNS = ['testsrc2', 'smptehdbars', 'rgbtestsrc', 'mandelbrot'];
+
+/**
+ * Stand-in for the Pexels-backed AssetCollector.
+ * Renders test-pattern stills and clips locally and returns them with a localPath,
+ * so the downloader reuses them without touching the network.
+ */
+export class FakeAssetCollector implements AssetProvider {
+  private outputDir: string;
+  private size: string;
+
+  constructor(outputDir: string = './assets/fake', size: string = '1920x1080') {
+    this.outputDir = outputDir;
+    this.size = size;
+  }
+
+  async collectAssetsForTimeline(
+    requests: VisualRequest[],
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<Asset[]> {
+    const { signal, onProgress } = options;
+    const assets: Asset[] = [];
+
+    for (let i = 0; i < requests.length; i++) {
+      throwIfAborted(signal);
+      onProgress?.(i, requests.length);
+      const request = requests[i];
+      const localPath = request.preferredType === 'video'
+        ? await this.renderClip(Math.ceil(request.durationSeconds), signal)
+        : await this.renderImage(this.patternFor(request.searchQuery), signal);
+
+      assets.push({
+        type: request.preferredType,
+        url: `fake://${path.basename(localPath)}`,
+        localPath,
+        duration: request.durationSeconds,
+        attribution: 'Generated test pattern',
+        channelId: request.channelId,
+        searchQuery: request.searchQuery,
+        mediaDurationSeconds: request.preferredType === 'video' ? Math.ceil(request.durationSeconds) : undefined
+      });
+    }
+
+    onProgress?.(requests.length, requests.length);
+    return assets;
+  }
+
+  private patternFor(query: string): string {
+    const digest = crypto.createHash('sha1').update(query).digest();
+    return IMAGE_PATTERNS[digest[0] % IMAGE_PATTERNS.length];
+  }
+
+  private renderImage(pattern: string, signal?: AbortSignal): Promise<string> {
+    return renderLavfi(
+      `${pattern}=size=${this.size}`,
+      ['-frames:v', '1'],
+      path.join(this.outputDir, `${pattern}-${this.size}.jpg`),
+      { signal }
+    );
+  }
+
+  private renderClip(seconds: number, signal?: AbortSignal): Promise<string> {
+    return renderLavfi(
+      `testsrc2=size=${this.size}:rate=30:duration=${seconds}`,
+      ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-preset', 'ultrafast'],
+      path.join(this.outputDir, `clip-${this.size}-${seconds}s.mp4`),
+      { signal }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { cancelledError, killOnAbort, throwIfAborted } from '../utils/abort.js';
+
+/**
+ * Render a synthetic media file with an FFmpeg lavfi source (sine, testsrc2…).
+ * Files that already exist are reused, so repeated fake runs stay cheap.
+ */
+export async function renderLavfi(
+  source: string,
+  outputArgs: string[],
+  outputPath: string,
+  options: { signal?: AbortSignal; overwrite?: boolean } = {}
+): Promise<string> {
+  throwIfAborted(options.signal);
+  if (!options.overwrite && existsSync(outputPath)) return outputPath;
+  await mkdir(path.dirname(outputPath), { recursive: true });
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn('ffmpeg', ['-y', '-v', 'error', '-f', 'lavfi', '-i', source, ...outputArgs, outputPath], {
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    const disposeAbort = killOnAbort(proc, options.signal);
+
+    let stderr = '';
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      disposeAbort();
+      if (options.signal?.aborted) {
+        reject(cancelledError());
+      } else if (code === 0) {
+        resolve(outputPath);
+      } else {
+        logger.error({ code, stderr, source }, 'Fake media render failed');
+        reject(new Error(`FFmpeg failed with code ${code}: ${stderr}`));
+      }
+    });
+
+    proc.on('error', (err) => {
+      disposeAbort();
+      reject(new Error(`Failed to spawn ffmpeg: ${err.message}`));
+    });
+  });
+}
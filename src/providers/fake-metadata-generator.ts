@@ -0,0 +1,25 @@
+import { VideoScript } from '../types/index.js';
+import type { YouTubeMetadata } from '../services/youtube-metadata-generator.js';
+import { MetadataProvider } from '../types/providers.js';
+
+/** Deterministic stand-in for YouTubeMetadataGenerator, built from the script alone. */
+export class FakeMetadataGenerator implements MetadataProvider {
+  async generateMetadata(script: VideoScript, channelName: string, channelTheme: string): Promise<YouTubeMetadata> {
+    return {
+      title: script.title,
+      description: `${script.hook}\n\n${channelName} — ${channelTheme}`,
+      tags: [channelName, channelTheme, script.title].map((t) => t.toLowerCase()),
+      thumbnail: { title: script.title },
+      seoScore: 50,
+      trendingKeywords: []
+    };
+  }
+
+  scoreMetadata(): number {
+    return 50;
+  }
+
+  async suggestImprovements(): Promise<string[]> {
+    return [];
+  }
+}
@@ -0,0 +1,44 @@
+import { Channel } from '../types/index.js';
+import type { TopicSuggestion } from '../services/topic-generator.js';
+import { TopicProvider } from '../types/providers.js';
+
+const CANNED_TOPICS: Record<string, string[]> = {
+  'what-if': [
+    'What if Earth had two moons?',
+    'What if humans could breathe underwater?',
+    'What if the internet suddenly disappeared?'
+  ],
+  'human-odyssey': [
+    'The Lost City That Changed History Forever',
+    'How Ancient Humans Survived the Ice Age',
+    'The Discovery That Rewrote Human History'
+  ],
+  'classified-files': [
+    'The Mystery Behind the Missing Flight',
+    'The Cover-Up That Lasted Decades',
+    'Declassified Documents Reveal Shocking Truth'
+  ]
+};
+
+/** Deterministic stand-in for TopicGenerator: picks the first canned topic not used yet. */
+export class FakeTopicGenerator implements TopicProvider {
+  async generateTopic(channel: Channel, previousTopics: string[] = []): Promise<string> {
+    const topics = this.topicsFor(channel);
+    return topics.find((t) => !previousTopics.includes(t)) || `${topics[0]} (${previousTopics.length + 1})`;
+  }
+
+  async generateTopicSuggestions(channel: Channel, count: number = 5, previousTopics: string[] = []): Promise<TopicSuggestion[]> {
+    const topics = this.topicsFor(channel).filter((t) => !previousTopics.includes(t));
+    return topics.slice(0, count).map((topic, i) => ({
+      topic,
+      angle: `${channel.name} deep dive`,
+      hooks: [`Nobody expected this about ${topic}`],
+      searchPotential: 7 - i,
+      viralScore: 6 - i
+    }));
+  }
+
+  private topicsFor(channel: Channel): string[] {
+    return CANNED_TOPICS[channel.id] || CANNED_TOPICS['what-if'];
+  }
+}
@@ -0,0 +1,186 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import logger from '../utils/logger.js';
+
+/** Video resource sent when a session is opened (as YouTubeUploader sends it, after JSON). */
+export interface FakeUploadMetadata {
+  snippet?: {
+    title?: string;
+    description?: string;
+    tags?: string[];
+    categoryId?: string;
+  };
+  status?: {
+    privacyStatus?: string;
+    publishAt?: string;
+    selfDeclaredMadeForKids?: boolean;
+  };
+}
+
+export interface FakeUpload {
+  videoId: string;
+  metadata: FakeUploadMetadata;
+  totalBytes: number;
+  receivedBytes: number;
+  /** sha256 of the received bytes, available once the upload is complete. */
+  sha256?: string;
+}
+
+interface UploadSession extends FakeUpload {
+  hash: crypto.Hash;
+}
+
+const UPLOAD_PATH = '/upload/youtube/v3/videos';
+
+/**
+ * Local implementation of the YouTube resumable upload protocol:
+ * POST opens a session (Location header), PUT chunks with Content-Range get
+ * 308 + Range until the last one, which returns the video resource.
+ * An empty status-query PUT returns the committed offset.
+ *
+ * Bytes are hashed, not kept, so large renders don't sit in memory.
+ */
+export class FakeUploadServer {
+  private server: http.Server | null = null;
+  private sessions = new Map<string, UploadSession>();
+  private failuresLeft: number;
+  private baseUrl = '';
+
+  constructor(options: { failFirstChunks?: number } = {}) {
+    this.failuresLeft = options.failFirstChunks || 0;
+  }
+
+  /** Start listening on a random local port; returns the upload endpoint URL. */
+  async start(): Promise<string> {
+    if (this.server) return this.uploadUrl;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        logger.error({ error: (err as Error).message }, 'Fake upload server error');
+        res.writeHead(500).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    logger.info({ url: this.uploadUrl }, 'Fake upload server listening');
+    return this.uploadUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  get uploadUrl(): string {
+    return `${this.baseUrl}${UPLOAD_PATH}`;
+  }
+
+  /** Completed uploads, keyed by the returned video id. */
+  getUpload(videoId: string): FakeUpload | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.videoId === videoId && session.sha256) {
+        const { hash: _hash, ...upload } = session;
+        return upload;
+      }
+    }
+    return undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl);
+    if (url.pathname !== UPLOAD_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.searchParams.get('uploadType') === 'resumable') {
+      const body = await this.readBody(req);
+      const sessionId = crypto.randomUUID();
+      this.sessions.set(sessionId, {
+        videoId: `fake-${sessionId.slice(0, 11)}`,
+        metadata: body.length ? JSON.parse(body.toString('utf-8')) as FakeUploadMetadata : {},
+        totalBytes: 0,
+        receivedBytes: 0,
+        hash: crypto.createHash('sha256')
+      });
+      res.writeHead(200, { Location: `${this.uploadUrl}?upload_id=${sessionId}` }).end();
+      return;
+    }
+
+    const session = this.sessions.get(url.searchParams.get('upload_id') || '');
+    if (req.method !== 'PUT' || !session) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const range = String(req.headers['content-range'] || '');
+    const query = range.match(/^bytes \*\/(\d+)$/);
+    if (query) {
+      req.resume();
+      this.respondWithOffset(res, session);
+      return;
+    }
+
+    const chunk = range.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+    if (!chunk) {
+      req.resume();
+      res.writeHead(400).end();
+      return;
+    }
+
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      req.resume();
+      res.writeHead(503).end();
+      return;
+    }
+
+    const start = parseInt(chunk[1], 10);
+    const total = parseInt(chunk[3], 10);
+    const body = await this.readBody(req);
+
+    // Only accept the next expected byte range; the client re-syncs from the Range header.
+    if (start === session.receivedBytes) {
+      session.hash.update(body);
+      session.receivedBytes += body.length;
+      session.totalBytes = total;
+    }
+
+    if (session.receivedBytes >= total) {
+      session.sha256 ??= session.hash.digest('hex');
+      this.respondWithVideo(res, session);
+      return;
+    }
+    this.respondWithOffset(res, session);
+  }
+
+  private respondWithOffset(res: http.ServerResponse, session: UploadSession): void {
+    if (session.sha256) {
+      this.respondWithVideo(res, session);
+      return;
+    }
+    const headers: Record<string, string> = {};
+    if (session.receivedBytes > 0) headers.Range = `bytes=0-${session.receivedBytes - 1}`;
+    res.writeHead(308, headers).end();
+  }
+
+  private respondWithVideo(res: http.ServerResponse, session: UploadSession): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      kind: 'youtube#video',
+      id: session.videoId,
+      snippet: session.metadata?.snippet,
+      status: { ...session.metadata?.status, uploadStatus: 'uploaded' }
+    }));
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,49 @@
+import { VoiceConfig } from '../types/index.js';
+import type { UnifiedVoiceGenerator, VoiceGenerationOptions } from '../services/voice-generator-factory.js';
+import logger from '../utils/logger.js';
+import { FAKE_WORDS_PER_MINUTE } from './fake-script-generator.js';
+import { renderLavfi } from './fake-media.js';
+import { writeWordTimings } from '../utils/word-timings.js';
+
+/**
+ * Stand-in for ElevenLabs / Edge TTS: a sine tone lasting as long as the text
+ * would take to read, so duration checks and the composer behave as in production.
+ */
+export class FakeVoiceGenerator implements UnifiedVoiceGenerator {
+  private outputDir: string;
+  private wordsPerMinute: number;
+
+  constructor(outputDir: string = './output/audio', wordsPerMinute: number = FAKE_WORDS_PER_MINUTE) {
+    this.outputDir = outputDir;
+    this.wordsPerMinute = wordsPerMinute;
+  }
+
+  /** Length of the fake narration for a text, in seconds. */
+  durationFor(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.max(1, Math.round((words / this.wordsPerMinute) * 60 * 100) / 100);
+  }
+
+  async generateAudio(text: string, _voiceConfig: VoiceConfig, outputFile: string, options: VoiceGenerationOptions = {}): Promise<string> {
+    const seconds = this.durationFor(text);
+    const outputPath = `${this.outputDir}/${outputFile}`;
+    logger.info({ outputPath, seconds }, 'Generating fake narration');
+
+    await renderLavfi(
+      `sine=frequency=440:sample_rate=44100:duration=${seconds}`,
+      ['-c:a', 'libmp3lame', '-b:a', '64k'],
+      outputPath,
+      { signal: options.signal, overwrite: true }
+    );
+
+    // Evenly spaced words, like the timings real providers return.
+    const words = text.split(/\s+/).filter(Boolean);
+    const step = seconds / Math.max(1, words.length);
+    await writeWordTimings(outputPath, words.map((word, idx) => ({
+      word,
+      startSeconds: idx * step,
+      endSeconds: (idx + 1) * step
+    })));
+    return outputPath;
+  }
+}
@@ -0,0 +1,46 @@
+import { YouTubeAuthStatus, YouTubeUploader } from '../services/youtube-uploader.js';
+import { FakeUploadServer } from './fake-upload-server.js';
+
+/**
+ * YouTubeUploader wired to a local FakeUploadServer: OAuth is always "connected"
+ * and uploads go through the real resumable/chunk/retry code path.
+ */
+export class FakeYouTubeUploader extends YouTubeUploader {
+  readonly server: FakeUploadServer;
+
+  constructor(server: FakeUploadServer = new FakeUploadServer()) {
+    super({ tokensPath: 'fake://youtube-tokens' });
+    this.server = server;
+  }
+
+  override async getAuthStatus(): Promise<YouTubeAuthStatus> {
+    return { hasCredentials: true, connected: true, tokensPath: this.getTokensPath() };
+  }
+
+  override async ensureAuth(): Promise<void> {
+    this.uploadUrl = await this.server.start();
+  }
+
+  override async getAuthUrl(redirectUri: string, state?: string): Promise<string> {
+    const url = new URL(redirectUri);
+    url.searchParams.set('code', 'fake-code');
+    if (state) url.searchParams.set('state', state);
+    return url.toString();
+  }
+
+  override async handleOAuthCallback(): Promise<void> {
+    // Nothing to exchange: the fake server accepts any bearer token.
+  }
+
+  protected override async getFreshAccessToken(): Promise<string> {
+    return 'fake-access-token';
+  }
+
+  protected override async uploadCaptions(): Promise<void> {
+    // The fake server only implements the video upload protocol.
+  }
+
+  protected override async uploadThumbnail(): Promise<void> {
+    // Same: the file checks in setThumbnail still run.
+  }
+}
@@ -0,0 +1,59 @@
+import { ProviderMode, Providers } from '../types/providers.js';
+import { ScriptGenerator } from '../services/script-generator.js';
+import { TopicGenerator } from '../services/topic-generator.js';
+import { YouTubeMetadataGenerator } from '../services/youtube-metadata-generator.js';
+import { VoiceGeneratorFactory } from '../services/voice-generator-factory.js';
+import { AssetCollector } from '../services/asset-collector.js';
+import { YouTubeUploader } from '../services/youtube-uploader.js';
+import { LlmClient } from '../services/llm-client.js';
+import { FakeScriptGenerator } from './fake-script-generator.js';
+import { FakeTopicGenerator } from './fake-topic-generator.js';
+import { FakeMetadataGenerator } from './fake-metadata-generator.js';
+import { FakeVoiceGenerator } from './fake-voice-generator.js';
+import { FakeAssetCollector } from './fake-asset-collector.js';
+import { FakeYouTubeUploader } from './fake-youtube-uploader.js';
+import logger from '../utils/logger.js';
+
+export { FakeScriptGenerator, FakeTopicGenerator, FakeMetadataGenerator, FakeVoiceGenerator, FakeAssetCollector, FakeYouTubeUploader };
+export { FakeUploadServer } from './fake-upload-server.js';
+
+/** Provider mode from PROVIDERS (live by default). */
+export function getProviderMode(): ProviderMode {
+  const value = (process.env.PROVIDERS || 'live').trim().toLowerCase();
+  if (value !== 'live' && value !== 'fake') {
+    throw new Error(`Invalid PROVIDERS value: ${process.env.PROVIDERS} (expected live or fake)`);
+  }
+  return value;
+}
+
+/**
+ * Build the external service implementations for a run.
+ * `PROVIDERS=fake` swaps every API-backed service for a local stand-in,
+ * so the pipeline and the publish flow run offline (tests, demos).
+ */
+export function createProviders(mode: ProviderMode = getProviderMode()): Providers {
+  if (mode === 'fake') {
+    logger.info('Using fake providers (offline mode)');
+    return {
+      mode,
+      scriptGenerator: new FakeScriptGenerator(),
+      topicGenerator: new FakeTopicGenerator(),
+      metadataGenerator: new FakeMetadataGenerator(),
+      voiceGenerator: new FakeVoiceGenerator(),
+      assetCollector: new FakeAssetCollector(),
+      youtubeUploader: new FakeYouTubeUploader()
+    };
+  }
+
+  // One client: providers without JSON mode are learned once for every generator.
+  const llm = new LlmClient();
+  return {
+    mode,
+    scriptGenerator: new ScriptGenerator(llm),
+    topicGenerator: new TopicGenerator(llm),
+    metadataGenerator: new YouTubeMetadataGenerator(llm),
+    voiceGenerator: new VoiceGeneratorFactory(),
+    assetCollector: new AssetCollector(),
+    youtubeUploader: new YouTubeUploader()
+  };
+}
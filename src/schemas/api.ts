@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PROJECT_ID_PATTERN } from './project-manifest.js';
+import { enhancedScriptSchema } from './script.js';
 
 export const generateVideoSchema = z.object({
   channelId: z
@@ -9,7 +11,9 @@ export const generateVideoSchema = z.object({
     .string()
     .min(3, 'topic must be at least 3 characters')
     .max(500, 'topic must be at most 500 characters'),
-  mode: z.enum(['full', 'script-only', 'audio-only']).default('full')
+  mode: z.enum(['full', 'script-only', 'audio-only']).default('full'),
+  /** Higher runs first in the generation queue. */
+  priority: z.number().int().min(-10).max(10).optional()
 });
 
 export const scheduleVideoSchema = z.object({
@@ -43,7 +47,9 @@ export const youtubeUploadSchema = z.object({
     description: z.string().max(5000).optional(),
     tags: z.array(z.string().max(30)).max(500).optional(),
     category: z.string().optional(),
-    privacy: z.enum(['private', 'unlisted', 'public']).optional()
+    privacy: z.enum(['private', 'unlisted', 'public']).optional(),
+    /** Set the video's thumbnail after the upload (default: when one was generated). */
+    thumbnail: z.boolean().optional()
   }).optional()
 });
 
@@ -64,7 +70,9 @@ export const youtubePublishSchema = z.object({
     tags: z.array(z.string().max(30)).max(30).optional(),
     categoryId: z.string().optional(),
     privacyStatus: z.enum(['private', 'unlisted', 'public']).optional()
-  }).optional()
+  }).optional(),
+  /** Set the project's selected thumbnail after the upload (default: when one was generated). */
+  thumbnail: z.boolean().optional()
 });
 
 export const prepublishValidateSchema = z.object({
@@ -82,6 +90,119 @@ export const regenerateAssetsSchema = z.object({
   minClips: z.number().int().min(0).max(100).optional()
 });
 
+const projectId = z
+  .string()
+  .min(1, 'projectId is required')
+  .max(100)
+  .regex(PROJECT_ID_PATTERN, 'Invalid projectId');
+
+export const resumeProjectSchema = z.object({
+  projectId
+});
+
+/** Script JSON as saved in output/scripts (extra fields such as enhanced metadata are kept). */
+const planScriptSchema = z.object({
+  title: z.string().min(1).max(300),
+  hook: z.string().max(5000).default(''),
+  sections: z.array(z.object({
+    narration: z.string().max(20000),
+    searchQuery: z.string().max(300).default(''),
+    visualType: z.enum(['image', 'video', 'text']).default('image'),
+    duration: z.number().nonnegative().default(0),
+    transition: z.enum(['fade', 'dissolve', 'zoom']).default('fade')
+  }).passthrough()).min(1).max(100),
+  conclusion: z.string().max(5000).default(''),
+  duration: z.number().nonnegative().default(0)
+}).passthrough();
+
+export const planTimelineSchema = z.object({
+  channelId: z
+    .string()
+    .min(1, 'channelId is required')
+    .max(50, 'channelId too long'),
+  topic: z.string().min(3).max(500).optional(),
+  script: planScriptSchema,
+  /** Narration file under ./output/audio; its duration drives the timeline. */
+  audioPath: z
+    .string()
+    .max(500)
+    .refine((v) => !v.includes('..') && !v.includes('\\'), {
+      message: 'audioPath must not contain ".." or backslashes'
+    })
+    .optional(),
+  /** Estimated narration length, when there is no audio yet. */
+  durationSeconds: z.number().positive().max(4 * 3600).optional(),
+  forceImagesOnly: z.boolean().optional(),
+  minClips: z.number().int().min(0).max(100).optional()
+}).refine((data) => !!data.audioPath || data.durationSeconds !== undefined, {
+  message: 'Provide audioPath or durationSeconds'
+});
+
+/**
+ * Edited script for an existing project; only the changed narration is voiced again. It is held
+ * to the same shape as a generated script (saved extras such as `claims` or `prompt` are kept).
+ */
+export const updateScriptSchema = z.object({
+  script: enhancedScriptSchema.extend({
+    sections: enhancedScriptSchema.shape.sections.max(100),
+    duration: z.number().nonnegative().default(0)
+  }).passthrough()
+});
+
+export const generateThumbnailsSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  subtitle: z.string().trim().max(100).optional(),
+  count: z.number().int().min(1).max(6).optional()
+});
+
+export const selectThumbnailSchema = z.object({
+  index: z.number().int().min(0)
+});
+
+/** Reviewed claims, in order; claims left out are removed. */
+export const reviewClaimsSchema = z.object({
+  claims: z.array(z.object({
+    id: z.string().min(1).max(100),
+    text: z.string().trim().min(1).max(1000).optional(),
+    source: z.object({
+      title: z.string().trim().min(1).max(300),
+      url: z.string().trim().url().max(1000).refine((v) => /^https?:\/\//i.test(v), 'url must be http(s)').optional()
+    }).nullable().optional(),
+    status: z.enum(['pending', 'approved']).optional()
+  })).max(100)
+});
+
+export const listJobsQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional()
+});
+
+export const costsQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'month must be YYYY-MM').optional(),
+  channelId: z.string().max(50).optional()
+});
+
+export const listProjectsQuerySchema = z.object({
+  channelId: z.string().max(50).optional(),
+  status: z.enum(['running', 'failed', 'cancelled', 'draft', 'complete']).optional(),
+  mode: z.enum(['full', 'script-only', 'audio-only']).optional(),
+  q: z.string().max(200).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+export const createShortsSchema = z.object({
+  count: z.number().int().min(1).max(5).optional(),
+  maxSeconds: z.number().min(15).max(60).optional()
+});
+
+export const localizeProjectSchema = z.object({
+  language: z.string().regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, 'language must look like fr-FR')
+});
+
+export const projectIdParamSchema = z.object({
+  id: projectId
+});
+
 export const idParamSchema = z.object({
   id: z.string().min(1, 'id is required').max(100)
 });
@@ -103,3 +224,14 @@ export type YouTubeUploadInput = z.infer<typeof youtubeUploadSchema>;
 export type YouTubePublishInput = z.infer<typeof youtubePublishSchema>;
 export type PrepublishValidateInput = z.infer<typeof prepublishValidateSchema>;
 export type RegenerateAssetsInput = z.infer<typeof regenerateAssetsSchema>;
+export type ResumeProjectInput = z.infer<typeof resumeProjectSchema>;
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+export type ListProjectsQuery = z.infer<typeof listProjectsQuerySchema>;
+export type CreateShortsInput = z.infer<typeof createShortsSchema>;
+export type LocalizeProjectInput = z.infer<typeof localizeProjectSchema>;
+export type UpdateScriptInput = z.infer<typeof updateScriptSchema>;
+export type GenerateThumbnailsInput = z.infer<typeof generateThumbnailsSchema>;
+export type SelectThumbnailInput = z.infer<typeof selectThumbnailSchema>;
+export type ReviewClaimsInput = z.infer<typeof reviewClaimsSchema>;
+export type CostsQuery = z.infer<typeof costsQuerySchema>;
+export type PlanTimelineInput = z.infer<typeof planTimelineSchema>;
@@ -0,0 +1,229 @@
+import { z } from 'zod';
+
+/** Bump together with a new entry in MANIFEST_MIGRATIONS. */
+export const PROJECT_MANIFEST_VERSION = 2;
+
+/** Project ids are `${channelId}-${timestamp}`; never allow path separators. */
+export const PROJECT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/i;
+
+const stageSchema = z.enum(['script', 'audio', 'collect', 'download', 'compose']);
+
+const visualRequestSchema = z.object({
+  searchQuery: z.string(),
+  preferredType: z.enum(['image', 'video']),
+  durationSeconds: z.number(),
+  transition: z.enum(['fade', 'dissolve', 'zoom']).optional(),
+  label: z.string().optional(),
+  channelId: z.string().optional()
+});
+
+const assetSchema = z.object({
+  libraryId: z.string().optional(),
+  type: z.enum(['image', 'video']),
+  url: z.string(),
+  localPath: z.string().optional(),
+  duration: z.number().optional(),
+  attribution: z.string().optional(),
+  category: z.enum(['evergreen', 'episode_specific']).optional(),
+  keywords: z.array(z.string()).optional(),
+  source: z.enum(['pexels', 'library']).optional(),
+  channelId: z.string().optional(),
+  searchQuery: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  mediaDurationSeconds: z.number().optional()
+});
+
+const narrationClipSchema = z.object({
+  /** Narration segment (hook, section-2, final-cta...), as in the timeline's beat labels. */
+  key: z.string(),
+  /** Hash of the spoken text: unchanged segments keep their clip and their visuals. */
+  textHash: z.string(),
+  /** Cached clip under output/audio/clips/<projectId>/; missing for narrations voiced in one take. */
+  path: z.string().optional(),
+  durationSeconds: z.number().optional()
+});
+
+const usageEntrySchema = z.object({
+  at: z.string(),
+  provider: z.enum(['openai', 'openai-compatible', 'anthropic', 'elevenlabs', 'edge-tts', 'pexels']),
+  operation: z.string(),
+  model: z.string().optional(),
+  inputTokens: z.number().optional(),
+  outputTokens: z.number().optional(),
+  characters: z.number().optional(),
+  requests: z.number(),
+  retries: z.number().optional(),
+  /** Priced with the cost model in effect when the call was made. */
+  costUsd: z.number()
+});
+
+export const projectManifestSchema = z.object({
+  schemaVersion: z.literal(PROJECT_MANIFEST_VERSION),
+  projectId: z.string().regex(PROJECT_ID_PATTERN, 'Invalid projectId'),
+  channelId: z.string().min(1),
+  topic: z.string(),
+  mode: z.enum(['full', 'script-only', 'audio-only']),
+  status: z.enum(['running', 'failed', 'cancelled', 'draft', 'complete']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  /** Checkpoints whose outputs are on disk, in pipeline order. */
+  completedStages: z.array(stageSchema),
+  scriptPath: z.string(),
+  audioPath: z.string(),
+  videoPath: z.string().optional(),
+  audioDurationSeconds: z.number().optional(),
+  /** Per-segment narration clips, in narration order (see NarrationClipRenderer). */
+  narrationClips: z.array(narrationClipSchema).default([]),
+  /** When each narration segment is spoken; drives beat allocation and the branding overlays. */
+  narrationTiming: z.array(z.object({
+    key: z.string(),
+    startSeconds: z.number(),
+    durationSeconds: z.number()
+  })).optional(),
+  /** Prompt pack version that wrote the current script (`prompts/<id>/v<version>.json`). */
+  promptPack: z.object({
+    id: z.string(),
+    version: z.number().int()
+  }).optional(),
+  /** YouTube chapter titles by narration segment (intro, section-N, conclusion); see ChapterGenerator. */
+  chapterTitles: z.record(z.string()).optional(),
+  beatsPlanned: z.number().int().optional(),
+  /** Asset-regeneration overrides (pre-publish fixes), reapplied when the collect stage reruns. */
+  visualOverrides: z.object({
+    forceImagesOnly: z.boolean(),
+    minClipsRequested: z.number().int().optional()
+  }),
+  requests: z.array(visualRequestSchema),
+  collectedAssets: z.array(assetSchema),
+  downloadedAssets: z.array(assetSchema),
+  /** Subtitles written from the narration's word timings (see SubtitleGenerator). */
+  subtitles: z.object({
+    srtPath: z.string(),
+    vttPath: z.string(),
+    /** Language of the narration, e.g. `en-US`. */
+    language: z.string(),
+    source: z.enum(['tts', 'aligned', 'mixed']),
+    cueCount: z.number().int()
+  }).optional(),
+  /** Thumbnail variants rendered for the project; `selected` is the one uploaded (see ThumbnailGenerator). */
+  thumbnails: z.object({
+    title: z.string(),
+    subtitle: z.string().optional(),
+    variants: z.array(z.object({
+      path: z.string(),
+      /** Frame or image the variant was made from. */
+      sourcePath: z.string(),
+      score: z.number(),
+      sizeBytes: z.number().int()
+    })),
+    selected: z.number().int(),
+    createdAt: z.string()
+  }).optional(),
+  /** Outcome of the last pre-publish validation run. */
+  prepublish: z.object({
+    ok: z.boolean(),
+    checkedAt: z.string(),
+    failedChecks: z.array(z.string())
+  }).optional(),
+  /** Set on vertical Shorts cut from a long-form project (see ShortsGenerator). */
+  shortSource: z.object({
+    projectId: z.string(),
+    startSeconds: z.number(),
+    durationSeconds: z.number()
+  }).optional(),
+  /** Set on translated versions of another project (see ProjectLocalizer). */
+  localization: z.object({
+    sourceProjectId: z.string(),
+    language: z.string(),
+    /** Translated branding lines, spoken in the narration and shown in the overlays. */
+    branding: z.object({
+      stingText: z.string(),
+      softCtaText: z.string(),
+      finalCtaText: z.string(),
+      outroTeaserText: z.string()
+    }).optional(),
+    /** YouTube metadata written in `language`. */
+    metadata: z.object({
+      title: z.string(),
+      description: z.string(),
+      tags: z.array(z.string())
+    }).optional()
+  }).optional(),
+  /** One entry per metered provider call (see CostTracker). */
+  usage: z.array(usageEntrySchema).default([]),
+  lastError: z.string().optional()
+});
+
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
+export type UsageEntry = z.infer<typeof usageEntrySchema>;
+export type NarrationClip = z.infer<typeof narrationClipSchema>;
+
+/** Drop `null` values: v1 used them for "not yet known", v2 leaves the field out. */
+function withoutNulls(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null));
+}
+
+/**
+ * Upgrades from version N to N + 1. Manifests without `schemaVersion` are version 1
+ * (written before the manifest was versioned).
+ */
+const MANIFEST_MIGRATIONS: Record<number, (manifest: Record<string, any>) => Record<string, any>> = {
+  1: (v1) => {
+    const { forceImagesOnly, minClipsRequested, ...rest } = withoutNulls(v1) as Record<string, any>;
+    const projectId = String(rest.projectId || '');
+    return {
+      ...rest,
+      schemaVersion: 2,
+      channelId: rest.channelId || projectId.replace(/-\d+$/, ''),
+      topic: typeof rest.topic === 'string' ? rest.topic : projectId,
+      mode: rest.mode || 'full',
+      status: rest.status || (typeof rest.videoPath === 'string' ? 'complete' : 'failed'),
+      createdAt: rest.createdAt || rest.updatedAt || new Date(0).toISOString(),
+      updatedAt: rest.updatedAt || rest.createdAt || new Date(0).toISOString(),
+      completedStages: Array.isArray(rest.completedStages) ? rest.completedStages : [],
+      scriptPath: rest.scriptPath || `./output/scripts/${projectId}.json`,
+      audioPath: rest.audioPath || `./output/audio/${projectId}.mp3`,
+      visualOverrides: {
+        forceImagesOnly: !!forceImagesOnly,
+        ...(typeof minClipsRequested === 'number' ? { minClipsRequested } : {})
+      },
+      requests: Array.isArray(rest.requests) ? rest.requests : [],
+      collectedAssets: Array.isArray(rest.collectedAssets) ? rest.collectedAssets : [],
+      downloadedAssets: Array.isArray(rest.downloadedAssets) ? rest.downloadedAssets : []
+    };
+  }
+};
+
+/** Topic the pipeline seeds a project's beats with (the project id when none was given). */
+export function projectTopic(manifest: Pick<ProjectManifest, 'projectId' | 'topic'>): string {
+  return manifest.topic.trim() || manifest.projectId;
+}
+
+/**
+ * Bring a manifest read from disk to the current version and validate it.
+ * Throws on unknown (newer) versions and on manifests that fail validation.
+ */
+export function migrateProjectManifest(raw: unknown): { manifest: ProjectManifest; migrated: boolean } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid manifest: expected an object');
+  }
+
+  let current = raw as Record<string, any>;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 1;
+  if (version > PROJECT_MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest schemaVersion ${version} (this build reads up to ${PROJECT_MANIFEST_VERSION})`);
+  }
+
+  const migrated = version < PROJECT_MANIFEST_VERSION;
+  while (version < PROJECT_MANIFEST_VERSION) {
+    current = MANIFEST_MIGRATIONS[version](current);
+    version++;
+  }
+
+  const parsed = projectManifestSchema.safeParse(current);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new Error(`Invalid manifest: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return { manifest: parsed.data, migrated };
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+const template = z.string().trim().min(1);
+
+/**
+ * A channel's prompt templates, one file per version under `prompts/<pack>/v<N>.json`.
+ * Templates use `{{variable}}` placeholders (see renderPrompt for the variables of each).
+ */
+export const promptPackSchema = z.object({
+  description: z.string().optional(),
+  script: z.object({
+    system: template,
+    /** `{{channelName}}`, `{{channelDescription}}`, `{{theme}}`, `{{topic}}`. */
+    intro: template,
+    tone: template,
+    visualStyle: template,
+    acts: z.object({ act1: template, act2: template, act3: template })
+  }),
+  topic: z.object({
+    system: template,
+    suggestionsSystem: template,
+    /** What a good topic is, numbered in the prompt. */
+    criteria: z.array(template).min(1)
+  }),
+  metadata: z.object({
+    /** `{{chapterCount}}` on top of the channel variables. */
+    rules: template
+  })
+});
+
+export type PromptPackTemplates = z.infer<typeof promptPackSchema>;
@@ -0,0 +1,49 @@
+import { z, ZodError } from 'zod';
+
+/**
+ * Shape of a script as the LLM must return it (see ScriptGenerator). The enhanced fields
+ * (content type, tone, act, micro-hooks, arc, acts) may be left out and are inferred, but
+ * when present they must hold known values: the composer and the pacing engine switch on them.
+ */
+const sectionSchema = z.object({
+  narration: z.string().trim().min(1, 'Narration is empty'),
+  visualType: z.enum(['image', 'video', 'text']),
+  searchQuery: z.string().trim().min(1, 'Search query is empty'),
+  duration: z.number().positive(),
+  transition: z.enum(['fade', 'dissolve', 'zoom']),
+  contentType: z.enum(['hook', 'reveal', 'exposition', 'action', 'conclusion', 'transition_moment']).optional(),
+  emotionalTone: z.enum(['curiosity', 'tension', 'wonder', 'mystery', 'excitement', 'resolution', 'intrigue']).optional(),
+  act: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
+  isMicroHook: z.boolean().optional(),
+  cliffhanger: z.string().optional()
+});
+
+export const enhancedScriptSchema = z.object({
+  title: z.string().trim().min(1, 'Title is empty'),
+  hook: z.string().trim().min(1, 'Hook is empty'),
+  sections: z.array(sectionSchema).min(1, 'No sections'),
+  conclusion: z.string().trim().min(1, 'Conclusion is empty'),
+  duration: z.number().positive().optional(),
+  microHooks: z.array(z.object({
+    timestamp: z.number().nonnegative(),
+    text: z.string().trim().min(1),
+    type: z.enum(['question', 'teaser', 'callback', 'stakes'])
+  })).optional(),
+  emotionalArc: z.array(z.object({
+    timestamp: z.number().nonnegative(),
+    intensity: z.number().min(0).max(10),
+    tone: z.enum(['curiosity', 'tension', 'wonder', 'mystery', 'excitement', 'resolution', 'intrigue'])
+  })).optional(),
+  threeActStructure: z.object({
+    act1End: z.number().int().nonnegative(),
+    act2End: z.number().int().nonnegative(),
+    climaxSection: z.number().int().nonnegative()
+  }).optional()
+});
+
+export type ParsedScript = z.infer<typeof enhancedScriptSchema>;
+
+/** One line per problem (`sections.3.transition: Invalid enum value...`), for logs and repair prompts. */
+export function formatScriptIssues(error: ZodError): string[] {
+  return error.errors.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+}
@@ -6,12 +6,28 @@ import { createServer } from 'http';
 import { FullVideoPipeline } from './workflows/full-video-pipeline.js';
 import { VideoScheduler } from './services/video-scheduler.js';
 import { SchedulerDatabase } from './services/scheduler-db.js';
-import { YouTubeUploader } from './services/youtube-uploader.js';
+import { createProviders } from './providers/index.js';
 import { YouTubePublishStore } from './services/youtube-publish-store.js';
 import { YouTubePublishJob } from './types/youtube-publish.js';
+import { YouTubeConfig } from './types/scheduler.js';
 import { PrepublishValidator } from './services/prepublish-validator.js';
+import { ProjectStore } from './services/project-store.js';
+import { ProjectCatalog } from './services/project-catalog.js';
+import { CostTracker } from './services/cost-tracker.js';
+import { ShortsGenerator } from './services/shorts-generator.js';
+import { ProjectLocalizer } from './services/project-localizer.js';
+import { SubtitleGenerator } from './services/subtitle-generator.js';
+import { ChapterGenerator } from './services/chapter-generator.js';
+import { ClaimReview, applyClaimEdits, formatSourcesBlock } from './services/claim-review.js';
+import { ThumbnailGenerator, ThumbnailSet } from './services/thumbnail-generator.js';
+import { GenerationJobQueue } from './services/job-queue.js';
+import { GenerationJob, GenerationJobResult } from './types/job-queue.js';
+import { PipelineMode, PipelineProgressEvent } from './types/pipeline.js';
+import { PlannedShort } from './types/shorts.js';
 import { channels } from './config/channels.js';
-import { readdir, readFile } from 'fs/promises';
+import { TimelinePlanner } from './services/timeline-planner.js';
+import { VideoScript } from './types/index.js';
+import { probeDurationSeconds } from './utils/media.js';
 import path from 'path';
 import crypto from 'crypto';
 import { existsSync } from 'fs';
@@ -19,7 +35,8 @@ import { existsSync } from 'fs';
 import logger from './utils/logger.js';
 import { authMiddleware, optionalAuthMiddleware, authenticateUser, generateToken, isAuthEnabled, AuthRequest } from './middleware/auth.js';
 import { globalRateLimiter, generateRateLimiter, uploadRateLimiter, authRateLimiter } from './middleware/rate-limiter.js';
-import { validateBody, validateParams } from './middleware/validation.js';
+import { validateBody, validateParams, validateQuery } from './middleware/validation.js';
+import { requireBudget } from './middleware/budget.js';
 import {
   generateVideoSchema,
   scheduleVideoSchema,
@@ -28,9 +45,31 @@ import {
   youtubePublishSchema,
   prepublishValidateSchema,
   regenerateAssetsSchema,
+  resumeProjectSchema,
+  listJobsQuerySchema,
+  listProjectsQuerySchema,
+  costsQuerySchema,
+  CostsQuery,
+  ListProjectsQuery,
+  createShortsSchema,
+  CreateShortsInput,
+  localizeProjectSchema,
+  LocalizeProjectInput,
+  updateScriptSchema,
+  UpdateScriptInput,
+  generateThumbnailsSchema,
+  GenerateThumbnailsInput,
+  selectThumbnailSchema,
+  SelectThumbnailInput,
+  reviewClaimsSchema,
+  ReviewClaimsInput,
+  projectIdParamSchema,
+  planTimelineSchema,
+  PlanTimelineInput,
   idParamSchema,
   filenameParamSchema
 } from './schemas/api.js';
+import { projectTopic } from './schemas/project-manifest.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -47,11 +86,23 @@ const io = new Server(httpServer, {
   }
 });
 
-const scheduler = new VideoScheduler();
+const providers = createProviders();
+const projectStore = new ProjectStore();
+const costTracker = new CostTracker(projectStore);
+const generationQueue = new GenerationJobQueue();
+const scheduler = new VideoScheduler(generationQueue, providers, costTracker);
 const schedulerDb = new SchedulerDatabase();
-const youtubeUploader = new YouTubeUploader();
+const youtubeUploader = providers.youtubeUploader;
 const youtubePublishStore = new YouTubePublishStore();
-const prepublishValidator = new PrepublishValidator();
+const prepublishValidator = new PrepublishValidator(projectStore);
+const projectCatalog = new ProjectCatalog(projectStore, youtubePublishStore, generationQueue);
+const timelinePlanner = new TimelinePlanner();
+const shortsGenerator = new ShortsGenerator(projectStore);
+const projectLocalizer = new ProjectLocalizer(providers, projectStore, costTracker);
+const subtitleGenerator = new SubtitleGenerator(projectStore);
+const chapterGenerator = new ChapterGenerator(projectStore);
+const claimReview = new ClaimReview(projectStore);
+const thumbnailGenerator = new ThumbnailGenerator(projectStore);
 
 function getBaseUrl(req: express.Request): string {
   const proto = (req.headers['x-forwarded-proto'] as string) || req.protocol;
@@ -146,39 +197,24 @@ app.get('/api/channels', (_req, res) => {
   res.json(channelsList);
 });
 
+// Legacy shape used by the dashboard; built on project manifests.
 app.get('/api/history', async (_req, res) => {
   try {
-    const scriptsDir = './output/scripts';
-    const videosDir = './output/videos';
-    const audioDir = './output/audio';
-
-    const scripts = await readdir(scriptsDir).catch(() => [] as string[]);
-    const videos = await readdir(videosDir).catch(() => [] as string[]);
-    const audios = await readdir(audioDir).catch(() => [] as string[]);
-
-    const history = await Promise.all(
-      scripts.map(async (filename) => {
-        const content = await readFile(path.join(scriptsDir, filename), 'utf-8');
-        const script = JSON.parse(content) as { title?: string };
-        const timestampStr = filename.match(/\d+/)?.[0] || String(Date.now());
-        const timestamp = parseInt(timestampStr, 10);
-        const channelId = filename.split('-')[0];
-
-        return {
-          id: timestamp,
-          channel: channelId,
-          title: script.title || 'Untitled',
-          timestamp,
-          hasVideo: videos.some((v) => v.includes(timestampStr)),
-          hasAudio: audios.some((a) => a.includes(timestampStr)),
-          scriptPath: `/output/scripts/${filename}`,
-          videoPath: videos.find((v) => v.includes(timestampStr)) ? `/output/videos/${videos.find((v) => v.includes(timestampStr))}` : null,
-          audioPath: audios.find((a) => a.includes(timestampStr)) ? `/output/audio/${audios.find((a) => a.includes(timestampStr))}` : null
-        };
-      })
-    );
-
-    res.json(history.sort((a, b) => b.timestamp - a.timestamp));
+    const projects = await projectCatalog.summaries();
+    res.json(projects.map((p) => ({
+      id: p.projectId,
+      projectId: p.projectId,
+      channel: p.channelId,
+      title: p.title || p.topic || 'Untitled',
+      timestamp: Date.parse(p.createdAt),
+      status: p.status,
+      hasVideo: !!p.artifacts.video,
+      hasAudio: !!p.artifacts.audio,
+      published: p.publish?.status === 'done',
+      scriptPath: p.artifacts.script,
+      videoPath: p.artifacts.video,
+      audioPath: p.artifacts.audio
+    })));
   } catch (error: unknown) {
     const err = error as Error;
     logger.error({ error: err.message }, 'Failed to load history');
@@ -186,66 +222,360 @@ app.get('/api/history', async (_req, res) => {
   }
 });
 
-app.post('/api/generate', authMiddleware, generateRateLimiter, validateBody(generateVideoSchema), async (req: AuthRequest, res) => {
-  const { channelId, topic } = req.body as { channelId: string; topic: string };
+// ─── Projects (output/meta manifests) ──────────────────────────────
+app.get('/api/projects', validateQuery(listProjectsQuerySchema), async (req, res) => {
+  try {
+    res.json(await projectCatalog.list(req.query as ListProjectsQuery));
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Failed to list projects');
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  const channel = channels[channelId];
-  if (!channel) {
-    res.status(400).json({ error: 'Invalid channel' });
-    return;
+app.get('/api/projects/:id', validateParams(projectIdParamSchema), async (req, res) => {
+  try {
+    const project = await projectCatalog.get(String(req.params.id));
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    res.json(project);
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId: req.params.id, error: err.message }, 'Failed to get project');
+    res.status(500).json({ error: err.message });
   }
+});
 
-  const jobId = Date.now().toString();
-  const projectId = `${channel.id}-${jobId}`;
+app.delete('/api/projects/:id', authMiddleware, validateParams(projectIdParamSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  try {
+    const project = await projectCatalog.get(projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (project.activeJobId) {
+      res.status(409).json({ error: 'Project has an active generation job', jobId: project.activeJobId });
+      return;
+    }
 
-  logger.info({ jobId, channelId, topic, user: req.user?.username }, 'Starting video generation');
-  res.json({ jobId, status: 'started' });
+    const result = await projectCatalog.delete(projectId);
+    logger.info({ projectId, user: req.user?.username }, 'Project deleted via API');
+    res.json(result);
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Failed to delete project');
+    res.status(500).json({ error: err.message });
+  }
+});
 
-  const socketRoom = `job-${jobId}`;
+// (Re)write output/subtitles/<projectId>.srt + .vtt, e.g. for projects rendered before subtitles existed.
+app.post('/api/projects/:id/subtitles', authMiddleware, validateParams(projectIdParamSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  try {
+    if (!projectStore.exists(projectId)) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
 
-  const pipeline = new FullVideoPipeline();
+    let subtitles;
+    try {
+      subtitles = await subtitleGenerator.generate(projectId);
+    } catch (error: unknown) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
 
-  const logToSocket = (message: string) => {
-    logger.debug({ jobId, message }, 'Pipeline progress');
-    io.to(socketRoom).emit('progress', { message });
-  };
+    logger.info({ projectId, cues: subtitles.cueCount, source: subtitles.source, user: req.user?.username }, 'Subtitles generated via API');
+    res.json({
+      ...subtitles,
+      srtPath: toPublicPath(subtitles.srtPath),
+      vttPath: toPublicPath(subtitles.vttPath)
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Subtitle generation failed');
+    res.status(500).json({ error: err.message || 'Subtitle generation failed' });
+  }
+});
 
-  io.to(socketRoom).emit('progress', {
-    step: 'started',
-    message: `Starting generation for: ${topic}`
-  });
+// Thumbnail variants rendered from the project's strongest frames, for preview and selection.
+app.post('/api/projects/:id/thumbnails', authMiddleware, validateParams(projectIdParamSchema), validateBody(generateThumbnailsSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  const { title, subtitle, count } = req.body as GenerateThumbnailsInput;
+  try {
+    if (!projectStore.exists(projectId)) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
 
-  const originalLog = console.log;
-  console.log = (...args: unknown[]) => {
-    originalLog(...args);
-    logToSocket(args.map(String).join(' '));
-  };
+    let thumbnails;
+    try {
+      thumbnails = await thumbnailGenerator.generate(projectId, { title, subtitle, count });
+    } catch (error: unknown) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    logger.info({ projectId, variants: thumbnails.variants.length, user: req.user?.username }, 'Thumbnails generated via API');
+    res.json(publicThumbnails(thumbnails));
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Thumbnail generation failed');
+    res.status(500).json({ error: err.message || 'Thumbnail generation failed' });
+  }
+});
+
+app.put('/api/projects/:id/thumbnails/selected', authMiddleware, validateParams(projectIdParamSchema), validateBody(selectThumbnailSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  const { index } = req.body as SelectThumbnailInput;
+  try {
+    if (!projectStore.exists(projectId)) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    let thumbnails;
+    try {
+      thumbnails = await thumbnailGenerator.select(projectId, index);
+    } catch (error: unknown) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+    res.json(publicThumbnails(thumbnails));
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Thumbnail selection failed');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Checkable claims pulled from the script, reviewed before publishing; approved sources go in the description.
+app.get('/api/projects/:id/claims', validateParams(projectIdParamSchema), async (req, res) => {
+  const projectId = String(req.params.id);
+  try {
+    if (!projectStore.exists(projectId)) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    const claims = await claimReview.list(projectId);
+    res.json({ claims, sources: formatSourcesBlock(claims) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Failed to get claims');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.put('/api/projects/:id/claims', authMiddleware, validateParams(projectIdParamSchema), validateBody(reviewClaimsSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  const { claims: edits } = req.body as ReviewClaimsInput;
+  try {
+    const project = await projectCatalog.get(projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    // A running job saves the script it read first and would drop the review.
+    if (project.activeJobId) {
+      res.status(409).json({ error: 'Project has an active generation job', jobId: project.activeJobId });
+      return;
+    }
+    const current = await claimReview.list(projectId);
+    let claims;
+    try {
+      claims = applyClaimEdits(current, edits);
+    } catch (error: unknown) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+    await claimReview.save(projectId, claims);
+    logger.info({ projectId, claims: claims.length, user: req.user?.username }, 'Claims reviewed via API');
+    res.json({ claims, sources: formatSourcesBlock(claims) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Claim review failed');
+    res.status(500).json({ error: err.message });
+  }
+});
 
+// Edited script: only the changed narration segments are voiced again, unchanged sections keep their shots.
+app.put('/api/projects/:id/script', authMiddleware, generateRateLimiter, validateParams(projectIdParamSchema), validateBody(updateScriptSchema), async (req: AuthRequest, res) => {
+  const projectId = String(req.params.id);
+  const { script } = req.body as UpdateScriptInput;
   try {
-    const videoPath = await pipeline.generateVideo(channel, topic, projectId);
+    const project = await projectCatalog.get(projectId);
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (project.activeJobId) {
+      res.status(409).json({ error: 'Project has an active generation job', jobId: project.activeJobId });
+      return;
+    }
+    if (project.shortSource || project.localization) {
+      res.status(400).json({ error: 'Shorts and localized versions are rendered from their source project' });
+      return;
+    }
 
-    const scriptPath = `./output/scripts/${projectId}.json`;
-    const audioPath = `./output/audio/${projectId}.mp3`;
+    const budget = await costTracker.checkBudget(project.channelId);
+    if (budget.exceeded && project.completedStages.includes('audio')) {
+      logger.warn({ ...budget, user: req.user?.username }, 'Script edit refused: monthly budget reached');
+      res.status(402).json({ error: 'Monthly budget reached for this channel', ...budget });
+      return;
+    }
 
-    logger.info({ jobId, projectId, videoPath }, 'Video generation complete');
+    const pipeline = new FullVideoPipeline(providers, projectStore, costTracker);
+    const update = await pipeline.updateScript(projectId, script as VideoScript);
+    if (!update.revoice) {
+      res.json({ ...update, jobId: null });
+      return;
+    }
 
-    io.to(socketRoom).emit('complete', {
-      jobId,
+    const job = await generationQueue.enqueue({
+      kind: 'revoice',
+      channelId: project.channelId,
+      topic: project.topic,
       projectId,
-      videoPath: videoPath.replace('./output/', '/output/'),
-      scriptPath: scriptPath.replace('./output/', '/output/'),
-      audioPath: audioPath.replace('./output/', '/output/'),
-      message: 'Video generation complete!'
+      requestedBy: req.user?.username
     });
+
+    logger.info({ jobId: job.id, projectId, changedSegments: update.changedSegments, user: req.user?.username }, 'Script edit queued');
+    res.json({ ...update, jobId: job.id, status: job.status, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Script update failed');
+    res.status(500).json({ error: err.message || 'Script update failed' });
+  }
+});
+
+// Vertical Shorts cut from a finished project; each one is queued as its own project.
+app.post('/api/projects/:id/shorts', authMiddleware, generateRateLimiter, validateParams(projectIdParamSchema), validateBody(createShortsSchema), async (req: AuthRequest, res) => {
+  const sourceProjectId = String(req.params.id);
+  try {
+    const source = await projectStore.get(sourceProjectId);
+    if (!source) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    let planned: PlannedShort[];
+    try {
+      planned = await shortsGenerator.plan(sourceProjectId, req.body as CreateShortsInput);
+    } catch (error: unknown) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    const shorts = [];
+    for (const short of planned) {
+      const job = await generationQueue.enqueue({
+        kind: 'short',
+        channelId: source.channelId,
+        topic: source.topic,
+        projectId: short.projectId,
+        short: {
+          sourceProjectId,
+          startSeconds: short.startSeconds,
+          durationSeconds: short.durationSeconds,
+          intensity: short.intensity
+        },
+        requestedBy: req.user?.username
+      });
+      shorts.push({ ...short, jobId: job.id, status: job.status, position: generationQueue.getPosition(job.id) });
+    }
+
+    logger.info({ sourceProjectId, count: shorts.length, user: req.user?.username }, 'Shorts queued');
+    res.json({ sourceProjectId, shorts });
   } catch (error: unknown) {
     const err = error as Error;
-    logger.error({ jobId, error: err.message }, 'Video generation failed');
-    io.to(socketRoom).emit('error', {
-      jobId,
-      error: err.message
+    logger.error({ projectId: sourceProjectId, error: err.message }, 'Shorts request failed');
+    res.status(500).json({ error: err.message || 'Shorts request failed' });
+  }
+});
+
+// Translated version of a finished project, rendered as a new project.
+app.post('/api/projects/:id/localize', authMiddleware, generateRateLimiter, validateParams(projectIdParamSchema), validateBody(localizeProjectSchema), requireBudget(costTracker, channelIdOfProject((req) => String(req.params.id))), async (req: AuthRequest, res) => {
+  const sourceProjectId = String(req.params.id);
+  const { language } = req.body as LocalizeProjectInput;
+  try {
+    const source = await projectStore.get(sourceProjectId);
+    if (!source) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+    if (source.status !== 'complete' || source.shortSource || source.localization) {
+      res.status(400).json({ error: 'Only finished original projects can be localized' });
+      return;
+    }
+    const languages = projectLocalizer.languagesFor(source.channelId);
+    if (!languages.includes(language)) {
+      res.status(400).json({ error: `No ${language} voice configured for this channel`, languages });
+      return;
+    }
+
+    const projectId = `${source.channelId}-${Date.now()}`;
+    const job = await generationQueue.enqueue({
+      kind: 'localize',
+      channelId: source.channelId,
+      topic: source.topic,
+      projectId,
+      localization: { sourceProjectId, language },
+      requestedBy: req.user?.username
     });
-  } finally {
-    console.log = originalLog;
+
+    logger.info({ jobId: job.id, sourceProjectId, projectId, language, user: req.user?.username }, 'Localization queued');
+    res.json({ jobId: job.id, status: job.status, projectId, sourceProjectId, language, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId: sourceProjectId, error: err.message }, 'Localization request failed');
+    res.status(500).json({ error: err.message || 'Localization failed' });
+  }
+});
+
+app.post('/api/generate', authMiddleware, generateRateLimiter, validateBody(generateVideoSchema), requireBudget(costTracker, (req) => channels[req.body.channelId]?.id), async (req: AuthRequest, res) => {
+  const { channelId, topic, mode, priority } = req.body as {
+    channelId: string;
+    topic: string;
+    mode: PipelineMode;
+    priority?: number;
+  };
+
+  const channel = channels[channelId];
+  if (!channel) {
+    res.status(400).json({ error: 'Invalid channel' });
+    return;
+  }
+
+  try {
+    const job = await generationQueue.enqueue({
+      kind: 'generate',
+      channelId: channel.id,
+      topic,
+      projectId: `${channel.id}-${Date.now()}`,
+      mode,
+      priority,
+      requestedBy: req.user?.username
+    });
+
+    logger.info({ jobId: job.id, channelId, topic, mode, user: req.user?.username }, 'Video generation queued');
+    res.json({ jobId: job.id, status: job.status, projectId: job.projectId, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Failed to queue video generation');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Provider spend from project manifests, by channel, project, month and provider.
+app.get('/api/costs', validateQuery(costsQuerySchema), async (req, res) => {
+  try {
+    res.json(await costTracker.report(req.query as CostsQuery));
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Failed to build cost report');
+    res.status(500).json({ error: err.message });
   }
 });
 
@@ -346,7 +676,10 @@ app.get('/api/schedule/:id/metadata', validateParams(idParamSchema), async (req,
 
 app.post('/api/youtube/upload', authMiddleware, uploadRateLimiter, validateBody(youtubeUploadSchema), async (req: AuthRequest, res) => {
   try {
-    const { videoId, config } = req.body as { videoId: string; config?: { title?: string; description?: string; tags?: string[]; category?: string; privacy?: string } };
+    const { videoId, config } = req.body as {
+      videoId: string;
+      config?: { title?: string; description?: string; tags?: string[]; category?: string; privacy?: string; thumbnail?: boolean };
+    };
     const videos = await schedulerDb.getVideos();
     const video = videos.find((v) => v.id === videoId);
 
@@ -383,16 +716,43 @@ app.post('/api/youtube/upload', authMiddleware, uploadRateLimiter, validateBody(
     const room = `yt-${publishJobId}`;
     const redirectUri = `${getBaseUrl(req)}/api/youtube/oauth/callback`;
 
+    const thumbnailPath = config?.thumbnail === false
+      ? undefined
+      : (video.thumbnailPath && existsSync(video.thumbnailPath) ? video.thumbnailPath : await thumbnailForVideo(localVideoPath));
+
+    const uploadConfig = {
+      title: config?.title || video.topic || 'Untitled Video',
+      description: await describeForUpload(localVideoPath, config?.description || ''),
+      tags: Array.isArray(config?.tags) ? config.tags : [],
+      category: config?.category || '22',
+      privacy: (config?.privacy as 'private' | 'unlisted' | 'public') || 'unlisted',
+      captions: await captionsForVideo(localVideoPath)
+    };
+
+    // Recorded like a publish so the thumbnail can be retried from the history.
+    const job: YouTubePublishJob = {
+      id: publishJobId,
+      status: 'starting',
+      progress: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      videoPath: localVideoPath,
+      request: {
+        title: uploadConfig.title,
+        description: uploadConfig.description,
+        tags: uploadConfig.tags,
+        categoryId: uploadConfig.category,
+        privacyStatus: uploadConfig.privacy
+      },
+      thumbnail: thumbnailPath
+        ? { path: thumbnailPath, status: 'pending', attempts: 0, updatedAt: new Date().toISOString() }
+        : undefined
+    };
+    await youtubePublishStore.upsert(job);
+
     io.to(room).emit('yt:status', { status: 'starting', progress: 0 });
 
     try {
-      const uploadConfig = {
-        title: config?.title || video.topic || 'Untitled Video',
-        description: config?.description || '',
-        tags: Array.isArray(config?.tags) ? config.tags : [],
-        category: config?.category || '22',
-        privacy: (config?.privacy as 'private' | 'unlisted' | 'public') || 'unlisted'
-      };
 
       const result = await youtubeUploader.uploadVideoResumable(
         localVideoPath,
@@ -409,6 +769,19 @@ app.post('/api/youtube/upload', authMiddleware, uploadRateLimiter, validateBody(
         publishedAt: new Date()
       });
 
+      const done = await publishThumbnail({
+        ...job,
+        status: 'done',
+        progress: 100,
+        updatedAt: new Date().toISOString(),
+        videoId: result.videoId,
+        videoUrl: result.videoUrl,
+        appliedPrivacyStatus: result.appliedPrivacyStatus,
+        warning: result.warning,
+        processingStatus: result.processingStatus
+      }, redirectUri);
+      await youtubePublishStore.upsert(done);
+
       logger.info({ publishJobId, youtubeVideoId: result.videoId }, 'YouTube upload complete');
 
       io.to(room).emit('yt:done', {
@@ -418,11 +791,18 @@ app.post('/api/youtube/upload', authMiddleware, uploadRateLimiter, validateBody(
         videoUrl: result.videoUrl,
         appliedPrivacyStatus: result.appliedPrivacyStatus,
         warning: result.warning,
-        processingStatus: result.processingStatus
+        processingStatus: result.processingStatus,
+        thumbnail: thumbnailOutcome(done)
       });
     } catch (error: unknown) {
       const err = error as Error;
       const msg = err.message === 'AUTH_REQUIRED' ? 'AUTH_REQUIRED' : (err.message || 'Upload failed');
+      await youtubePublishStore.upsert({
+        ...job,
+        status: 'failed',
+        updatedAt: new Date().toISOString(),
+        error: msg
+      });
       logger.error({ publishJobId, error: msg }, 'YouTube upload failed');
       io.to(room).emit('yt:error', { status: 'failed', error: msg });
     }
@@ -445,19 +825,93 @@ function resolveOutputVideoPath(input: string): string {
   return abs;
 }
 
+function resolveOutputAudioPath(input: string): string {
+  const cleaned = input.startsWith('/output/') ? `./output/${input.slice('/output/'.length)}` : input;
+  const abs = path.resolve(process.cwd(), cleaned);
+  const allowedDir = path.resolve(process.cwd(), 'output', 'audio');
+  if (!abs.startsWith(allowedDir + path.sep)) {
+    throw new Error('Invalid audioPath (must be under ./output/audio)');
+  }
+  return abs;
+}
+
 function inferProjectIdFromVideoPath(absVideoPath: string): string {
   const base = path.basename(absVideoPath);
   return base.replace(/\.mp4$/i, '');
 }
 
-function inferChannelIdFromProjectId(projectId: string): string | null {
-  const keys = Object.keys(channels);
-  const matches = keys
-    .filter((k) => projectId === k || projectId.startsWith(k + '-'))
-    .sort((a, b) => b.length - a.length);
-  return matches[0] || null;
+/** Budget resolver: channel of the project a request names (none when there is no such project). */
+function channelIdOfProject(projectIdOf: (req: AuthRequest) => string) {
+  return async (req: AuthRequest) => (await projectStore.get(projectIdOf(req)))?.channelId;
+}
+
+/** Budget resolver: channel of the project whose video `videoPath` points at. */
+async function channelIdOfVideo(req: AuthRequest): Promise<string | undefined> {
+  let projectId: string;
+  try {
+    projectId = inferProjectIdFromVideoPath(resolveOutputVideoPath(req.body.videoPath));
+  } catch {
+    return undefined;
+  }
+  return (await projectStore.get(projectId).catch(() => null))?.channelId;
+}
+
+/** Caption track for an upload, from the project's subtitles when it has some. */
+async function captionsForVideo(absVideoPath: string): Promise<YouTubeConfig['captions']> {
+  const manifest = await projectStore.get(inferProjectIdFromVideoPath(absVideoPath)).catch(() => null);
+  return manifest?.subtitles ? { path: manifest.subtitles.srtPath, language: manifest.subtitles.language } : undefined;
+}
+
+/** Description as uploaded: chapters from the narration timings, then the approved sources. */
+async function describeForUpload(absVideoPath: string, description: string): Promise<string> {
+  const projectId = inferProjectIdFromVideoPath(absVideoPath);
+  return claimReview.describe(projectId, await chapterGenerator.describe(projectId, description));
+}
+
+/** The thumbnail variant selected for a video's project, if one was generated. */
+async function thumbnailForVideo(absVideoPath: string): Promise<string | undefined> {
+  const manifest = await projectStore.get(inferProjectIdFromVideoPath(absVideoPath)).catch(() => null);
+  const selected = manifest?.thumbnails?.variants[manifest.thumbnails.selected]?.path;
+  return selected && existsSync(selected) ? selected : undefined;
+}
+
+/**
+ * Sets the job's thumbnail on its uploaded video and records the outcome on the job.
+ * Never throws: the video is online either way and the thumbnail can be retried alone.
+ */
+async function publishThumbnail(job: YouTubePublishJob, redirectUri: string): Promise<YouTubePublishJob> {
+  if (!job.videoId || !job.thumbnail) return job;
+
+  const attempt = {
+    ...job.thumbnail,
+    status: 'uploading' as const,
+    attempts: job.thumbnail.attempts + 1,
+    error: undefined,
+    updatedAt: new Date().toISOString()
+  };
+  await youtubePublishStore.upsert({ ...job, thumbnail: attempt, updatedAt: attempt.updatedAt });
+
+  let thumbnail: NonNullable<YouTubePublishJob['thumbnail']>;
+  try {
+    await youtubeUploader.setThumbnail(job.videoId, attempt.path, redirectUri);
+    thumbnail = { ...attempt, status: 'done', updatedAt: new Date().toISOString() };
+    logger.info({ publishJobId: job.id, youtubeVideoId: job.videoId }, 'YouTube thumbnail set');
+  } catch (error: unknown) {
+    const err = error as Error;
+    const msg = err.message === 'AUTH_REQUIRED' ? 'AUTH_REQUIRED' : (err.message || 'Thumbnail upload failed');
+    thumbnail = { ...attempt, status: 'failed', error: msg, updatedAt: new Date().toISOString() };
+    logger.warn({ publishJobId: job.id, youtubeVideoId: job.videoId, error: msg }, 'YouTube thumbnail failed');
+  }
+
+  const updated = { ...job, thumbnail, updatedAt: thumbnail.updatedAt };
+  await youtubePublishStore.upsert(updated);
+  return updated;
 }
 
+/** What the UI needs to know about a job's thumbnail in `yt:done`. */
+const thumbnailOutcome = (job: YouTubePublishJob) =>
+  job.thumbnail && { status: job.thumbnail.status, error: job.thumbnail.error };
+
 app.post('/api/prepublish/validate', validateBody(prepublishValidateSchema), async (req, res) => {
   try {
     const { videoPath, metadata } = req.body as {
@@ -485,7 +939,7 @@ app.post('/api/prepublish/validate', validateBody(prepublishValidateSchema), asy
   }
 });
 
-app.post('/api/prepublish/regenerate-assets', authMiddleware, generateRateLimiter, validateBody(regenerateAssetsSchema), async (req: AuthRequest, res) => {
+app.post('/api/prepublish/regenerate-assets', authMiddleware, generateRateLimiter, validateBody(regenerateAssetsSchema), requireBudget(costTracker, channelIdOfVideo), async (req: AuthRequest, res) => {
   const { videoPath, forceImagesOnly, minClips } = req.body as {
     videoPath: string;
     forceImagesOnly?: boolean;
@@ -500,79 +954,147 @@ app.post('/api/prepublish/regenerate-assets', authMiddleware, generateRateLimite
     }
 
     const projectId = inferProjectIdFromVideoPath(localVideoPath);
-    const channelId = inferChannelIdFromProjectId(projectId);
-    const channel = channelId ? channels[channelId] : undefined;
+    const manifest = await projectStore.get(projectId);
+    if (!manifest) {
+      res.status(404).json({ error: 'Project manifest not found' });
+      return;
+    }
+    const channel = channels[manifest.channelId];
     if (!channel) {
       res.status(400).json({ error: 'Invalid channel for projectId' });
       return;
     }
 
-    const metaPath = path.resolve(process.cwd(), 'output', 'meta', `${projectId}.json`);
-    let topic = projectId;
-    try {
-      const raw = await readFile(metaPath, 'utf-8');
-      const meta = JSON.parse(raw) as { topic?: string };
-      if (typeof meta?.topic === 'string' && meta.topic.trim()) topic = meta.topic.trim();
-    } catch {
-      // ignore
+    const job = await generationQueue.enqueue({
+      kind: 'regenerate-assets',
+      channelId: channel.id,
+      topic: projectTopic(manifest),
+      projectId,
+      options: {
+        forceImagesOnly: !!forceImagesOnly,
+        minClipsRequested: Number.isFinite(minClips) ? Math.max(0, Number(minClips)) : undefined
+      },
+      requestedBy: req.user?.username
+    });
+
+    logger.info({ jobId: job.id, projectId, user: req.user?.username }, 'Asset regeneration queued');
+    res.json({ jobId: job.id, status: job.status, projectId, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Regeneration request failed');
+    res.status(500).json({ error: err.message || 'Regeneration failed' });
+  }
+});
+
+app.post('/api/generate/resume', authMiddleware, generateRateLimiter, validateBody(resumeProjectSchema), requireBudget(costTracker, channelIdOfProject((req) => req.body.projectId)), async (req: AuthRequest, res) => {
+  const { projectId } = req.body as { projectId: string };
+
+  try {
+    const manifest = await projectStore.get(projectId);
+    if (!manifest) {
+      res.status(404).json({ error: 'Project manifest not found' });
+      return;
     }
 
-    const jobId = Date.now().toString();
-    logger.info({ jobId, projectId, user: req.user?.username }, 'Starting asset regeneration');
-    res.json({ jobId, status: 'started', projectId });
+    const channelId = manifest.channelId;
+    if (!channels[channelId]) {
+      res.status(400).json({ error: 'Invalid channel for projectId' });
+      return;
+    }
 
-    const socketRoom = `job-${jobId}`;
-    const pipeline = new FullVideoPipeline();
+    const job = await generationQueue.enqueue({
+      kind: 'resume',
+      channelId,
+      topic: manifest.topic || projectId,
+      projectId,
+      requestedBy: req.user?.username
+    });
 
-    const originalLog = console.log;
-    console.log = (...args: unknown[]) => {
-      originalLog(...args);
-      io.to(socketRoom).emit('progress', { message: args.map(String).join(' ') });
-    };
+    logger.info({ jobId: job.id, projectId, user: req.user?.username }, 'Project resume queued');
+    res.json({ jobId: job.id, status: job.status, projectId, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ projectId, error: err.message }, 'Resume request failed');
+    res.status(500).json({ error: err.message || 'Resume failed' });
+  }
+});
 
-    io.to(socketRoom).emit('progress', {
-      step: 'started',
-      message: 'Regenerating assets + recomposing video...'
+// Dry-run beat plan: no paid generation, downloads or rendering.
+app.post('/api/plan', optionalAuthMiddleware, validateBody(planTimelineSchema), async (req, res) => {
+  const input = req.body as PlanTimelineInput;
+  const channel = channels[input.channelId];
+  if (!channel) {
+    res.status(400).json({ error: 'Invalid channel' });
+    return;
+  }
+
+  try {
+    let audioDuration = input.durationSeconds;
+    if (input.audioPath) {
+      let audioPath: string;
+      try {
+        audioPath = resolveOutputAudioPath(input.audioPath);
+      } catch (error: unknown) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      if (!existsSync(audioPath)) {
+        res.status(404).json({ error: 'Audio file not found' });
+        return;
+      }
+      audioDuration = await probeDurationSeconds(audioPath);
+    }
+
+    const script = input.script as unknown as VideoScript;
+    const plan = await timelinePlanner.plan(channel, input.topic || script.title, script, audioDuration as number, {
+      forceImagesOnly: input.forceImagesOnly,
+      minClipsRequested: input.minClips
     });
+    res.json(plan);
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ channelId: input.channelId, error: err.message }, 'Timeline plan failed');
+    res.status(500).json({ error: err.message || 'Plan failed' });
+  }
+});
 
-    pipeline
-      .regenerateAssetsAndRecompose(channel, topic, projectId, {
-        forceImagesOnly: !!forceImagesOnly,
-        minClipsRequested: Number.isFinite(minClips) ? Math.max(0, Number(minClips)) : undefined
-      })
-      .then((newVideoPath) => {
-        const scriptPath = `./output/scripts/${projectId}.json`;
-        const audioPath = `./output/audio/${projectId}.mp3`;
-
-        logger.info({ jobId, projectId, newVideoPath }, 'Asset regeneration complete');
-
-        io.to(socketRoom).emit('complete', {
-          jobId,
-          projectId,
-          videoPath: newVideoPath.replace('./output/', '/output/'),
-          scriptPath: scriptPath.replace('./output/', '/output/'),
-          audioPath: audioPath.replace('./output/', '/output/'),
-          message: 'Assets regenerated + video recomposed!'
-        });
-      })
-      .catch((err: Error) => {
-        logger.error({ jobId, error: err.message }, 'Asset regeneration failed');
-        io.to(socketRoom).emit('error', { jobId, error: err.message || 'Regeneration failed' });
-      })
-      .finally(() => {
-        console.log = originalLog;
-      });
+app.get('/api/jobs', validateQuery(listJobsQuerySchema), async (req, res) => {
+  try {
+    const status = req.query.status as GenerationJob['status'] | undefined;
+    const jobs = await generationQueue.list();
+    res.json(
+      (status ? jobs.filter((j) => j.status === status) : jobs).map((j) => ({
+        ...j,
+        position: generationQueue.getPosition(j.id)
+      }))
+    );
   } catch (error: unknown) {
     const err = error as Error;
-    logger.error({ error: err.message }, 'Regeneration request failed');
-    res.status(500).json({ error: err.message || 'Regeneration failed' });
+    logger.error({ error: err.message }, 'Failed to list generation jobs');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get('/api/jobs/:id', validateParams(idParamSchema), async (req, res) => {
+  try {
+    const job = await generationQueue.get(String(req.params.id));
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json({ ...job, position: generationQueue.getPosition(job.id) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Failed to get generation job');
+    res.status(500).json({ error: err.message });
   }
 });
 
 app.post('/api/youtube/publish', authMiddleware, uploadRateLimiter, validateBody(youtubePublishSchema), async (req: AuthRequest, res) => {
   try {
-    const { videoPath, metadata } = req.body as {
+    const { videoPath, metadata, thumbnail } = req.body as {
       videoPath: string;
+      thumbnail?: boolean;
       metadata?: {
         title?: string;
         description?: string;
@@ -619,12 +1141,16 @@ app.post('/api/youtube/publish', authMiddleware, uploadRateLimiter, validateBody
       videoPath: localVideoPath,
       request: {
         title: metadata?.title || path.basename(localVideoPath),
-        description: metadata?.description || '',
+        description: await describeForUpload(localVideoPath, metadata?.description || ''),
         tags: Array.isArray(metadata?.tags) ? metadata.tags : [],
         categoryId: metadata?.categoryId || '22',
         privacyStatus: metadata?.privacyStatus || 'unlisted'
       }
     };
+    const thumbnailPath = thumbnail === false ? undefined : await thumbnailForVideo(localVideoPath);
+    if (thumbnailPath) {
+      job.thumbnail = { path: thumbnailPath, status: 'pending', attempts: 0, updatedAt: new Date().toISOString() };
+    }
     await youtubePublishStore.upsert(job);
 
     io.to(room).emit('yt:status', { status: 'starting', progress: 0 });
@@ -637,7 +1163,8 @@ app.post('/api/youtube/publish', authMiddleware, uploadRateLimiter, validateBody
           description: job.request.description,
           tags: job.request.tags,
           category: job.request.categoryId,
-          privacy: job.request.privacyStatus
+          privacy: job.request.privacyStatus,
+          captions: await captionsForVideo(localVideoPath)
         },
         redirectUri,
         async (progress, status) => {
@@ -667,6 +1194,7 @@ app.post('/api/youtube/publish', authMiddleware, uploadRateLimiter, validateBody
         processingStatus: result.processingStatus
       };
       await youtubePublishStore.upsert(done);
+      const published = await publishThumbnail(done, redirectUri);
 
       logger.info({ publishJobId, youtubeVideoId: result.videoId }, 'YouTube publish complete');
 
@@ -677,7 +1205,8 @@ app.post('/api/youtube/publish', authMiddleware, uploadRateLimiter, validateBody
         videoUrl: result.videoUrl,
         appliedPrivacyStatus: result.appliedPrivacyStatus,
         warning: result.warning,
-        processingStatus: result.processingStatus
+        processingStatus: result.processingStatus,
+        thumbnail: thumbnailOutcome(published)
       });
     } catch (error: unknown) {
       const err = error as Error;
@@ -728,6 +1257,40 @@ app.get('/api/youtube/publish/:id', validateParams(idParamSchema), async (req, r
   }
 });
 
+app.post('/api/youtube/publish/:id/thumbnail', authMiddleware, uploadRateLimiter, validateParams(idParamSchema), async (req: AuthRequest, res) => {
+  try {
+    const id = String(req.params.id);
+    const job = await youtubePublishStore.get(id);
+    if (!job) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    if (job.status !== 'done' || !job.videoId) {
+      res.status(409).json({ error: 'Video not uploaded yet' });
+      return;
+    }
+
+    // The selected variant may have changed since the upload.
+    const thumbnailPath = (await thumbnailForVideo(job.videoPath)) || job.thumbnail?.path;
+    if (!thumbnailPath) {
+      res.status(400).json({ error: 'No thumbnail for this video' });
+      return;
+    }
+
+    const redirectUri = `${getBaseUrl(req)}/api/youtube/oauth/callback`;
+    const updated = await publishThumbnail({
+      ...job,
+      thumbnail: { path: thumbnailPath, status: 'pending', attempts: job.thumbnail?.attempts || 0, updatedAt: new Date().toISOString() }
+    }, redirectUri);
+
+    res.status(updated.thumbnail?.status === 'done' ? 200 : 502).json(updated);
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Thumbnail retry failed');
+    res.status(500).json({ error: err.message });
+  }
+});
+
 app.get('/api/youtube/status', async (_req, res) => {
   try {
     const status = await youtubeUploader.getAuthStatus();
@@ -770,12 +1333,162 @@ app.get('/api/youtube/oauth/callback', async (req, res) => {
   }
 });
 
+app.delete('/api/jobs/:id', authMiddleware, validateParams(idParamSchema), async (req: AuthRequest, res) => {
+  try {
+    const id = String(req.params.id);
+    const job = await generationQueue.cancel(id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    if (job.status !== 'running' && job.status !== 'cancelled') {
+      res.status(409).json({ error: `Job already ${job.status}`, job });
+      return;
+    }
+
+    logger.info({ jobId: id, user: req.user?.username }, 'Generation job cancel requested');
+    // Running jobs stop asynchronously; the `cancelled` socket event confirms it.
+    res.status(job.status === 'running' ? 202 : 200).json({ jobId: id, status: job.status === 'running' ? 'cancelling' : 'cancelled' });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error({ error: err.message }, 'Failed to cancel generation job');
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ─── Generation queue runner ───────────────────────────────────────
+async function runGenerationJob(job: GenerationJob, signal: AbortSignal): Promise<GenerationJobResult> {
+  const channel = channels[job.channelId];
+  if (!channel) throw new Error(`Channel not found: ${job.channelId}`);
+
+  const socketRoom = `job-${job.id}`;
+  const pipeline = new FullVideoPipeline(providers, projectStore, costTracker);
+  const onProgress = (event: PipelineProgressEvent) => {
+    logger.debug({ jobId: job.id, ...event }, 'Pipeline progress');
+    io.to(socketRoom).emit('progress', { jobId: job.id, ...event, message: event.detail });
+  };
+
+  const mode = job.mode || 'full';
+  const interrupted = job.attempts > 1 && projectStore.exists(job.projectId);
+  const paths = {
+    scriptPath: `./output/scripts/${job.projectId}.json`,
+    audioPath: `./output/audio/${job.projectId}.mp3`
+  };
+
+  if (job.kind === 'short') {
+    if (!job.short) throw new Error(`Short job ${job.id} has no source window`);
+    const videoPath = await shortsGenerator.render({ ...job.short, projectId: job.projectId }, { signal, onProgress });
+    return { ...paths, videoPath };
+  }
+  if (job.kind === 'localize') {
+    if (!job.localization) throw new Error(`Localize job ${job.id} has no source project`);
+    const { sourceProjectId, language } = job.localization;
+    const videoPath = await projectLocalizer.localize(sourceProjectId, language, { projectId: job.projectId, signal, onProgress });
+    return { ...paths, videoPath };
+  }
+  if (job.kind === 'revoice') {
+    const result = await pipeline.revoiceProject(job.projectId, { signal, onProgress });
+    return { scriptPath: result.scriptPath, audioPath: result.audioPath, videoPath: result.videoPath };
+  }
+  if (job.kind === 'regenerate-assets') {
+    const videoPath = await pipeline.regenerateAssetsAndRecompose(channel, job.topic, job.projectId, {
+      ...job.options,
+      signal,
+      onProgress
+    });
+    return { ...paths, videoPath };
+  }
+  if (job.kind === 'resume' || (interrupted && mode === 'full')) {
+    // A full generation interrupted by a restart picks up from its last checkpoint
+    const videoPath = await pipeline.resumeProject(job.projectId, { signal, onProgress });
+    return { ...paths, videoPath };
+  }
+
+  const result = await pipeline.generateProject(channel, job.topic, job.projectId, { mode, signal, onProgress });
+  return { scriptPath: result.scriptPath, audioPath: result.audioPath, videoPath: result.videoPath };
+}
+
+const JOB_START_MESSAGES: Record<GenerationJob['kind'], (job: GenerationJob) => string> = {
+  'generate': (job) => `Starting generation for: ${job.topic}`,
+  'regenerate-assets': () => 'Regenerating assets + recomposing video...',
+  'resume': (job) => `Resuming project ${job.projectId}...`,
+  'short': (job) => `Rendering Short ${job.projectId} from ${job.short?.sourceProjectId}...`,
+  'localize': (job) => `Localizing ${job.localization?.sourceProjectId} (${job.localization?.language})...`,
+  'revoice': (job) => `Voicing the edited script of ${job.projectId}...`
+};
+
+const JOB_COMPLETE_MESSAGES: Record<GenerationJob['kind'], string> = {
+  'generate': 'Video generation complete!',
+  'regenerate-assets': 'Assets regenerated + video recomposed!',
+  'resume': 'Project resumed and completed!',
+  'short': 'Short rendered!',
+  'localize': 'Localized version rendered!',
+  'revoice': 'Edited script voiced + video recomposed!'
+};
+
+const DRAFT_COMPLETE_MESSAGES: Record<Exclude<PipelineMode, 'full'>, string> = {
+  'script-only': 'Script ready for review!',
+  'audio-only': 'Script + audio ready!'
+};
+
+const toPublicPath = (p?: string) => (p ? p.replace('./output/', '/output/') : null);
+
+/** Thumbnail set with URLs the UI can load; `?v=` busts the cache when variants are re-rendered. */
+function publicThumbnails(thumbnails: ThumbnailSet) {
+  const version = Date.parse(thumbnails.createdAt) || 0;
+  return {
+    ...thumbnails,
+    variants: thumbnails.variants.map((v) => ({ ...v, path: `${toPublicPath(v.path)}?v=${version}`, sourcePath: undefined }))
+  };
+}
+
+generationQueue.on('queued', (job: GenerationJob, position: number) => {
+  io.to(`job-${job.id}`).emit('queued', { jobId: job.id, position });
+});
+
+generationQueue.on('position', (job: GenerationJob, position: number) => {
+  io.to(`job-${job.id}`).emit('queued', { jobId: job.id, position });
+});
+
+generationQueue.on('started', (job: GenerationJob) => {
+  logger.info({ jobId: job.id, kind: job.kind, projectId: job.projectId, attempt: job.attempts }, 'Generation job started');
+  io.to(`job-${job.id}`).emit('progress', { step: 'started', message: JOB_START_MESSAGES[job.kind](job) });
+});
+
+generationQueue.on('completed', (job: GenerationJob) => {
+  const mode = job.kind === 'generate' ? (job.mode || 'full') : 'full';
+  logger.info({ jobId: job.id, projectId: job.projectId, mode, result: job.result }, 'Generation job complete');
+  io.to(`job-${job.id}`).emit('complete', {
+    jobId: job.id,
+    projectId: job.projectId,
+    mode,
+    videoPath: toPublicPath(job.result?.videoPath),
+    scriptPath: toPublicPath(job.result?.scriptPath),
+    audioPath: toPublicPath(job.result?.audioPath),
+    message: mode === 'full' ? JOB_COMPLETE_MESSAGES[job.kind] : DRAFT_COMPLETE_MESSAGES[mode]
+  });
+});
+
+generationQueue.on('failed', (job: GenerationJob) => {
+  logger.error({ jobId: job.id, projectId: job.projectId, error: job.error }, 'Generation job failed');
+  io.to(`job-${job.id}`).emit('error', { jobId: job.id, error: job.error || 'Generation failed' });
+});
+
+generationQueue.on('cancelled', (job: GenerationJob) => {
+  logger.info({ jobId: job.id, projectId: job.projectId }, 'Generation job cancelled');
+  io.to(`job-${job.id}`).emit('cancelled', { jobId: job.id, projectId: job.projectId });
+});
+
 io.on('connection', (socket) => {
   logger.debug({ socketId: socket.id }, 'Client connected');
 
   socket.on('subscribe', (jobId: string) => {
     socket.join(`job-${jobId}`);
     logger.debug({ socketId: socket.id, jobId }, 'Client subscribed to job');
+
+    // The job may already be waiting by the time the client subscribes
+    const position = generationQueue.getPosition(String(jobId));
+    if (position > 0) socket.emit('queued', { jobId, position });
   });
 
   socket.on('subscribe-youtube', (publishJobId: string) => {
@@ -797,8 +1510,10 @@ httpServer.listen(PORT, async () => {
   console.log(`Web UI:  http://localhost:${PORT}`);
   console.log(`API:     http://localhost:${PORT}/api`);
   console.log(`Auth:    ${isAuthEnabled() ? 'ENABLED' : 'DISABLED (set AUTH_ENABLED=true)'}`);
+  console.log(`Providers: ${providers.mode === 'fake' ? 'FAKE (offline stand-ins)' : 'live'}`);
   console.log('='.repeat(50));
 
+  await generationQueue.start(runGenerationJob);
   scheduler.start();
 
   logger.info('Generating video schedule...');
@@ -812,6 +1527,7 @@ httpServer.listen(PORT, async () => {
 function shutdown(signal: string) {
   logger.info({ signal }, 'Shutdown signal received, closing…');
   scheduler.stop();
+  generationQueue.stop();
   httpServer.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -2,6 +2,8 @@ import axios from 'axios';
 import { Asset, AssetCategory, AssetReuseMix, ScriptSection, VisualRequest } from '../types/index.js';
 import { AssetLibrary } from './asset-library.js';
 import { channels } from '../config/channels.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { UsageReporter } from '../types/usage.js';
 
 interface PexelsPhoto {
   id: number;
@@ -57,7 +59,11 @@ export class AssetCollector {
     return this.collectAssetsForTimeline(requests);
   }
 
-  async collectAssetsForTimeline(requests: VisualRequest[]): Promise<Asset[]> {
+  async collectAssetsForTimeline(
+    requests: VisualRequest[],
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void; onUsage?: UsageReporter } = {}
+  ): Promise<Asset[]> {
+    const { signal, onProgress, onUsage } = options;
     const assets: Asset[] = [];
 
     // Cache Pexels results to avoid 1 API call per beat.
@@ -83,6 +89,8 @@ export class AssetCollector {
     console.log(`\n🎨 Collecting assets for ${requests.length} timeline beats...\n`);
     
     for (let i = 0; i < requests.length; i++) {
+      throwIfAborted(signal);
+      onProgress?.(i, requests.length);
       const req = requests[i];
       console.log(`[${i + 1}/${requests.length}] Searching (${req.preferredType}): "${req.searchQuery}"`);
 
@@ -158,19 +166,19 @@ export class AssetCollector {
           const needed = Math.min(30, this.estimateNeededForQuery(requests, req));
           if (req.preferredType === 'video') {
             try {
-              const items = await this.searchVideos(req.searchQuery, needed);
+              const items = await this.searchVideos(req.searchQuery, needed, signal, onUsage);
               cache.set(key, { items, cursor: 0 });
             } catch {
               // Fallback bucket: images
               const imgKey = `image:${req.searchQuery}`;
               if (!cache.has(imgKey)) {
-                const items = await this.searchImages(req.searchQuery, needed);
+                const items = await this.searchImages(req.searchQuery, needed, signal, onUsage);
                 cache.set(imgKey, { items, cursor: 0 });
               }
               cache.set(key, cache.get(imgKey)!);
             }
           } else {
-            const items = await this.searchImages(req.searchQuery, needed);
+            const items = await this.searchImages(req.searchQuery, needed, signal, onUsage);
             cache.set(key, { items, cursor: 0 });
           }
         }
@@ -212,6 +220,7 @@ export class AssetCollector {
         // Gentle pacing (still keeps us well under Pexels limits with caching)
         await this.sleep(80);
       } catch (error) {
+        throwIfAborted(signal);
         console.error(`❌ Failed to find ${req.preferredType} for "${req.searchQuery}":`, error);
         
         // Hard fallback: always return an IMAGE placeholder (never a fake video URL)
@@ -224,6 +233,7 @@ export class AssetCollector {
       }
     }
     
+    onProgress?.(requests.length, requests.length);
     console.log(`\n✅ Collected ${assets.length} assets (library: ${fromLibrary}, pexels: ${fromPexels})\n`);
     return assets;
   }
@@ -317,7 +327,12 @@ export class AssetCollector {
     };
   }
 
-  private async searchImages(query: string, count: number): Promise<Array<Omit<Asset, 'duration'>>> {
+  private async searchImages(
+    query: string,
+    count: number,
+    signal?: AbortSignal,
+    onUsage?: UsageReporter
+  ): Promise<Array<Omit<Asset, 'duration'>>> {
     if (!this.apiKey) {
       throw new Error('Pexels API key required');
     }
@@ -329,8 +344,10 @@ export class AssetCollector {
         query,
         per_page: perPage,
         orientation: 'landscape'
-      }
+      },
+      signal
     });
+    await onUsage?.({ provider: 'pexels', operation: 'image-search', requests: 1 });
 
     const photos: PexelsPhoto[] = response.data.photos;
     if (!photos || photos.length === 0) {
@@ -379,7 +396,12 @@ export class AssetCollector {
     };
   }
 
-  private async searchVideos(query: string, count: number): Promise<Array<Omit<Asset, 'duration'>>> {
+  private async searchVideos(
+    query: string,
+    count: number,
+    signal?: AbortSignal,
+    onUsage?: UsageReporter
+  ): Promise<Array<Omit<Asset, 'duration'>>> {
     if (!this.apiKey) {
       throw new Error('Pexels API key required');
     }
@@ -391,8 +413,10 @@ export class AssetCollector {
         query,
         per_page: perPage,
         orientation: 'landscape'
-      }
+      },
+      signal
     });
+    await onUsage?.({ provider: 'pexels', operation: 'video-search', requests: 1 });
 
     const videos: PexelsVideo[] = response.data.videos;
     if (!videos || videos.length === 0) {
@@ -5,6 +5,7 @@ import { pipeline } from 'stream/promises';
 import { Asset } from '../types/index.js';
 import path from 'path';
 import { AssetLibrary } from './asset-library.js';
+import { throwIfAborted } from '../utils/abort.js';
 
 export class AssetDownloader {
   private outputDir: string;
@@ -15,7 +16,11 @@ export class AssetDownloader {
     this.library = new AssetLibrary();
   }
 
-  async downloadAssets(assets: Asset[]): Promise<Asset[]> {
+  async downloadAssets(
+    assets: Asset[],
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<Asset[]> {
+    const { signal, onProgress } = options;
     await mkdir(this.outputDir, { recursive: true });
     
     console.log(`\n📥 Downloading ${assets.length} assets...\n`);
@@ -28,6 +33,8 @@ export class AssetDownloader {
     let failedCount = 0;
     
     for (let i = 0; i < assets.length; i++) {
+      throwIfAborted(signal);
+      onProgress?.(i, assets.length);
       const asset = assets[i];
 
       // If the asset already has a valid localPath, reuse it (no network).
@@ -43,7 +50,7 @@ export class AssetDownloader {
       console.log(`[${i + 1}/${assets.length}] Downloading ${asset.type}...`);
       
       try {
-        const localPath = await this.downloadFile(asset.url, asset.type, i);
+        const localPath = await this.downloadFile(asset.url, asset.type, i, signal);
 
         downloadedCount++;
 
@@ -61,6 +68,7 @@ export class AssetDownloader {
         
         console.log(`✅ Saved: ${localPath}`);
       } catch (error) {
+        throwIfAborted(signal);
         console.error(`❌ Failed to download ${asset.url}:`, error);
         // Keep the asset without localPath (will be skipped in video composition)
         downloadedAssets.push(asset);
@@ -68,6 +76,7 @@ export class AssetDownloader {
       }
     }
     
+    onProgress?.(assets.length, assets.length);
     console.log(`\n📚 Library reuse: ${reusedCount}`);
     console.log(`⬇️  Downloaded: ${downloadedCount}`);
     console.log(`🧾 Indexed: ${indexedCount}`);
@@ -105,7 +114,7 @@ export class AssetDownloader {
     }
   }
 
-  private async downloadFile(url: string, type: string, index: number): Promise<string> {
+  private async downloadFile(url: string, type: string, index: number, signal?: AbortSignal): Promise<string> {
     this.validateUrl(url);
 
     const extension = type === 'video' ? 'mp4' : 'jpg';
@@ -120,11 +129,12 @@ export class AssetDownloader {
       maxRedirects: 3,
       headers: {
         'User-Agent': 'ChrisStudio/1.0'
-      }
+      },
+      signal
     });
 
     const writer = createWriteStream(filepath);
-    await pipeline(response.data, writer);
+    await pipeline(response.data, writer, { signal });
     
     return filepath;
   }
@@ -0,0 +1,126 @@
+import { CaptionStyle } from '../types/index.js';
+import { SubtitleCue, WordTiming } from '../types/subtitles.js';
+import { buildCues } from './subtitle-generator.js';
+
+const NAMED_COLORS: Record<string, string> = {
+  white: 'FFFFFF',
+  black: '000000',
+  yellow: 'FFD400',
+  red: 'FF3B30',
+  green: '34C759',
+  blue: '0A84FF',
+  cyan: '00E5FF',
+  orange: 'FF9500'
+};
+
+/** `white`, `#RRGGBB` or `0xRRGGBB` as an ASS color (`&HAABBGGRR`, alpha 00 = opaque). */
+export function assColor(color: string, alpha = 0): string {
+  const value = color.trim().toLowerCase();
+  const hex = NAMED_COLORS[value] || value.replace(/^(#|0x)/, '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) {
+    throw new Error(`Invalid caption color: ${color}`);
+  }
+  const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+  const a = Math.round(Math.max(0, Math.min(255, alpha))).toString(16).padStart(2, '0');
+  return `&H${a}${b}${g}${r}`.toUpperCase();
+}
+
+/** ASS timestamps are `H:MM:SS.cc`. */
+function assTime(seconds: number): string {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${h}:${pad(m)}:${pad(s)}.${pad(cs % 100)}`;
+}
+
+/** Braces start override tags and backslashes escapes; neither belongs in spoken text. */
+function assText(text: string): string {
+  return text.replace(/\\/g, '/').replace(/\{/g, '(').replace(/\}/g, ')');
+}
+
+/** Resolved caption layout for one frame size. */
+export function captionLayout(style: CaptionStyle | undefined, width: number, height: number) {
+  const scale = Math.min(width, height) / 1080;
+  const vertical = height > width;
+  const position = style?.position ?? 'bottom';
+  const margin = style?.safeMarginPercent ?? 8;
+  const minMargin = !vertical ? 0 : position === 'bottom' ? 20 : position === 'top' ? 12 : 0;
+
+  return {
+    fontSize: Math.round((style?.fontSize ?? 56) * scale),
+    outline: Math.max(0, style?.outlineWidth ?? 3) * scale,
+    // 5 = middle center, 8 = top center, 2 = bottom center (numpad layout)
+    alignment: position === 'middle' ? 5 : position === 'top' ? 8 : 2,
+    marginV: Math.round((Math.max(margin, minMargin) / 100) * height),
+    marginH: Math.round(width * 0.05),
+    // Same font size on a narrower frame: fewer characters per line.
+    maxCharsPerLine: Math.max(12, Math.floor((style?.maxCharsPerLine ?? 42) * (width / scale) / 1920))
+  };
+}
+
+/**
+ * An ASS subtitle script for FFmpeg's `subtitles` filter, sized to the frame.
+ * `classic` shows two-line captions; `karaoke` repeats each cue once per word with
+ * the spoken word in `highlightColor`.
+ */
+export function buildAssCaptions(
+  words: WordTiming[],
+  mode: 'classic' | 'karaoke',
+  style: CaptionStyle | undefined,
+  width: number,
+  height: number
+): string {
+  const layout = captionLayout(style, width, height);
+  const text = assColor(style?.textColor ?? 'white');
+  const highlight = assColor(style?.highlightColor ?? 'yellow');
+  const outline = assColor(style?.outlineColor ?? 'black');
+  const shadow = assColor(style?.outlineColor ?? 'black', 0x80);
+
+  const cues = buildCues(words, { maxCharsPerLine: layout.maxCharsPerLine, maxLines: 2 });
+  let wordIdx = 0;
+  const events = cues.flatMap((cue) => {
+    const count = cue.lines.reduce((sum, line) => sum + line.split(' ').length, 0);
+    const cueWords = words.slice(wordIdx, wordIdx + count);
+    wordIdx += count;
+    return mode === 'karaoke'
+      ? karaokeEvents(cue, cueWords, highlight, text)
+      : [{ start: cue.startSeconds, end: cue.endSeconds, text: cue.lines.map(assText).join('\\N') }];
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Caption,${style?.fontName ?? 'DejaVu Sans'},${layout.fontSize},${text},${highlight},${outline},${shadow},-1,0,0,0,100,100,0,0,1,${layout.outline.toFixed(1)},1,${layout.alignment},${layout.marginH},${layout.marginH},${layout.marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events.map((e) => `Dialogue: 0,${assTime(e.start)},${assTime(e.end)},Caption,,0,0,0,,${e.text}`),
+    ''
+  ].join('\n');
+}
+
+/** One event per word of the cue, from its start to the next word's, with that word highlighted. */
+function karaokeEvents(cue: SubtitleCue, cueWords: WordTiming[], highlight: string, text: string) {
+  return cueWords.map((word, idx) => {
+    let tokenIdx = 0;
+    const lines = cue.lines.map((line) => line.split(' ').map((token) => {
+      const styled = tokenIdx === idx ? `{\\c${highlight}}${assText(token)}{\\c${text}}` : assText(token);
+      tokenIdx++;
+      return styled;
+    }).join(' '));
+    return {
+      start: idx === 0 ? cue.startSeconds : word.startSeconds,
+      end: idx === cueWords.length - 1 ? cue.endSeconds : cueWords[idx + 1].startSeconds,
+      text: lines.join('\\N')
+    };
+  });
+}
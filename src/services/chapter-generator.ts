@@ -0,0 +1,148 @@
+import { readFile } from 'fs/promises';
+import { VideoScript } from '../types/index.js';
+import { Chapter } from '../types/timeline.js';
+import { ProjectStore } from './project-store.js';
+import { narratedChannel } from './subtitle-generator.js';
+import logger from '../utils/logger.js';
+import { probeDurationSeconds } from '../utils/media.js';
+import { narrationTimingFor } from '../utils/narration.js';
+
+/** YouTube ignores chapter lists with fewer chapters or shorter ones. */
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 10;
+
+/** Description lines that look like a chapter (`00:00 Intro`, `1:02:03 - Title`, `(4:05) Title`). */
+const TIMESTAMP_LINE = /^\s*[([]?\d{1,2}:\d{2}(?::\d{2})?[)\]]?\s*[-–—:|]?\s+\S/;
+const CHAPTER_HEADER_LINE = /^\s*(timestamps?|chapters?)\s*:?\s*$/i;
+
+/** Whether `description` carries a chapter list YouTube accepts: at least 3 timestamps, the first at 00:00. */
+export function hasChapterList(description: string): boolean {
+  const stamps = description.split('\n').filter((line) => TIMESTAMP_LINE.test(line));
+  return stamps.length >= MIN_CHAPTERS && /^\s*[([]?0?0:00(?::00)?\b/.test(stamps[0]);
+}
+
+/**
+ * Chapters that satisfy YouTube's rules: the first at 00:00, each at least 10 s long
+ * (too-short chapters are folded into the previous one), and at least 3 of them.
+ * Returns an empty list when the video cannot have valid chapters.
+ */
+export function buildChapters(points: Chapter[], durationSeconds: number): Chapter[] {
+  const sorted = [...points].sort((a, b) => a.startSeconds - b.startSeconds);
+  const chapters: Chapter[] = [];
+
+  for (const point of sorted) {
+    if (chapters.length === 0) {
+      chapters.push({ startSeconds: 0, title: point.title });
+      continue;
+    }
+    const previous = chapters[chapters.length - 1];
+    if (point.startSeconds - previous.startSeconds < MIN_CHAPTER_SECONDS) continue;
+    if (durationSeconds - point.startSeconds < MIN_CHAPTER_SECONDS) continue;
+    chapters.push({ startSeconds: point.startSeconds, title: point.title });
+  }
+
+  return chapters.length >= MIN_CHAPTERS ? chapters : [];
+}
+
+/** `MM:SS`, or `H:MM:SS` for videos of an hour or more. */
+export function formatChapterTimestamp(seconds: number, durationSeconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return durationSeconds >= 3600 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+/**
+ * The description with its chapter list replaced: timestamp lines already there (often
+ * made up by the metadata model) are dropped and the real chapters go after the first
+ * paragraph, which YouTube shows in search.
+ */
+export function mergeChaptersIntoDescription(description: string, chapters: Chapter[], durationSeconds: number): string {
+  const kept = description
+    .split('\n')
+    .filter((line) => !TIMESTAMP_LINE.test(line) && !CHAPTER_HEADER_LINE.test(line))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (chapters.length === 0) return kept;
+
+  const list = chapters
+    .map((c) => `${formatChapterTimestamp(c.startSeconds, durationSeconds)} ${c.title.replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+  const [first, ...rest] = kept.split('\n\n');
+  return [first, list, ...rest].filter((part) => part && part.trim()).join('\n\n');
+}
+
+/** A few words from the section's first sentence, for sections the metadata model did not title. */
+export function fallbackChapterTitle(narration: string): string {
+  const sentence = narration.trim().split(/(?<=[.!?…])\s+/)[0] || '';
+  const words = sentence.replace(/[.!?…,;:]+$/, '').split(/\s+/).filter(Boolean);
+  const title = words.slice(0, 6).join(' ') + (words.length > 6 ? '…' : '');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * YouTube chapters placed at the real start of each section of the narration: measured
+ * per clip for narrations voiced segment by segment, estimated from word counts otherwise.
+ * Titles come from the metadata model (`chapterTitles` in the manifest) when it gave some.
+ */
+export class ChapterGenerator {
+  private projectStore: ProjectStore;
+
+  constructor(projectStore: ProjectStore = new ProjectStore()) {
+    this.projectStore = projectStore;
+  }
+
+  /**
+   * Chapters of a project. `titles` (intro, one per section, conclusion) replace the
+   * titles saved in the manifest.
+   */
+  async chapters(projectId: string, titles?: string[]): Promise<{ chapters: Chapter[]; durationSeconds: number }> {
+    let manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    // A Short is cut from one moment of its source: no chapters.
+    if (manifest.shortSource) {
+      return { chapters: [], durationSeconds: manifest.shortSource.durationSeconds };
+    }
+
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    const keys = ['intro', ...script.sections.map((_, idx) => `section-${idx + 1}`), 'conclusion'];
+    if (titles?.length) {
+      const chapterTitles = Object.fromEntries(
+        keys.flatMap((key, idx) => (titles[idx]?.trim() ? [[key, titles[idx].trim()]] : []))
+      );
+      manifest = await this.projectStore.update(projectId, (curr) => ({ ...curr, chapterTitles }));
+    }
+
+    const durationSeconds = manifest.audioDurationSeconds || await probeDurationSeconds(manifest.audioPath);
+    const timing = narrationTimingFor(narratedChannel(manifest), script, durationSeconds, manifest.narrationTiming);
+    const startOf = (key: string) => timing.find((t) => t.key === key)?.startSeconds;
+
+    const saved = manifest.chapterTitles || {};
+    const points: Chapter[] = [{ startSeconds: 0, title: saved.intro || 'Intro' }];
+    script.sections.forEach((section, idx) => {
+      const key = `section-${idx + 1}`;
+      const start = startOf(key);
+      if (start !== undefined) points.push({ startSeconds: start, title: saved[key] || fallbackChapterTitle(section.narration) });
+    });
+    const conclusion = startOf('conclusion');
+    if (conclusion !== undefined) points.push({ startSeconds: conclusion, title: saved.conclusion || 'Conclusion' });
+
+    return { chapters: buildChapters(points, durationSeconds), durationSeconds };
+  }
+
+  /** `description` with the project's chapters merged in; left as is when they cannot be computed. */
+  async describe(projectId: string, description: string, titles?: string[]): Promise<string> {
+    try {
+      const { chapters, durationSeconds } = await this.chapters(projectId, titles);
+      return mergeChaptersIntoDescription(description, chapters, durationSeconds);
+    } catch (error) {
+      logger.warn({ projectId, error: (error as Error).message }, 'Chapters skipped');
+      return description;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { readFile, writeFile } from 'fs/promises';
+import { VideoScript } from '../types/index.js';
+import { ClaimConfidence, ClaimKind, ClaimSource, ClaimStatus, ScriptClaim } from '../types/claims.js';
+import { ProjectStore } from './project-store.js';
+import logger from '../utils/logger.js';
+
+const KINDS: ClaimKind[] = ['date', 'name', 'number', 'event'];
+const CONFIDENCES: ClaimConfidence[] = ['high', 'medium', 'low'];
+const MAX_CLAIMS = 40;
+
+const SOURCES_HEADER = /^\s*sources?\s*:?\s*$/i;
+const HASHTAGS_ONLY = /^(#\S+\s*)+$/;
+
+/** Reviewer changes to one claim; claims left out of a review are removed. */
+export interface ClaimEdit {
+  id: string;
+  text?: string;
+  source?: ClaimSource | null;
+  status?: ClaimStatus;
+}
+
+/**
+ * Claims as returned by the model, cleaned up: unknown segments and empty texts are
+ * dropped, URLs must be http(s), and every claim starts `pending`.
+ */
+export function normalizeClaims(raw: unknown, script: VideoScript): ScriptClaim[] {
+  if (!Array.isArray(raw)) return [];
+  const segments = new Set(['hook', ...script.sections.map((_, idx) => `section-${idx + 1}`), 'conclusion']);
+  const perSegment = new Map<string, number>();
+  const claims: ScriptClaim[] = [];
+
+  for (const item of raw.slice(0, MAX_CLAIMS)) {
+    const segment = String(item?.segment || '');
+    const text = typeof item?.text === 'string' ? item.text.replace(/\s+/g, ' ').trim() : '';
+    if (!segments.has(segment) || !text) continue;
+
+    const n = (perSegment.get(segment) || 0) + 1;
+    perSegment.set(segment, n);
+    claims.push({
+      id: `${segment}-${n}`,
+      segment,
+      text,
+      kind: KINDS.includes(item.kind) ? item.kind : 'event',
+      confidence: CONFIDENCES.includes(item.confidence) ? item.confidence : 'low',
+      source: cleanSource(item.source),
+      status: 'pending'
+    });
+  }
+  return claims;
+}
+
+function cleanSource(source: unknown): ClaimSource | undefined {
+  const { title, url } = (source || {}) as Partial<ClaimSource>;
+  if (typeof title !== 'string' || !title.trim()) return undefined;
+  return typeof url === 'string' && /^https?:\/\/\S+$/i.test(url.trim())
+    ? { title: title.trim(), url: url.trim() }
+    : { title: title.trim() };
+}
+
+/** The claims after review: edits applied in the reviewer's order, claims left out removed. */
+export function applyClaimEdits(claims: ScriptClaim[], edits: ClaimEdit[]): ScriptClaim[] {
+  const byId = new Map(claims.map((c) => [c.id, c]));
+  return edits.map((edit) => {
+    const claim = byId.get(edit.id);
+    if (!claim) {
+      throw new Error(`Unknown claim: ${edit.id}`);
+    }
+    const text = edit.text?.replace(/\s+/g, ' ').trim();
+    return {
+      ...claim,
+      text: text || claim.text,
+      source: edit.source === null ? undefined : edit.source === undefined ? claim.source : cleanSource(edit.source),
+      status: edit.status || claim.status
+    };
+  });
+}
+
+/** `Sources:` followed by one line per approved source, or '' when there are none. */
+export function formatSourcesBlock(claims: ScriptClaim[]): string {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const { status, source } of claims) {
+    if (status !== 'approved' || !source) continue;
+    const key = (source.url || source.title).toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    lines.push(source.url ? `- ${source.title}: ${source.url}` : `- ${source.title}`);
+  }
+  return lines.length ? `Sources:\n${lines.join('\n')}` : '';
+}
+
+/**
+ * The description with its `Sources` block replaced by the approved sources, placed
+ * before the closing hashtags when the description ends with them.
+ */
+export function mergeSourcesIntoDescription(description: string, claims: ScriptClaim[]): string {
+  const paragraphs = description
+    .trim()
+    .split(/\n{2,}/)
+    .filter((p) => !SOURCES_HEADER.test(p.split('\n')[0]));
+  const block = formatSourcesBlock(claims);
+  if (!block) return paragraphs.join('\n\n');
+
+  const last = paragraphs[paragraphs.length - 1];
+  if (last && HASHTAGS_ONLY.test(last.trim())) {
+    paragraphs.splice(paragraphs.length - 1, 0, block);
+  } else {
+    paragraphs.push(block);
+  }
+  return paragraphs.filter((p) => p.trim()).join('\n\n');
+}
+
+/**
+ * Review of the checkable claims stored on a project's script (`claims`), and the
+ * `Sources` block they add to its YouTube description once approved.
+ */
+export class ClaimReview {
+  private projectStore: ProjectStore;
+
+  constructor(projectStore: ProjectStore = new ProjectStore()) {
+    this.projectStore = projectStore;
+  }
+
+  async list(projectId: string): Promise<ScriptClaim[]> {
+    const { script } = await this.load(projectId);
+    return script.claims || [];
+  }
+
+  /** Store reviewed claims (see `applyClaimEdits`) on the project's script. */
+  async save(projectId: string, claims: ScriptClaim[]): Promise<ScriptClaim[]> {
+    const { script, scriptPath } = await this.load(projectId);
+    await writeFile(scriptPath, JSON.stringify({ ...script, claims }, null, 2));
+    logger.info({ projectId, claims: claims.length, approved: claims.filter((c) => c.status === 'approved').length }, 'Claims reviewed');
+    return claims;
+  }
+
+  /** `description` with the approved sources merged in; left as is when the script cannot be read. */
+  async describe(projectId: string, description: string): Promise<string> {
+    try {
+      return mergeSourcesIntoDescription(description, await this.list(projectId));
+    } catch (error) {
+      logger.warn({ projectId, error: (error as Error).message }, 'Sources skipped');
+      return description;
+    }
+  }
+
+  private async load(projectId: string): Promise<{ script: VideoScript; scriptPath: string }> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    return { script, scriptPath: manifest.scriptPath };
+  }
+}
@@ -0,0 +1,193 @@
+import { existsSync } from 'fs';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { channels } from '../config/channels.js';
+import { estimateCostUsd } from '../config/costs.js';
+import { UsageEntry } from '../schemas/project-manifest.js';
+import {
+  BudgetStatus,
+  ChannelCostSummary,
+  CostReport,
+  ProjectCostSummary,
+  UsageEvent,
+  UsageProvider,
+  UsageTotals
+} from '../types/usage.js';
+import { ProjectStore } from './project-store.js';
+import logger from '../utils/logger.js';
+
+function emptyTotals(): UsageTotals {
+  return { costUsd: 0, requests: 0, retries: 0, inputTokens: 0, outputTokens: 0, characters: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): void {
+  totals.costUsd += entry.costUsd;
+  totals.requests += entry.requests;
+  totals.retries += entry.retries || 0;
+  totals.inputTokens += entry.inputTokens || 0;
+  totals.outputTokens += entry.outputTokens || 0;
+  totals.characters += entry.characters || 0;
+}
+
+function roundTotals<T extends UsageTotals>(totals: T): T {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 10000) / 10000 };
+}
+
+/** `YYYY-MM` (UTC) of an ISO timestamp or date. */
+export function monthOf(date: string | Date): string {
+  return new Date(date).toISOString().slice(0, 7);
+}
+
+/** One ledger line: a priced provider call and the project it was made for. */
+export type LedgerEntry = UsageEntry & { projectId: string; channelId: string };
+
+export interface CostTrackerConfig {
+  /** Append-only JSON Lines file (default USAGE_LEDGER_PATH or ./data/usage-ledger.jsonl). */
+  ledgerPath?: string;
+}
+
+/**
+ * Per-project usage accounting: provider calls are priced when they happen, appended to
+ * the project manifest (the project's own history) and to a usage ledger kept apart from
+ * the manifests. Reports and budgets read the ledger, so deleting a project does not
+ * erase what it cost.
+ */
+export class CostTracker {
+  private projectStore: ProjectStore;
+  private ledgerPath: string;
+  private ledgerReady: Promise<void> | null = null;
+
+  constructor(projectStore: ProjectStore = new ProjectStore(), config: CostTrackerConfig = {}) {
+    this.projectStore = projectStore;
+    this.ledgerPath = config.ledgerPath || process.env.USAGE_LEDGER_PATH || './data/usage-ledger.jsonl';
+  }
+
+  async record(projectId: string, event: UsageEvent): Promise<UsageEntry> {
+    const entry: UsageEntry = { at: new Date().toISOString(), ...event, costUsd: estimateCostUsd(event) };
+    await this.ensureLedger();
+    const manifest = await this.projectStore.update(projectId, (curr) => ({ ...curr, usage: [...curr.usage, entry] }));
+    const line: LedgerEntry = { projectId, channelId: manifest.channelId, ...entry };
+    await appendFile(this.ledgerPath, JSON.stringify(line) + '\n');
+    logger.debug({ projectId, ...entry }, 'Provider usage recorded');
+    return entry;
+  }
+
+  /** Every recorded call, oldest first; a torn last line (crash mid-append) is skipped. */
+  async entries(): Promise<LedgerEntry[]> {
+    await this.ensureLedger();
+    const content = await readFile(this.ledgerPath, 'utf-8').catch(() => '');
+    const entries: LedgerEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        logger.warn({ ledgerPath: this.ledgerPath }, 'Skipping unreadable usage ledger line');
+      }
+    }
+    return entries;
+  }
+
+  /** Reporter for provider options; recording failures are logged, never thrown. */
+  reporterFor(projectId: string, defaults: Partial<UsageEvent> = {}): (event: UsageEvent) => Promise<void> {
+    return async (event) => {
+      await this.record(projectId, { ...event, ...defaults }).catch((error: Error) => {
+        logger.warn({ projectId, provider: event.provider, error: error.message }, 'Failed to record provider usage');
+      });
+    };
+  }
+
+  async report(filters: { month?: string; channelId?: string } = {}): Promise<CostReport> {
+    const currentMonth = monthOf(new Date());
+    const entries = (await this.entries()).filter((e) => !filters.channelId || e.channelId === filters.channelId);
+
+    const total = emptyTotals();
+    const byChannel = new Map<string, ChannelCostSummary>();
+    const byProject = new Map<string, ProjectCostSummary>();
+    const byMonth = new Map<string, UsageTotals & { month: string }>();
+    const byProvider = new Map<UsageProvider, UsageTotals & { provider: UsageProvider }>();
+
+    for (const entry of entries) {
+      const channel = byChannel.get(entry.channelId) || {
+        channelId: entry.channelId,
+        ...emptyTotals(),
+        currentMonthUsd: 0,
+        monthlyBudgetUsd: channels[entry.channelId]?.monthlyBudgetUsd,
+        budgetExceeded: false
+      };
+      byChannel.set(entry.channelId, channel);
+
+      const month = monthOf(entry.at);
+      if (month === currentMonth) channel.currentMonthUsd += entry.costUsd;
+      if (filters.month && month !== filters.month) continue;
+
+      const project = byProject.get(entry.projectId) || { projectId: entry.projectId, channelId: entry.channelId, ...emptyTotals() };
+      byProject.set(entry.projectId, project);
+
+      addEntry(total, entry);
+      addEntry(channel, entry);
+      addEntry(project, entry);
+
+      const monthTotals = byMonth.get(month) || { month, ...emptyTotals() };
+      addEntry(monthTotals, entry);
+      byMonth.set(month, monthTotals);
+
+      const providerTotals = byProvider.get(entry.provider) || { provider: entry.provider, ...emptyTotals() };
+      addEntry(providerTotals, entry);
+      byProvider.set(entry.provider, providerTotals);
+    }
+
+    return {
+      month: filters.month,
+      channelId: filters.channelId,
+      total: roundTotals(total),
+      byChannel: [...byChannel.values()].map((c) => roundTotals({
+        ...c,
+        currentMonthUsd: Math.round(c.currentMonthUsd * 10000) / 10000,
+        budgetExceeded: c.monthlyBudgetUsd !== undefined && c.currentMonthUsd >= c.monthlyBudgetUsd
+      })),
+      byProject: [...byProject.values()].map(roundTotals).sort((a, b) => b.costUsd - a.costUsd),
+      byMonth: [...byMonth.values()].map(roundTotals).sort((a, b) => b.month.localeCompare(a.month)),
+      byProvider: [...byProvider.values()].map(roundTotals)
+    };
+  }
+
+  /** Current-month spend of a channel against its `monthlyBudgetUsd` (no budget = never exceeded). */
+  async checkBudget(channelId: string, now: Date = new Date()): Promise<BudgetStatus> {
+    const month = monthOf(now);
+    const monthlyBudgetUsd = channels[channelId]?.monthlyBudgetUsd;
+
+    let spentUsd = 0;
+    for (const entry of await this.entries()) {
+      if (entry.channelId === channelId && monthOf(entry.at) === month) spentUsd += entry.costUsd;
+    }
+    spentUsd = Math.round(spentUsd * 10000) / 10000;
+
+    return {
+      channelId,
+      month,
+      spentUsd,
+      monthlyBudgetUsd,
+      exceeded: monthlyBudgetUsd !== undefined && spentUsd >= monthlyBudgetUsd
+    };
+  }
+
+  /** First use: seed the ledger with the usage already in manifests (recorded before it existed). */
+  private ensureLedger(): Promise<void> {
+    if (!this.ledgerReady) {
+      this.ledgerReady = (async () => {
+        if (existsSync(this.ledgerPath)) return;
+        await mkdir(path.dirname(this.ledgerPath), { recursive: true });
+        const lines = (await this.projectStore.list()).flatMap((m) =>
+          m.usage.map((entry) => JSON.stringify({ projectId: m.projectId, channelId: m.channelId, ...entry } satisfies LedgerEntry))
+        );
+        await writeFile(this.ledgerPath, lines.map((l) => l + '\n').join(''));
+        if (lines.length) logger.info({ ledgerPath: this.ledgerPath, entries: lines.length }, 'Usage ledger seeded from manifests');
+      })().catch((error) => {
+        this.ledgerReady = null;
+        throw error;
+      });
+    }
+    return this.ledgerReady;
+  }
+}
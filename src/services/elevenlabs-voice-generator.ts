@@ -1,8 +1,9 @@
 import axios from 'axios';
-import { createWriteStream } from 'fs';
-import { mkdir } from 'fs/promises';
-import { pipeline } from 'stream/promises';
+import { mkdir, writeFile } from 'fs/promises';
 import logger from '../utils/logger.js';
+import { cancelledError } from '../utils/abort.js';
+import { wordsFromCharacterAlignment, writeWordTimings } from '../utils/word-timings.js';
+import { UsageReporter } from '../types/usage.js';
 
 export interface ElevenLabsVoiceConfig {
   voiceId: string;
@@ -38,7 +39,8 @@ export class ElevenLabsVoiceGenerator {
   async generateAudio(
     text: string,
     voiceConfig: ElevenLabsVoiceConfig,
-    outputFile: string
+    outputFile: string,
+    options: { signal?: AbortSignal; onUsage?: UsageReporter } = {}
   ): Promise<string> {
     await mkdir(this.outputDir, { recursive: true });
 
@@ -50,11 +52,12 @@ export class ElevenLabsVoiceGenerator {
     );
 
     try {
+      // Same audio as the plain endpoint, plus per-character timings for the subtitles.
       const response = await axios({
         method: 'POST',
-        url: `${this.baseUrl}/text-to-speech/${voiceConfig.voiceId}`,
+        url: `${this.baseUrl}/text-to-speech/${voiceConfig.voiceId}/with-timestamps`,
         headers: {
-          'Accept': 'audio/mpeg',
+          'Accept': 'application/json',
           'Content-Type': 'application/json',
           'xi-api-key': this.apiKey
         },
@@ -68,18 +71,33 @@ export class ElevenLabsVoiceGenerator {
             use_speaker_boost: voiceConfig.useSpeakerBoost ?? true
           }
         },
-        responseType: 'stream',
-        timeout: 300000
+        responseType: 'json',
+        timeout: 300000,
+        signal: options.signal
       });
 
-      const writer = createWriteStream(outputPath);
-      await pipeline(response.data, writer);
+      await writeFile(outputPath, Buffer.from(response.data.audio_base64, 'base64'));
+      if (response.data.alignment) {
+        await writeWordTimings(outputPath, wordsFromCharacterAlignment(response.data.alignment));
+      }
 
       logger.info({ outputPath }, 'Audio generated successfully with ElevenLabs');
+      await options.onUsage?.({
+        provider: 'elevenlabs',
+        operation: 'narration',
+        model: this.modelId,
+        characters: text.length,
+        requests: 1
+      });
       return outputPath;
     } catch (error) {
       const err = error as Error & { response?: { status: number; data: unknown } };
 
+      if (options.signal?.aborted) {
+        logger.info({ outputPath }, 'ElevenLabs generation cancelled');
+        throw cancelledError();
+      }
+
       if (axios.isAxiosError(error) && error.response) {
         const status = error.response.status;
         let errorMessage = `ElevenLabs API error (${status})`;
@@ -0,0 +1,247 @@
+import { EventEmitter } from 'events';
+import { mkdir, readFile, writeFile, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { GenerationJob, GenerationJobResult, NewGenerationJob } from '../types/job-queue.js';
+import logger from '../utils/logger.js';
+
+/** Runs one job. The signal fires when the job is cancelled; the handler should stop promptly. */
+export type GenerationJobHandler = (job: GenerationJob, signal: AbortSignal) => Promise<GenerationJobResult>;
+
+export interface JobQueueConfig {
+  filePath?: string;
+  /** Max jobs running at once (env: GENERATION_CONCURRENCY, default 1). */
+  concurrency?: number;
+  /** Finished jobs kept in the file for history (env: GENERATION_QUEUE_HISTORY, default 200). */
+  historyLimit?: number;
+}
+
+/**
+ * Durable queue for generation jobs.
+ *
+ * Jobs are persisted under `data/` and survive a restart: a job that was
+ * running when the process died goes back to `queued` and is picked up again
+ * once a handler is attached with `start()`.
+ *
+ * Events:
+ * - `queued`    (job, position)  job accepted
+ * - `position`  (job, position)  queue position changed
+ * - `started`   (job)
+ * - `completed` (job)
+ * - `failed`    (job)
+ * - `cancelled` (job)
+ */
+export class GenerationJobQueue extends EventEmitter {
+  private filePath: string;
+  private concurrency: number;
+  private historyLimit: number;
+  private jobs: GenerationJob[] = [];
+  private running = new Map<string, AbortController>();
+  private handler: GenerationJobHandler | null = null;
+  private ready: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: JobQueueConfig = {}) {
+    super();
+    this.filePath = config.filePath || process.env.GENERATION_QUEUE_PATH || './data/generation-jobs.json';
+    this.concurrency = Math.max(1, config.concurrency ?? (parseInt(process.env.GENERATION_CONCURRENCY || '1', 10) || 1));
+    this.historyLimit = Math.max(0, config.historyLimit ?? (parseInt(process.env.GENERATION_QUEUE_HISTORY || '200', 10) || 200));
+    this.ready = this.load();
+  }
+
+  /** Attach the job runner and start draining the queue. */
+  async start(handler: GenerationJobHandler): Promise<void> {
+    await this.ready;
+    this.handler = handler;
+    this.pump();
+  }
+
+  /** Stop picking up new jobs. Running jobs are left to finish (or are requeued on next start). */
+  stop(): void {
+    this.handler = null;
+  }
+
+  async enqueue(input: NewGenerationJob): Promise<GenerationJob> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      kind: input.kind,
+      status: 'queued',
+      priority: input.priority ?? 0,
+      source: input.source ?? 'api',
+      channelId: input.channelId,
+      topic: input.topic,
+      projectId: input.projectId,
+      mode: input.mode,
+      options: input.options,
+      short: input.short,
+      localization: input.localization,
+      scheduledVideoId: input.scheduledVideoId,
+      requestedBy: input.requestedBy,
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0
+    };
+
+    this.jobs.push(job);
+    await this.persist();
+
+    logger.info({ jobId: job.id, kind: job.kind, projectId: job.projectId, priority: job.priority }, 'Generation job queued');
+    this.emit('queued', job, this.getPosition(job.id));
+    this.emitPositions(job.id);
+    this.pump();
+    return job;
+  }
+
+  async list(): Promise<GenerationJob[]> {
+    await this.ready;
+    return [...this.jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    await this.ready;
+    return this.jobs.find((j) => j.id === id) || null;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are dropped right away; running jobs are aborted and
+   * become `cancelled` once their handler has stopped. Finished jobs are returned unchanged.
+   */
+  async cancel(id: string): Promise<GenerationJob | null> {
+    await this.ready;
+    const job = this.jobs.find((j) => j.id === id);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      const finishedAt = new Date().toISOString();
+      Object.assign(job, { status: 'cancelled', finishedAt, updatedAt: finishedAt });
+      await this.persist();
+      logger.info({ jobId: id }, 'Queued generation job cancelled');
+      this.emit('cancelled', job);
+      this.emitPositions();
+    } else if (job.status === 'running') {
+      logger.info({ jobId: id }, 'Cancelling running generation job');
+      this.running.get(id)?.abort();
+    }
+    return job;
+  }
+
+  /** 1-based position among queued jobs, or 0 if the job is not waiting. */
+  getPosition(id: string): number {
+    const idx = this.queuedInOrder().findIndex((j) => j.id === id);
+    return idx + 1;
+  }
+
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  private queuedInOrder(): GenerationJob[] {
+    return this.jobs
+      .filter((j) => j.status === 'queued')
+      .sort((a, b) => (b.priority - a.priority) || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private pump(): void {
+    if (!this.handler) return;
+    while (this.running.size < this.concurrency) {
+      const next = this.queuedInOrder()[0];
+      if (!next) break;
+      this.run(next).catch((err) => {
+        logger.error({ jobId: next.id, error: (err as Error).message }, 'Generation job runner crashed');
+      });
+    }
+  }
+
+  private async run(job: GenerationJob): Promise<void> {
+    const handler = this.handler;
+    if (!handler) return;
+
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    const startedAt = new Date().toISOString();
+    Object.assign(job, { status: 'running', startedAt, updatedAt: startedAt, attempts: job.attempts + 1, error: undefined });
+    await this.persist();
+
+    this.emit('started', job);
+    this.emitPositions();
+
+    try {
+      const result = await handler(job, controller.signal);
+      const finishedAt = new Date().toISOString();
+      Object.assign(job, { status: 'completed', result, finishedAt, updatedAt: finishedAt });
+      await this.persist();
+      this.emit('completed', job);
+    } catch (error: unknown) {
+      const err = error as Error;
+      const finishedAt = new Date().toISOString();
+      if (controller.signal.aborted) {
+        Object.assign(job, { status: 'cancelled', finishedAt, updatedAt: finishedAt });
+        await this.persist();
+        this.emit('cancelled', job);
+      } else {
+        Object.assign(job, { status: 'failed', error: err?.message || String(error), finishedAt, updatedAt: finishedAt });
+        await this.persist();
+        this.emit('failed', job);
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private emitPositions(skipId?: string): void {
+    this.queuedInOrder().forEach((job, idx) => {
+      if (job.id !== skipId) this.emit('position', job, idx + 1);
+    });
+  }
+
+  private async load(): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const raw = await readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(raw);
+      this.jobs = Array.isArray(parsed) ? (parsed as GenerationJob[]) : [];
+    } catch (error: unknown) {
+      logger.error({ filePath: this.filePath, error: (error as Error).message }, 'Failed to read generation queue, starting empty');
+      this.jobs = [];
+      return;
+    }
+
+    // Jobs interrupted by a restart go back to the queue.
+    const interrupted = this.jobs.filter((j) => j.status === 'running');
+    for (const job of interrupted) {
+      job.status = 'queued';
+      job.updatedAt = new Date().toISOString();
+    }
+    if (interrupted.length) {
+      logger.warn({ count: interrupted.length }, 'Requeued generation jobs interrupted by restart');
+      await this.writeFile();
+    }
+  }
+
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.then(() => this.writeFile()).catch((err) => {
+      logger.error({ filePath: this.filePath, error: (err as Error).message }, 'Failed to persist generation queue');
+    });
+    return this.writeChain;
+  }
+
+  private async writeFile(): Promise<void> {
+    const active = this.jobs.filter((j) => j.status === 'queued' || j.status === 'running');
+    const finished = this.jobs
+      .filter((j) => j.status === 'completed' || j.status === 'failed' || j.status === 'cancelled')
+      .sort((a, b) => (b.finishedAt || b.updatedAt).localeCompare(a.finishedAt || a.updatedAt))
+      .slice(0, this.historyLimit);
+    this.jobs = this.jobs.filter((j) => active.includes(j) || finished.includes(j));
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${crypto.randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(this.jobs, null, 2));
+    await rename(tmp, this.filePath);
+  }
+}
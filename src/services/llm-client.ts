@@ -0,0 +1,161 @@
+import { defaultLlmProvider, getLlmSettings } from '../config/llm.js';
+import { LlmCallOptions, LlmMessage, LlmProvider, LlmProviderName, LlmResponse, LlmTask, LlmTaskSettings } from '../types/llm.js';
+import { createLlmProvider } from './llm-providers.js';
+import logger from '../utils/logger.js';
+import { cancelledError, throwIfAborted } from '../utils/abort.js';
+
+const RETRYABLE_STATUS = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+const RETRYABLE_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'ECONNABORTED'];
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object only: no markdown, no text before or after it.';
+
+export interface LlmClientOptions {
+  /** Attempts per call, retryable failures only (default LLM_RETRIES or 4). */
+  maxAttempts?: number;
+  /** First backoff delay, doubled after each failure (default 1 s, at most 16 s). */
+  retryDelayMs?: number;
+}
+
+/**
+ * JSON object out of a completion: markdown fences, text around the object and trailing
+ * commas (all common without a JSON mode) are tolerated.
+ */
+export function parseJsonContent<T = any>(content: string): T {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  let text = (fenced ? fenced[1] : content).trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) text = text.slice(start, end + 1);
+  return JSON.parse(text.replace(/,(\s*[}\]])/g, '$1')) as T;
+}
+
+const statusOf = (error: any): number | undefined => error?.status ?? error?.response?.status;
+
+function isRetryable(error: any): boolean {
+  const status = statusOf(error);
+  if (status) return RETRYABLE_STATUS.includes(status);
+  const code = error?.code ?? error?.cause?.code;
+  return RETRYABLE_CODES.includes(code) || ['APIConnectionError', 'APIConnectionTimeoutError'].includes(error?.name);
+}
+
+/** Providers compatible with the OpenAI API do not all implement `response_format`. */
+function isJsonModeRejection(error: any): boolean {
+  const message = String(error?.message || error?.error?.message || '');
+  return statusOf(error) === 400 && /response_format|json/i.test(message);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Every LLM call of the app: picks the provider and settings for the task (and channel),
+ * retries transient failures with backoff, falls back to a prompted JSON answer when the
+ * model has no JSON mode, and reports usage for cost accounting.
+ */
+export class LlmClient {
+  private providers = new Map<LlmProviderName, LlmProvider>();
+  /** `provider:model` pairs that rejected JSON mode, asked in the prompt from then on. */
+  private withoutJsonMode = new Set<string>();
+  private maxAttempts: number;
+  private retryDelayMs: number;
+
+  constructor(providers: Partial<Record<LlmProviderName, LlmProvider>> = {}, options: LlmClientOptions = {}) {
+    for (const provider of Object.values(providers)) {
+      if (provider) this.providers.set(provider.name, provider);
+    }
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? parseInt(process.env.LLM_RETRIES || '4', 10));
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    // Missing credentials for the default provider fail at startup, not mid-run.
+    this.provider(defaultLlmProvider());
+  }
+
+  async complete(task: LlmTask, options: LlmCallOptions): Promise<LlmResponse & { settings: LlmTaskSettings }> {
+    const settings = getLlmSettings(task, options.channel, options.settings);
+    const provider = this.provider(settings.provider);
+    const key = `${provider.name}:${settings.model}`;
+    const jsonMode = !!options.json && provider.supportsJsonMode && !this.withoutJsonMode.has(key);
+    const messages = options.json && !jsonMode ? this.askForJson(options.messages) : options.messages;
+
+    let delayMs = this.retryDelayMs;
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(options.signal);
+      try {
+        const response = await provider.complete({
+          model: settings.model,
+          messages,
+          temperature: settings.temperature,
+          maxTokens: settings.maxTokens,
+          json: jsonMode,
+          signal: options.signal
+        });
+
+        await options.onUsage?.({
+          provider: provider.name,
+          operation: options.operation || task,
+          // Priced by the configured name: responses carry dated model versions.
+          model: settings.model,
+          inputTokens: response.inputTokens,
+          outputTokens: response.outputTokens,
+          requests: 1
+        });
+
+        if (!response.content.trim()) {
+          throw new Error(`No response from ${provider.name}`);
+        }
+        return { ...response, settings };
+      } catch (error: any) {
+        if (options.signal?.aborted) throw cancelledError();
+
+        if (jsonMode && isJsonModeRejection(error)) {
+          logger.warn({ provider: provider.name, model: settings.model }, 'JSON mode not supported, asking for JSON in the prompt');
+          this.withoutJsonMode.add(key);
+          return this.complete(task, options);
+        }
+        if (attempt >= this.maxAttempts || !isRetryable(error)) {
+          throw error;
+        }
+
+        const waitMs = delayMs + Math.floor(Math.random() * 250);
+        logger.warn({ task, provider: provider.name, attempt, status: statusOf(error), waitMs, error: error?.message }, 'LLM call failed, retrying');
+        await sleep(waitMs, options.signal);
+        delayMs = Math.min(16000, delayMs * 2);
+      }
+    }
+  }
+
+  /** `complete` with a JSON answer, parsed. */
+  async completeJson<T = any>(task: LlmTask, options: LlmCallOptions): Promise<T> {
+    const response = await this.complete(task, { ...options, json: true });
+    try {
+      return parseJsonContent<T>(response.content);
+    } catch (error: any) {
+      logger.error({ task, provider: response.settings.provider, responsePreview: response.content.substring(0, 500) }, 'Invalid JSON from LLM');
+      throw new Error(`Invalid ${task} format from ${response.settings.provider}: ${error.message}`);
+    }
+  }
+
+  private provider(name: LlmProviderName): LlmProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = createLlmProvider(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  private askForJson(messages: LlmMessage[]): LlmMessage[] {
+    const system = messages.find((m) => m.role === 'system');
+    if (!system) return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+    return messages.map((m) => (m === system ? { ...m, content: `${m.content}\n${JSON_INSTRUCTION}` } : m));
+  }
+}
@@ -0,0 +1,118 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { LlmProvider, LlmProviderName, LlmRequest, LlmResponse } from '../types/llm.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** OpenAI, or any server speaking its chat completions API (`baseURL`). */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name: 'openai' | 'openai-compatible';
+  readonly supportsJsonMode = true;
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseURL?: string; name?: 'openai' | 'openai-compatible' }) {
+    this.name = options.name || 'openai';
+    // Retries are LlmClient's job, with the same policy for every provider.
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0, timeout: REQUEST_TIMEOUT_MS });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const message = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+    }, { signal: request.signal });
+
+    return {
+      content: message.choices[0]?.message?.content || '',
+      model: message.model || request.model,
+      inputTokens: message.usage?.prompt_tokens,
+      outputTokens: message.usage?.completion_tokens
+    };
+  }
+}
+
+/** Anthropic Messages API. It has no JSON mode: LlmClient asks for JSON in the prompt instead. */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  readonly supportsJsonMode = false;
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(options: { apiKey: string; baseURL?: string }) {
+    this.apiKey = options.apiKey;
+    this.baseURL = (options.baseURL || 'https://api.anthropic.com').replace(/\/+$/, '');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const system = request.messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+    const messages = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    const response = await axios.post(
+      `${this.baseURL}/v1/messages`,
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(system ? { system } : {}),
+        messages
+      },
+      {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'content-type': 'application/json'
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        signal: request.signal
+      }
+    );
+
+    const data = response.data as {
+      model?: string;
+      content?: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    return {
+      content: (data.content || []).filter((block) => block.type === 'text').map((block) => block.text || '').join(''),
+      model: data.model || request.model,
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens
+    };
+  }
+}
+
+/** Provider configured from the environment; throws when its credentials are missing. */
+export function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return new OpenAiLlmProvider({ apiKey });
+    }
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL environment variable is required for the openai-compatible provider');
+      }
+      // Local servers usually accept any key.
+      return new OpenAiLlmProvider({ name, baseURL, apiKey: process.env.LLM_API_KEY || 'not-needed' });
+    }
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required');
+      }
+      return new AnthropicLlmProvider({ apiKey, baseURL: process.env.ANTHROPIC_BASE_URL });
+    }
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
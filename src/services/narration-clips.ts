@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readdir, rename, rm } from 'fs/promises';
+import path from 'path';
+import { NarrationClip } from '../schemas/project-manifest.js';
+import { Channel, VideoScript, VoiceConfig } from '../types/index.js';
+import { NarrationTiming } from '../types/timeline.js';
+import { UnifiedVoiceGenerator, VoiceGenerationOptions } from './voice-generator-factory.js';
+import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { concatAudioFiles, probeDurationSeconds } from '../utils/media.js';
+import { narrationSegments, timingFromDurations } from '../utils/narration.js';
+import { wordTimingsPath } from '../utils/word-timings.js';
+
+/** Voice generators write under this directory; clips live in clips/<projectId>/ below it. */
+const AUDIO_DIR = './output/audio';
+/** Clips are voiced under this suffix and renamed once complete, so an interrupted take is never cached. */
+const PARTIAL_SUFFIX = '.partial';
+
+export interface NarrationClipRendererOptions {
+  /** Must match the voice generator's output directory. */
+  audioDir?: string;
+  media?: {
+    probeDurationSeconds: typeof probeDurationSeconds;
+    concatAudioFiles: typeof concatAudioFiles;
+  };
+}
+
+export interface NarrationRenderOptions extends VoiceGenerationOptions {
+  /** Called after each segment, voiced or reused. */
+  onClip?: (done: number, total: number) => void;
+}
+
+export interface NarrationRenderResult {
+  audioPath: string;
+  audioDuration: number;
+  clips: NarrationClip[];
+  /** Measured start and length of each segment in the joined narration. */
+  timing: NarrationTiming;
+  /** Segment keys sent to TTS during this render; the others came from the cache. */
+  voiced: string[];
+}
+
+export function textHash(text: string): string {
+  return crypto.createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex').slice(0, 16);
+}
+
+/**
+ * Label of the previous clip whose text each new clip repeats, keyed by the new label.
+ * Each previous clip is matched at most once, in narration order.
+ */
+export function matchUnchangedClips(previous: NarrationClip[], next: NarrationClip[]): Record<string, string> {
+  const available = [...previous];
+  const matches: Record<string, string> = {};
+  for (const clip of next) {
+    const idx = available.findIndex((p) => p.textHash === clip.textHash);
+    if (idx === -1) continue;
+    matches[clip.key] = available[idx].key;
+    available.splice(idx, 1);
+  }
+  return matches;
+}
+
+/**
+ * Narration voiced segment by segment (hook, sting, sections, CTAs, conclusion) into
+ * cached clips, then joined into the project's narration file. A clip is only sent to
+ * TTS again when its text or the voice settings change, so editing one section of a
+ * script re-voices that section alone.
+ */
+export class NarrationClipRenderer {
+  private voiceGenerator: UnifiedVoiceGenerator;
+  private audioDir: string;
+  private media: Required<NarrationClipRendererOptions>['media'];
+
+  constructor(voiceGenerator: UnifiedVoiceGenerator, options: NarrationClipRendererOptions = {}) {
+    this.voiceGenerator = voiceGenerator;
+    this.audioDir = options.audioDir || AUDIO_DIR;
+    this.media = options.media || { probeDurationSeconds, concatAudioFiles };
+  }
+
+  /** Render `output/audio/<projectId>.mp3` from its clips; clips no longer used are removed. */
+  async render(
+    projectId: string,
+    channel: Channel,
+    script: VideoScript,
+    voice: VoiceConfig,
+    options: NarrationRenderOptions = {}
+  ): Promise<NarrationRenderResult> {
+    const segments = narrationSegments(channel, script).filter((s) => s.text.trim());
+    const clipDir = `clips/${projectId}`;
+    await mkdir(path.join(this.audioDir, clipDir), { recursive: true });
+
+    const clips: NarrationClip[] = [];
+    const voiced: string[] = [];
+    for (const segment of segments) {
+      throwIfAborted(options.signal);
+      const cacheKey = crypto
+        .createHash('sha256')
+        .update(`${JSON.stringify(voice)}\n${segment.text.trim()}`)
+        .digest('hex')
+        .slice(0, 16);
+      const clipPath = `${this.audioDir}/${clipDir}/${cacheKey}.mp3`;
+
+      if (!existsSync(clipPath)) {
+        await this.voiceClip(segment.text, voice, `${clipDir}/${cacheKey}`, options);
+        voiced.push(segment.key);
+      }
+
+      clips.push({
+        key: segment.key,
+        textHash: textHash(segment.text),
+        path: clipPath,
+        durationSeconds: await this.media.probeDurationSeconds(clipPath, options.signal)
+      });
+      options.onClip?.(clips.length, segments.length);
+    }
+
+    const audioPath = `${this.audioDir}/${projectId}.mp3`;
+    await this.media.concatAudioFiles(clips.map((c) => c.path as string), audioPath, options.signal);
+    const audioDuration = await this.media.probeDurationSeconds(audioPath, options.signal);
+
+    const timing = timingFromDurations(
+      clips.map((c) => ({ key: c.key, durationSeconds: c.durationSeconds || 0 })),
+      audioDuration
+    );
+
+    await this.prune(projectId, clips);
+    logger.info({ projectId, clips: clips.length, voiced: voiced.length, audioDuration }, 'Narration rendered from clips');
+    return { audioPath, audioDuration, clips, timing, voiced };
+  }
+
+  /**
+   * Voice one clip to `<name>.partial.mp3` and move it (and its word timings) to `<name>.mp3`
+   * only once TTS succeeded: a cancelled or failed take leaves no file that looks cached.
+   */
+  private async voiceClip(text: string, voice: VoiceConfig, name: string, options: NarrationRenderOptions): Promise<void> {
+    const partialPath = `${this.audioDir}/${name}${PARTIAL_SUFFIX}.mp3`;
+    const finalPath = `${this.audioDir}/${name}.mp3`;
+    try {
+      await this.voiceGenerator.generateAudio(text, voice, `${name}${PARTIAL_SUFFIX}.mp3`, {
+        signal: options.signal,
+        onUsage: options.onUsage
+      });
+      if (existsSync(wordTimingsPath(partialPath))) {
+        await rename(wordTimingsPath(partialPath), wordTimingsPath(finalPath));
+      }
+      await rename(partialPath, finalPath);
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      await rm(wordTimingsPath(partialPath), { force: true });
+      throw error;
+    }
+  }
+
+  /** Drop cached clips that are not part of the current narration (earlier takes, edited sections). */
+  private async prune(projectId: string, keep: NarrationClip[]): Promise<void> {
+    const dir = path.join(this.audioDir, 'clips', projectId);
+    // A clip is `<hash>.mp3` plus its word timings `<hash>.words.json`; partial takes always go.
+    const kept = new Set(keep.map((c) => path.basename(c.path || '').split('.')[0]));
+    const names = await readdir(dir).catch(() => [] as string[]);
+    for (const name of names) {
+      if (!kept.has(name.split('.')[0]) || name.includes(PARTIAL_SUFFIX)) await rm(path.join(dir, name), { force: true });
+    }
+  }
+}
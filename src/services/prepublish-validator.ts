@@ -4,7 +4,11 @@ import { existsSync } from 'fs';
 import { readFile } from 'fs/promises';
 import path from 'path';
 import { channels } from '../config/channels.js';
-import { VideoScript } from '../types/index.js';
+import { getDurationContract, SHORT_DURATION_CONTRACT } from '../config/duration-contract.js';
+import { Asset, VideoScript } from '../types/index.js';
+import { ProjectStore } from './project-store.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import logger from '../utils/logger.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -38,18 +42,26 @@ export interface PrepublishReport {
 }
 
 export class PrepublishValidator {
+  private projectStore: ProjectStore;
+
+  constructor(projectStore: ProjectStore = new ProjectStore()) {
+    this.projectStore = projectStore;
+  }
+
   async validate(params: {
     videoAbsPath: string;
     videoUiPath: string;
     metadata?: { title?: string; description?: string; tags?: string[] };
   }): Promise<PrepublishReport> {
     const projectId = path.basename(params.videoAbsPath).replace(/\.mp4$/i, '');
-    const scriptPath = path.resolve(process.cwd(), 'output', 'scripts', `${projectId}.json`);
-    const audioPath = path.resolve(process.cwd(), 'output', 'audio', `${projectId}.mp3`);
-    const metaPath = path.resolve(process.cwd(), 'output', 'meta', `${projectId}.json`);
 
-    const channelId = this.inferChannelIdFromProjectId(projectId);
-    const channel = channelId ? channels[channelId] : undefined;
+    // Load manifest (required for “never publish ratée” guarantees)
+    // An unreadable/invalid manifest counts as missing: publishing stays blocked.
+    const manifest: ProjectManifest | null = await this.projectStore.get(projectId).catch(() => null);
+
+    const scriptPath = path.resolve(process.cwd(), manifest?.scriptPath ?? `output/scripts/${projectId}.json`);
+    const audioPath = path.resolve(process.cwd(), manifest?.audioPath ?? `output/audio/${projectId}.mp3`);
+    const channel = manifest ? channels[manifest.channelId] : undefined;
 
     const checks: PrepublishCheck[] = [];
 
@@ -68,31 +80,22 @@ export class PrepublishValidator {
       script = null;
     }
 
-    // Load manifest (required for “never publish ratée” guarantees)
-    let manifest: any = null;
-    try {
-      manifest = JSON.parse(await readFile(metaPath, 'utf-8'));
-    } catch {
-      manifest = null;
-    }
-
-    const beatsPlanned = typeof manifest?.beatsPlanned === 'number' ? manifest.beatsPlanned : null;
+    const beatsPlanned = manifest?.beatsPlanned ?? null;
 
-    const beatsUsable = Array.isArray(manifest?.downloadedAssets)
-      ? manifest.downloadedAssets.filter((a: any) => a?.localPath && existsSync(a.localPath)).length
+    const beatsUsable = manifest
+      ? manifest.downloadedAssets.filter((a) => a.localPath && existsSync(a.localPath)).length
       : 0;
 
-    const clipsUsable = Array.isArray(manifest?.downloadedAssets)
-      ? manifest.downloadedAssets.filter((a: any) => a?.type === 'video' && a?.localPath && existsSync(a.localPath)).length
+    const clipsUsable = manifest
+      ? manifest.downloadedAssets.filter((a) => a.type === 'video' && a.localPath && existsSync(a.localPath)).length
       : 0;
 
-    const placeholders = Array.isArray(manifest?.collectedAssets)
-      ? manifest.collectedAssets.filter((a: any) => this.isPlaceholderAsset(a)).length
-      : (Array.isArray(manifest?.downloadedAssets)
-        ? manifest.downloadedAssets.filter((a: any) => this.isPlaceholderAsset(a)).length
-        : 0);
+    const placeholders = manifest
+      ? (manifest.collectedAssets.length > 0 ? manifest.collectedAssets : manifest.downloadedAssets)
+        .filter((a) => this.isPlaceholderAsset(a)).length
+      : 0;
 
-    const forceImagesOnly = !!manifest?.forceImagesOnly;
+    const forceImagesOnly = !!manifest?.visualOverrides.forceImagesOnly;
 
     // ✅ Audio duration = Video duration (match)
     {
@@ -107,12 +110,14 @@ export class PrepublishValidator {
       });
     }
 
-    // ✅ Durée totale ≥ 9:00
+    const contract = manifest?.shortSource ? SHORT_DURATION_CONTRACT : getDurationContract(channel);
+
+    // ✅ Durée totale ≥ minimum du contrat de la chaîne
     {
-      const ok = Number.isFinite(audioSeconds) && audioSeconds >= 9 * 60;
+      const ok = Number.isFinite(audioSeconds) && audioSeconds >= contract.minSeconds;
       checks.push({
         id: 'min_duration',
-        label: 'Durée totale ≥ 9:00',
+        label: `Durée totale ≥ ${this.formatDuration(contract.minSeconds)}`,
         ok,
         details: Number.isFinite(audioSeconds) ? `${this.formatDuration(audioSeconds)}` : 'Audio introuvable',
         actions: ok
@@ -123,17 +128,33 @@ export class PrepublishValidator {
       });
     }
 
-    // ✅ Beats count ≥ 60 (use planned beats when available; fallback to usable)
+    // ✅ Durée totale ≤ maximum du contrat (formats courts)
+    {
+      const ok = Number.isFinite(audioSeconds) && audioSeconds <= contract.maxSeconds;
+      checks.push({
+        id: 'max_duration',
+        label: `Durée totale ≤ ${this.formatDuration(contract.maxSeconds)}`,
+        ok,
+        details: Number.isFinite(audioSeconds) ? `${this.formatDuration(audioSeconds)}` : 'Audio introuvable',
+        actions: ok
+          ? undefined
+          : [
+            { kind: 'regen_full', label: 'Raccourcir script (relancer génération complète)' }
+          ]
+      });
+    }
+
+    // ✅ Beats count ≥ contract minimum (use planned beats when available; fallback to usable)
     {
       const beatsCount = typeof beatsPlanned === 'number' && beatsPlanned > 0 ? beatsPlanned : beatsUsable;
-      const ok = beatsCount >= 60;
+      const ok = beatsCount >= contract.minBeats;
       const actions: PrepublishAction[] = [];
       if (!ok) {
         actions.push({ kind: 'regen_assets', label: 'Regénérer assets (garder script/audio)' });
       }
       checks.push({
         id: 'beats_min',
-        label: 'Beats count ≥ 60',
+        label: `Beats count ≥ ${contract.minBeats}`,
         ok,
         details: manifest
           ? (typeof beatsPlanned === 'number' && beatsPlanned > 0
@@ -161,14 +182,18 @@ export class PrepublishValidator {
       });
     }
 
-    // ✅ Ratio visuels : au moins 10 clips (si chaîne le permet) sinon tout en images OK
+    // ✅ Ratio visuels : au moins N clips (si chaîne le permet) sinon tout en images OK
     {
       const channelAllowsClips = !!channel && (channel.visualMix?.video ?? 0) > 0;
-      const ok = !channelAllowsClips || forceImagesOnly || clipsUsable >= 10;
+      const ok = !channelAllowsClips || forceImagesOnly || clipsUsable >= contract.minClips;
 
       const actions: PrepublishAction[] = [];
       if (channelAllowsClips && !ok) {
-        actions.push({ kind: 'regen_assets_more_clips', label: 'Regénérer assets (viser ≥10 clips)', payload: { minClips: 10 } });
+        actions.push({
+          kind: 'regen_assets_more_clips',
+          label: `Regénérer assets (viser ≥${contract.minClips} clips)`,
+          payload: { minClips: contract.minClips }
+        });
         actions.push({ kind: 'regen_assets_images_only', label: 'Forcer images-only (OK si clips impossibles)' });
       }
 
@@ -211,10 +236,23 @@ export class PrepublishValidator {
 
     const ok = checks.every(c => c.ok);
 
+    if (manifest) {
+      await this.projectStore.update(projectId, (current) => ({
+        ...current,
+        prepublish: {
+          ok,
+          checkedAt: new Date().toISOString(),
+          failedChecks: checks.filter(c => !c.ok).map(c => c.id)
+        }
+      })).catch((error: Error) => {
+        logger.warn({ projectId, error: error.message }, 'Failed to record pre-publish result');
+      });
+    }
+
     return {
       ok,
       projectId,
-      channelId: channel?.id,
+      channelId: manifest?.channelId,
       durations: {
         audioSeconds: Number.isFinite(audioSeconds) ? audioSeconds : 0,
         videoSeconds: Number.isFinite(videoSeconds) ? videoSeconds : 0,
@@ -225,18 +263,9 @@ export class PrepublishValidator {
     };
   }
 
-  private inferChannelIdFromProjectId(projectId: string): string | null {
-    // projectId format is usually `${channel.id}-${timestamp}` where channel.id can contain '-'
-    const keys = Object.keys(channels);
-    const matches = keys
-      .filter((k) => projectId === k || projectId.startsWith(k + '-'))
-      .sort((a, b) => b.length - a.length);
-    return matches[0] || null;
-  }
-
-  private isPlaceholderAsset(asset: any): boolean {
-    const url = String(asset?.url || '');
-    const attribution = String(asset?.attribution || '');
+  private isPlaceholderAsset(asset: Asset): boolean {
+    const url = asset.url || '';
+    const attribution = asset.attribution || '';
     return url.includes('via.placeholder.com') || /placeholder/i.test(attribution);
   }
 
@@ -0,0 +1,248 @@
+import { readdir, readFile, rm, stat } from 'fs/promises';
+import path from 'path';
+import { channels } from '../config/channels.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { GenerationJob } from '../types/job-queue.js';
+import {
+  ProjectArtifactFile,
+  ProjectDeleteResult,
+  ProjectDetails,
+  ProjectListFilters,
+  ProjectListPage,
+  ProjectPublishInfo,
+  ProjectSummary
+} from '../types/project.js';
+import { YouTubePublishJob } from '../types/youtube-publish.js';
+import { GenerationJobQueue } from './job-queue.js';
+import { ProjectStore } from './project-store.js';
+import { YouTubePublishStore } from './youtube-publish-store.js';
+import logger from '../utils/logger.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface ArtifactFile extends ProjectArtifactFile {
+  absPath: string;
+}
+
+/**
+ * Read model over projects: manifests (ProjectStore) joined with the files under
+ * output/, the generation queue and the YouTube publish history.
+ *
+ * A file belongs to a project when its name is `<projectId>` or `<projectId>.<anything>`
+ * in any output/ subdirectory. Library assets live under assets/ and are never touched.
+ */
+export class ProjectCatalog {
+  private projectStore: ProjectStore;
+  private publishStore: YouTubePublishStore;
+  private jobQueue: Pick<GenerationJobQueue, 'list'>;
+  private outputDir: string;
+
+  constructor(
+    projectStore: ProjectStore = new ProjectStore(),
+    publishStore: YouTubePublishStore = new YouTubePublishStore(),
+    jobQueue: Pick<GenerationJobQueue, 'list'> = new GenerationJobQueue(),
+    outputDir: string = './output'
+  ) {
+    this.projectStore = projectStore;
+    this.publishStore = publishStore;
+    this.jobQueue = jobQueue;
+    this.outputDir = outputDir;
+  }
+
+  async list(filters: ProjectListFilters = {}): Promise<ProjectListPage> {
+    const page = Math.max(1, filters.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, filters.pageSize || DEFAULT_PAGE_SIZE));
+    const items = await this.summaries(filters);
+    return {
+      items: items.slice((page - 1) * pageSize, page * pageSize),
+      total: items.length,
+      page,
+      pageSize
+    };
+  }
+
+  /** All matching projects, newest first (pagination fields are ignored). */
+  async summaries(filters: ProjectListFilters = {}): Promise<ProjectSummary[]> {
+    const manifests = (await this.projectStore.list()).filter((m) =>
+      (!filters.channelId || m.channelId === filters.channelId) &&
+      (!filters.status || m.status === filters.status) &&
+      (!filters.mode || m.mode === filters.mode)
+    );
+
+    const context = await this.loadContext();
+    let items = await Promise.all(manifests.map((m) => this.summarize(m, context)));
+
+    const q = filters.q?.trim().toLowerCase();
+    if (q) {
+      items = items.filter((p) =>
+        [p.projectId, p.topic, p.title || ''].some((field) => field.toLowerCase().includes(q))
+      );
+    }
+
+    return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(projectId: string): Promise<ProjectDetails | null> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) return null;
+
+    const context = await this.loadContext();
+    const summary = await this.summarize(manifest, context);
+    return {
+      ...summary,
+      audioDurationSeconds: manifest.audioDurationSeconds,
+      beatsPlanned: manifest.beatsPlanned,
+      visualOverrides: manifest.visualOverrides,
+      files: (context.files.get(projectId) || []).map(({ url, bytes }) => ({ url, bytes }))
+    };
+  }
+
+  /**
+   * Remove every output/ file of the project, the manifest last so a failed
+   * delete can be retried. Returns null when the project has no manifest.
+   */
+  async delete(projectId: string): Promise<ProjectDeleteResult | null> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) return null;
+
+    const files = (await this.scanArtifacts()).get(projectId) || [];
+    const manifestPath = path.resolve(this.projectStore.pathFor(projectId));
+    const deletedFiles: string[] = [];
+    let freedBytes = 0;
+
+    for (const file of files) {
+      if (file.absPath === manifestPath) continue;
+      await rm(file.absPath, { force: true });
+      deletedFiles.push(file.url);
+      freedBytes += file.bytes;
+    }
+
+    await rm(path.join(this.outputDir, 'audio', 'clips', projectId), { recursive: true, force: true });
+    await this.projectStore.remove(projectId);
+    const manifestFile = files.find((f) => f.absPath === manifestPath);
+    if (manifestFile) {
+      deletedFiles.push(manifestFile.url);
+      freedBytes += manifestFile.bytes;
+    }
+
+    logger.info({ projectId, files: deletedFiles.length, freedBytes }, 'Project deleted');
+    return { projectId, deletedFiles, freedBytes };
+  }
+
+  private async loadContext(): Promise<{
+    files: Map<string, ArtifactFile[]>;
+    publishJobs: YouTubePublishJob[];
+    activeJobs: GenerationJob[];
+  }> {
+    const [files, publishJobs, jobs] = await Promise.all([
+      this.scanArtifacts(),
+      this.publishStore.list(),
+      this.jobQueue.list()
+    ]);
+    const activeJobs = jobs.filter((j) => j.status === 'queued' || j.status === 'running');
+    return { files, publishJobs, activeJobs };
+  }
+
+  private async summarize(
+    manifest: ProjectManifest,
+    context: Awaited<ReturnType<ProjectCatalog['loadContext']>>
+  ): Promise<ProjectSummary> {
+    const files = context.files.get(manifest.projectId) || [];
+    const urlFor = (p: string | undefined) =>
+      p ? files.find((f) => f.absPath === path.resolve(p))?.url || null : null;
+
+    return {
+      projectId: manifest.projectId,
+      channelId: manifest.channelId,
+      channelName: channels[manifest.channelId]?.name,
+      topic: manifest.topic,
+      title: await this.readScriptTitle(manifest.scriptPath),
+      mode: manifest.mode,
+      status: manifest.status,
+      createdAt: manifest.createdAt,
+      updatedAt: manifest.updatedAt,
+      completedStages: manifest.completedStages,
+      artifacts: {
+        script: urlFor(manifest.scriptPath),
+        audio: urlFor(manifest.audioPath),
+        video: urlFor(manifest.videoPath),
+        srt: urlFor(manifest.subtitles?.srtPath),
+        vtt: urlFor(manifest.subtitles?.vttPath),
+        thumbnail: urlFor(manifest.thumbnails?.variants[manifest.thumbnails.selected]?.path)
+      },
+      prepublish: manifest.prepublish || null,
+      shortSource: manifest.shortSource || null,
+      localization: manifest.localization || null,
+      publish: this.findPublish(manifest.projectId, context.publishJobs),
+      diskUsageBytes: files.reduce((sum, f) => sum + f.bytes, 0),
+      activeJobId: context.activeJobs.find((j) => j.projectId === manifest.projectId)?.id,
+      lastError: manifest.lastError
+    };
+  }
+
+  private findPublish(projectId: string, jobs: YouTubePublishJob[]): ProjectPublishInfo | null {
+    const latest = jobs
+      .filter((j) => path.basename(j.videoPath) === `${projectId}.mp4`)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    if (!latest) return null;
+    return {
+      jobId: latest.id,
+      status: latest.status,
+      videoId: latest.videoId,
+      videoUrl: latest.videoUrl,
+      updatedAt: latest.updatedAt
+    };
+  }
+
+  private async readScriptTitle(scriptPath: string): Promise<string | undefined> {
+    try {
+      const script = JSON.parse(await readFile(scriptPath, 'utf-8')) as { title?: unknown };
+      return typeof script.title === 'string' ? script.title : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Files under output/<dir>/, grouped by owning projectId. */
+  private async scanArtifacts(): Promise<Map<string, ArtifactFile[]>> {
+    const byProject = new Map<string, ArtifactFile[]>();
+    const dirs = await readdir(this.outputDir, { withFileTypes: true }).catch(() => []);
+
+    for (const dir of dirs) {
+      if (!dir.isDirectory()) continue;
+      const dirPath = path.join(this.outputDir, dir.name);
+      const names = await readdir(dirPath).catch(() => [] as string[]);
+
+      for (const name of names) {
+        const projectId = name.split('.')[0];
+        if (!projectId) continue;
+        const absPath = path.resolve(dirPath, name);
+        const info = await stat(absPath).catch(() => null);
+        if (!info?.isFile()) continue;
+
+        const list = byProject.get(projectId) || [];
+        list.push({ absPath, url: `/output/${dir.name}/${encodeURIComponent(name)}`, bytes: info.size });
+        byProject.set(projectId, list);
+      }
+    }
+
+    // Narration clips are cached per project: output/audio/clips/<projectId>/<hash>.mp3
+    const clipsDir = path.join(this.outputDir, 'audio', 'clips');
+    const clipDirs = await readdir(clipsDir, { withFileTypes: true }).catch(() => []);
+    for (const dir of clipDirs) {
+      if (!dir.isDirectory()) continue;
+      const names = await readdir(path.join(clipsDir, dir.name)).catch(() => [] as string[]);
+      for (const name of names) {
+        const absPath = path.resolve(clipsDir, dir.name, name);
+        const info = await stat(absPath).catch(() => null);
+        if (!info?.isFile()) continue;
+
+        const list = byProject.get(dir.name) || [];
+        list.push({ absPath, url: `/output/audio/clips/${encodeURIComponent(dir.name)}/${encodeURIComponent(name)}`, bytes: info.size });
+        byProject.set(dir.name, list);
+      }
+    }
+    return byProject;
+  }
+}
@@ -0,0 +1,318 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { channels } from '../config/channels.js';
+import { createProviders } from '../providers/index.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { Asset, BrandingTexts, Channel } from '../types/index.js';
+import { PipelineProgressReporter, PipelineRunOptions, PipelineStage } from '../types/pipeline.js';
+import { NarrationTiming } from '../types/timeline.js';
+import { MetadataProvider, Providers, ScriptProvider } from '../types/providers.js';
+import { EnhancedVideoScript } from './script-generator.js';
+import { UnifiedVoiceGenerator } from './voice-generator-factory.js';
+import { ProjectStore } from './project-store.js';
+import { CostTracker } from './cost-tracker.js';
+import { DEFAULT_ASSET_SECONDS, VideoComposer } from './video-composer.js';
+import { SubtitleGenerator } from './subtitle-generator.js';
+import { ChapterGenerator } from './chapter-generator.js';
+import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { probeDurationSeconds } from '../utils/media.js';
+import { buildNarrationWithBranding, estimateTiming, narrationTimingFor, wordCount } from '../utils/narration.js';
+
+const STAGE_ORDER: PipelineStage[] = ['script', 'audio', 'collect', 'download', 'compose'];
+
+/**
+ * Re-time a visual timeline to a new narration of the same script (e.g. a translation).
+ * Each shot keeps its place within its narration segment (hook, branding line, section,
+ * conclusion), so visuals stay on the sentence they illustrate even when segments grow or
+ * shrink by different amounts. Falls back to a uniform stretch when segments don't line up.
+ */
+export function retimeAssets(
+  assets: Asset[],
+  sourceTiming: NarrationTiming,
+  sourceDuration: number,
+  targetTiming: NarrationTiming,
+  targetDuration: number
+): Asset[] {
+  const usable = assets.filter((a) => !!a.localPath);
+  const aligned = sourceTiming.length > 0
+    && sourceTiming.length === targetTiming.length
+    && sourceTiming.every((entry, i) => entry.key === targetTiming[i].key);
+  const sourceStarts = sourceTiming.map((entry) => entry.startSeconds);
+  const targetStarts = targetTiming.map((entry) => entry.startSeconds);
+
+  const map = (t: number): number => {
+    if (!aligned) return (t / sourceDuration) * targetDuration;
+    let i = sourceStarts.length - 1;
+    while (i > 0 && sourceStarts[i] > t) i--;
+    const sourceEnd = i + 1 < sourceStarts.length ? sourceStarts[i + 1] : sourceDuration;
+    const targetEnd = i + 1 < targetStarts.length ? targetStarts[i + 1] : targetDuration;
+    const progress = sourceEnd > sourceStarts[i] ? Math.min(1, (t - sourceStarts[i]) / (sourceEnd - sourceStarts[i])) : 0;
+    return targetStarts[i] + progress * (targetEnd - targetStarts[i]);
+  };
+
+  let cursor = 0;
+  return usable.map((asset, index) => {
+    const start = cursor;
+    cursor += asset.duration || DEFAULT_ASSET_SECONDS;
+    const end = index === usable.length - 1 ? Math.max(cursor, sourceDuration) : cursor;
+    const newStart = map(start);
+    const newEnd = index === usable.length - 1 ? Math.max(map(end), targetDuration) : map(end);
+    return { ...asset, duration: Math.max(0.5, Math.round((newEnd - newStart) * 100) / 100) };
+  });
+}
+
+/**
+ * Localized versions of a finished project: the script (and the channel's branding
+ * lines) is translated by the LLM, narrated with the channel's voice for that
+ * language, and rendered over the original visuals re-timed to the new audio.
+ * The result is a separate project (manifest with `localization`) with its own
+ * YouTube metadata in that language.
+ */
+export class ProjectLocalizer {
+  private scriptGenerator: ScriptProvider;
+  private voiceGenerator: UnifiedVoiceGenerator;
+  private metadataGenerator: MetadataProvider;
+  private projectStore: ProjectStore;
+  private costTracker: CostTracker;
+  private videoComposer: VideoComposer;
+  private subtitleGenerator: SubtitleGenerator;
+  private chapterGenerator: ChapterGenerator;
+
+  constructor(
+    providers: Pick<Providers, 'scriptGenerator' | 'voiceGenerator' | 'metadataGenerator'> = createProviders(),
+    projectStore: ProjectStore = new ProjectStore(),
+    costTracker: CostTracker = new CostTracker(projectStore),
+    videoComposer: VideoComposer = new VideoComposer()
+  ) {
+    this.scriptGenerator = providers.scriptGenerator;
+    this.voiceGenerator = providers.voiceGenerator;
+    this.metadataGenerator = providers.metadataGenerator;
+    this.projectStore = projectStore;
+    this.costTracker = costTracker;
+    this.videoComposer = videoComposer;
+    this.subtitleGenerator = new SubtitleGenerator(projectStore);
+    this.chapterGenerator = new ChapterGenerator(projectStore);
+  }
+
+  /** Languages the project's channel has a voice for. */
+  languagesFor(channelId: string): string[] {
+    return Object.keys(channels[channelId]?.localizations || {});
+  }
+
+  /**
+   * Render the `language` version of `sourceProjectId` as project `projectId`.
+   * Re-running with the same projectId picks up from the last completed stage.
+   * Returns the video path.
+   */
+  async localize(
+    sourceProjectId: string,
+    language: string,
+    options: PipelineRunOptions & { projectId?: string } = {}
+  ): Promise<string> {
+    const source = await this.loadSource(sourceProjectId);
+    const channel = channels[source.channelId];
+    if (!channel) {
+      throw new Error(`Unknown channel in manifest: ${source.channelId}`);
+    }
+    const localization = channel.localizations?.[language];
+    if (!localization) {
+      throw new Error(`Channel ${channel.id} has no ${language} voice (see localizations in src/config/channels.ts)`);
+    }
+
+    const projectId = options.projectId || `${channel.id}-${Date.now()}`;
+    const scriptPath = `./output/scripts/${projectId}.json`;
+    const audioPath = `./output/audio/${projectId}.mp3`;
+    const onUsage = this.costTracker.reporterFor(projectId);
+    const report = (stage: PipelineStage, percent: number, detail: string) =>
+      this.report(options.onProgress, stage, percent, detail);
+
+    const existing = await this.projectStore.get(projectId).catch(() => null);
+    const resumable = existing?.localization?.sourceProjectId === sourceProjectId && existing.localization.language === language;
+    let manifest: ProjectManifest = resumable && existing
+      ? await this.projectStore.update(projectId, (curr) => ({ ...curr, status: 'running', lastError: undefined }))
+      : await this.projectStore.save({
+        ...this.projectStore.newManifest({ projectId, channelId: channel.id, topic: source.topic, mode: 'full', scriptPath, audioPath }),
+        visualOverrides: source.visualOverrides,
+        localization: { sourceProjectId, language }
+      });
+
+    console.log(`\n🌍 Localizing ${sourceProjectId} → ${language} (${projectId})`);
+    console.log(`🎙️ Voice: ${localization.voice.voiceId} (${localization.voice.provider})\n`);
+
+    try {
+      const sourceScript = JSON.parse(await readFile(source.scriptPath, 'utf-8')) as EnhancedVideoScript;
+      const sourceDuration = source.audioDurationSeconds ?? await probeDurationSeconds(source.audioPath, options.signal);
+
+      // 1. Script + branding lines
+      let script: EnhancedVideoScript;
+      if (manifest.completedStages.includes('script') && existsSync(scriptPath)) {
+        script = JSON.parse(await readFile(scriptPath, 'utf-8')) as EnhancedVideoScript;
+        console.log('♻️  Reusing translated script\n');
+      } else {
+        report('script', 0, `Translating script to ${language}`);
+        const baseBranding = channel.branding && { ...this.brandingTexts(channel), ...localization.branding };
+        const translation = await this.scriptGenerator.translateScript(sourceScript, language, baseBranding, {
+          channel,
+          signal: options.signal,
+          onUsage
+        });
+        script = translation.script;
+        // Fixed per-language lines win over the LLM's.
+        const branding = translation.branding && { ...translation.branding, ...localization.branding };
+        await mkdir('./output/scripts', { recursive: true });
+        await writeFile(scriptPath, JSON.stringify(script, null, 2));
+        manifest = await this.markStagesComplete(projectId, ['script'], {
+          localization: { sourceProjectId, language, ...manifest.localization, branding }
+        });
+        report('script', 100, `Script translated: "${script.title}"`);
+      }
+      const localChannel = this.localizedChannel(channel, language, manifest.localization?.branding);
+
+      // 2. Narration with the language's voice
+      let audioDuration: number;
+      if (manifest.completedStages.includes('audio') && existsSync(audioPath)) {
+        audioDuration = await probeDurationSeconds(audioPath, options.signal);
+      } else {
+        throwIfAborted(options.signal);
+        const narrationText = buildNarrationWithBranding(localChannel, script);
+        report('audio', 0, `Generating ${language} narration (${wordCount(narrationText)} words)`);
+        await this.voiceGenerator.generateAudio(narrationText, localization.voice, `${projectId}.mp3`, {
+          signal: options.signal,
+          onUsage
+        });
+        audioDuration = await probeDurationSeconds(audioPath, options.signal);
+        script.duration = Math.round(audioDuration);
+        await writeFile(scriptPath, JSON.stringify(script, null, 2));
+        manifest = await this.markStagesComplete(projectId, ['audio'], { audioDurationSeconds: audioDuration });
+        report('audio', 100, `Narration ready (${Math.round(audioDuration)}s, original ${Math.round(sourceDuration)}s)`);
+      }
+
+      // 3. Original visuals, re-timed to the new narration. The source may have been voiced
+      // clip by clip (measured timing); the translation is voiced in one take (estimated).
+      const narrationTiming = estimateTiming(localChannel, script, audioDuration);
+      const downloadedAssets = retimeAssets(
+        source.downloadedAssets,
+        narrationTimingFor(channel, sourceScript, sourceDuration, source.narrationTiming),
+        sourceDuration,
+        narrationTiming,
+        audioDuration
+      );
+      manifest = await this.markStagesComplete(projectId, ['collect', 'download'], {
+        requests: source.requests,
+        collectedAssets: source.collectedAssets,
+        downloadedAssets,
+        beatsPlanned: source.beatsPlanned
+      });
+      report('download', 100, `${downloadedAssets.length} visuals re-timed`);
+
+      // 4. Metadata in the target language
+      if (!manifest.localization?.metadata) {
+        const metadata = await this.metadataGenerator.generateMetadata(script, channel.name, channel.style.theme, {
+          onUsage,
+          language,
+          channel
+        });
+        metadata.description = await this.chapterGenerator.describe(projectId, metadata.description, metadata.chapterTitles);
+        manifest = await this.projectStore.update(projectId, (curr) => ({
+          ...curr,
+          localization: {
+            sourceProjectId,
+            language,
+            ...curr.localization,
+            metadata: { title: metadata.title, description: metadata.description, tags: metadata.tags }
+          }
+        }));
+      }
+
+      // 5. Render
+      throwIfAborted(options.signal);
+      report('compose', 0, 'Preparing render');
+      const tracks = await this.subtitleGenerator.tracksForRender(projectId, options.signal);
+      const videoPath = await this.videoComposer.composeVideo(script, audioPath, downloadedAssets, `${projectId}.mp4`, {
+        channel: localChannel,
+        shortVideoStrategy: 'loop',
+        enableMusic: true,
+        enableSFX: true,
+        enableVisualEffects: true,
+        enableColorGrading: true,
+        musicVolume: 0.15,
+        enhancedScript: script,
+        // Voiced in one take: the overlays follow the translated lines' estimated position.
+        narrationTiming,
+        ...tracks,
+        signal: options.signal,
+        onProgress: (percent) => report('compose', percent, `Rendering ${Math.floor(percent)}%`)
+      });
+
+      await this.markStagesComplete(projectId, ['compose'], { videoPath, status: 'complete' });
+      logger.info({ projectId, sourceProjectId, language, videoPath }, 'Localized version rendered');
+      console.log(`\n🎉 ${language} version ready: ${videoPath}\n`);
+      return videoPath;
+    } catch (error) {
+      const cancelled = !!options.signal?.aborted;
+      if (!cancelled) console.error('\n❌ Localization failed:', error);
+      await this.projectStore.update(projectId, (curr) => ({
+        ...curr,
+        status: cancelled ? 'cancelled' : 'failed',
+        lastError: cancelled ? undefined : ((error as Error)?.message || String(error))
+      })).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async loadSource(projectId: string): Promise<ProjectManifest> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    if (manifest.localization || manifest.shortSource) {
+      throw new Error(`Project ${projectId} is derived from another project; localize the original instead`);
+    }
+    if (manifest.status !== 'complete' || !manifest.completedStages.includes('download')) {
+      throw new Error(`Project ${projectId} is not complete (status: ${manifest.status})`);
+    }
+    return manifest;
+  }
+
+  private brandingTexts(channel: Channel): BrandingTexts {
+    const { stingText = '', softCtaText = '', finalCtaText = '', outroTeaserText = '' } = channel.branding || {};
+    return { stingText, softCtaText, finalCtaText, outroTeaserText };
+  }
+
+  /** The channel as heard in `language`: its voice and translated branding lines. */
+  private localizedChannel(channel: Channel, language: string, branding?: BrandingTexts): Channel {
+    const localization = channel.localizations?.[language];
+    return {
+      ...channel,
+      voice: localization?.voice || channel.voice,
+      branding: channel.branding && { ...channel.branding, ...branding }
+    };
+  }
+
+  private async markStagesComplete(
+    projectId: string,
+    stages: PipelineStage[],
+    patch: Partial<ProjectManifest> = {}
+  ): Promise<ProjectManifest> {
+    return this.projectStore.update(projectId, (curr) => {
+      const done = new Set<PipelineStage>([...curr.completedStages, ...stages]);
+      return { ...curr, ...patch, completedStages: STAGE_ORDER.filter((s) => done.has(s)) };
+    });
+  }
+
+  private report(onProgress: PipelineProgressReporter | undefined, stage: PipelineStage, percent: number, detail: string): void {
+    if (!onProgress) return;
+    try {
+      onProgress({
+        stage,
+        stepIndex: STAGE_ORDER.indexOf(stage) + 1,
+        stepCount: STAGE_ORDER.length,
+        percent: Math.max(0, Math.min(100, Math.round(percent))),
+        detail
+      });
+    } catch (error) {
+      logger.warn({ error: (error as Error).message }, 'Progress reporter failed');
+    }
+  }
+}
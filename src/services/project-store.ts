@@ -0,0 +1,161 @@
+import { mkdir, readdir, readFile, writeFile, rename, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  PROJECT_ID_PATTERN,
+  PROJECT_MANIFEST_VERSION,
+  ProjectManifest,
+  migrateProjectManifest,
+  projectManifestSchema
+} from '../schemas/project-manifest.js';
+import logger from '../utils/logger.js';
+
+export interface ProjectStoreConfig {
+  /** Directory holding `<projectId>.json` manifests (default ./output/meta). */
+  metaDir?: string;
+}
+
+export type NewProjectManifest = Pick<ProjectManifest, 'projectId' | 'channelId' | 'topic' | 'mode' | 'scriptPath' | 'audioPath'>;
+
+/**
+ * Single access point for project manifests (output/meta/*.json).
+ *
+ * Reads are validated and older manifests are migrated (and rewritten) on the fly.
+ * Writes are validated, atomic (tmp + rename) and serialized per project, so
+ * concurrent updates from the pipeline and the server don't lose fields.
+ */
+export class ProjectStore {
+  private metaDir: string;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(config: ProjectStoreConfig = {}) {
+    this.metaDir = config.metaDir || './output/meta';
+  }
+
+  pathFor(projectId: string): string {
+    if (!PROJECT_ID_PATTERN.test(projectId)) {
+      throw new Error(`Invalid projectId: ${projectId}`);
+    }
+    return path.join(this.metaDir, `${projectId}.json`);
+  }
+
+  exists(projectId: string): boolean {
+    return existsSync(this.pathFor(projectId));
+  }
+
+  /** Fresh manifest for a run that is about to start (not written). */
+  newManifest(fields: NewProjectManifest): ProjectManifest {
+    const now = new Date().toISOString();
+    return {
+      schemaVersion: PROJECT_MANIFEST_VERSION,
+      ...fields,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      completedStages: [],
+      visualOverrides: { forceImagesOnly: false },
+      requests: [],
+      collectedAssets: [],
+      downloadedAssets: [],
+      narrationClips: [],
+      usage: []
+    };
+  }
+
+  /** Manifest for a project, or null when there is none. Throws if the file is unreadable or invalid. */
+  async get(projectId: string): Promise<ProjectManifest | null> {
+    const result = await this.read(projectId);
+    if (!result?.migrated) return result?.manifest ?? null;
+
+    // Read again under the lock: an update may have rewritten the file since the first read.
+    return this.withLock(projectId, async () => {
+      const current = await this.read(projectId);
+      if (!current?.migrated) return current?.manifest ?? null;
+      const manifest = await this.write(current.manifest);
+      logger.info({ projectId, schemaVersion: PROJECT_MANIFEST_VERSION }, 'Project manifest migrated');
+      return manifest;
+    });
+  }
+
+  /** Validate and write a whole manifest. */
+  async save(manifest: ProjectManifest): Promise<ProjectManifest> {
+    return this.withLock(manifest.projectId, () => this.write(manifest));
+  }
+
+  /** Read-modify-write under the project lock; bumps `updatedAt`. */
+  async update(projectId: string, mutate: (current: ProjectManifest) => ProjectManifest): Promise<ProjectManifest> {
+    return this.withLock(projectId, async () => {
+      const current = await this.read(projectId);
+      if (!current) {
+        throw new Error(`No manifest found for project: ${projectId}`);
+      }
+      const next = mutate(current.manifest);
+      return this.write({ ...next, updatedAt: new Date().toISOString() });
+    });
+  }
+
+  /** Every readable manifest; invalid ones are logged and skipped. */
+  async list(): Promise<ProjectManifest[]> {
+    const files = await readdir(this.metaDir).catch(() => [] as string[]);
+    const manifests: ProjectManifest[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const projectId = file.slice(0, -'.json'.length);
+      if (!PROJECT_ID_PATTERN.test(projectId)) continue;
+
+      try {
+        const manifest = await this.get(projectId);
+        if (manifest) manifests.push(manifest);
+      } catch (error: unknown) {
+        logger.warn({ projectId, error: (error as Error).message }, 'Skipping unreadable project manifest');
+      }
+    }
+    return manifests;
+  }
+
+  /** Delete the manifest file (artifacts are the caller's business). */
+  async remove(projectId: string): Promise<void> {
+    await this.withLock(projectId, () => rm(this.pathFor(projectId), { force: true }));
+  }
+
+  private async read(projectId: string): Promise<{ manifest: ProjectManifest; migrated: boolean } | null> {
+    const filePath = this.pathFor(projectId);
+    if (!existsSync(filePath)) return null;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error: unknown) {
+      throw new Error(`Unreadable manifest for ${projectId}: ${(error as Error).message}`);
+    }
+    return migrateProjectManifest(raw);
+  }
+
+  private async write(manifest: ProjectManifest): Promise<ProjectManifest> {
+    const parsed = projectManifestSchema.safeParse(manifest);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Refusing to write invalid manifest for ${manifest.projectId}: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+
+    const filePath = this.pathFor(parsed.data.projectId);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(parsed.data, null, 2));
+    await rename(tmp, filePath);
+    return parsed.data;
+  }
+
+  private withLock<T>(projectId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(projectId) || Promise.resolve();
+    const next = previous.then(fn, fn);
+    const settled = next.catch(() => undefined);
+    this.locks.set(projectId, settled);
+    settled.then(() => {
+      if (this.locks.get(projectId) === settled) this.locks.delete(projectId);
+    });
+    return next;
+  }
+}
@@ -1,6 +1,14 @@
-import OpenAI from 'openai';
-import { Channel, VideoScript, ScriptSection } from '../types/index.js';
+import { BrandingTexts, Channel, VideoScript, ScriptSection } from '../types/index.js';
+import { ScriptClaim } from '../types/claims.js';
 import logger from '../utils/logger.js';
+import { UsageReporter } from '../types/usage.js';
+import { normalizeClaims } from './claim-review.js';
+import { LlmClient, parseJsonContent } from './llm-client.js';
+import { LlmMessage } from '../types/llm.js';
+import { enhancedScriptSchema, formatScriptIssues } from '../schemas/script.js';
+import { channelPromptVariables, getPromptPack, renderPrompt } from '../config/prompt-packs.js';
+import { getDurationContract } from '../config/duration-contract.js';
+import { PromptPack } from '../types/prompts.js';
 
 export type ScriptDurationMode = 'normal' | 'expand' | 'compress';
 
@@ -40,8 +48,51 @@ export interface ScriptGenerationOptions {
   targetWordCount?: { min: number; max: number };
   model?: string;
   targetDurationMinutes?: number;
+  /** Answers tried before giving up, repairs included (default MAX_SCRIPT_PARSE_ATTEMPTS). */
+  maxParseAttempts?: number;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
 }
 
+export interface ScriptTranslationOptions {
+  model?: string;
+  /** Channel whose `llm` settings apply. */
+  channel?: Channel;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+}
+
+export interface ScriptRevisionOptions {
+  model?: string;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+  /** Speaking rate for the rewritten sections' word targets (default: the channel's duration contract). */
+  wordsPerMinute?: number;
+}
+
+/** One blocking problem to fix, as reported by the script linter. */
+export interface ScriptRevisionIssue {
+  segment?: string;
+  message: string;
+}
+
+export interface ClaimExtractionOptions {
+  model?: string;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+}
+
+export interface ScriptTranslation {
+  /** Same structure and timing metadata, translated texts. */
+  script: EnhancedVideoScript;
+  branding?: BrandingTexts;
+}
+
+/** A first answer plus two repairs. */
+export const MAX_SCRIPT_PARSE_ATTEMPTS = 3;
+/** Validation errors sent back per repair; the rest usually share the same cause. */
+const MAX_REPAIR_ISSUES = 20;
+
 // Storytelling patterns for YouTube retention
 const MICRO_HOOK_PATTERNS = {
   question: [
@@ -74,75 +125,248 @@ const MICRO_HOOK_PATTERNS = {
   ]
 };
 
-// 3-Act structure guidance per channel
-const THREE_ACT_GUIDANCE = {
-  'what-if': {
-    act1: 'SETUP (25%): Establish the scenario, introduce the "what if" premise, hook with an impossible question. Build the world rules.',
-    act2: 'CONFRONTATION (50%): Explore consequences, escalate the scenario, introduce complications and paradoxes. This is where the "what if" gets wild.',
-    act3: 'RESOLUTION (25%): Reveal the ultimate consequences, connect to reality, deliver the mind-blowing conclusion and implications for our world.'
-  },
-  'human-odyssey': {
-    act1: 'SETUP (25%): Set the historical stage, introduce key figures, establish the time period and stakes. Make history feel alive.',
-    act2: 'CONFRONTATION (50%): The main historical journey, conflicts, discoveries, struggles. Build emotional connection to the past.',
-    act3: 'RESOLUTION (25%): The legacy, what we learned, how it changed history. Connect past to present.'
-  },
-  'classified-files': {
-    act1: 'SETUP (25%): Present the mystery, introduce the case, establish what we know vs what\'s hidden. Create suspense.',
-    act2: 'INVESTIGATION (50%): Dig into evidence, reveal contradictions, explore theories. Build tension with each revelation.',
-    act3: 'RESOLUTION (25%): Present conclusions, acknowledge mysteries that remain, leave viewers thinking. Never fully close the case.'
-  }
-};
-
 export class ScriptGenerator {
-  private client: OpenAI;
+  constructor(private llm: LlmClient = new LlmClient()) {}
+
+  async generateScript(channel: Channel, topic: string, options: ScriptGenerationOptions = {}): Promise<EnhancedVideoScript> {
+    const pack = getPromptPack(channel);
+    const prompt = this.buildEnhancedPrompt(channel, topic, options, pack);
+    const maxAttempts = Math.max(1, options.maxParseAttempts ?? MAX_SCRIPT_PARSE_ATTEMPTS);
+
+    logger.info({ model: options.model, topic, mode: options.mode || 'normal', promptPack: `${pack.id}@v${pack.version}` }, 'Generating enhanced script');
+
+    const messages: LlmMessage[] = [
+      { role: 'system', content: renderPrompt(pack.script.system, { ...channelPromptVariables(channel), topic }) },
+      { role: 'user', content: prompt }
+    ];
+
+    // Invalid answers go back to the model with the validation errors, for a corrected script.
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await this.llm.complete('script', {
+        channel,
+        settings: options.model ? { model: options.model } : undefined,
+        json: true,
+        signal: options.signal,
+        onUsage: options.onUsage,
+        operation: attempt > 1 ? 'script-repair' : 'script',
+        messages
+      });
+
+      logger.info({ model: response.model, attempt, responseLength: response.content.length }, 'Received script response');
+      const parsed = this.parseEnhancedScript(response.content);
+      if ('script' in parsed) return { ...parsed.script, prompt: { id: pack.id, version: pack.version } };
+
+      issues = parsed.issues;
+      logger.warn({ attempt, maxAttempts, issues: issues.slice(0, MAX_REPAIR_ISSUES) }, 'Script failed validation');
+      messages.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `This script does not match the required JSON structure:
+${issues.slice(0, MAX_REPAIR_ISSUES).map((issue) => `- ${issue}`).join('\n')}
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+Return the complete corrected script as JSON, with the same structure as requested. Keep everything that was valid unchanged.`
+        }
+      );
     }
-    this.client = new OpenAI({
-      apiKey,
-      dangerouslyAllowBrowser: false
-    });
+
+    throw new Error(
+      `Invalid script from the LLM after ${maxAttempts} attempt(s):\n${issues.map((issue) => `- ${issue}`).join('\n')}`
+    );
   }
 
-  async generateScript(channel: Channel, topic: string, options: ScriptGenerationOptions = {}): Promise<EnhancedVideoScript> {
-    const prompt = this.buildEnhancedPrompt(channel, topic, options);
+  /**
+   * Translate the spoken and on-screen texts of a script (title, hook, sections,
+   * conclusion, micro-hooks and branding lines). Search queries stay in English
+   * since the visuals are reused.
+   */
+  async translateScript(
+    script: EnhancedVideoScript,
+    language: string,
+    branding?: BrandingTexts,
+    options: ScriptTranslationOptions = {}
+  ): Promise<ScriptTranslation> {
+    logger.info({ model: options.model, language, title: script.title }, 'Translating script');
+
+    const source = {
+      title: script.title,
+      hook: script.hook,
+      sections: script.sections.map((s) => s.narration),
+      conclusion: script.conclusion,
+      microHooks: (script.microHooks || []).map((h) => h.text),
+      branding: branding || null
+    };
+
+    const translated = await this.llm.completeJson<typeof source>('translation', {
+      channel: options.channel,
+      settings: options.model ? { model: options.model } : undefined,
+      signal: options.signal,
+      onUsage: options.onUsage,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a professional translator of YouTube documentary narration.
+You write natural, spoken ${language} that keeps the tone, rhythm and suspense of the original.
+Always respond with valid JSON only, no markdown formatting.`
+        },
+        {
+          role: 'user',
+          content: `Translate every text of this JSON into ${language}.
+
+RULES:
+- Keep the exact same JSON structure and the same number of items in every array
+- Keep roughly the same length per item (the narration is timed against the visuals)
+- Write for the ear: no parentheses, no abbreviations, numbers as they are spoken
+- Keep the {ChannelName} placeholder unchanged; "branding" may be null
+- Do not add notes or explanations
+
+${JSON.stringify(source, null, 2)}`
+        }
+      ]
+    });
+
+    if (!Array.isArray(translated.sections) || translated.sections.length !== script.sections.length) {
+      throw new Error(`Invalid translation from the LLM: expected ${script.sections.length} sections`);
+    }
+
+    return {
+      script: {
+        ...script,
+        title: translated.title || script.title,
+        hook: translated.hook || script.hook,
+        conclusion: translated.conclusion || script.conclusion,
+        sections: script.sections.map((section, i) => ({ ...section, narration: translated.sections[i] || section.narration })),
+        microHooks: (script.microHooks || []).map((hook, i) => ({ ...hook, text: translated.microHooks?.[i] || hook.text }))
+      },
+      branding: branding ? { ...branding, ...(translated.branding || {}) } : undefined
+    };
+  }
 
-    const model = options.model || 'gpt-4o';
-    logger.info({ model, topic, mode: options.mode || 'normal' }, 'Generating enhanced script');
+  /**
+   * Targeted rewrite of the segments (hook, section-N, conclusion) named in `issues`,
+   * keeping everything else of the script as is. Cheaper than a new full script when
+   * only a few segments break the channel's rules.
+   */
+  async reviseScript(
+    channel: Channel,
+    script: EnhancedVideoScript,
+    issues: ScriptRevisionIssue[],
+    options: ScriptRevisionOptions = {}
+  ): Promise<EnhancedVideoScript> {
+    const keys = [...new Set(issues.map((i) => i.segment).filter((k): k is string => !!k))];
+    if (keys.length === 0) return script;
+
+    logger.info({ model: options.model, channel: channel.id, segments: keys }, 'Revising script segments');
+
+    const wordsPerMinute = options.wordsPerMinute ?? getDurationContract(channel).wordsPerMinute;
+    const sectionIndex = (key: string) => Number(key.replace('section-', '')) - 1;
+    const source = keys.map((key) => {
+      const section = key.startsWith('section-') ? script.sections[sectionIndex(key)] : undefined;
+      return {
+        segment: key,
+        narration: key === 'hook' ? script.hook : key === 'conclusion' ? script.conclusion : section?.narration || '',
+        ...(section ? { searchQuery: section.searchQuery, targetWords: Math.round((section.duration / 60) * wordsPerMinute) } : {}),
+        problems: issues.filter((i) => i.segment === key).map((i) => i.message)
+      };
+    });
 
-    const message = await this.client.chat.completions.create({
-      model,
-      max_tokens: 6000,
-      temperature: 0.85,
-      response_format: { type: "json_object" },
+    const revised = await this.llm.completeJson<{ segments?: Array<{ segment?: string; narration?: string; searchQuery?: string }> }>('script-revision', {
+      channel,
+      settings: options.model ? { model: options.model } : undefined,
+      signal: options.signal,
+      onUsage: options.onUsage,
       messages: [
         {
           role: 'system',
-          content: `You are an expert YouTube scriptwriter specializing in engaging documentary content.
-You understand retention psychology, storytelling structure, and how to keep viewers watching.
-You write scripts that feel like Netflix documentaries - compelling, well-paced, and emotionally resonant.
+          content: `You are an expert YouTube scriptwriter for ${channel.name}. You fix flagged parts of a script without changing its story.
 Always respond with valid JSON only, no markdown formatting.`
         },
         {
           role: 'user',
-          content: prompt
+          content: `Rewrite each of these script segments so that its problems are gone.
+
+SCRIPT: "${script.title}"
+
+RULES:
+- Keep the facts, the place in the story and the tone of each segment
+- Keep each narration close to its targetWords when given (${wordsPerMinute} words per minute of screen time)
+- Do not use stock lines like "But here's where things get strange..." more than once in the script
+- "searchQuery": concrete, filmable nouns (places, objects, people), 3-8 words
+- Return every segment listed, with the same "segment" value
+
+Respond with:
+{ "segments": [{ "segment": "section-2", "narration": "...", "searchQuery": "..." }] }
+
+${JSON.stringify(source, null, 2)}`
         }
       ]
     });
 
-    const content = message.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
+    const next: EnhancedVideoScript = { ...script, sections: [...script.sections] };
+    for (const item of revised.segments || []) {
+      const narration = item.narration?.trim();
+      if (!item.segment || !keys.includes(item.segment) || !narration) continue;
+      if (item.segment === 'hook') next.hook = narration;
+      else if (item.segment === 'conclusion') next.conclusion = narration;
+      else {
+        const idx = sectionIndex(item.segment);
+        next.sections[idx] = { ...next.sections[idx], narration, searchQuery: item.searchQuery?.trim() || next.sections[idx].searchQuery };
+      }
     }
+    return next;
+  }
+
+  /**
+   * Verification pass over a written script: the checkable claims (dates, names, numbers,
+   * events) of each segment, with how confident the model is and a source to check them
+   * against. The claims are for a human reviewer, nothing is changed in the narration.
+   */
+  async extractClaims(channel: Channel, script: VideoScript, options: ClaimExtractionOptions = {}): Promise<ScriptClaim[]> {
+    logger.info({ model: options.model, channel: channel.id, title: script.title }, 'Extracting script claims');
+
+    const segments = [
+      { segment: 'hook', text: script.hook },
+      ...script.sections.map((s, idx) => ({ segment: `section-${idx + 1}`, text: s.narration })),
+      { segment: 'conclusion', text: script.conclusion }
+    ];
+
+    const parsed = await this.llm.completeJson<{ claims?: unknown }>('claims', {
+      channel,
+      settings: options.model ? { model: options.model } : undefined,
+      signal: options.signal,
+      onUsage: options.onUsage,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a meticulous fact-checker for ${channel.name}, a YouTube channel about ${channel.description.toLowerCase()}.
+You flag what a critical viewer could verify, you do not judge storytelling.
+Always respond with valid JSON only, no markdown formatting.`
+        },
+        {
+          role: 'user',
+          content: `List the checkable factual claims made in this narration.
 
-    logger.info({ responseLength: content.length }, 'Received script response');
-    return this.parseEnhancedScript(content);
+RULES:
+- Only concrete facts: dates, names of people or places, numbers, historical or documented events
+- Skip opinions, questions, hypotheticals and rhetorical lines
+- "text": the claim in one short sentence, as the narration states it
+- "kind": date | name | number | event
+- "confidence": high | medium | low, how likely the claim is accurate as stated (low if disputed, legendary or likely wrong)
+- "source": a real, well-known reference to check it against (encyclopedia article, museum, agency, book, peer-reviewed paper)
+- Only give a "url" you are sure exists; otherwise give the title alone. Never invent URLs
+
+Respond with:
+{ "claims": [{ "segment": "section-1", "text": "...", "kind": "date", "confidence": "medium", "source": { "title": "...", "url": "https://..." } }] }
+
+${JSON.stringify(segments, null, 2)}`
+        }
+      ]
+    });
+    return normalizeClaims(parsed.claims, script);
   }
 
-  private buildEnhancedPrompt(channel: Channel, topic: string, options: ScriptGenerationOptions): string {
+  private buildEnhancedPrompt(channel: Channel, topic: string, options: ScriptGenerationOptions, pack: PromptPack): string {
     const mode = options.mode || 'normal';
     const targetMinutes = options.targetDurationMinutes || 11;
     const targetWords = options.targetWordCount || {
@@ -157,31 +381,17 @@ Always respond with valid JSON only, no markdown formatting.`
           ? `The previous version was too long. COMPRESS by removing redundancy while keeping the strongest emotional beats.`
           : `Keep the script naturally paced with dynamic energy.`;
 
-    const actGuidance = THREE_ACT_GUIDANCE[channel.id as keyof typeof THREE_ACT_GUIDANCE] || THREE_ACT_GUIDANCE['what-if'];
-
-    const promptBase = {
-      'what-if': `You are creating a script for "What If..." - a speculative science channel.
-Topic: "${topic}"
-Tone: High-energy speculative science, like a Netflix documentary meets curiosity-driven exploration.
-Visual Style: Futuristic concepts, simulations, scientific visualizations, space, technology.`,
+    const variables = { ...channelPromptVariables(channel), topic };
+    const render = (template: string) => renderPrompt(template, variables);
 
-      'human-odyssey': `You are creating a script for "The Human Odyssey" - a cinematic history channel.
-Topic: "${topic}"
-Tone: Cinematic documentary narration, emotionally resonant, like National Geographic meets Ken Burns.
-Visual Style: Historical artifacts, ancient sites, maps, archaeological discoveries, period imagery.`,
-
-      'classified-files': `You are creating a script for "Classified Files" - an investigative mystery channel.
-Topic: "${topic}"
-Tone: Investigative thriller, building tension, revelatory, like true crime meets X-Files.
-Visual Style: Declassified documents, surveillance footage, evidence photos, mysterious locations.`
-    };
-
-    return `${promptBase[channel.id as keyof typeof promptBase] || promptBase['what-if']}
+    return `${render(pack.script.intro)}
+Tone: ${render(pack.script.tone)}
+Visual Style: ${render(pack.script.visualStyle)}
 
 === 3-ACT STRUCTURE (CRITICAL) ===
-${actGuidance.act1}
-${actGuidance.act2}
-${actGuidance.act3}
+${render(pack.script.acts.act1)}
+${render(pack.script.acts.act2)}
+${render(pack.script.acts.act3)}
 
 === RETENTION PSYCHOLOGY ===
 1. MICRO-HOOKS: Add a retention hook every 2-3 minutes (timestamps in script). These are brief sentences that:
@@ -225,7 +435,7 @@ Respond with this exact JSON structure:
       "visualType": "image or video",
       "searchQuery": "Specific, concrete visual keywords (e.g., 'ancient Roman aqueduct ruins aerial view')",
       "duration": 60,
-      "transition": "fade|dissolve|dip_to_black|wipe_left|zoom_in",
+      "transition": "fade|dissolve|zoom",
       "contentType": "hook|reveal|exposition|action|conclusion|transition_moment",
       "emotionalTone": "curiosity|tension|wonder|mystery|excitement|resolution|intrigue",
       "act": 1,
@@ -258,54 +468,44 @@ Respond with this exact JSON structure:
 }`;
   }
 
-  private parseEnhancedScript(response: string): EnhancedVideoScript {
+  /** The validated script, or what is wrong with the answer (see enhancedScriptSchema). */
+  private parseEnhancedScript(response: string): { script: EnhancedVideoScript } | { issues: string[] } {
     if (!response || response.trim().length === 0) {
-      throw new Error('Empty response from OpenAI');
+      return { issues: ['root: Empty response'] };
     }
 
-    // Extract JSON from markdown code blocks if present
-    const jsonMatch = response.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-    let jsonStr = jsonMatch ? jsonMatch[1] : response;
-
-    // Clean up the JSON string
-    jsonStr = jsonStr.trim();
-
-    // Remove any trailing commas before closing braces/brackets
-    jsonStr = jsonStr.replace(/,(\s*[}\]])/g, '$1');
-
+    let raw: unknown;
     try {
-      const parsed = JSON.parse(jsonStr);
+      raw = parseJsonContent(response);
+    } catch (error: any) {
+      logger.error({ error: error.message, responsePreview: response.substring(0, 500) }, 'Failed to parse enhanced script');
+      return { issues: [`root: Invalid JSON (${error.message})`] };
+    }
 
-      // Validate required fields
-      if (!parsed.title || !parsed.sections || !Array.isArray(parsed.sections)) {
-        throw new Error('Missing required fields: title or sections');
-      }
+    const result = enhancedScriptSchema.safeParse(raw);
+    if (!result.success) {
+      return { issues: formatScriptIssues(result.error) };
+    }
+    const parsed = result.data;
+    const total = parsed.sections.length;
 
-      // Ensure all enhanced fields exist with defaults
-      const enhanced: EnhancedVideoScript = {
+    // Ensure all enhanced fields exist with defaults
+    return {
+      script: {
         ...parsed,
+        duration: parsed.duration || parsed.sections.reduce((sum, s) => sum + s.duration, 0),
         microHooks: parsed.microHooks || this.generateDefaultMicroHooks(parsed.sections),
         emotionalArc: parsed.emotionalArc || this.generateDefaultEmotionalArc(parsed.duration || 660),
-        threeActStructure: parsed.threeActStructure || this.calculateActStructure(parsed.sections)
-      };
-
-      // Ensure all sections have enhanced fields
-      enhanced.sections = enhanced.sections.map((section: any, index: number) => ({
-        ...section,
-        contentType: section.contentType || this.inferContentType(index, enhanced.sections.length),
-        emotionalTone: section.emotionalTone || 'curiosity',
-        act: section.act || this.inferAct(index, enhanced.sections.length),
-        isMicroHook: section.isMicroHook || false
-      }));
-
-      return enhanced;
-    } catch (error: any) {
-      logger.error({
-        error: error.message,
-        responsePreview: response.substring(0, 500)
-      }, 'Failed to parse enhanced script');
-      throw new Error(`Invalid script format from OpenAI: ${error.message}`);
-    }
+        threeActStructure: parsed.threeActStructure || this.calculateActStructure(parsed.sections),
+        sections: parsed.sections.map((section, index) => ({
+          ...section,
+          contentType: section.contentType || this.inferContentType(index, total),
+          emotionalTone: section.emotionalTone || 'curiosity',
+          act: section.act || this.inferAct(index, total),
+          isMicroHook: section.isMicroHook || false
+        }))
+      }
+    };
   }
 
   private generateDefaultMicroHooks(sections: any[]): EnhancedVideoScript['microHooks'] {
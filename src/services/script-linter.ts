@@ -0,0 +1,263 @@
+import { getDurationContract } from '../config/duration-contract.js';
+import { getScriptRules } from '../config/script-rules.js';
+import { Channel, ScriptRules } from '../types/index.js';
+import { EnhancedVideoScript, ScriptGenerator } from './script-generator.js';
+import { wordCount } from '../utils/narration.js';
+
+export type ScriptLintCheck =
+  | 'empty'
+  | 'pace'
+  | 'banned-word'
+  | 'hook-pattern'
+  | 'repetition'
+  | 'sentence-length'
+  | 'readability'
+  | 'search-query'
+  | 'act-balance';
+
+export interface ScriptLintIssue {
+  check: ScriptLintCheck;
+  /** Errors block the narration until the segment is rewritten; warnings are only reported. */
+  severity: 'error' | 'warning';
+  /** `hook`, `section-N` or `conclusion`; absent for script-wide issues. */
+  segment?: string;
+  message: string;
+}
+
+export interface ScriptLintReport {
+  ok: boolean;
+  wordCount: number;
+  issues: ScriptLintIssue[];
+}
+
+/** Words that say nothing a stock footage search can use. */
+const VAGUE_QUERY_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'in', 'on', 'with', 'concept', 'idea', 'ideas', 'mystery', 'mysterious', 'history',
+  'future', 'truth', 'power', 'time', 'life', 'world', 'things', 'stuff', 'abstract', 'background', 'scene', 'image',
+  'video', 'footage', 'dramatic', 'epic', 'cinematic', 'beautiful', 'amazing', 'interesting', 'story', 'event', 'events'
+]);
+
+const EXPECTED_ACT_SHARES = [0.25, 0.5, 0.25];
+const MAX_REPETITION_ISSUES = 5;
+
+interface LintSegment {
+  key: string;
+  text: string;
+  sectionIndex?: number;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
+const sentencesOf = (text: string) => text.split(/(?<=[.!?…])\s+/).map((s) => s.trim()).filter(Boolean);
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Checks a script against the channel's `scriptRules` before any TTS is paid for: pace of
+ * each section against its `duration` hint, banned words, stock micro-hook lines used too
+ * often, repeated phrases, sentence length, vague search queries and the balance of the
+ * three acts. Blocking issues name the segment to rewrite (see ScriptGenerator.reviseScript).
+ */
+export class ScriptLinter {
+  lint(channel: Channel, script: EnhancedVideoScript): ScriptLintReport {
+    const rules = getScriptRules(channel);
+    const segments: LintSegment[] = [
+      { key: 'hook', text: script.hook || '' },
+      ...script.sections.map((s, idx) => ({ key: `section-${idx + 1}`, text: s.narration || '', sectionIndex: idx })),
+      { key: 'conclusion', text: script.conclusion || '' }
+    ];
+
+    const issues: ScriptLintIssue[] = [
+      ...this.checkEmpty(segments),
+      ...this.checkPace(script, getDurationContract(channel).wordsPerMinute, rules),
+      ...this.checkBannedWords(segments, rules),
+      ...this.checkHookPatterns(segments, rules),
+      ...this.checkRepetition(segments, rules),
+      ...this.checkSentences(segments, rules),
+      ...this.checkSearchQueries(script, rules),
+      ...this.checkActBalance(script, rules)
+    ];
+
+    return {
+      ok: !issues.some((i) => i.severity === 'error'),
+      wordCount: segments.reduce((sum, s) => sum + wordCount(s.text), 0),
+      issues
+    };
+  }
+
+  private checkEmpty(segments: LintSegment[]): ScriptLintIssue[] {
+    return segments
+      .filter((s) => !s.text.trim())
+      .map((s) => ({ check: 'empty', severity: 'error', segment: s.key, message: 'No narration' }));
+  }
+
+  private checkPace(script: EnhancedVideoScript, wordsPerMinute: number, rules: ScriptRules): ScriptLintIssue[] {
+    const issues: ScriptLintIssue[] = [];
+    script.sections.forEach((section, idx) => {
+      if (!section.duration || !section.narration?.trim()) return;
+      const expected = (section.duration / 60) * wordsPerMinute;
+      const words = wordCount(section.narration);
+      const gap = Math.abs(words - expected) / expected;
+      if (gap <= rules.paceTolerance) return;
+      issues.push({
+        check: 'pace',
+        severity: gap > rules.paceTolerance * 2 ? 'error' : 'warning',
+        segment: `section-${idx + 1}`,
+        message: `${words} words for a ${section.duration} s hint (expected about ${Math.round(expected)})`
+      });
+    });
+    return issues;
+  }
+
+  private checkBannedWords(segments: LintSegment[], rules: ScriptRules): ScriptLintIssue[] {
+    const patterns = rules.bannedWords
+      .filter((w) => w.trim())
+      .map((w) => ({ word: w, re: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(w.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu') }));
+
+    return segments.flatMap((s) => {
+      const found = patterns.filter((p) => p.re.test(s.text)).map((p) => p.word);
+      return found.length
+        ? [{ check: 'banned-word' as const, severity: 'error' as const, segment: s.key, message: `Banned: ${found.join(', ')}` }]
+        : [];
+    });
+  }
+
+  private checkHookPatterns(segments: LintSegment[], rules: ScriptRules): ScriptLintIssue[] {
+    const patterns = Object.values(ScriptGenerator.getMicroHookPatterns()).flat();
+    const issues: ScriptLintIssue[] = [];
+
+    for (const pattern of patterns) {
+      const needle = normalize(pattern);
+      let uses = 0;
+      for (const s of segments) {
+        const text = normalize(s.text);
+        for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + needle.length)) {
+          uses++;
+          if (uses > rules.maxHookPatternUses) {
+            issues.push({
+              check: 'hook-pattern',
+              severity: 'error',
+              segment: s.key,
+              message: `Stock hook "${pattern}" used ${uses} times`
+            });
+          }
+        }
+      }
+    }
+    return issues;
+  }
+
+  private checkRepetition(segments: LintSegment[], rules: ScriptRules): ScriptLintIssue[] {
+    const n = Math.max(2, rules.repeatedPhraseWords);
+    const words: Array<{ word: string; key: string }> = segments.flatMap((s) =>
+      normalize(s.text).split(' ').filter(Boolean).map((word) => ({ word, key: s.key }))
+    );
+
+    const seen = new Map<string, number[]>();
+    for (let i = 0; i + n <= words.length; i++) {
+      const phrase = words.slice(i, i + n).map((w) => w.word).join(' ');
+      seen.set(phrase, [...(seen.get(phrase) || []), i]);
+    }
+
+    // Longer repeated passages show up as several overlapping phrases: report the first one only.
+    const reported: number[] = [];
+    const issues: ScriptLintIssue[] = [];
+    const repeated = [...seen.entries()]
+      .filter(([, positions]) => positions.length > rules.maxPhraseRepeats)
+      .sort((a, b) => b[1].length - a[1].length || a[1][0] - b[1][0]);
+
+    for (const [phrase, positions] of repeated) {
+      if (issues.length >= MAX_REPETITION_ISSUES) break;
+      if (reported.some((p) => positions.some((q) => Math.abs(p - q) < n))) continue;
+      reported.push(...positions);
+      const where = [...new Set(positions.map((p) => words[p].key))];
+      issues.push({
+        check: 'repetition',
+        severity: 'warning',
+        message: `"${phrase}" said ${positions.length} times (${where.join(', ')})`
+      });
+    }
+    return issues;
+  }
+
+  private checkSentences(segments: LintSegment[], rules: ScriptRules): ScriptLintIssue[] {
+    const issues: ScriptLintIssue[] = [];
+    for (const s of segments) {
+      const lengths = sentencesOf(s.text).map((sentence) => wordCount(sentence));
+      if (lengths.length === 0) continue;
+
+      const longest = Math.max(...lengths);
+      if (longest > rules.maxSentenceWords) {
+        const count = lengths.filter((l) => l > rules.maxSentenceWords).length;
+        issues.push({
+          check: 'sentence-length',
+          severity: 'warning',
+          segment: s.key,
+          message: `${count} sentence(s) over ${rules.maxSentenceWords} words (longest: ${longest})`
+        });
+      }
+
+      const average = lengths.reduce((sum, l) => sum + l, 0) / lengths.length;
+      if (average > rules.maxAverageSentenceWords) {
+        issues.push({
+          check: 'readability',
+          severity: 'warning',
+          segment: s.key,
+          message: `Sentences average ${Math.round(average)} words (max ${rules.maxAverageSentenceWords})`
+        });
+      }
+    }
+    return issues;
+  }
+
+  private checkSearchQueries(script: EnhancedVideoScript, rules: ScriptRules): ScriptLintIssue[] {
+    return script.sections.flatMap((section, idx): ScriptLintIssue[] => {
+      const segment = `section-${idx + 1}`;
+      const words = normalize(section.searchQuery || '').split(' ').filter(Boolean);
+      if (words.length === 0) {
+        return [{ check: 'search-query', severity: 'error', segment, message: 'No search query' }];
+      }
+      if (words.length < rules.minSearchQueryWords || words.every((w) => VAGUE_QUERY_WORDS.has(w))) {
+        return [{ check: 'search-query', severity: 'warning', segment, message: `Search query "${section.searchQuery}" is not concrete` }];
+      }
+      return [];
+    });
+  }
+
+  private checkActBalance(script: EnhancedVideoScript, rules: ScriptRules): ScriptLintIssue[] {
+    const { act1End, act2End } = script.threeActStructure || ({} as EnhancedVideoScript['threeActStructure']);
+    const last = script.sections.length - 1;
+    if (!Number.isInteger(act1End) || !Number.isInteger(act2End) || act1End < 0 || act1End >= act2End || act2End >= last) {
+      return [{ check: 'act-balance', severity: 'warning', message: 'threeActStructure does not split the sections into three acts' }];
+    }
+
+    const actOf = (idx: number): 1 | 2 | 3 => (idx <= act1End ? 1 : idx <= act2End ? 2 : 3);
+    const words = [wordCount(script.hook), 0, wordCount(script.conclusion)];
+    script.sections.forEach((s, idx) => { words[actOf(idx) - 1] += wordCount(s.narration); });
+    const total = words.reduce((sum, w) => sum + w, 0) || 1;
+
+    const issues: ScriptLintIssue[] = [];
+    words.forEach((w, idx) => {
+      const share = w / total;
+      if (Math.abs(share - EXPECTED_ACT_SHARES[idx]) > rules.actBalanceTolerance) {
+        issues.push({
+          check: 'act-balance',
+          severity: 'warning',
+          message: `Act ${idx + 1} holds ${Math.round(share * 100)}% of the words (target ${EXPECTED_ACT_SHARES[idx] * 100}%)`
+        });
+      }
+    });
+
+    const mislabeled = script.sections
+      .map((s, idx) => ({ s, idx }))
+      .filter(({ s, idx }) => s.act && s.act !== actOf(idx))
+      .map(({ idx }) => `section-${idx + 1}`);
+    if (mislabeled.length) {
+      issues.push({ check: 'act-balance', severity: 'warning', message: `Act labels disagree with threeActStructure: ${mislabeled.join(', ')}` });
+    }
+    return issues;
+  }
+}
+
+/** The segments a targeted rewrite has to fix, in script order. */
+export function blockingSegments(report: ScriptLintReport): string[] {
+  return [...new Set(report.issues.filter((i) => i.severity === 'error' && i.segment).map((i) => i.segment as string))];
+}
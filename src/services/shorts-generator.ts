@@ -0,0 +1,325 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { channels } from '../config/channels.js';
+import { SHORT_DURATION_CONTRACT } from '../config/duration-contract.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { Asset, Channel, VideoScript } from '../types/index.js';
+import { PipelineProgressReporter, PipelineRunOptions, PipelineStage } from '../types/pipeline.js';
+import { NarrationTiming } from '../types/timeline.js';
+import { PlannedShort, ShortWindow, ShortsPlanOptions } from '../types/shorts.js';
+import { EnhancedVideoScript } from './script-generator.js';
+import { ProjectStore } from './project-store.js';
+import { DEFAULT_ASSET_SECONDS, VERTICAL_RESOLUTION, VideoComposer } from './video-composer.js';
+import { SubtitleGenerator } from './subtitle-generator.js';
+import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { extractAudioWindow, probeDurationSeconds } from '../utils/media.js';
+import { narrationTimingFor } from '../utils/narration.js';
+
+const DEFAULT_SHORT_SECONDS = 58;
+const MAX_SHORTS = 5;
+
+const SHORT_STAGES: PipelineStage[] = ['audio', 'compose'];
+
+function words(text: string | undefined): string[] {
+  return (text || '').trim().split(/\s+/).filter(Boolean);
+}
+
+/** Narration blocks in spoken order (branding lines left out), keyed like the narration timing. */
+function narrationBlocks(script: VideoScript): Array<{ key: string; words: string[] }> {
+  return [
+    { key: 'hook', words: words(script.hook) },
+    ...script.sections.map((s, idx) => ({ key: `section-${idx + 1}`, words: words(s.narration) })),
+    { key: 'conclusion', words: words(script.conclusion) }
+  ];
+}
+
+/** Emotional-arc intensity at a time of the *planned* script, linearly interpolated. */
+function intensityAt(arc: EnhancedVideoScript['emotionalArc'], plannedSeconds: number): number {
+  if (arc.length === 0) return 5;
+  if (plannedSeconds <= arc[0].timestamp) return arc[0].intensity;
+  for (let i = 0; i < arc.length - 1; i++) {
+    const a = arc[i];
+    const b = arc[i + 1];
+    if (plannedSeconds >= a.timestamp && plannedSeconds <= b.timestamp) {
+      const range = b.timestamp - a.timestamp;
+      return range > 0 ? a.intensity + ((b.intensity - a.intensity) * (plannedSeconds - a.timestamp)) / range : b.intensity;
+    }
+  }
+  return arc[arc.length - 1].intensity;
+}
+
+/**
+ * Highest-intensity windows of a long-form narration, best first.
+ *
+ * The emotional arc is timed against the LLM's planned section durations, so it is
+ * rescaled to the real audio length. Windows start where a narration block starts
+ * (hook, section or conclusion, per the narration `timing`) so a Short never opens
+ * mid-sentence, or at an arc point when that scores higher.
+ */
+export function pickShortWindows(
+  script: VideoScript,
+  audioDuration: number,
+  timing: NarrationTiming,
+  options: ShortsPlanOptions = {}
+): ShortWindow[] {
+  const count = Math.max(1, Math.min(MAX_SHORTS, Math.floor(options.count ?? 1)));
+  const length = Math.min(options.maxSeconds ?? DEFAULT_SHORT_SECONDS, SHORT_DURATION_CONTRACT.maxSeconds, audioDuration);
+  if (!(length > 0)) return [];
+
+  const arc = [...((script as EnhancedVideoScript).emotionalArc || [])].sort((a, b) => a.timestamp - b.timestamp);
+  const plannedTotal =
+    script.sections.reduce((sum, s) => sum + (s.duration || 60), 0) || arc[arc.length - 1]?.timestamp || audioDuration;
+  const toPlanned = plannedTotal / audioDuration;
+
+  const candidates = new Set<number>();
+  for (const block of narrationBlocks(script)) {
+    const spoken = timing.find((t) => t.key === block.key);
+    if (block.words.length > 0 && spoken) candidates.add(spoken.startSeconds);
+  }
+  arc.forEach((point) => candidates.add(point.timestamp / toPlanned));
+  candidates.add(0);
+
+  const latestStart = audioDuration - length;
+  const scored = [...new Set([...candidates].map((t) => Math.round(Math.min(Math.max(0, t), latestStart) * 10) / 10))]
+    .map((startSeconds) => {
+      let sum = 0;
+      let samples = 0;
+      for (let t = startSeconds; t <= startSeconds + length; t += 1) {
+        sum += intensityAt(arc, t * toPlanned);
+        samples++;
+      }
+      return { startSeconds, durationSeconds: length, intensity: Math.round((sum / samples) * 100) / 100 };
+    })
+    .sort((a, b) => b.intensity - a.intensity || a.startSeconds - b.startSeconds);
+
+  const picked: ShortWindow[] = [];
+  for (const window of scored) {
+    if (picked.length >= count) break;
+    const overlaps = picked.some(
+      (p) => window.startSeconds < p.startSeconds + p.durationSeconds && p.startSeconds < window.startSeconds + window.durationSeconds
+    );
+    if (!overlaps) picked.push(window);
+  }
+  return picked;
+}
+
+/**
+ * Downloaded assets on screen during `window`, with durations trimmed to it. Timing
+ * mirrors the composer: usable assets play back to back, the last one stretched to
+ * the end of the audio.
+ */
+export function selectAssetsForWindow(assets: Asset[], audioDuration: number, window: ShortWindow): Asset[] {
+  const usable = assets.filter((a) => !!a.localPath);
+  const end = window.startSeconds + window.durationSeconds;
+
+  const selected: Asset[] = [];
+  let cursor = 0;
+  usable.forEach((asset, index) => {
+    const start = cursor;
+    const planned = asset.duration || DEFAULT_ASSET_SECONDS;
+    const stop = index === usable.length - 1 ? Math.max(start + planned, audioDuration) : start + planned;
+    cursor += planned;
+
+    const visible = Math.min(stop, end) - Math.max(start, window.startSeconds);
+    if (visible > 0.05) selected.push({ ...asset, duration: Math.round(visible * 100) / 100 });
+  });
+  return selected;
+}
+
+/**
+ * Script of a Short: the narration spoken during `window`. Blocks are placed with the
+ * narration `timing`; words are spread evenly within their block.
+ */
+export function excerptScript(script: VideoScript, timing: NarrationTiming, window: ShortWindow): VideoScript {
+  const end = window.startSeconds + window.durationSeconds;
+  const excerpt: string[] = [];
+  for (const block of narrationBlocks(script)) {
+    const spoken = timing.find((t) => t.key === block.key);
+    if (!spoken) continue;
+    const perWord = spoken.durationSeconds / (block.words.length || 1);
+    block.words.forEach((word, i) => {
+      const start = spoken.startSeconds + i * perWord;
+      if (start < end && start + perWord > window.startSeconds) excerpt.push(word);
+    });
+  }
+
+  return {
+    title: `${script.title} #Shorts`,
+    hook: '',
+    sections: [{
+      narration: excerpt.join(' '),
+      visualType: 'video',
+      searchQuery: script.sections[0]?.searchQuery || '',
+      duration: Math.round(window.durationSeconds),
+      transition: 'fade'
+    }],
+    conclusion: '',
+    duration: Math.round(window.durationSeconds)
+  };
+}
+
+/**
+ * Cuts vertical (1080x1920) Shorts out of a finished long-form project. Each Short
+ * reuses the source narration, script and downloaded assets and becomes its own
+ * project (manifest with `shortSource`), so it can be validated and published like
+ * any other video.
+ */
+export class ShortsGenerator {
+  private projectStore: ProjectStore;
+  private videoComposer: VideoComposer;
+  private subtitleGenerator: SubtitleGenerator;
+
+  constructor(projectStore: ProjectStore = new ProjectStore(), videoComposer: VideoComposer = new VideoComposer()) {
+    this.projectStore = projectStore;
+    this.videoComposer = videoComposer;
+    this.subtitleGenerator = new SubtitleGenerator(projectStore);
+  }
+
+  /** Choose the windows and reserve a project id for each; nothing is rendered. */
+  async plan(sourceProjectId: string, options: ShortsPlanOptions = {}): Promise<PlannedShort[]> {
+    const { manifest, script, audioDuration, timing } = await this.loadSource(sourceProjectId);
+
+    const planned: PlannedShort[] = [];
+    let timestamp = Date.now();
+    for (const window of pickShortWindows(script, audioDuration, timing, options)) {
+      let projectId = `${manifest.channelId}-${timestamp++}`;
+      while (this.projectStore.exists(projectId)) projectId = `${manifest.channelId}-${timestamp++}`;
+      planned.push({ ...window, projectId, sourceProjectId });
+    }
+    return planned;
+  }
+
+  /** Render one planned Short and record it as a complete project. Returns the video path. */
+  async render(short: PlannedShort, options: PipelineRunOptions = {}): Promise<string> {
+    const { manifest: source, channel, script, audioDuration, timing } = await this.loadSource(short.sourceProjectId);
+
+    const scriptPath = `./output/scripts/${short.projectId}.json`;
+    const audioPath = `./output/audio/${short.projectId}.mp3`;
+    const report = (stage: PipelineStage, percent: number, detail: string) =>
+      this.report(options.onProgress, stage, percent, detail);
+
+    await this.projectStore.save({
+      ...this.projectStore.newManifest({
+        projectId: short.projectId,
+        channelId: source.channelId,
+        topic: source.topic,
+        mode: 'full',
+        scriptPath,
+        audioPath
+      }),
+      shortSource: {
+        projectId: short.sourceProjectId,
+        startSeconds: short.startSeconds,
+        durationSeconds: short.durationSeconds
+      }
+    });
+
+    console.log(`\n📱 Short ${short.projectId} from ${short.sourceProjectId}`);
+    console.log(`   Window: ${short.startSeconds.toFixed(1)}s → ${(short.startSeconds + short.durationSeconds).toFixed(1)}s (intensity ${short.intensity})`);
+
+    const shortScript = excerptScript(script, timing, short);
+
+    try {
+      report('audio', 0, 'Cutting narration');
+      await mkdir('./output/scripts', { recursive: true });
+      await mkdir('./output/audio', { recursive: true });
+      await writeFile(scriptPath, JSON.stringify(shortScript, null, 2));
+      await extractAudioWindow(source.audioPath, audioPath, short.startSeconds, short.durationSeconds, options.signal);
+      report('audio', 100, 'Narration cut');
+
+      const assets = selectAssetsForWindow(source.downloadedAssets, audioDuration, short);
+      if (assets.length === 0) {
+        throw new Error(`No downloaded assets cover ${short.startSeconds}s–${short.startSeconds + short.durationSeconds}s of ${short.sourceProjectId}`);
+      }
+
+      throwIfAborted(options.signal);
+      report('compose', 0, 'Preparing vertical render');
+      const tracks = await this.subtitleGenerator.tracksForRender(short.projectId, options.signal);
+      const videoPath = await this.videoComposer.composeVideo(
+        shortScript,
+        audioPath,
+        assets,
+        `${short.projectId}.mp4`,
+        {
+          channel,
+          resolution: VERTICAL_RESOLUTION,
+          reframe: 'blur_fill',
+          shortVideoStrategy: 'loop',
+          enableMusic: true,
+          enableColorGrading: true,
+          musicVolume: 0.15,
+          ...tracks,
+          signal: options.signal,
+          onProgress: (percent) => report('compose', percent, `Rendering ${Math.floor(percent)}%`)
+        }
+      );
+
+      await this.projectStore.update(short.projectId, (curr) => ({
+        ...curr,
+        status: 'complete',
+        completedStages: ['script', 'audio', 'collect', 'download', 'compose'],
+        videoPath,
+        audioDurationSeconds: short.durationSeconds,
+        beatsPlanned: assets.length,
+        downloadedAssets: assets,
+        lastError: undefined
+      }));
+
+      logger.info({ projectId: short.projectId, sourceProjectId: short.sourceProjectId, videoPath }, 'Short rendered');
+      console.log(`✅ Short ready: ${videoPath}\n`);
+      return videoPath;
+    } catch (error) {
+      const cancelled = !!options.signal?.aborted;
+      await this.projectStore.update(short.projectId, (curr) => ({
+        ...curr,
+        status: cancelled ? 'cancelled' : 'failed',
+        lastError: cancelled ? undefined : ((error as Error)?.message || String(error))
+      })).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async loadSource(projectId: string): Promise<{
+    manifest: ProjectManifest;
+    channel: Channel;
+    script: VideoScript;
+    audioDuration: number;
+    timing: NarrationTiming;
+  }> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    if (manifest.shortSource) {
+      throw new Error(`Project ${projectId} is already a Short`);
+    }
+    if (manifest.status !== 'complete' || !manifest.completedStages.includes('download')) {
+      throw new Error(`Project ${projectId} is not complete (status: ${manifest.status})`);
+    }
+    const channel = channels[manifest.channelId];
+    if (!channel) {
+      throw new Error(`Unknown channel in manifest: ${manifest.channelId}`);
+    }
+
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    const audioDuration = manifest.audioDurationSeconds ?? await probeDurationSeconds(manifest.audioPath);
+    // Measured when the narration was voiced clip by clip, estimated from word counts otherwise.
+    const timing = narrationTimingFor(channel, script, audioDuration, manifest.narrationTiming);
+    return { manifest, channel, script, audioDuration, timing };
+  }
+
+  private report(onProgress: PipelineProgressReporter | undefined, stage: PipelineStage, percent: number, detail: string): void {
+    if (!onProgress) return;
+    try {
+      onProgress({
+        stage,
+        stepIndex: SHORT_STAGES.indexOf(stage) + 1,
+        stepCount: SHORT_STAGES.length,
+        percent: Math.max(0, Math.min(100, Math.round(percent))),
+        detail
+      });
+    } catch (error) {
+      logger.warn({ error: (error as Error).message }, 'Progress reporter failed');
+    }
+  }
+}
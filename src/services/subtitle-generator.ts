@@ -0,0 +1,236 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { channels } from '../config/channels.js';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { Channel, VideoScript } from '../types/index.js';
+import { BurnedCaptions, SubtitleCue, SubtitleCueOptions, WordTiming, WordTimingSource } from '../types/subtitles.js';
+import { ProjectStore } from './project-store.js';
+import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { detectSpeechRegions } from '../utils/media.js';
+import { buildNarrationWithBranding, narrationSegments } from '../utils/narration.js';
+import { alignWordsToSpeech, readWordTimings, writeWordTimings } from '../utils/word-timings.js';
+
+const SUBTITLES_DIR = './output/subtitles';
+/** A pause this long always starts a new cue. */
+const CUE_BREAK_SECONDS = 1;
+
+/**
+ * Group word timings into readable cues: at most `maxLines` lines of `maxCharsPerLine`,
+ * no longer than `maxCueSeconds`, and broken at sentence ends and long pauses.
+ */
+export function buildCues(words: WordTiming[], options: SubtitleCueOptions = {}): SubtitleCue[] {
+  const maxChars = options.maxCharsPerLine ?? 42;
+  const maxLines = options.maxLines ?? 2;
+  const maxSeconds = options.maxCueSeconds ?? 6;
+
+  const cues: SubtitleCue[] = [];
+  let lines: string[] = [];
+  let start = 0;
+  let end = 0;
+
+  const flush = () => {
+    if (lines.length > 0) cues.push({ startSeconds: start, endSeconds: end, lines });
+    lines = [];
+  };
+
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    const pause = lines.length > 0 && word.startSeconds - end >= CUE_BREAK_SECONDS;
+    const tooLong = lines.length > 0 && word.endSeconds - start > maxSeconds;
+
+    if (pause || tooLong) flush();
+
+    if (lines.length === 0) {
+      lines = [word.word];
+      start = word.startSeconds;
+    } else if (`${last} ${word.word}`.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word.word}`;
+    } else if (lines.length < maxLines) {
+      lines.push(word.word);
+    } else {
+      flush();
+      lines = [word.word];
+      start = word.startSeconds;
+    }
+    end = word.endSeconds;
+
+    if (/[.!?…]["»”)]?$/.test(word.word)) flush();
+  }
+  flush();
+  return cues;
+}
+
+function timestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, idx) => `${idx + 1}\n${timestamp(cue.startSeconds, ',')} --> ${timestamp(cue.endSeconds, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => `${timestamp(cue.startSeconds, '.')} --> ${timestamp(cue.endSeconds, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/** The channel as narrated in a project (translated branding lines and voice for localized versions). */
+export function narratedChannel(manifest: ProjectManifest): Channel {
+  const channel = channels[manifest.channelId];
+  if (!channel) {
+    throw new Error(`Unknown channel in manifest: ${manifest.channelId}`);
+  }
+  const localization = manifest.localization;
+  if (!localization) return channel;
+  return {
+    ...channel,
+    voice: channel.localizations?.[localization.language]?.voice || channel.voice,
+    branding: channel.branding && { ...channel.branding, ...localization.branding }
+  };
+}
+
+/**
+ * `output/subtitles/<projectId>.srt` and `.vtt` for a project's narration. Word timings
+ * come from the TTS provider (ElevenLabs timestamps, Edge TTS word boundaries) when it
+ * gave them, otherwise from silence detection over the audio. Shorts reuse the words of
+ * their source project within their window.
+ */
+export class SubtitleGenerator {
+  private projectStore: ProjectStore;
+
+  constructor(projectStore: ProjectStore = new ProjectStore()) {
+    this.projectStore = projectStore;
+  }
+
+  async generate(
+    projectId: string,
+    options: SubtitleCueOptions & { signal?: AbortSignal } = {}
+  ): Promise<NonNullable<ProjectManifest['subtitles']>> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+
+    const { words, source } = await this.wordsFor(manifest, options.signal);
+    if (words.length === 0) {
+      throw new Error(`No words to subtitle for project: ${projectId}`);
+    }
+    const cues = buildCues(words, options);
+
+    await mkdir(SUBTITLES_DIR, { recursive: true });
+    const srtPath = `${SUBTITLES_DIR}/${projectId}.srt`;
+    const vttPath = `${SUBTITLES_DIR}/${projectId}.vtt`;
+    await writeFile(srtPath, formatSrt(cues));
+    await writeFile(vttPath, formatVtt(cues));
+    // Kept for burned-in captions, which need the words and not just the cues.
+    await writeWordTimings(srtPath, words);
+
+    const subtitles = {
+      srtPath,
+      vttPath,
+      language: manifest.localization?.language || narratedChannel(manifest).voice.language || 'en-US',
+      source,
+      cueCount: cues.length
+    };
+    await this.projectStore.update(projectId, (curr) => ({ ...curr, subtitles }));
+    logger.info({ projectId, cues: cues.length, source }, 'Subtitles written');
+    return subtitles;
+  }
+
+  /**
+   * Soft subtitle track for a render, plus burned-in captions when the channel's
+   * `overlayStyle.captions.mode` asks for them. Missing subtitles never fail a video
+   * (cancellation still does).
+   */
+  async tracksForRender(
+    projectId: string,
+    signal?: AbortSignal
+  ): Promise<{ subtitlesPath?: string; captions?: BurnedCaptions }> {
+    try {
+      const { srtPath } = await this.generate(projectId, { signal });
+      const manifest = await this.projectStore.get(projectId);
+      const mode = manifest && narratedChannel(manifest).branding?.overlayStyle?.captions?.mode;
+      if (!mode || mode === 'off') {
+        return { subtitlesPath: srtPath };
+      }
+      return { subtitlesPath: srtPath, captions: { mode, words: (await readWordTimings(srtPath)) || undefined, srtPath } };
+    } catch (error) {
+      throwIfAborted(signal);
+      logger.warn({ projectId, error: (error as Error).message }, 'Subtitles skipped');
+      return {};
+    }
+  }
+
+  /** Every spoken word of the project, in seconds of its final audio. */
+  private async wordsFor(
+    manifest: ProjectManifest,
+    signal?: AbortSignal
+  ): Promise<{ words: WordTiming[]; source: WordTimingSource }> {
+    throwIfAborted(signal);
+
+    if (manifest.shortSource) {
+      const { projectId, startSeconds, durationSeconds } = manifest.shortSource;
+      const source = await this.projectStore.get(projectId);
+      if (!source) throw new Error(`Source project not found: ${projectId}`);
+      const { words, source: origin } = await this.wordsFor(source, signal);
+      const end = startSeconds + durationSeconds;
+      return {
+        words: words
+          .filter((w) => w.startSeconds >= startSeconds && w.endSeconds <= end)
+          .map((w) => ({ ...w, startSeconds: w.startSeconds - startSeconds, endSeconds: w.endSeconds - startSeconds })),
+        source: origin
+      };
+    }
+
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    const channel = narratedChannel(manifest);
+    const clips = manifest.narrationClips.filter((c) => c.path && existsSync(c.path));
+
+    // One take: the whole narration file at once.
+    if (clips.length === 0 || clips.length !== manifest.narrationClips.length) {
+      const timed = await readWordTimings(manifest.audioPath);
+      if (timed) return { words: timed, source: 'tts' };
+      return {
+        words: alignWordsToSpeech(buildNarrationWithBranding(channel, script), await detectSpeechRegions(manifest.audioPath, signal)),
+        source: 'aligned'
+      };
+    }
+
+    // Clip by clip, shifted to where each clip sits in the joined narration.
+    const texts = new Map(narrationSegments(channel, script).map((s) => [s.key, s.text]));
+    const timing = new Map((manifest.narrationTiming || []).map((t) => [t.key, t]));
+    const words: WordTiming[] = [];
+    const origins = new Set<WordTimingSource>();
+    let offset = 0;
+
+    for (const clip of clips) {
+      const clipPath = clip.path as string;
+      const at = timing.get(clip.key);
+      const start = at?.startSeconds ?? offset;
+      const scale = at && clip.durationSeconds ? at.durationSeconds / clip.durationSeconds : 1;
+
+      let clipWords = await readWordTimings(clipPath);
+      origins.add(clipWords ? 'tts' : 'aligned');
+      if (!clipWords) {
+        clipWords = alignWordsToSpeech(texts.get(clip.key) || '', await detectSpeechRegions(clipPath, signal));
+      }
+      words.push(...clipWords.map((w) => ({
+        word: w.word,
+        startSeconds: start + w.startSeconds * scale,
+        endSeconds: start + w.endSeconds * scale
+      })));
+      offset = start + (clip.durationSeconds || 0) * scale;
+    }
+
+    return { words, source: origins.size > 1 ? 'mixed' : [...origins][0] };
+  }
+}
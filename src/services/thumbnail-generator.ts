@@ -0,0 +1,278 @@
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { Asset, ThumbnailTemplate, VideoScript } from '../types/index.js';
+import { AssetLibrary } from './asset-library.js';
+import { ProjectStore } from './project-store.js';
+import { narratedChannel } from './subtitle-generator.js';
+import { VisualEffectsEngine } from './visual-effects-engine.js';
+import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+
+const execFileAsync = promisify(execFile);
+
+const THUMBNAILS_DIR = './output/thumbnails';
+const WIDTH = 1280;
+const HEIGHT = 720;
+/** YouTube rejects custom thumbnails over 2 MB. */
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+/** Frames scored per project: enough variety without probing every asset of a long video. */
+const MAX_CANDIDATES = 12;
+const MAX_VARIANTS = 6;
+const DEFAULT_FONT = '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf';
+
+export type ThumbnailSet = NonNullable<ProjectManifest['thumbnails']>;
+
+export interface ThumbnailOptions {
+  /** Main text (default: the script title). */
+  title?: string;
+  subtitle?: string;
+  /** Variants to render, best frames first (default 3, at most 6). */
+  count?: number;
+  signal?: AbortSignal;
+}
+
+/** Average luma, luma spread and saturation of a frame, as measured by FFmpeg's signalstats (0–255). */
+export interface FrameStats {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+}
+
+/**
+ * How well a frame holds up as a thumbnail, 0–1: mid brightness (text stays readable,
+ * nothing blown out), strong contrast and vivid colors.
+ */
+export function scoreFrameStats(stats: FrameStats): number {
+  const brightness = 1 - Math.min(1, Math.abs(stats.brightness - 115) / 115);
+  const contrast = Math.min(1, Math.max(0, stats.contrast) / 200);
+  const saturation = Math.min(1, Math.max(0, stats.saturation) / 80);
+  return Math.round((0.35 * brightness + 0.35 * contrast + 0.3 * saturation) * 100) / 100;
+}
+
+/** Break text into at most `maxLines` lines of `maxChars`, ending with an ellipsis when it doesn't fit. */
+export function wrapThumbnailText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else if (lines.length < maxLines) {
+      lines.push(word);
+    } else {
+      lines[lines.length - 1] = `${last.replace(/[\s.,;:!?…]+$/, '')}…`;
+      break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * 1280x720 YouTube thumbnails for a project: the strongest frames of its visuals (and
+ * matching library images) get the channel's color grade and its thumbnail template
+ * (font, stroke, box, logo). Several variants are rendered so one can be picked.
+ */
+export class ThumbnailGenerator {
+  private projectStore: ProjectStore;
+  private assetLibrary: AssetLibrary;
+  private visualEffects: VisualEffectsEngine;
+
+  constructor(projectStore: ProjectStore = new ProjectStore(), assetLibrary: AssetLibrary = new AssetLibrary()) {
+    this.projectStore = projectStore;
+    this.assetLibrary = assetLibrary;
+    this.visualEffects = new VisualEffectsEngine();
+  }
+
+  /** Render `output/thumbnails/<projectId>.<n>.jpg`; the best-scored variant is selected. */
+  async generate(projectId: string, options: ThumbnailOptions = {}): Promise<ThumbnailSet> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    const channel = narratedChannel(manifest);
+    const script = JSON.parse(await readFile(manifest.scriptPath, 'utf-8')) as VideoScript;
+    const title = (options.title || manifest.localization?.metadata?.title || script.title).trim();
+    const subtitle = options.subtitle?.trim() || undefined;
+    const count = Math.max(1, Math.min(MAX_VARIANTS, Math.floor(options.count ?? 3)));
+
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'thumbnails-'));
+    try {
+      const candidates = await this.candidateFrames(manifest, workDir, options.signal);
+      if (candidates.length === 0) {
+        throw new Error(`No frames or images to build thumbnails for project: ${projectId}`);
+      }
+      const best = candidates.sort((a, b) => b.score - a.score).slice(0, count);
+
+      await mkdir(THUMBNAILS_DIR, { recursive: true });
+      const grade = this.visualEffects.getColorGrade(channel.style.theme);
+      const gradeFilter = this.visualEffects.generateColorGradeFilter(grade, 0.7);
+      const template = channel.branding?.thumbnail;
+
+      const variants: ThumbnailSet['variants'] = [];
+      for (const [idx, candidate] of best.entries()) {
+        throwIfAborted(options.signal);
+        const outputPath = `${THUMBNAILS_DIR}/${projectId}.${idx + 1}.jpg`;
+        const sizeBytes = await this.render(candidate.framePath, outputPath, gradeFilter, template, title, subtitle, workDir, options.signal);
+        variants.push({ path: outputPath, sourcePath: candidate.sourcePath, score: candidate.score, sizeBytes });
+      }
+
+      const thumbnails: ThumbnailSet = { title, subtitle, variants, selected: 0, createdAt: new Date().toISOString() };
+      await this.projectStore.update(projectId, (curr) => ({ ...curr, thumbnails }));
+      logger.info({ projectId, variants: variants.length, candidates: candidates.length }, 'Thumbnails rendered');
+      return thumbnails;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /** Pick the variant uploaded with the video. */
+  async select(projectId: string, index: number): Promise<ThumbnailSet> {
+    const manifest = await this.projectStore.get(projectId);
+    const thumbnails = manifest?.thumbnails;
+    if (!thumbnails) {
+      throw new Error(`No thumbnails for project: ${projectId}`);
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= thumbnails.variants.length) {
+      throw new Error(`Thumbnail variant out of range: ${index}`);
+    }
+    const updated = { ...thumbnails, selected: index };
+    await this.projectStore.update(projectId, (curr) => ({ ...curr, thumbnails: updated }));
+    return updated;
+  }
+
+  /**
+   * Stills worth a thumbnail, scored: the project's images, a representative frame of
+   * each of its clips, and library images matching the topic.
+   */
+  private async candidateFrames(
+    manifest: ProjectManifest,
+    workDir: string,
+    signal?: AbortSignal
+  ): Promise<Array<{ framePath: string; sourcePath: string; score: number }>> {
+    const seen = new Set<string>();
+    const assets = manifest.downloadedAssets.filter((a) => {
+      if (!a.localPath || !existsSync(a.localPath) || seen.has(a.localPath)) return false;
+      seen.add(a.localPath);
+      return true;
+    });
+    // Spread over the whole video rather than the first beats only.
+    const step = Math.max(1, assets.length / MAX_CANDIDATES);
+    const picked: Asset[] = [];
+    for (let i = 0; i < assets.length && picked.length < MAX_CANDIDATES; i += step) {
+      picked.push(assets[Math.floor(i)]);
+    }
+
+    const library = await this.assetLibrary
+      .findBestLocalAssets({
+        query: manifest.topic,
+        preferredType: 'image',
+        count: 4,
+        channelId: manifest.channelId,
+        excludeLocalPaths: new Set([...seen].map((p) => path.normalize(p)))
+      })
+      .catch(() => [] as Asset[]);
+
+    const candidates: Array<{ framePath: string; sourcePath: string; score: number }> = [];
+    for (const [idx, asset] of [...picked, ...library].entries()) {
+      throwIfAborted(signal);
+      const sourcePath = asset.localPath as string;
+      try {
+        const framePath = asset.type === 'video'
+          ? await this.extractFrame(sourcePath, asset.mediaDurationSeconds, path.join(workDir, `frame-${idx}.jpg`), signal)
+          : sourcePath;
+        candidates.push({ framePath, sourcePath, score: scoreFrameStats(await this.frameStats(framePath, signal)) });
+      } catch (error) {
+        throwIfAborted(signal);
+        logger.warn({ sourcePath, error: (error as Error).message }, 'Thumbnail candidate skipped');
+      }
+    }
+    return candidates;
+  }
+
+  /** The most representative frame around the first third of a clip (FFmpeg's `thumbnail` filter). */
+  private async extractFrame(videoPath: string, durationSeconds: number | undefined, outputPath: string, signal?: AbortSignal): Promise<string> {
+    const at = durationSeconds && durationSeconds > 0 ? durationSeconds / 3 : 0.5;
+    await execFileAsync(
+      'ffmpeg',
+      ['-ss', at.toFixed(2), '-i', videoPath, '-vf', 'thumbnail=60', '-frames:v', '1', '-q:v', '2', '-y', outputPath],
+      { signal }
+    );
+    return outputPath;
+  }
+
+  private async frameStats(imagePath: string, signal?: AbortSignal): Promise<FrameStats> {
+    const { stdout } = await execFileAsync(
+      'ffmpeg',
+      ['-i', imagePath, '-vf', 'scale=320:-2,signalstats,metadata=print:file=-', '-frames:v', '1', '-f', 'null', '-'],
+      { signal }
+    );
+    const value = (key: string) => {
+      const match = stdout.match(new RegExp(`lavfi\\.signalstats\\.${key}=([\\d.]+)`));
+      if (!match) throw new Error(`signalstats did not report ${key} for ${imagePath}`);
+      return parseFloat(match[1]);
+    };
+    return { brightness: value('YAVG'), contrast: value('YHIGH') - value('YLOW'), saturation: value('SATAVG') };
+  }
+
+  /** One variant: crop to 16:9, grade, text and logo; JPEG quality is lowered until it fits in 2 MB. */
+  private async render(
+    framePath: string,
+    outputPath: string,
+    gradeFilter: string,
+    template: ThumbnailTemplate | undefined,
+    title: string,
+    subtitle: string | undefined,
+    workDir: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const fontSize = template?.fontSize ?? 92;
+    const fontFile = template?.fontFile || (existsSync(DEFAULT_FONT) ? DEFAULT_FONT : undefined);
+    const textColor = template?.textColor ?? 'white';
+    const stroke = `:borderw=${template?.strokeWidth ?? 6}:bordercolor=${template?.strokeColor ?? 'black'}`;
+    const box = template?.boxColor
+      ? `:box=1:boxcolor=${template.boxColor}@${Math.max(0, Math.min(1, template.boxOpacity ?? 0.6))}:boxborderw=20`
+      : '';
+    const font = fontFile ? `:fontfile='${fontFile}'` : '';
+    const cased = (text: string) => (template?.uppercase ? text.toUpperCase() : text);
+
+    // Bold fonts average ~0.6 em per character; 64 px side margins.
+    const titleFile = path.join(workDir, `${path.basename(outputPath)}.title.txt`);
+    await writeFile(titleFile, wrapThumbnailText(cased(title), Math.floor((WIDTH - 128) / (fontSize * 0.6)), 3).join('\n'));
+    let graph =
+      `[0:v]scale=${WIDTH}:${HEIGHT}:force_original_aspect_ratio=increase,crop=${WIDTH}:${HEIGHT},setsar=1,${gradeFilter},` +
+      `drawtext=textfile='${titleFile}':expansion=none${font}:fontsize=${fontSize}:fontcolor=${textColor}${stroke}${box}` +
+      `:line_spacing=${Math.round(fontSize * 0.1)}:x=64:y=h-text_h-64`;
+
+    if (subtitle) {
+      const subtitleSize = Math.round(fontSize / 2);
+      const subtitleFile = path.join(workDir, `${path.basename(outputPath)}.subtitle.txt`);
+      await writeFile(subtitleFile, wrapThumbnailText(cased(subtitle), Math.floor((WIDTH - 128) / (subtitleSize * 0.6)), 1).join('\n'));
+      graph +=
+        `,drawtext=textfile='${subtitleFile}':expansion=none${font}:fontsize=${subtitleSize}` +
+        `:fontcolor=${template?.accentColor ?? textColor}${stroke}${box}:x=64:y=64`;
+    }
+
+    const inputs = ['-i', framePath];
+    if (template?.logoPath && existsSync(template.logoPath)) {
+      inputs.push('-i', template.logoPath);
+      graph += `[base];[1:v]scale=-1:96[logo];[base][logo]overlay=W-w-40:40[out]`;
+    } else {
+      graph += '[out]';
+    }
+
+    for (const quality of [2, 4, 7, 10]) {
+      await execFileAsync(
+        'ffmpeg',
+        [...inputs, '-filter_complex', graph, '-map', '[out]', '-frames:v', '1', '-q:v', String(quality), '-y', outputPath],
+        { signal }
+      );
+      const { size } = await stat(outputPath);
+      if (size <= MAX_THUMBNAIL_BYTES) return size;
+    }
+    throw new Error(`Thumbnail over 2 MB even at low quality: ${outputPath}`);
+  }
+}
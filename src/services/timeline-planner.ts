@@ -0,0 +1,486 @@
+import { Asset, Channel, VideoScript, VisualRequest } from '../types/index.js';
+import {
+  LibraryHitPrediction,
+  NarrationTiming,
+  TimelineBeatPlan,
+  TimelinePlan,
+  TimelinePlanOverrides
+} from '../types/timeline.js';
+import { ProjectManifest, projectTopic } from '../schemas/project-manifest.js';
+import { narrationTimingFor } from '../utils/narration.js';
+import { EnhancedVideoScript } from './script-generator.js';
+import { AssetLibrary } from './asset-library.js';
+import { VideoComposer } from './video-composer.js';
+
+/**
+ * Beat timeline for a script: what the pipeline asks the asset collector for,
+ * and (dry run) how the composer will render it.
+ */
+export class TimelinePlanner {
+  private library: AssetLibrary;
+  private composer: VideoComposer;
+
+  constructor(library: AssetLibrary = new AssetLibrary(), composer: VideoComposer = new VideoComposer()) {
+    this.library = library;
+    this.composer = composer;
+  }
+
+  /**
+   * Dry run: full beat plan with render durations, effects, transitions and
+   * library-hit predictions. Nothing is downloaded or rendered.
+   */
+  async plan(
+    channel: Channel,
+    topic: string,
+    script: VideoScript,
+    audioDuration: number,
+    overrides: TimelinePlanOverrides = {},
+    timing?: NarrationTiming
+  ): Promise<TimelinePlan> {
+    const requests = this.buildRequests(channel, topic, script, audioDuration, overrides, timing);
+    const preferLocal = this.library.isPreferLocalEnabled();
+    const usedLocalPaths = new Set<string>();
+    const usedLibraryIds = new Set<string>();
+
+    const beats: TimelineBeatPlan[] = [];
+    let startSeconds = 0;
+    for (let index = 0; index < requests.length; index++) {
+      const request = requests[index];
+      const style = this.composer.planSegmentStyle(index, request.durationSeconds, {
+        enhancedScript: script as EnhancedVideoScript,
+        enableVisualEffects: true
+      });
+      const library = preferLocal
+        ? await this.predictLibraryHit(request, usedLibraryIds, usedLocalPaths)
+        : { hit: false };
+
+      beats.push({
+        ...request,
+        index,
+        startSeconds: Math.round(startSeconds * 100) / 100,
+        renderSeconds: Math.round(style.targetDuration * 100) / 100,
+        effect: style.effect,
+        composerTransition: style.transition,
+        pacingFeel: style.pacing?.feel,
+        library
+      });
+      startSeconds += request.durationSeconds;
+    }
+
+    return {
+      channelId: channel.id,
+      topic,
+      audioDurationSeconds: audioDuration,
+      preferLocal,
+      beats,
+      summary: {
+        beatCount: beats.length,
+        averageBeatSeconds: beats.length ? Math.round((audioDuration / beats.length) * 100) / 100 : 0,
+        images: beats.filter(b => b.preferredType === 'image').length,
+        videos: beats.filter(b => b.preferredType === 'video').length,
+        uniqueQueries: new Set(beats.map(b => b.searchQuery)).size,
+        libraryHits: beats.filter(b => b.library.hit).length
+      }
+    };
+  }
+
+  /**
+   * Dry run of a saved project's collect stage: seeded with the project topic (not the script
+   * title) and the narration timing the pipeline uses, so the beats are the ones it collects.
+   */
+  async planProject(channel: Channel, manifest: ProjectManifest, script: VideoScript, audioDuration: number): Promise<TimelinePlan> {
+    return this.plan(
+      channel,
+      projectTopic(manifest),
+      script,
+      audioDuration,
+      manifest.visualOverrides,
+      narrationTimingFor(channel, script, audioDuration, manifest.narrationTiming)
+    );
+  }
+
+  /**
+   * Same lookup order as AssetCollector (never reuse within a video, video beats fall back to images).
+   * The collector's evergreen/episode ratio is not applied, so treat this as an estimate.
+   */
+  private async predictLibraryHit(
+    request: VisualRequest,
+    usedLibraryIds: Set<string>,
+    usedLocalPaths: Set<string>
+  ): Promise<LibraryHitPrediction> {
+    const find = (preferredType: VisualRequest['preferredType']) => this.library.findBestLocalAssets({
+      query: request.searchQuery,
+      preferredType,
+      count: 1,
+      channelId: request.channelId,
+      excludeIds: usedLibraryIds,
+      excludeLocalPaths: usedLocalPaths
+    });
+
+    let match = (await find(request.preferredType))[0];
+    if (!match && request.preferredType === 'video') {
+      match = (await find('image'))[0];
+    }
+    if (!match?.localPath) return { hit: false };
+
+    if (match.libraryId) usedLibraryIds.add(match.libraryId);
+    usedLocalPaths.add(match.localPath);
+    return { hit: true, libraryId: match.libraryId, localPath: match.localPath, type: match.type };
+  }
+
+  /**
+   * Split the narration into ~6–8s beats and pick a query, media type and transition for each.
+   * Deterministic for a given channel/topic/script, so a plan matches what the pipeline collects.
+   * With a `timing` map each segment gets the seconds it is actually spoken; without one
+   * (or when it doesn't cover every segment) the audio is split by word count.
+   */
+  buildRequests(
+    channel: Channel,
+    topic: string,
+    script: VideoScript,
+    audioDuration: number,
+    overrides: TimelinePlanOverrides = {},
+    timing?: NarrationTiming
+  ): VisualRequest[] {
+    // Beats timeline (indispensable): ~6–8s shots => docu monté (pas slideshow).
+    const pacing = channel.pacing || { minShotSeconds: 6, maxShotSeconds: 8 };
+
+    // Règle produit: plans ~6–8s pour un montage “docu” (même si un channel préfère plus rapide).
+    const minBeat = Math.max(6, pacing.minShotSeconds);
+    const maxBeat = Math.max(minBeat, Math.min(8, pacing.maxShotSeconds));
+
+    // Majoritairement images animées + quelques clips.
+    const baseMix = channel.visualMix || { image: 0.85, video: 0.15 };
+    const visualMix = overrides.forceImagesOnly
+      ? { image: 1, video: 0 }
+      : baseMix;
+
+    const rng = this.mulberry32(this.hashStringToSeed(`${channel.id}:${topic}:${script.title}`));
+
+    const stingText = channel.branding?.stingText?.replace('{ChannelName}', channel.name)?.trim();
+    const softCtaText = channel.branding?.softCtaText?.trim();
+    const outroTeaserText = channel.branding?.outroTeaserText?.trim();
+    const finalCtaText = channel.branding?.finalCtaText?.trim();
+
+    const stingQuery = channel.id === 'classified-files'
+      ? 'classified dossier files archive evidence'
+      : channel.id === 'human-odyssey'
+        ? 'ancient map parchment artifact archaeology'
+        : 'futuristic interface hologram abstract technology';
+
+    const outroQuery = channel.id === 'classified-files'
+      ? 'surveillance camera night city evidence board'
+      : channel.id === 'human-odyssey'
+        ? 'cinematic landscape ruins sunset ancient civilization'
+        : 'space galaxy futuristic city night cinematic';
+
+    type Segment = {
+      label: string;
+      text: string;
+      baseQuery: string;
+      transition?: VisualRequest['transition'];
+      forceType?: VisualRequest['preferredType'];
+    };
+
+    const segments: Segment[] = [];
+
+    // Hook first (7–8s typiquement)
+    segments.push({
+      label: 'hook',
+      text: script.hook || topic,
+      baseQuery: script.sections[0]?.searchQuery || topic,
+      transition: 'fade'
+    });
+
+    // Branding sting text exists in narration; give it a dedicated segment to avoid jarring visuals.
+    if (stingText) {
+      segments.push({
+        label: 'sting',
+        text: stingText,
+        baseQuery: stingQuery,
+        transition: 'fade',
+        forceType: 'image'
+      });
+    }
+
+    // Sections: base is section.searchQuery
+    script.sections.forEach((section, idx) => {
+      segments.push({
+        label: `section-${idx + 1}`,
+        text: section.narration,
+        baseQuery: section.searchQuery || topic,
+        transition: section.transition
+      });
+
+      // Soft CTA is injected after first section in narration; allocate a small segment so the timeline matches audio better.
+      if (idx === 0 && softCtaText) {
+        segments.push({
+          label: 'soft-cta',
+          text: softCtaText,
+          baseQuery: section.searchQuery || topic,
+          transition: section.transition,
+          forceType: 'image'
+        });
+      }
+    });
+
+    // Conclusion
+    segments.push({
+      label: 'conclusion',
+      text: script.conclusion || '',
+      baseQuery: `${topic} legacy aftermath`.
+        replace(/\s+/g, ' ')
+        .trim(),
+      transition: 'dissolve'
+    });
+
+    if (outroTeaserText) {
+      segments.push({
+        label: 'outro-teaser',
+        text: outroTeaserText,
+        baseQuery: outroQuery,
+        transition: 'fade',
+        forceType: 'image'
+      });
+    }
+
+    if (finalCtaText) {
+      segments.push({
+        label: 'final-cta',
+        text: finalCtaText,
+        baseQuery: outroQuery,
+        transition: 'fade',
+        forceType: 'image'
+      });
+    }
+
+    const weights = segments.map(s => Math.max(1, this.wordCount(s.text)));
+    const totalWeight = Math.max(1, weights.reduce((a, b) => a + b, 0));
+    const spoken = new Map((timing || []).map((t) => [t.key, t.durationSeconds]));
+    const timed = segments.every((s) => spoken.has(s.label));
+
+    const requests: VisualRequest[] = [];
+    let lastQuery: string | null = null;
+
+    const pickType = (forceType?: VisualRequest['preferredType']): VisualRequest['preferredType'] => {
+      if (forceType) return forceType;
+      if (overrides.forceImagesOnly) return 'image';
+      return rng() < visualMix.video ? 'video' : 'image';
+    };
+
+    const pickBeatDuration = (remaining: number): number => {
+      if (remaining <= 0.2) return remaining;
+      // If the remaining time is small, don't force a 6s+ beat.
+      if (remaining < minBeat * 0.75) return remaining;
+
+      const raw = minBeat + (maxBeat - minBeat) * rng();
+      return Math.min(remaining, Math.max(minBeat, Math.min(maxBeat, raw)));
+    };
+
+    const pickQueryFromPalette = (
+      baseQuery: string,
+      theme: Channel['style']['theme'],
+      preferredType: VisualRequest['preferredType'],
+      beatIndex: number
+    ): string => {
+      const palette = this.buildBeatQueryPalette(baseQuery, theme, preferredType);
+      if (palette.length === 0) return baseQuery;
+      // Rotate deterministically to keep caching effective (few unique queries per segment).
+      let q = palette[beatIndex % palette.length];
+      if (lastQuery && q === lastQuery && palette.length > 1) {
+        q = palette[(beatIndex + 1) % palette.length];
+      }
+      lastQuery = q;
+      return q;
+    };
+
+    segments.forEach((seg, segIdx) => {
+      const segSeconds = timed
+        ? (spoken.get(seg.label) as number)
+        : (weights[segIdx] / totalWeight) * audioDuration;
+      let remaining = segSeconds;
+      let beat = 0;
+
+      while (remaining > 0.05) {
+        beat += 1;
+        const dur = pickBeatDuration(remaining);
+        remaining -= dur;
+
+        const preferredType = pickType(seg.forceType);
+        const searchQuery = pickQueryFromPalette(seg.baseQuery, channel.style.theme, preferredType, beat - 1);
+
+        requests.push({
+          label: `${seg.label}-beat-${beat}`,
+          preferredType,
+          durationSeconds: Math.max(0.1, dur),
+          transition: seg.transition,
+          searchQuery,
+          channelId: channel.id
+        });
+      }
+    });
+
+    // If requested, ensure we hit a minimum number of video beats.
+    const minClips = Math.max(0, Math.floor(overrides.minClipsRequested || 0));
+    if (!overrides.forceImagesOnly && minClips > 0) {
+      const videoEligible = requests
+        .map((r, idx) => ({ r, idx }))
+        .filter(({ r }) => r.preferredType !== 'video');
+
+      let currentVideos = requests.filter(r => r.preferredType === 'video').length;
+      while (currentVideos < minClips && videoEligible.length > 0) {
+        // deterministic pick to keep results stable
+        const pickIdx = Math.floor(rng() * videoEligible.length);
+        const { idx } = videoEligible.splice(pickIdx, 1)[0];
+        requests[idx] = { ...requests[idx], preferredType: 'video' };
+        currentVideos++;
+      }
+    }
+
+    // Ensure the visual timeline is never shorter than audio (composer enforces too).
+    const sum = requests.reduce((s, r) => s + r.durationSeconds, 0);
+    if (sum + 0.05 < audioDuration) {
+      requests[requests.length - 1].durationSeconds += (audioDuration - sum);
+    }
+
+    return requests;
+  }
+
+  private buildBeatQueryPalette(
+    baseQuery: string,
+    theme: Channel['style']['theme'],
+    preferredType: VisualRequest['preferredType']
+  ): string[] {
+    const base = (baseQuery || '').trim();
+    if (!base) return [];
+
+    // Keep palettes small to preserve Pexels caching (avoid 80 unique queries).
+    if (theme === 'historical') {
+      if (preferredType === 'video') {
+        return [
+          base,
+          `${base} archival footage`,
+          `${base} cinematic b-roll`
+        ];
+      }
+      return [
+        base,
+        `${base} archival photo`,
+        `${base} old map`
+      ];
+    }
+
+    if (theme === 'mysterious') {
+      if (preferredType === 'video') {
+        return [
+          base,
+          `${base} surveillance footage`,
+          `${base} night b-roll`
+        ];
+      }
+      return [
+        base,
+        `${base} evidence board`,
+        `${base} classified document`
+      ];
+    }
+
+    // sci-fi
+    if (preferredType === 'video') {
+      return [
+        base,
+        `${base} cinematic b-roll`,
+        `${base} futuristic city`
+      ];
+    }
+    return [
+      base,
+      `${base} futuristic interface`,
+      `${base} hologram`
+    ];
+  }
+
+  private wordCount(text: string): number {
+    return (text || '').trim().split(/\s+/).filter(Boolean).length;
+  }
+
+  private hashStringToSeed(input: string): number {
+    let h = 2166136261;
+    for (let i = 0; i < input.length; i++) {
+      h ^= input.charCodeAt(i);
+      h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+  }
+
+  private mulberry32(seed: number): () => number {
+    let t = seed >>> 0;
+    return () => {
+      t += 0x6D2B79F5;
+      let x = t;
+      x = Math.imul(x ^ (x >>> 15), x | 1);
+      x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+      return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+/** Narration segment a beat belongs to: `section-2-beat-3` → `section-2`. */
+export function beatSegment(label?: string): string {
+  return (label || '').replace(/-beat-\d+$/, '');
+}
+
+/**
+ * Put the previous beats of unchanged segments, with their assets, into a new plan.
+ * `reuse` maps new segment labels to previous ones; `previousAssets` is index-aligned
+ * with `previousRequests`. Reused beats are stretched to the segment's new length so the
+ * timeline still matches the narration. Beats returned without an asset must be collected.
+ */
+export function spliceReusedBeats(
+  requests: VisualRequest[],
+  previousRequests: VisualRequest[],
+  previousAssets: Asset[],
+  reuse: Record<string, string>
+): { requests: VisualRequest[]; assets: Array<Asset | undefined> } {
+  const previousBySegment = new Map<string, Array<{ request: VisualRequest; asset?: Asset }>>();
+  previousRequests.forEach((request, idx) => {
+    const segment = beatSegment(request.label);
+    const beats = previousBySegment.get(segment) || [];
+    beats.push({ request, asset: previousAssets[idx] });
+    previousBySegment.set(segment, beats);
+  });
+
+  // New beats grouped by segment, in timeline order.
+  const groups: Array<{ segment: string; requests: VisualRequest[] }> = [];
+  for (const request of requests) {
+    const segment = beatSegment(request.label);
+    const last = groups[groups.length - 1];
+    if (last && last.segment === segment) last.requests.push(request);
+    else groups.push({ segment, requests: [request] });
+  }
+
+  const merged: VisualRequest[] = [];
+  const assets: Array<Asset | undefined> = [];
+  for (const group of groups) {
+    const previous = reuse[group.segment] ? previousBySegment.get(reuse[group.segment]) : undefined;
+    const reusable = !!previous && previous.every((beat) => beat.asset);
+    if (!previous || !reusable) {
+      merged.push(...group.requests);
+      group.requests.forEach(() => assets.push(undefined));
+      continue;
+    }
+
+    const seconds = group.requests.reduce((sum, r) => sum + r.durationSeconds, 0);
+    const previousSeconds = previous.reduce((sum, beat) => sum + beat.request.durationSeconds, 0);
+    const scale = previousSeconds > 0 ? seconds / previousSeconds : 1;
+    previous.forEach((beat, idx) => {
+      const durationSeconds = Math.max(0.1, beat.request.durationSeconds * scale);
+      merged.push({ ...beat.request, label: `${group.segment}-beat-${idx + 1}`, durationSeconds });
+      assets.push({ ...(beat.asset as Asset), duration: durationSeconds });
+    });
+    // A previous segment is spliced in once.
+    previousBySegment.delete(reuse[group.segment]);
+  }
+
+  return { requests: merged, assets };
+}
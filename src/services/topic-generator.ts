@@ -1,6 +1,7 @@
-import OpenAI from 'openai';
 import { Channel } from '../types/index.js';
 import logger from '../utils/logger.js';
+import { LlmClient } from './llm-client.js';
+import { channelPromptVariables, getPromptPack, renderPrompt } from '../config/prompt-packs.js';
 
 export interface TopicSuggestion {
   topic: string;
@@ -11,15 +12,7 @@ export interface TopicSuggestion {
 }
 
 export class TopicGenerator {
-  private client: OpenAI;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    this.client = new OpenAI({ apiKey });
-  }
+  constructor(private llm: LlmClient = new LlmClient()) {}
 
   /**
    * Génère automatiquement un sujet pertinent pour une chaîne
@@ -30,25 +23,21 @@ export class TopicGenerator {
     const prompt = this.buildTopicPrompt(channel, previousTopics);
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const response = await this.llm.complete('topic', {
+        channel,
         messages: [
           {
             role: 'system',
-            content: `Tu es un expert en création de contenu YouTube. 
-Tu génères des sujets captivants, optimisés pour le référencement et l'engagement.
-Réponds UNIQUEMENT avec le sujet, sans explication supplémentaire.`
+            content: renderPrompt(getPromptPack(channel).topic.system, channelPromptVariables(channel))
           },
           {
             role: 'user',
             content: prompt
           }
-        ],
-        temperature: 0.9,
-        max_tokens: 100
+        ]
       });
 
-      const topic = response.choices[0]?.message?.content?.trim() || '';
+      const topic = response.content.trim();
       
       if (!topic) {
         throw new Error('Aucun sujet généré');
@@ -76,27 +65,20 @@ Réponds UNIQUEMENT avec le sujet, sans explication supplémentaire.`
     const prompt = this.buildSuggestionsPrompt(channel, count, previousTopics);
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4o',
+      const suggestions = await this.llm.completeJson<{ topics?: TopicSuggestion[] }>('topic-suggestions', {
+        channel,
         messages: [
           {
             role: 'system',
-            content: `Tu es un expert en stratégie de contenu YouTube.
-Tu génères des suggestions de sujets avec analyse de potentiel viral et SEO.
-Réponds UNIQUEMENT en JSON valide.`
+            content: renderPrompt(getPromptPack(channel).topic.suggestionsSystem, channelPromptVariables(channel))
           },
           {
             role: 'user',
             content: prompt
           }
-        ],
-        temperature: 0.8,
-        response_format: { type: 'json_object' }
+        ]
       });
 
-      const content = response.choices[0]?.message?.content || '{}';
-      const suggestions = JSON.parse(content);
-      
       return suggestions.topics || [];
     } catch (error) {
       logger.error({ error, channelId: channel.id }, 'Erreur lors de la génération des suggestions');
@@ -109,6 +91,10 @@ Réponds UNIQUEMENT en JSON valide.`
       ? `\n\nSUJETS DÉJÀ TRAITÉS (à éviter) :\n${previousTopics.slice(-10).map(t => `- ${t}`).join('\n')}`
       : '';
 
+    const criteria = getPromptPack(channel).topic.criteria
+      .map((criterion, idx) => `${idx + 1}. ${renderPrompt(criterion, channelPromptVariables(channel))}`)
+      .join('\n');
+
     return `Génère UN sujet captivant pour une vidéo YouTube.
 
 CHAÎNE : "${channel.name}"
@@ -117,12 +103,7 @@ DESCRIPTION : ${channel.description}
 ${avoid}
 
 CRITÈRES :
-1. Intrigant et accrocheur ("What if...", "Et si...", "The Mystery of...")
-2. Optimisé SEO (mots-clés tendances)
-3. Potentiel viral élevé
-4. Aligné avec le thème de la chaîne
-5. Unique et original
-6. En ANGLAIS (pour audience internationale)
+${criteria}
 
 Réponds UNIQUEMENT avec le sujet, sans guillemets ni explications.`;
   }
@@ -1,6 +1,6 @@
 import ffmpeg from 'fluent-ffmpeg';
 import { Asset, Channel, VideoScript } from '../types/index.js';
-import { mkdir } from 'fs/promises';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { promisify } from 'util';
 import { execFile, spawn } from 'child_process';
@@ -10,11 +10,43 @@ import { SoundDesignManager, SFXCue } from './sound-design-manager.js';
 import { DynamicPacingEngine, ShotTiming, PacingContext } from './dynamic-pacing-engine.js';
 import { ContentType, EmotionalTone, EnhancedSection, EnhancedVideoScript } from './script-generator.js';
 import logger from '../utils/logger.js';
+import { cancelledError, killOnAbort, throwIfAborted } from '../utils/abort.js';
+import { NarrationTiming } from '../types/timeline.js';
+import { BurnedCaptions } from '../types/subtitles.js';
+import { buildAssCaptions } from './burned-captions.js';
+import { wordsFromCueFile } from '../utils/word-timings.js';
 
 const execFileAsync = promisify(execFile);
 
+/** Seconds from the last `time=HH:MM:SS.xx` status in FFmpeg stderr output, or null. */
+export function parseLastFfmpegTime(output: string): number | null {
+  const matches = [...output.matchAll(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  return parseInt(last[1], 10) * 3600 + parseInt(last[2], 10) * 60 + parseFloat(last[3]);
+}
+
+export interface VideoResolution {
+  width: number;
+  height: number;
+}
+
+export const LANDSCAPE_RESOLUTION: VideoResolution = { width: 1920, height: 1080 };
+/** YouTube Shorts (9:16). */
+export const VERTICAL_RESOLUTION: VideoResolution = { width: 1080, height: 1920 };
+
+/** Screen time of an asset without a planned duration. */
+export const DEFAULT_ASSET_SECONDS = 6.5;
+
 export interface ComposeOptions {
   channel?: Channel;
+  /** Output frame size (default 1920x1080). */
+  resolution?: VideoResolution;
+  /**
+   * How sources with another aspect ratio fill the frame: `crop` (default) scales up and
+   * center-crops; `blur_fill` fits the whole source over a blurred, cropped copy of itself.
+   */
+  reframe?: 'crop' | 'blur_fill';
   /** Strategy when a video file is shorter than its target segment duration. */
   shortVideoStrategy?: 'loop' | 'extend_last_frame';
   /** Enable background music mixing */
@@ -31,6 +63,16 @@ export interface ComposeOptions {
   musicVolume?: number;
   /** Use enhanced script data for pacing/effects */
   enhancedScript?: EnhancedVideoScript;
+  /** When each narration segment is spoken: the branding overlays follow the speech instead of `branding.overlay` times. */
+  narrationTiming?: NarrationTiming;
+  /** SRT/WebVTT file muxed into the MP4 as a soft subtitle track. */
+  subtitlesPath?: string;
+  /** Captions burned into the frames, styled by the channel's `branding.overlayStyle.captions`. */
+  captions?: BurnedCaptions;
+  /** Aborting kills the running FFmpeg render */
+  signal?: AbortSignal;
+  /** Render progress (0-100), parsed from FFmpeg `time=` output */
+  onProgress?: (percent: number) => void;
 }
 
 interface SegmentMeta {
@@ -81,7 +123,9 @@ export class VideoComposer {
         enableMusic: options.enableMusic,
         enableSFX: options.enableSFX,
         enableVisualEffects: options.enableVisualEffects,
-        enableColorGrading: options.enableColorGrading
+        enableColorGrading: options.enableColorGrading,
+        resolution: options.resolution,
+        reframe: options.reframe
       }
     }, 'Starting enhanced video composition');
 
@@ -127,15 +171,45 @@ export class VideoComposer {
       logger.info({ sfxCount: sfxCues.length }, 'Generated SFX cues');
     }
 
+    const captionsPath = await this.writeCaptions(outputPath, options);
+
     // Build and execute FFmpeg command
-    return this.executeFFmpeg(
-      segments,
-      audioInputs,
-      sfxCues,
-      audioDuration,
-      outputPath,
-      options
-    );
+    throwIfAborted(options.signal);
+    try {
+      return await this.executeFFmpeg(
+        segments,
+        audioInputs,
+        sfxCues,
+        audioDuration,
+        outputPath,
+        options,
+        captionsPath
+      );
+    } finally {
+      if (captionsPath) await rm(captionsPath, { force: true });
+    }
+  }
+
+  /** ASS script for `options.captions`, written next to the output; undefined when there is nothing to burn. */
+  private async writeCaptions(outputPath: string, options: ComposeOptions): Promise<string | undefined> {
+    const captions = options.captions;
+    if (!captions) return undefined;
+
+    let words = captions.words;
+    if (!words?.length && captions.srtPath && existsSync(captions.srtPath)) {
+      words = wordsFromCueFile(await readFile(captions.srtPath, 'utf-8'));
+    }
+    if (!words?.length) {
+      logger.warn({ outputPath }, 'No word timings for burned captions, rendering without them');
+      return undefined;
+    }
+
+    const { width, height } = options.resolution || LANDSCAPE_RESOLUTION;
+    const captionsPath = outputPath.replace(/\.mp4$/, '') + '.captions.ass';
+    const style = options.channel?.branding?.overlayStyle?.captions;
+    await writeFile(captionsPath, buildAssCaptions(words, captions.mode, style, width, height));
+    logger.info({ captionsPath, mode: captions.mode, words: words.length }, 'Burned captions prepared');
+    return captionsPath;
   }
 
   private async prepareSegments(
@@ -144,11 +218,6 @@ export class VideoComposer {
     audioDuration: number
   ): Promise<SegmentMeta[]> {
     const fps = 30;
-    const enhancedScript = options.enhancedScript;
-    const channel = options.channel;
-
-    // Get channel theme for visual effects
-    const theme = channel?.style?.theme || 'sci-fi';
 
     const segmentPromises = assets.map(async (asset, index) => {
       const localPath = asset.localPath as string;
@@ -158,56 +227,14 @@ export class VideoComposer {
 
       if (asset.type === 'video') {
         mediaDuration = await this.getMediaDurationSeconds(localPath);
-        const target = asset.duration || 6.5;
+        const target = asset.duration || DEFAULT_ASSET_SECONDS;
         isShort = !Number.isFinite(mediaDuration) || mediaDuration <= 0 || target > mediaDuration + 0.1;
         sourceFrames = Number.isFinite(mediaDuration) && mediaDuration > 0
           ? Math.max(1, Math.floor(mediaDuration * fps))
           : 1;
       }
 
-      // Get enhanced section data if available
-      const section = enhancedScript?.sections[index] as EnhancedSection | undefined;
-
-      // Calculate dynamic pacing if enhanced script available
-      let pacing: ShotTiming | undefined;
-      let targetDuration = asset.duration || 6.5;
-
-      if (section && enhancedScript) {
-        const pacingContext: PacingContext = {
-          contentType: section.contentType || 'exposition',
-          emotionalTone: section.emotionalTone || 'curiosity',
-          emotionalIntensity: this.getIntensityForSection(index, enhancedScript),
-          act: section.act || 1,
-          narrationDuration: section.duration || 60,
-          isClimaxSection: index === enhancedScript.threeActStructure?.climaxSection,
-          isMicroHook: section.isMicroHook || false
-        };
-
-        pacing = this.pacingEngine.calculateShotTiming(pacingContext);
-        // Use pacing-derived duration, but don't exceed section duration
-        targetDuration = Math.min(pacing.duration, section.duration || 60);
-      }
-
-      // Select visual effect based on content and pacing
-      let effect: VisualEffect = 'ken_burns_zoom_in';
-      if (options.enableVisualEffects && section) {
-        effect = this.visualEffects.selectEffect(
-          section.contentType || 'exposition'
-        );
-      }
-
-      // Select transition based on pacing feel
-      let transition: TransitionType = 'fade';
-      if (pacing) {
-        const suggestedTransitions: Record<ShotTiming['feel'], TransitionType> = {
-          rapid: 'wipe_left',
-          quick: 'dissolve',
-          moderate: 'fade',
-          slow: 'dissolve',
-          contemplative: 'dip_to_black'
-        };
-        transition = suggestedTransitions[pacing.feel];
-      }
+      const { targetDuration, effect, transition, section, pacing } = this.planSegmentStyle(index, asset.duration || DEFAULT_ASSET_SECONDS, options);
 
       return {
         localPath,
@@ -227,6 +254,65 @@ export class VideoComposer {
     return Promise.all(segmentPromises);
   }
 
+  /**
+   * Duration, effect and transition the composer applies to the segment at `index`.
+   * Enhanced script sections drive pacing for the first segments; the rest keep
+   * their planned duration with a Ken Burns zoom and a fade.
+   * Effects are drawn at random from the content-type pool, so two calls may differ.
+   */
+  planSegmentStyle(
+    index: number,
+    plannedDuration: number,
+    options: Pick<ComposeOptions, 'enhancedScript' | 'enableVisualEffects'>
+  ): { targetDuration: number; effect: VisualEffect; transition: TransitionType; section?: EnhancedSection; pacing?: ShotTiming } {
+    const enhancedScript = options.enhancedScript;
+    // Get enhanced section data if available
+    const section = enhancedScript?.sections[index] as EnhancedSection | undefined;
+
+    // Calculate dynamic pacing if enhanced script available
+    let pacing: ShotTiming | undefined;
+    let targetDuration = plannedDuration;
+
+    if (section && enhancedScript) {
+      const pacingContext: PacingContext = {
+        contentType: section.contentType || 'exposition',
+        emotionalTone: section.emotionalTone || 'curiosity',
+        emotionalIntensity: this.getIntensityForSection(index, enhancedScript),
+        act: section.act || 1,
+        narrationDuration: section.duration || 60,
+        isClimaxSection: index === enhancedScript.threeActStructure?.climaxSection,
+        isMicroHook: section.isMicroHook || false
+      };
+
+      pacing = this.pacingEngine.calculateShotTiming(pacingContext);
+      // Use pacing-derived duration, but don't exceed section duration
+      targetDuration = Math.min(pacing.duration, section.duration || 60);
+    }
+
+    // Select visual effect based on content and pacing
+    let effect: VisualEffect = 'ken_burns_zoom_in';
+    if (options.enableVisualEffects && section) {
+      effect = this.visualEffects.selectEffect(
+        section.contentType || 'exposition'
+      );
+    }
+
+    // Select transition based on pacing feel
+    let transition: TransitionType = 'fade';
+    if (pacing) {
+      const suggestedTransitions: Record<ShotTiming['feel'], TransitionType> = {
+        rapid: 'wipe_left',
+        quick: 'dissolve',
+        moderate: 'fade',
+        slow: 'dissolve',
+        contemplative: 'dip_to_black'
+      };
+      transition = suggestedTransitions[pacing.feel];
+    }
+
+    return { targetDuration, effect, transition, section, pacing };
+  }
+
   private getIntensityForSection(index: number, script: EnhancedVideoScript): number {
     const emotionalArc = script.emotionalArc || [];
     if (emotionalArc.length === 0) return 5;
@@ -288,12 +374,12 @@ export class VideoComposer {
     sfxCues: SFXCue[],
     audioDuration: number,
     outputPath: string,
-    options: ComposeOptions
+    options: ComposeOptions,
+    captionsPath?: string
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       const fps = 30;
-      const width = 1920;
-      const height = 1080;
+      const { width, height } = options.resolution || LANDSCAPE_RESOLUTION;
 
       // Build FFmpeg command with complex filter
       const args: string[] = [];
@@ -313,6 +399,13 @@ export class VideoComposer {
         musicInputIndex = segments.length + 1;
       }
 
+      // Soft subtitle track (players and YouTube can switch it on/off)
+      const subtitlesPath = options.subtitlesPath && existsSync(options.subtitlesPath) ? options.subtitlesPath : undefined;
+      const subtitlesInputIndex = subtitlesPath ? segments.length + (musicInputIndex >= 0 ? 2 : 1) : -1;
+      if (subtitlesPath) {
+        args.push('-i', subtitlesPath);
+      }
+
       // Build complex filter
       const filters = this.buildEnhancedFilters(
         segments,
@@ -322,7 +415,8 @@ export class VideoComposer {
         options,
         fps,
         width,
-        height
+        height,
+        captionsPath
       );
 
       args.push('-filter_complex', filters.join(';'));
@@ -330,6 +424,9 @@ export class VideoComposer {
       // Output mapping
       args.push('-map', '[outv]');
       args.push('-map', '[outa]');
+      if (subtitlesInputIndex >= 0) {
+        args.push('-map', `${subtitlesInputIndex}:s`, '-c:s', 'mov_text');
+      }
 
       // Output settings
       args.push(
@@ -352,25 +449,33 @@ export class VideoComposer {
       const ffmpegProcess = spawn('ffmpeg', args, {
         stdio: ['pipe', 'pipe', 'pipe']
       });
+      const disposeAbort = killOnAbort(ffmpegProcess, options.signal);
 
       let stderr = '';
+      let lastReported = -1;
 
       ffmpegProcess.stderr?.on('data', (data) => {
-        stderr += data.toString();
-        // Parse progress
-        const timeMatch = stderr.match(/time=(\d{2}):(\d{2}):(\d{2})/);
-        if (timeMatch) {
-          const hours = parseInt(timeMatch[1]);
-          const minutes = parseInt(timeMatch[2]);
-          const seconds = parseInt(timeMatch[3]);
-          const currentTime = hours * 3600 + minutes * 60 + seconds;
+        const chunk = data.toString();
+        stderr += chunk;
+        // Parse progress from the latest status line of this chunk
+        const currentTime = parseLastFfmpegTime(chunk);
+        if (currentTime !== null) {
           const percent = Math.min(100, (currentTime / audioDuration) * 100);
           logger.debug({ percent: percent.toFixed(1) }, 'Rendering progress');
+          if (Math.floor(percent) > lastReported) {
+            lastReported = Math.floor(percent);
+            options.onProgress?.(percent);
+          }
         }
       });
 
       ffmpegProcess.on('close', (code) => {
-        if (code === 0) {
+        disposeAbort();
+        if (options.signal?.aborted) {
+          logger.info({ outputPath }, 'FFmpeg render cancelled');
+          reject(cancelledError());
+        } else if (code === 0) {
+          options.onProgress?.(100);
           logger.info({ outputPath }, 'Video composition complete');
           resolve(outputPath);
         } else {
@@ -380,6 +485,7 @@ export class VideoComposer {
       });
 
       ffmpegProcess.on('error', (err) => {
+        disposeAbort();
         logger.error({ error: err.message }, 'FFmpeg spawn error');
         reject(err);
       });
@@ -394,7 +500,8 @@ export class VideoComposer {
     options: ComposeOptions,
     fps: number,
     width: number,
-    height: number
+    height: number,
+    captionsPath?: string
   ): string[] {
     const filters: string[] = [];
     const fadeSeconds = 0.5;
@@ -413,7 +520,16 @@ export class VideoComposer {
       const fadeOutStart = Math.max(0, dur - fadeSeconds);
 
       // Base scaling and crop
-      let filter = `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+      let filter: string;
+      if (options.reframe === 'blur_fill') {
+        filter =
+          `[${index}:v]split=2[bg${index}][fg${index}];` +
+          `[bg${index}]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[bgb${index}];` +
+          `[fg${index}]scale=${width}:${height}:force_original_aspect_ratio=decrease[fgs${index}];` +
+          `[bgb${index}][fgs${index}]overlay=(W-w)/2:(H-h)/2,setsar=1`;
+      } else {
+        filter = `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+      }
 
       if (segment.type === 'image') {
         // Get effect intensity based on pacing
@@ -482,12 +598,18 @@ export class VideoComposer {
     if (brand?.overlay) {
       const stingText = brand.stingText.replace('{ChannelName}', channel?.name || '');
       const softCtaText = brand.softCtaText;
-      const stingStart = brand.overlay.stingStartSeconds;
-      const stingEnd = brand.overlay.stingStartSeconds + brand.overlay.stingDurationSeconds;
-      const ctaStart = brand.overlay.softCtaStartSeconds;
-      const ctaEnd = brand.overlay.softCtaStartSeconds + brand.overlay.softCtaDurationSeconds;
-
-      const finalCtaStart = Math.max(0, audioDuration - 10);
+      const spoken = (key: string) => options.narrationTiming?.find((t) => t.key === key);
+      const sting = spoken('sting');
+      const softCta = spoken('soft-cta');
+      const finalCta = spoken('final-cta');
+
+      // Shown while the line is spoken, and at least for the configured duration.
+      const stingStart = sting ? sting.startSeconds : brand.overlay.stingStartSeconds;
+      const stingEnd = stingStart + Math.max(brand.overlay.stingDurationSeconds, sting?.durationSeconds || 0);
+      const ctaStart = softCta ? softCta.startSeconds : brand.overlay.softCtaStartSeconds;
+      const ctaEnd = ctaStart + Math.max(brand.overlay.softCtaDurationSeconds, softCta?.durationSeconds || 0);
+
+      const finalCtaStart = finalCta ? Math.min(finalCta.startSeconds, Math.max(0, audioDuration - 3)) : Math.max(0, audioDuration - 10);
       const finalCtaEnd = audioDuration;
       const finalCtaText = brand.finalCtaText;
 
@@ -498,16 +620,26 @@ export class VideoComposer {
       const boxOpacity = Math.max(0, Math.min(1, style?.boxOpacity ?? 0.45));
       const boxBorderW = Math.max(0, Math.min(40, style?.boxBorderW ?? 18));
 
-      const drawCommon = `:x=(w-text_w)/2:y=h-(text_h*2.2):fontsize=${fontSize}:fontcolor=${fontColor}:box=1:boxcolor=${boxColor}@${boxOpacity}:boxborderw=${boxBorderW}`;
+      // Bottom captions push the branding overlays to the top of the frame.
+      const captionsAtBottom = !!captionsPath && (brand.overlayStyle?.captions?.position ?? 'bottom') === 'bottom';
+      const overlayY = captionsAtBottom ? 'text_h*2.2' : 'h-(text_h*2.2)';
+      const drawCommon = `:x=(w-text_w)/2:y=${overlayY}:fontsize=${fontSize}:fontcolor=${fontColor}:box=1:boxcolor=${boxColor}@${boxOpacity}:boxborderw=${boxBorderW}`;
 
       filters.push(
         `[vt]` +
         `drawtext=text='${this.escapeDrawtext(stingText)}'${fontfile}${drawCommon}:enable='between(t,${stingStart.toFixed(2)},${stingEnd.toFixed(2)})',` +
         `drawtext=text='${this.escapeDrawtext(softCtaText)}'${fontfile}${drawCommon}:enable='between(t,${ctaStart.toFixed(2)},${ctaEnd.toFixed(2)})',` +
-        `drawtext=text='${this.escapeDrawtext(finalCtaText)}'${fontfile}${drawCommon}:enable='between(t,${finalCtaStart.toFixed(2)},${finalCtaEnd.toFixed(2)})'[outv]`
+        `drawtext=text='${this.escapeDrawtext(finalCtaText)}'${fontfile}${drawCommon}:enable='between(t,${finalCtaStart.toFixed(2)},${finalCtaEnd.toFixed(2)})'[vb]`
       );
     } else {
-      filters.push(`[vt]copy[outv]`);
+      filters.push(`[vt]copy[vb]`);
+    }
+
+    // Burned-in captions, drawn over everything else
+    if (captionsPath) {
+      filters.push(`[vb]subtitles=filename='${this.escapeFilterPath(captionsPath)}'[outv]`);
+    } else {
+      filters.push(`[vb]copy[outv]`);
     }
 
     // Build audio filters
@@ -583,6 +715,11 @@ export class VideoComposer {
       .replace(/\}/g, '\\}');
   }
 
+  /** A path inside a single-quoted filter option: only a quote needs escaping (close, escaped quote, reopen). */
+  private escapeFilterPath(filePath: string): string {
+    return filePath.replace(/'/g, "'\\''");
+  }
+
   private mapContentTypeToSFXType(contentType?: ContentType): 'hook' | 'section' | 'reveal' | 'conclusion' {
     if (!contentType) return 'section';
     switch (contentType) {
@@ -1,8 +1,12 @@
 import { ScheduledVideo } from '../types/scheduler.js';
 import { SchedulerDatabase } from './scheduler-db.js';
-import { FullVideoPipeline } from '../workflows/full-video-pipeline.js';
-import { YouTubeMetadataGenerator } from './youtube-metadata-generator.js';
-import { TopicGenerator } from './topic-generator.js';
+import { GenerationJobQueue } from './job-queue.js';
+import { CostTracker } from './cost-tracker.js';
+import { ChapterGenerator } from './chapter-generator.js';
+import { ThumbnailGenerator } from './thumbnail-generator.js';
+import { GenerationJob } from '../types/job-queue.js';
+import { MetadataProvider, Providers, TopicProvider } from '../types/providers.js';
+import { createProviders } from '../providers/index.js';
 import { channels } from '../config/channels.js';
 import { readFile } from 'fs/promises';
 import { VideoScript } from '../types/index.js';
@@ -10,16 +14,36 @@ import logger from '../utils/logger.js';
 
 export class VideoScheduler {
   private db: SchedulerDatabase;
-  private pipeline: FullVideoPipeline;
-  private metadataGenerator: YouTubeMetadataGenerator;
-  private topicGenerator: TopicGenerator;
+  private queue: GenerationJobQueue;
+  private metadataGenerator: MetadataProvider;
+  private topicGenerator: TopicProvider;
+  private costTracker: CostTracker;
+  private chapterGenerator: ChapterGenerator;
+  private thumbnailGenerator: ThumbnailGenerator;
   private checkInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(
+    queue: GenerationJobQueue,
+    providers: Pick<Providers, 'metadataGenerator' | 'topicGenerator'> = createProviders(),
+    costTracker: CostTracker = new CostTracker()
+  ) {
     this.db = new SchedulerDatabase();
-    this.pipeline = new FullVideoPipeline();
-    this.metadataGenerator = new YouTubeMetadataGenerator();
-    this.topicGenerator = new TopicGenerator();
+    this.queue = queue;
+    this.costTracker = costTracker;
+    this.chapterGenerator = new ChapterGenerator();
+    this.thumbnailGenerator = new ThumbnailGenerator();
+    this.metadataGenerator = providers.metadataGenerator;
+    this.topicGenerator = providers.topicGenerator;
+
+    // Scheduled generations run through the shared queue; finish them when their job does
+    const onFinished = (job: GenerationJob) => {
+      this.onJobFinished(job).catch((err) => {
+        logger.error({ jobId: job.id, error: (err as Error).message }, 'Failed to finalize scheduled video');
+      });
+    };
+    this.queue.on('completed', onFinished);
+    this.queue.on('failed', onFinished);
+    this.queue.on('cancelled', onFinished);
   }
 
   // Start the scheduler (check every minute)
@@ -48,87 +72,142 @@ export class VideoScheduler {
     for (const video of pendingVideos) {
       // Check if it's time to generate this video
       if (video.scheduledDate <= now) {
-        console.log(`🎬 Starting scheduled generation: ${video.topic}`);
-        this.generateScheduledVideo(video).catch((err) => {
-          logger.error({ videoId: video.id, error: (err as Error).message }, 'Unhandled error in scheduled generation');
+        console.log(`🎬 Queueing scheduled generation: ${video.topic}`);
+        this.submitScheduledVideo(video).catch((err) => {
+          logger.error({ videoId: video.id, error: (err as Error).message }, 'Failed to queue scheduled generation');
         });
       }
     }
   }
 
-  private async generateScheduledVideo(video: ScheduledVideo) {
+  private async submitScheduledVideo(video: ScheduledVideo) {
+    const channel = channels[video.channelId];
+    if (!channel) {
+      await this.db.updateVideo(video.id, {
+        status: 'failed',
+        error: `Channel not found: ${video.channelId}`
+      });
+      return;
+    }
+
+    const budget = await this.costTracker.checkBudget(channel.id);
+    if (budget.exceeded) {
+      await this.db.updateVideo(video.id, {
+        status: 'failed',
+        error: `Monthly budget reached for ${channel.id}: $${budget.spentUsd} / $${budget.monthlyBudgetUsd} (${budget.month})`
+      });
+      logger.warn({ videoId: video.id, ...budget }, 'Scheduled generation blocked by monthly budget');
+      return;
+    }
+
+    // Mark as generating first so the next tick does not submit it twice
+    await this.db.updateVideo(video.id, { status: 'generating' });
+
+    const job = await this.queue.enqueue({
+      kind: 'generate',
+      source: 'scheduler',
+      channelId: channel.id,
+      topic: video.topic,
+      projectId: `${channel.id}-${Date.now()}`,
+      scheduledVideoId: video.id
+    });
+    logger.info({ videoId: video.id, jobId: job.id, projectId: job.projectId }, 'Scheduled video queued');
+  }
+
+  private async onJobFinished(job: GenerationJob) {
+    if (!job.scheduledVideoId) return;
+
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      const error = job.status === 'cancelled' ? 'Generation cancelled' : job.error;
+      console.error(`❌ Failed to generate scheduled video: ${error}`);
+      await this.db.updateVideo(job.scheduledVideoId, {
+        status: 'failed',
+        error
+      });
+      return;
+    }
+
+    if (job.status === 'completed' && job.result?.videoPath) {
+      await this.finalizeScheduledVideo(job.scheduledVideoId, job.projectId, job.result.videoPath);
+    }
+  }
+
+  private async finalizeScheduledVideo(videoId: string, projectId: string, videoPath: string) {
+    const videos = await this.db.getVideos();
+    const video = videos.find((v) => v.id === videoId);
+    if (!video) return;
+
+    const channel = channels[video.channelId];
+    const scriptPath = `./output/scripts/${projectId}.json`;
+    const audioPath = `./output/audio/${projectId}.mp3`;
+
     try {
-      // Update status to generating
-      await this.db.updateVideo(video.id, { status: 'generating' });
-      
-      const channel = channels[video.channelId];
-      if (!channel) {
-        throw new Error(`Channel not found: ${video.channelId}`);
-      }
-      
-      // Generate the video
-      const videoPath = await this.pipeline.generateVideo(channel, video.topic);
-      
       // Generate optimized YouTube metadata
       console.log('📊 Generating YouTube metadata...');
-      const scriptPath = `./output/scripts/${video.channelId}-${Date.now()}.json`;
+      const scriptContent = await readFile(scriptPath, 'utf-8');
+      const script: VideoScript = JSON.parse(scriptContent);
+      
+      const metadata = await this.metadataGenerator.generateMetadata(
+        script,
+        channel.name,
+        channel.style.theme,
+        { onUsage: this.costTracker.reporterFor(projectId), channel }
+      );
+      // Real chapter timestamps, from when each section is spoken
+      metadata.description = await this.chapterGenerator.describe(projectId, metadata.description, metadata.chapterTitles);
+      metadata.seoScore = this.metadataGenerator.scoreMetadata(metadata);
       
+      // Get improvement suggestions
+      const suggestions = await this.metadataGenerator.suggestImprovements(metadata);
+      console.log('💡 SEO Suggestions:');
+      suggestions.forEach(s => console.log(`  ${s}`));
+
+      // Thumbnail from the suggested text; the video is still publishable without one
+      let thumbnailPath: string | undefined;
       try {
-        const scriptContent = await readFile(scriptPath, 'utf-8');
-        const script: VideoScript = JSON.parse(scriptContent);
-        
-        const metadata = await this.metadataGenerator.generateMetadata(
-          script,
-          channel.name,
-          channel.style.theme
-        );
-        
-        // Get improvement suggestions
-        const suggestions = await this.metadataGenerator.suggestImprovements(metadata);
-        console.log('💡 SEO Suggestions:');
-        suggestions.forEach(s => console.log(`  ${s}`));
-        
-        // Update with results including metadata
-        await this.db.updateVideo(video.id, {
-          status: 'ready',
-          videoPath,
-          scriptPath,
-          audioPath: `./output/audio/${video.channelId}-${Date.now()}.mp3`,
-          metadata: {
-            title: metadata.title,
-            description: metadata.description,
-            tags: metadata.tags,
-            seoScore: metadata.seoScore,
-            trendingKeywords: metadata.trendingKeywords
-          }
-        });
-        
-        console.log(`✅ Scheduled video ready with SEO score: ${metadata.seoScore}/100`);
-        
-      } catch (metadataError) {
-        console.error('⚠️ Failed to generate metadata, using defaults:', metadataError);
-        
-        // Fallback to basic metadata
-        await this.db.updateVideo(video.id, {
-          status: 'ready',
-          videoPath,
-          scriptPath,
-          audioPath: `./output/audio/${video.channelId}-${Date.now()}.mp3`,
-          metadata: {
-            title: video.topic,
-            description: `${video.topic}\n\nGenerated by ${channel.name}`,
-            tags: [video.topic.toLowerCase(), channel.style.theme, 'documentary'],
-            seoScore: 50,
-            trendingKeywords: []
-          }
+        const thumbnails = await this.thumbnailGenerator.generate(projectId, {
+          title: metadata.thumbnail.title,
+          subtitle: metadata.thumbnail.subtitle
         });
+        thumbnailPath = thumbnails.variants[thumbnails.selected]?.path;
+      } catch (thumbnailError) {
+        logger.warn({ projectId, error: (thumbnailError as Error).message }, 'Thumbnail generation failed');
       }
       
-    } catch (error: any) {
-      console.error(`❌ Failed to generate scheduled video:`, error);
-      await this.db.updateVideo(video.id, {
-        status: 'failed',
-        error: error.message
+      // Update with results including metadata
+      await this.db.updateVideo(videoId, {
+        status: 'ready',
+        videoPath,
+        scriptPath,
+        audioPath,
+        thumbnailPath,
+        metadata: {
+          title: metadata.title,
+          description: metadata.description,
+          tags: metadata.tags,
+          seoScore: metadata.seoScore,
+          trendingKeywords: metadata.trendingKeywords
+        }
+      });
+      
+      console.log(`✅ Scheduled video ready with SEO score: ${metadata.seoScore}/100`);
+      
+    } catch (metadataError) {
+      console.error('⚠️ Failed to generate metadata, using defaults:', metadataError);
+      
+      // Fallback to basic metadata
+      await this.db.updateVideo(videoId, {
+        status: 'ready',
+        videoPath,
+        scriptPath,
+        audioPath,
+        metadata: {
+          title: video.topic,
+          description: `${video.topic}\n\nGenerated by ${channel?.name ?? video.channelId}`,
+          tags: [video.topic.toLowerCase(), channel?.style.theme ?? '', 'documentary'].filter(Boolean),
+          seoScore: 50,
+          trendingKeywords: []
+        }
       });
     }
   }
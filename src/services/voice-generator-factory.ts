@@ -2,9 +2,15 @@ import { VoiceConfig } from '../types/index.js';
 import { VoiceGenerator } from './voice-generator.js';
 import { ElevenLabsVoiceGenerator } from './elevenlabs-voice-generator.js';
 import logger from '../utils/logger.js';
+import { UsageReporter } from '../types/usage.js';
+
+export interface VoiceGenerationOptions {
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+}
 
 export interface UnifiedVoiceGenerator {
-  generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string): Promise<string>;
+  generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string, options?: VoiceGenerationOptions): Promise<string>;
 }
 
 class ElevenLabsAdapter implements UnifiedVoiceGenerator {
@@ -14,13 +20,13 @@ class ElevenLabsAdapter implements UnifiedVoiceGenerator {
     this.generator = new ElevenLabsVoiceGenerator(outputDir);
   }
 
-  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string): Promise<string> {
+  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string, options: VoiceGenerationOptions = {}): Promise<string> {
     return this.generator.generateAudio(text, {
       voiceId: voiceConfig.voiceId,
       stability: voiceConfig.stability,
       similarityBoost: voiceConfig.similarityBoost,
       style: voiceConfig.style
-    }, outputFile);
+    }, outputFile, options);
   }
 }
 
@@ -31,13 +37,13 @@ class EdgeTTSAdapter implements UnifiedVoiceGenerator {
     this.generator = new VoiceGenerator(outputDir);
   }
 
-  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string): Promise<string> {
+  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string, options: VoiceGenerationOptions = {}): Promise<string> {
     return this.generator.generateAudio(text, {
       language: voiceConfig.language || 'en-US',
       voice: voiceConfig.voiceId,
       rate: voiceConfig.rate || '+0%',
       pitch: voiceConfig.pitch || '+0Hz'
-    }, outputFile);
+    }, outputFile, options);
   }
 }
 
@@ -68,8 +74,8 @@ export class VoiceGeneratorFactory {
     return this.edgeTTSGenerator;
   }
 
-  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string): Promise<string> {
+  async generateAudio(text: string, voiceConfig: VoiceConfig, outputFile: string, options: VoiceGenerationOptions = {}): Promise<string> {
     const generator = this.getGenerator(voiceConfig);
-    return generator.generateAudio(text, voiceConfig, outputFile);
+    return generator.generateAudio(text, voiceConfig, outputFile, options);
   }
 }
@@ -1,6 +1,9 @@
 import { spawn } from 'child_process';
-import { mkdir } from 'fs/promises';
+import { mkdir, readFile, rename, rm } from 'fs/promises';
 import logger from '../utils/logger.js';
+import { cancelledError, killOnAbort, throwIfAborted } from '../utils/abort.js';
+import { wordsFromCueFile, writeWordTimings } from '../utils/word-timings.js';
+import { UsageReporter } from '../types/usage.js';
 
 export interface EdgeTTSVoiceConfig {
   language: string;
@@ -19,50 +22,83 @@ export class VoiceGenerator {
   async generateAudio(
     text: string,
     voiceConfig: EdgeTTSVoiceConfig,
-    outputFile: string
+    outputFile: string,
+    options: { signal?: AbortSignal; onUsage?: UsageReporter } = {}
   ): Promise<string> {
+    throwIfAborted(options.signal);
     await mkdir(this.outputDir, { recursive: true });
 
     const outputPath = `${this.outputDir}/${outputFile}`;
 
+    // edge-tts streams into --write-media: write elsewhere and move it once complete.
+    const partialPath = `${outputPath}.partial`;
+    const subtitlesPath = `${outputPath}.cues`;
     const cleanText = text.replace(/\n/g, ' ').trim();
 
     logger.info({ voice: voiceConfig.voice, outputPath }, 'Generating audio with Edge TTS');
 
-    return new Promise((resolve, reject) => {
-      const args = [
-        '--voice', voiceConfig.voice,
-        `--rate=${voiceConfig.rate}`,
-        `--pitch=${voiceConfig.pitch}`,
-        '--text', cleanText,
-        '--write-media', outputPath
-      ];
-
-      const proc = spawn('edge-tts', args, {
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-
-      let stderr = '';
-
-      proc.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        if (code === 0) {
-          logger.info({ outputPath }, 'Audio generated successfully');
-          resolve(outputPath);
-        } else {
-          logger.error({ code, stderr }, 'Edge TTS failed');
-          reject(new Error(`Edge TTS failed with code ${code}: ${stderr}`));
-        }
-      });
-
-      proc.on('error', (err) => {
-        logger.error({ error: err.message }, 'Edge TTS spawn error');
-        reject(new Error(`Failed to spawn edge-tts: ${err.message}. Make sure edge-tts is installed: pip install edge-tts`));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const args = [
+          '--voice', voiceConfig.voice,
+          `--rate=${voiceConfig.rate}`,
+          `--pitch=${voiceConfig.pitch}`,
+          '--text', cleanText,
+          '--write-media', partialPath,
+          // Word boundaries, kept as `<name>.words.json` for the subtitles.
+          '--write-subtitles', subtitlesPath
+        ];
+
+        const proc = spawn('edge-tts', args, {
+          stdio: ['ignore', 'pipe', 'pipe']
+        });
+
+        const disposeAbort = killOnAbort(proc, options.signal);
+
+        let stderr = '';
+
+        proc.stderr.on('data', (data: Buffer) => {
+          stderr += data.toString();
+        });
+
+        proc.on('close', (code) => {
+          disposeAbort();
+          if (options.signal?.aborted) {
+            logger.info({ outputPath }, 'Edge TTS cancelled');
+            reject(cancelledError());
+          } else if (code === 0) {
+            logger.info({ outputPath }, 'Audio generated successfully');
+            resolve();
+          } else {
+            logger.error({ code, stderr }, 'Edge TTS failed');
+            reject(new Error(`Edge TTS failed with code ${code}: ${stderr}`));
+          }
+        });
+
+        proc.on('error', (err) => {
+          disposeAbort();
+          logger.error({ error: err.message }, 'Edge TTS spawn error');
+          reject(new Error(`Failed to spawn edge-tts: ${err.message}. Make sure edge-tts is installed: pip install edge-tts`));
+        });
       });
-    });
+      await rename(partialPath, outputPath);
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      await rm(subtitlesPath, { force: true });
+      throw error;
+    }
+
+    try {
+      await writeWordTimings(outputPath, wordsFromCueFile(await readFile(subtitlesPath, 'utf-8')));
+    } catch (error) {
+      logger.warn({ outputPath, error: (error as Error).message }, 'Edge TTS word boundaries unavailable');
+    } finally {
+      await rm(subtitlesPath, { force: true });
+    }
+
+    // Free service: recorded for character/request counts only.
+    await options.onUsage?.({ provider: 'edge-tts', operation: 'narration', characters: cleanText.length, requests: 1 });
+    return outputPath;
   }
 
   async listAvailableVoices(): Promise<void> {
@@ -1,6 +1,9 @@
-import OpenAI from 'openai';
-import { VideoScript } from '../types/index.js';
+import { Channel, VideoScript } from '../types/index.js';
 import axios from 'axios';
+import { UsageReporter } from '../types/usage.js';
+import { LlmClient } from './llm-client.js';
+import { getPromptPack, renderPrompt } from '../config/prompt-packs.js';
+import { hasChapterList } from './chapter-generator.js';
 
 export interface YouTubeMetadata {
   title: string;
@@ -14,35 +17,37 @@ export interface YouTubeMetadata {
   searchVolume?: string;
   competitionLevel?: string;
   trendingKeywords: string[];
+  /** Chapter titles: the opening, one per script section, then the conclusion (see ChapterGenerator). */
+  chapterTitles?: string[];
 }
 
-export class YouTubeMetadataGenerator {
-  private client: OpenAI;
+export interface MetadataGenerationOptions {
+  onUsage?: UsageReporter;
+  language?: string;
+  /** Channel whose `llm` settings apply. */
+  channel?: Channel;
+}
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    this.client = new OpenAI({ apiKey });
-  }
+export class YouTubeMetadataGenerator {
+  constructor(private llm: LlmClient = new LlmClient()) {}
 
   async generateMetadata(
     script: VideoScript,
     channelName: string,
-    channelTheme: string
+    channelTheme: string,
+    options: MetadataGenerationOptions = {}
   ): Promise<YouTubeMetadata> {
     console.log('📊 Generating YouTube metadata...');
 
     // Step 1: Generate optimized metadata with AI
-    const metadata = await this.generateWithAI(script, channelName, channelTheme);
+    const metadata = await this.generateWithAI(script, channelName, channelTheme, options);
 
     // Step 2: Analyze keyword trends
     const trends = await this.analyzeKeywordTrends(metadata.tags);
     metadata.trendingKeywords = trends;
 
-    // Step 3: Calculate SEO score
-    metadata.seoScore = this.calculateSEOScore(metadata);
+    // Step 3: Calculate SEO score (chapters are merged later: callers re-score with scoreMetadata)
+    metadata.seoScore = this.scoreMetadata(metadata);
 
     console.log(`✅ Metadata generated with SEO score: ${metadata.seoScore}/100`);
     return metadata;
@@ -51,47 +56,31 @@ export class YouTubeMetadataGenerator {
   private async generateWithAI(
     script: VideoScript,
     channelName: string,
-    channelTheme: string
+    channelTheme: string,
+    { onUsage, language, channel }: MetadataGenerationOptions
   ): Promise<YouTubeMetadata> {
+    const rules = renderPrompt(getPromptPack(channel).metadata.rules, {
+      channelName,
+      channelDescription: channel?.description || channelTheme,
+      theme: channelTheme,
+      chapterCount: script.sections.length + 2
+    });
+
     const prompt = `You are a YouTube SEO expert. Generate optimized metadata for this video.
 
 CHANNEL: ${channelName}
 THEME: ${channelTheme}
-
+${language ? `LANGUAGE: ${language} (write the title, description, tags and thumbnail text in this language)\n` : ''}
 VIDEO SCRIPT:
 Title: ${script.title}
 Hook: ${script.hook}
-Sections: ${script.sections.map(s => s.searchQuery).join(', ')}
+Sections:
+${script.sections.map((s, i) => `${i + 1}. ${s.narration.slice(0, 240)}`).join('\n')}
 Conclusion: ${script.conclusion}
 
 Generate optimized YouTube metadata following these rules:
 
-1. TITLE (50-60 characters):
-   - Must be clickbait but honest
-   - Include main keyword at the beginning
-   - Use emotional triggers (curiosity, fear, excitement)
-   - Use numbers, questions, or power words
-   - Examples: "What If...", "The Truth About...", "X Things You Didn't Know..."
-
-2. DESCRIPTION (200-300 words):
-   - First 2 lines are CRITICAL (appear in search)
-   - Include main keywords in first sentence
-   - Provide clear value proposition
-   - Include timestamps for sections
-   - End with call-to-action
-   - Add relevant hashtags
-
-3. TAGS (15-20 tags):
-   - Mix of broad and specific keywords
-   - Include misspellings of main keywords
-   - Related search terms
-   - Competitor keywords
-   - Long-tail keywords (3-4 words)
-
-4. THUMBNAIL TEXT:
-   - 3-6 words maximum
-   - Large readable text
-   - Emotional trigger
+${rules}
 
 Return as JSON:
 {
@@ -101,30 +90,19 @@ Return as JSON:
   "thumbnail": {
     "title": "...",
     "subtitle": "..."
-  }
+  },
+  "chapterTitles": ["...", ...]
 }`;
 
-    const response = await this.client.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 2000,
-      temperature: 0.7,
+    const metadata = await this.llm.completeJson<YouTubeMetadata>('metadata', {
+      channel,
+      onUsage,
       messages: [{
         role: 'user',
         content: prompt
       }]
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Extract JSON from markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
-    const jsonText = jsonMatch ? jsonMatch[1] : content;
-
-    const metadata = JSON.parse(jsonText);
-
     return {
       ...metadata,
       seoScore: 0,
@@ -161,7 +139,8 @@ Return as JSON:
     return trendingKeywords.slice(0, 5);
   }
 
-  private calculateSEOScore(metadata: YouTubeMetadata): number {
+  /** SEO score out of 100; the chapter points go to descriptions with a real chapter list. */
+  scoreMetadata(metadata: YouTubeMetadata): number {
     let score = 0;
 
     // Title optimization (30 points)
@@ -180,7 +159,7 @@ Return as JSON:
     else if (descLength >= 100 && descLength < 800) score += 10;
     else score += 5;
 
-    if (metadata.description.includes('00:00')) score += 10; // Timestamps
+    if (hasChapterList(metadata.description)) score += 10; // Chapters
     if (/#\w+/.test(metadata.description)) score += 5; // Hashtags
 
     // Tags optimization (25 points)
@@ -223,9 +202,6 @@ Return as JSON:
     if (metadata.description.length < 200) {
       suggestions.push('⚠️ Description is too short. Add more context and keywords.');
     }
-    if (!metadata.description.includes('00:00')) {
-      suggestions.push('💡 Add timestamps to improve user experience and SEO.');
-    }
     if (!/#\w+/.test(metadata.description)) {
       suggestions.push('💡 Add 3-5 hashtags to increase discoverability.');
     }
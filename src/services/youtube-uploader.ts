@@ -36,6 +36,9 @@ type OAuthClientCredentials = {
 };
 
 const YT_UPLOAD_SCOPE = 'https://www.googleapis.com/auth/youtube.upload';
+/** captions.insert needs the broader scope; tokens granted before it was added upload without captions. */
+const YT_CAPTIONS_SCOPE = 'https://www.googleapis.com/auth/youtube.force-ssl';
+const YT_UPLOAD_URL = 'https://www.googleapis.com/upload/youtube/v3/videos';
 
 export class YouTubeUploader {
   private oauth2Client: ReturnType<typeof this.createOAuthClient> | null = null;
@@ -43,10 +46,13 @@ export class YouTubeUploader {
 
   private credentialsPath: string;
   private tokensPath: string;
+  /** Resumable upload endpoint (overridden by the fake upload server). */
+  protected uploadUrl: string;
 
-  constructor(config?: { credentialsPath?: string; tokensPath?: string }) {
+  constructor(config?: { credentialsPath?: string; tokensPath?: string; uploadUrl?: string }) {
     this.credentialsPath = config?.credentialsPath || process.env.YOUTUBE_OAUTH_CLIENT_PATH || './secrets/youtube_oauth_client.json';
     this.tokensPath = config?.tokensPath || process.env.YOUTUBE_TOKENS_PATH || './secrets/youtube_tokens.json';
+    this.uploadUrl = config?.uploadUrl || YT_UPLOAD_URL;
   }
 
   getTokensPath(): string {
@@ -87,7 +93,7 @@ export class YouTubeUploader {
       access_type: 'offline',
       // prompt=consent helps ensure we receive refresh_token on repeat authorizations.
       prompt: 'consent',
-      scope: [YT_UPLOAD_SCOPE],
+      scope: [YT_UPLOAD_SCOPE, YT_CAPTIONS_SCOPE],
       state
     });
   }
@@ -115,7 +121,6 @@ export class YouTubeUploader {
     onProgress?: (progress: number, status?: string) => void
   ): Promise<YouTubeUploadResult> {
     await this.ensureAuth(redirectUri);
-    if (!this.oauth2Client) throw new Error('OAuth client not initialized');
 
     if (!videoPath || !existsSync(videoPath)) {
       throw new Error(`Video file not found: ${videoPath}`);
@@ -166,6 +171,17 @@ export class YouTubeUploader {
       warning = 'PrivacyStatus may be forced to Private by YouTube until API project audit/verification.';
     }
 
+    // Captions are a bonus: the video is online even if they fail.
+    if (config.captions && existsSync(config.captions.path)) {
+      onProgress?.(100, 'captions');
+      try {
+        await this.uploadCaptions(videoId, config.captions);
+      } catch (error) {
+        const captionsWarning = `Captions not uploaded (${(error as Error).message}); reconnect YouTube if the captions scope is missing.`;
+        warning = warning ? `${warning} ${captionsWarning}` : captionsWarning;
+      }
+    }
+
     onProgress?.(100, 'done');
 
     return {
@@ -178,10 +194,51 @@ export class YouTubeUploader {
     };
   }
 
+  /**
+   * Custom thumbnail (JPEG/PNG under 2 MB) for an uploaded video. Separate from the upload
+   * so a failure can be retried without sending the video again.
+   */
+  async setThumbnail(videoId: string, thumbnailPath: string, redirectUri: string): Promise<void> {
+    await this.ensureAuth(redirectUri);
+    if (!thumbnailPath || !existsSync(thumbnailPath)) {
+      throw new Error(`Thumbnail file not found: ${thumbnailPath}`);
+    }
+    const { size } = await stat(thumbnailPath);
+    if (size > 2 * 1024 * 1024) {
+      throw new Error('Thumbnail is larger than 2 MB');
+    }
+    await this.uploadThumbnail(videoId, thumbnailPath);
+  }
+
   // -------------------------
   // Internals
   // -------------------------
 
+  protected async uploadThumbnail(videoId: string, thumbnailPath: string): Promise<void> {
+    if (!this.youtube) throw new Error('YouTube client not initialized');
+    await this.youtube.thumbnails.set({
+      videoId,
+      media: {
+        mimeType: thumbnailPath.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg',
+        body: createReadStream(thumbnailPath)
+      }
+    });
+  }
+
+  protected async uploadCaptions(videoId: string, captions: NonNullable<YouTubeConfig['captions']>): Promise<void> {
+    if (!this.youtube) throw new Error('YouTube client not initialized');
+    await this.youtube.captions.insert({
+      part: ['snippet'],
+      requestBody: {
+        snippet: { videoId, language: captions.language, name: captions.language, isDraft: false }
+      },
+      media: {
+        mimeType: captions.path.endsWith('.vtt') ? 'text/vtt' : 'application/x-subrip',
+        body: createReadStream(captions.path)
+      }
+    });
+  }
+
   private async loadClientCredentials(): Promise<OAuthClientCredentials> {
     // 1) env vars (fast path)
     if (process.env.YOUTUBE_CLIENT_ID && process.env.YOUTUBE_CLIENT_SECRET) {
@@ -238,7 +295,7 @@ export class YouTubeUploader {
     await chmod(this.tokensPath, 0o600).catch(() => undefined);
   }
 
-  private async getFreshAccessToken(): Promise<string> {
+  protected async getFreshAccessToken(): Promise<string> {
     if (!this.oauth2Client) throw new Error('OAuth client not initialized');
     const token = await this.oauth2Client.getAccessToken();
     const value = typeof token === 'string' ? token : token?.token;
@@ -255,10 +312,8 @@ export class YouTubeUploader {
   }
 
   private async startResumableSession(accessToken: string, config: YouTubeConfig): Promise<string> {
-    const url = 'https://www.googleapis.com/upload/youtube/v3/videos';
-
     const response = await axios.post(
-      url,
+      this.uploadUrl,
       {
         snippet: {
           title: config.title,
@@ -0,0 +1,26 @@
+export type ClaimKind = 'date' | 'name' | 'number' | 'event';
+
+/** How likely the model thinks the claim is accurate as narrated. */
+export type ClaimConfidence = 'high' | 'medium' | 'low';
+
+/** Removed claims are dropped from the list rather than kept with a status. */
+export type ClaimStatus = 'pending' | 'approved';
+
+export interface ClaimSource {
+  title: string;
+  url?: string;
+}
+
+/** A checkable fact stated in the narration, for human review before publishing. */
+export interface ScriptClaim {
+  /** Stable within the script (`section-3-1`). */
+  id: string;
+  /** Narration segment the claim is stated in: `hook`, `section-N` or `conclusion`. */
+  segment: string;
+  text: string;
+  kind: ClaimKind;
+  confidence: ClaimConfidence;
+  /** Suggested by the model, to be checked by the reviewer. */
+  source?: ClaimSource;
+  status: ClaimStatus;
+}
@@ -1,3 +1,7 @@
+import { ScriptClaim } from './claims.js';
+import { LlmTask, LlmTaskSettings } from './llm.js';
+import { ChannelPromptPack, PromptPackRef } from './prompts.js';
+
 export interface Channel {
   id: string;
   name: string;
@@ -9,6 +13,61 @@ export interface Channel {
   assetReuseMix?: AssetReuseMix;
   branding?: ChannelBranding;
   voice: VoiceConfig;
+  /** Provider spend cap per calendar month (UTC); new generations are refused once reached. */
+  monthlyBudgetUsd?: number;
+  /** Target length and quality floors; defaults to the 9–12 min long-form contract. */
+  durationContract?: Partial<DurationContract>;
+  /** What the pre-TTS script linter enforces (see ScriptLinter); defaults apply to omitted fields. */
+  scriptRules?: Partial<ScriptRules>;
+  /** Extra languages a project can be localized into, keyed by language code (e.g. `fr-FR`). */
+  localizations?: Record<string, ChannelLocalization>;
+  /** Pull checkable claims (dates, names, numbers) out of each script for review before publishing. */
+  factCheck?: boolean;
+  /** Provider, model, temperature or token limit per LLM task, over the defaults of config/llm.ts. */
+  llm?: Partial<Record<LlmTask, Partial<LlmTaskSettings>>>;
+  /** Prompt templates (`prompts/<id>/v<N>.json`); the channel's own pack at its latest version by default. */
+  promptPack?: ChannelPromptPack;
+}
+
+export interface ChannelLocalization {
+  voice: VoiceConfig;
+  /** Fixed branding lines for this language; translated with the script when omitted. */
+  branding?: Partial<BrandingTexts>;
+}
+
+export interface DurationContract {
+  /** Accepted narration length, in seconds. */
+  minSeconds: number;
+  maxSeconds: number;
+  /** Narration pace used to turn the window into script word counts. */
+  wordsPerMinute: number;
+  /** Script + TTS attempts before keeping the closest one. */
+  maxAttempts: number;
+  /** Pre-publish floors. */
+  minBeats: number;
+  minClips: number;
+}
+
+export interface ScriptRules {
+  /** Allowed gap between a section's words and its `duration` hint (0.35 = ±35 %); twice that blocks. */
+  paceTolerance: number;
+  /** Words or phrases the narration must not contain (whole words, any case). */
+  bannedWords: string[];
+  /** Longest sentence before a warning. */
+  maxSentenceWords: number;
+  /** Section average above which the narration gets hard to follow by ear. */
+  maxAverageSentenceWords: number;
+  /** A phrase of `repeatedPhraseWords` words said more than `maxPhraseRepeats` times is flagged. */
+  repeatedPhraseWords: number;
+  maxPhraseRepeats: number;
+  /** Times one stock micro-hook line may appear in a script. */
+  maxHookPatternUses: number;
+  /** Search queries shorter than this, or made only of vague words, find poor visuals. */
+  minSearchQueryWords: number;
+  /** Allowed gap between each act's share of the words and the 25/50/25 split. */
+  actBalanceTolerance: number;
+  /** Targeted rewrites of the segments with blocking issues before going on with what is left. */
+  maxRevisions: number;
 }
 
 export type AssetCategory = 'evergreen' | 'episode_specific';
@@ -48,9 +107,59 @@ export interface ChannelBranding {
     boxColor?: string;
     boxOpacity?: number; // 0..1
     boxBorderW?: number;
+    /** Captions burned into the video for muted viewers (off unless `mode` is set). */
+    captions?: CaptionStyle;
   };
+  /** Look of the generated YouTube thumbnails (see ThumbnailGenerator). */
+  thumbnail?: ThumbnailTemplate;
+}
+
+/** Per-channel thumbnail template. Sizes are in pixels of the 1280x720 thumbnail. */
+export interface ThumbnailTemplate {
+  /** TrueType font file (default DejaVu Sans Bold). */
+  fontFile?: string;
+  /** Title size (default 92); the subtitle is drawn at half of it. */
+  fontSize?: number;
+  /** Colors as FFmpeg color names or `0xRRGGBB`. */
+  textColor?: string;
+  /** Subtitle color (default `textColor`). */
+  accentColor?: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+  /** Box behind the text; omitted for stroke-only text. */
+  boxColor?: string;
+  boxOpacity?: number; // 0..1
+  /** PNG drawn in the top-right corner, when the file exists. */
+  logoPath?: string;
+  uppercase?: boolean;
 }
 
+/** Look of burned-in captions. Sizes are in pixels for a 1080-pixel-wide short side. */
+export interface CaptionStyle {
+  /** `classic`: two-line captions; `karaoke`: the spoken word is highlighted. Default `off`. */
+  mode?: 'off' | 'classic' | 'karaoke';
+  /** Font family known to fontconfig (default DejaVu Sans). */
+  fontName?: string;
+  fontSize?: number;
+  /** Colors as names (white, yellow...), `#RRGGBB` or `0xRRGGBB`. */
+  textColor?: string;
+  /** Color of the spoken word in `karaoke` mode. */
+  highlightColor?: string;
+  outlineColor?: string;
+  outlineWidth?: number;
+  position?: 'bottom' | 'middle' | 'top';
+  /**
+   * Distance from the top/bottom edge, in percent of the frame height (default 8).
+   * Vertical frames keep at least 20% at the bottom and 12% at the top, clear of the Shorts UI.
+   */
+  safeMarginPercent?: number;
+  /** Line length on 16:9 frames (default 42); narrower frames get proportionally fewer characters. */
+  maxCharsPerLine?: number;
+}
+
+/** Branding lines spoken by the narrator (and reused by the overlays). */
+export type BrandingTexts = Pick<ChannelBranding, 'stingText' | 'softCtaText' | 'finalCtaText' | 'outroTeaserText'>;
+
 export interface ChannelStyle {
   theme: 'sci-fi' | 'historical' | 'mysterious';
   musicGenre: string;
@@ -79,6 +188,10 @@ export interface VideoScript {
   sections: ScriptSection[];
   conclusion: string;
   duration: number; // in seconds
+  /** Checkable facts for review, on channels with `factCheck` (see ClaimReview). */
+  claims?: ScriptClaim[];
+  /** Prompt pack version that wrote the script; absent on hand-written or offline scripts. */
+  prompt?: PromptPackRef;
 }
 
 export interface ScriptSection {
@@ -0,0 +1,67 @@
+import { PipelineMode } from './pipeline.js';
+
+export type GenerationJobKind = 'generate' | 'resume' | 'regenerate-assets' | 'short' | 'localize' | 'revoice';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type GenerationJobSource = 'api' | 'scheduler' | 'cli';
+
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  /** Higher runs first; jobs with equal priority run in submission order. */
+  priority: number;
+  source: GenerationJobSource;
+
+  channelId: string;
+  topic: string;
+  projectId: string;
+  /** For `generate` jobs; defaults to `full`. */
+  mode?: PipelineMode;
+
+  /** Options for `regenerate-assets` jobs. */
+  options?: {
+    forceImagesOnly?: boolean;
+    minClipsRequested?: number;
+  };
+
+  /** For `short` jobs: the long-form project and window the Short (`projectId`) is cut from. */
+  short?: {
+    sourceProjectId: string;
+    startSeconds: number;
+    durationSeconds: number;
+    intensity: number;
+  };
+
+  /** For `localize` jobs: the project translated into `projectId`. */
+  localization?: {
+    sourceProjectId: string;
+    language: string;
+  };
+
+  /** Set when the job was submitted by the scheduler. */
+  scheduledVideoId?: string;
+  requestedBy?: string;
+
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+
+  /** Incremented each time the job starts (a restart mid-run counts as a new attempt). */
+  attempts: number;
+
+  result?: GenerationJobResult;
+  error?: string;
+}
+
+/** Outputs of a finished job; drafts (script-only / audio-only) have no video. */
+export interface GenerationJobResult {
+  scriptPath?: string;
+  audioPath?: string;
+  videoPath?: string;
+}
+
+export type NewGenerationJob = Pick<GenerationJob, 'kind' | 'channelId' | 'topic' | 'projectId'> &
+  Partial<Pick<GenerationJob, 'mode' | 'priority' | 'source' | 'options' | 'short' | 'localization' | 'scheduledVideoId' | 'requestedBy'>>;
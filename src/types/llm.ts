@@ -0,0 +1,69 @@
+import type { Channel } from './index.js';
+import { UsageReporter } from './usage.js';
+
+/**
+ * Where completions come from.
+ * - openai: api.openai.com (OPENAI_API_KEY)
+ * - openai-compatible: any server speaking the OpenAI chat API, e.g. a local one (LLM_BASE_URL)
+ * - anthropic: the Anthropic Messages API (ANTHROPIC_API_KEY)
+ */
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'anthropic';
+
+/** What a completion is for; each task has its own model and limits (see config/llm.ts). */
+export type LlmTask =
+  | 'script'
+  | 'script-revision'
+  | 'translation'
+  | 'claims'
+  | 'topic'
+  | 'topic-suggestions'
+  | 'metadata';
+
+export interface LlmTaskSettings {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** Ask the provider for a JSON object (providers without a JSON mode ignore it). */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Whether `json: true` is enforced by the API itself. */
+  readonly supportsJsonMode: boolean;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmCallOptions {
+  messages: LlmMessage[];
+  /** Per-channel settings (`Channel.llm`) win over the task defaults. */
+  channel?: Pick<Channel, 'llm'>;
+  /** One-off overrides for this call (e.g. a model passed on the command line). */
+  settings?: Partial<LlmTaskSettings>;
+  json?: boolean;
+  signal?: AbortSignal;
+  onUsage?: UsageReporter;
+  /** Usage operation name; defaults to the task. */
+  operation?: string;
+}
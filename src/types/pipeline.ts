@@ -0,0 +1,47 @@
+/** Pipeline stages, in execution order. Each one is checkpointed in the project manifest. */
+export type PipelineStage = 'script' | 'audio' | 'collect' | 'download' | 'compose';
+
+/**
+ * - `draft`: a script-only / audio-only run finished; continue with a resume.
+ */
+export type ProjectStatus = 'running' | 'failed' | 'cancelled' | 'draft' | 'complete';
+
+/** How far a generation goes: `script-only` stops before TTS, `audio-only` before visuals. */
+export type PipelineMode = 'full' | 'script-only' | 'audio-only';
+
+export interface PipelineProgressEvent {
+  stage: PipelineStage;
+  /** 1-based position of `stage` in the pipeline. */
+  stepIndex: number;
+  stepCount: number;
+  /** Progress within the stage, 0–100. */
+  percent: number;
+  detail: string;
+}
+
+export type PipelineProgressReporter = (event: PipelineProgressEvent) => void;
+
+export interface PipelineRunOptions {
+  /** Aborting stops the current stage (API calls, TTS, FFmpeg) and marks the project cancelled. */
+  signal?: AbortSignal;
+  onProgress?: PipelineProgressReporter;
+}
+
+export interface PipelineResult {
+  projectId: string;
+  mode: PipelineMode;
+  /** Last stage completed by this run. */
+  stage: PipelineStage;
+  scriptPath: string;
+  audioPath?: string;
+  videoPath?: string;
+}
+
+/** Outcome of saving an edited script (see FullVideoPipeline.updateScript). */
+export interface ScriptUpdateResult {
+  projectId: string;
+  /** Narration segments (hook, section-2, ...) whose text is new or changed. */
+  changedSegments: string[];
+  /** True when the narration must be voiced again (`revoiceProject`). */
+  revoice: boolean;
+}
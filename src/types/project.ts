@@ -0,0 +1,83 @@
+import { ProjectManifest } from '../schemas/project-manifest.js';
+import { YouTubePublishStatus } from './youtube-publish.js';
+
+export interface ProjectListFilters {
+  channelId?: string;
+  status?: ProjectManifest['status'];
+  mode?: ProjectManifest['mode'];
+  /** Case-insensitive match on topic, title or projectId. */
+  q?: string;
+  /** 1-based. */
+  page?: number;
+  pageSize?: number;
+}
+
+/** Latest YouTube publish job for the project's video. */
+export interface ProjectPublishInfo {
+  jobId: string;
+  status: YouTubePublishStatus;
+  videoId?: string;
+  videoUrl?: string;
+  updatedAt: string;
+}
+
+export interface ProjectArtifactFile {
+  /** URL under /output, servable as-is. */
+  url: string;
+  bytes: number;
+}
+
+export interface ProjectSummary {
+  projectId: string;
+  channelId: string;
+  channelName?: string;
+  topic: string;
+  /** Script title, when the script exists. */
+  title?: string;
+  mode: ProjectManifest['mode'];
+  status: ProjectManifest['status'];
+  createdAt: string;
+  updatedAt: string;
+  completedStages: ProjectManifest['completedStages'];
+  artifacts: {
+    script: string | null;
+    audio: string | null;
+    video: string | null;
+    /** Subtitles generated from the narration's word timings. */
+    srt: string | null;
+    vtt: string | null;
+    /** Selected thumbnail variant. */
+    thumbnail: string | null;
+  };
+  prepublish: ProjectManifest['prepublish'] | null;
+  /** Long-form project and window a Short was cut from. */
+  shortSource: ProjectManifest['shortSource'] | null;
+  /** Original project and language of a localized version. */
+  localization: ProjectManifest['localization'] | null;
+  publish: ProjectPublishInfo | null;
+  /** Bytes of every file under output/ that belongs to the project. */
+  diskUsageBytes: number;
+  /** Queued or running generation job for this project, if any. */
+  activeJobId?: string;
+  lastError?: string;
+}
+
+export interface ProjectDetails extends ProjectSummary {
+  audioDurationSeconds?: number;
+  beatsPlanned?: number;
+  visualOverrides: ProjectManifest['visualOverrides'];
+  files: ProjectArtifactFile[];
+}
+
+export interface ProjectListPage {
+  items: ProjectSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ProjectDeleteResult {
+  projectId: string;
+  deletedFiles: string[];
+  freedBytes: number;
+}
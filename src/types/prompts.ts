@@ -0,0 +1,15 @@
+import type { PromptPackTemplates } from '../schemas/prompt-pack.js';
+
+/** Which templates wrote a script: pack id and file version (`prompts/<id>/v<version>.json`). */
+export interface PromptPackRef {
+  id: string;
+  version: number;
+}
+
+export type PromptPack = PromptPackTemplates & PromptPackRef;
+
+/** Pins a channel to a pack and/or a version; both default (own pack, latest version). */
+export interface ChannelPromptPack {
+  id?: string;
+  version?: number;
+}
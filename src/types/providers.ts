@@ -0,0 +1,74 @@
+import { Asset, BrandingTexts, Channel, VideoScript, VisualRequest } from './index.js';
+import type { ScriptClaim } from './claims.js';
+import type {
+  ClaimExtractionOptions,
+  EnhancedVideoScript,
+  ScriptGenerationOptions,
+  ScriptRevisionIssue,
+  ScriptRevisionOptions,
+  ScriptTranslation,
+  ScriptTranslationOptions
+} from '../services/script-generator.js';
+import type { TopicSuggestion } from '../services/topic-generator.js';
+import type { MetadataGenerationOptions, YouTubeMetadata } from '../services/youtube-metadata-generator.js';
+import type { UnifiedVoiceGenerator } from '../services/voice-generator-factory.js';
+import type { YouTubeUploader } from '../services/youtube-uploader.js';
+import type { UsageReporter } from './usage.js';
+
+/**
+ * Which implementation backs the external services.
+ * - live: OpenAI, ElevenLabs/Edge TTS, Pexels and YouTube
+ * - fake: deterministic local stand-ins (no network, no API keys)
+ */
+export type ProviderMode = 'live' | 'fake';
+
+export interface ScriptProvider {
+  generateScript(channel: Channel, topic: string, options?: ScriptGenerationOptions): Promise<EnhancedVideoScript>;
+  translateScript(
+    script: EnhancedVideoScript,
+    language: string,
+    branding?: BrandingTexts,
+    options?: ScriptTranslationOptions
+  ): Promise<ScriptTranslation>;
+  reviseScript(
+    channel: Channel,
+    script: EnhancedVideoScript,
+    issues: ScriptRevisionIssue[],
+    options?: ScriptRevisionOptions
+  ): Promise<EnhancedVideoScript>;
+  extractClaims(channel: Channel, script: VideoScript, options?: ClaimExtractionOptions): Promise<ScriptClaim[]>;
+}
+
+export interface TopicProvider {
+  generateTopic(channel: Channel, previousTopics?: string[]): Promise<string>;
+  generateTopicSuggestions(channel: Channel, count?: number, previousTopics?: string[]): Promise<TopicSuggestion[]>;
+}
+
+export interface MetadataProvider {
+  generateMetadata(
+    script: VideoScript,
+    channelName: string,
+    channelTheme: string,
+    options?: MetadataGenerationOptions
+  ): Promise<YouTubeMetadata>;
+  /** SEO score of metadata as published (after the chapters are merged into the description). */
+  scoreMetadata(metadata: YouTubeMetadata): number;
+  suggestImprovements(metadata: YouTubeMetadata): Promise<string[]>;
+}
+
+export interface AssetProvider {
+  collectAssetsForTimeline(
+    requests: VisualRequest[],
+    options?: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void; onUsage?: UsageReporter }
+  ): Promise<Asset[]>;
+}
+
+export interface Providers {
+  mode: ProviderMode;
+  scriptGenerator: ScriptProvider;
+  topicGenerator: TopicProvider;
+  metadataGenerator: MetadataProvider;
+  voiceGenerator: UnifiedVoiceGenerator;
+  assetCollector: AssetProvider;
+  youtubeUploader: YouTubeUploader;
+}
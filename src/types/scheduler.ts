@@ -35,4 +35,6 @@ export interface YouTubeConfig {
   category: string;
   privacy: 'private' | 'unlisted' | 'public';
   scheduledPublishTime?: Date;
+  /** Subtitle file (SRT/WebVTT) added as a caption track after the upload. */
+  captions?: { path: string; language: string };
 }
@@ -0,0 +1,20 @@
+/** A slice of a long-form project's narration, in seconds of its final audio. */
+export interface ShortWindow {
+  startSeconds: number;
+  durationSeconds: number;
+  /** Mean emotional-arc intensity (0–10) over the window. */
+  intensity: number;
+}
+
+export interface ShortsPlanOptions {
+  /** Number of Shorts to cut (default 1); windows never overlap. */
+  count?: number;
+  /** Upper bound per Short (default 58 s, YouTube caps Shorts at 60 s). */
+  maxSeconds?: number;
+}
+
+/** A Short queued or rendered as its own project. */
+export interface PlannedShort extends ShortWindow {
+  projectId: string;
+  sourceProjectId: string;
+}
@@ -0,0 +1,38 @@
+/** One spoken word and when it is heard, in seconds of its audio file. */
+export interface WordTiming {
+  word: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface SubtitleCue {
+  startSeconds: number;
+  endSeconds: number;
+  /** One or two lines, each within `maxCharsPerLine`. */
+  lines: string[];
+}
+
+export interface SubtitleCueOptions {
+  /** Default 42, the usual broadcast limit. */
+  maxCharsPerLine?: number;
+  /** Default 2. */
+  maxLines?: number;
+  /** Longest a cue stays on screen (default 6 s). */
+  maxCueSeconds?: number;
+}
+
+/**
+ * Captions to burn into a render (see VideoComposer). Timing comes from `words`,
+ * or from the cues of `srtPath` when no word timings are given.
+ */
+export interface BurnedCaptions {
+  mode: 'classic' | 'karaoke';
+  words?: WordTiming[];
+  srtPath?: string;
+}
+
+/**
+ * Where the word timings came from: the TTS provider (`tts`), silence detection
+ * (`aligned`), or both across the narration clips (`mixed`).
+ */
+export type WordTimingSource = 'tts' | 'aligned' | 'mixed';
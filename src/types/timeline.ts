@@ -0,0 +1,63 @@
+import { VisualRequest } from './index.js';
+import type { TransitionType, VisualEffect } from '../services/visual-effects-engine.js';
+
+export interface TimelinePlanOverrides {
+  forceImagesOnly?: boolean;
+  minClipsRequested?: number;
+}
+
+/** When one narration segment (hook, sting, section-N, soft-cta, ...) is spoken in the final audio. */
+export interface NarrationTimingEntry {
+  key: string;
+  startSeconds: number;
+  durationSeconds: number;
+}
+
+/** Narration segments in spoken order, covering the whole audio. */
+export type NarrationTiming = NarrationTimingEntry[];
+
+/** A YouTube chapter: a description line `MM:SS Title`. */
+export interface Chapter {
+  startSeconds: number;
+  title: string;
+}
+
+/** Predicted outcome of the library-first lookup for one beat. */
+export interface LibraryHitPrediction {
+  hit: boolean;
+  libraryId?: string;
+  localPath?: string;
+  /** Media type of the match (a video beat can fall back to a library image). */
+  type?: 'image' | 'video';
+}
+
+export interface TimelineBeatPlan extends VisualRequest {
+  index: number;
+  /** Position of the beat in the narration (seconds). */
+  startSeconds: number;
+  /** Segment length the composer will render (pacing can shorten the first beats). */
+  renderSeconds: number;
+  /** One draw from the composer's effect pool; the render may draw another from the same pool. */
+  effect: VisualEffect;
+  /** Transition the composer applies when entering this segment. */
+  composerTransition: TransitionType;
+  pacingFeel?: 'rapid' | 'quick' | 'moderate' | 'slow' | 'contemplative';
+  library: LibraryHitPrediction;
+}
+
+export interface TimelinePlan {
+  channelId: string;
+  topic: string;
+  audioDurationSeconds: number;
+  /** Whether the collector will try the local library before Pexels (PREFER_LOCAL_ASSETS). */
+  preferLocal: boolean;
+  beats: TimelineBeatPlan[];
+  summary: {
+    beatCount: number;
+    averageBeatSeconds: number;
+    images: number;
+    videos: number;
+    uniqueQueries: number;
+    libraryHits: number;
+  };
+}
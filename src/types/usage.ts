@@ -0,0 +1,60 @@
+/** Paid (or metered) services whose calls are accounted per project. */
+export type UsageProvider = 'openai' | 'openai-compatible' | 'anthropic' | 'elevenlabs' | 'edge-tts' | 'pexels';
+
+export interface UsageEvent {
+  provider: UsageProvider;
+  /** What the call was for, e.g. `script`, `narration`, `asset-search`, `metadata`. */
+  operation: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Characters sent to a TTS provider. */
+  characters?: number;
+  requests: number;
+  /** Set on calls that repeat an earlier one (e.g. a duration-contract retry). */
+  retries?: number;
+}
+
+/** Called by providers after each metered call; a failing reporter must never break the call. */
+export type UsageReporter = (event: UsageEvent) => void | Promise<void>;
+
+export interface UsageTotals {
+  costUsd: number;
+  requests: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+}
+
+export interface ChannelCostSummary extends UsageTotals {
+  channelId: string;
+  /** Spend in the current calendar month (UTC), compared against the budget. */
+  currentMonthUsd: number;
+  monthlyBudgetUsd?: number;
+  budgetExceeded: boolean;
+}
+
+export interface ProjectCostSummary extends UsageTotals {
+  projectId: string;
+  channelId: string;
+}
+
+export interface CostReport {
+  /** `YYYY-MM` when filtered by month. */
+  month?: string;
+  channelId?: string;
+  total: UsageTotals;
+  byChannel: ChannelCostSummary[];
+  byProject: ProjectCostSummary[];
+  byMonth: Array<UsageTotals & { month: string }>;
+  byProvider: Array<UsageTotals & { provider: UsageProvider }>;
+}
+
+export interface BudgetStatus {
+  channelId: string;
+  month: string;
+  spentUsd: number;
+  monthlyBudgetUsd?: number;
+  exceeded: boolean;
+}
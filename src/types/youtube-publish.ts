@@ -2,6 +2,9 @@ import { YouTubeConfig } from './scheduler.js';
 
 export type YouTubePublishStatus = 'starting' | 'uploading' | 'processing' | 'done' | 'failed';
 
+/** The thumbnail is set after the video is online, and can be retried on its own. */
+export type YouTubeThumbnailStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
 export interface YouTubePublishJob {
   id: string;
   status: YouTubePublishStatus;
@@ -31,5 +34,15 @@ export interface YouTubePublishJob {
   warning?: string;
   processingStatus?: string;
 
+  /** Custom thumbnail sent with `thumbnails.set` once the upload succeeded. */
+  thumbnail?: {
+    /** Local image file on the server. */
+    path: string;
+    status: YouTubeThumbnailStatus;
+    attempts: number;
+    error?: string;
+    updatedAt: string;
+  };
+
   error?: string;
 }
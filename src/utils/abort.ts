@@ -0,0 +1,37 @@
+import { ChildProcess } from 'child_process';
+
+/** Error thrown when a run is stopped through its AbortSignal. */
+export function cancelledError(): Error {
+  const err = new Error('CANCELLED');
+  err.name = 'AbortError';
+  return err;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw cancelledError();
+}
+
+/**
+ * Kill a spawned process (ffmpeg, edge-tts…) when the signal fires.
+ * Returns a disposer to call once the process has exited.
+ */
+export function killOnAbort(proc: ChildProcess, signal?: AbortSignal): () => void {
+  if (!signal) return () => undefined;
+
+  const onAbort = () => {
+    if (proc.exitCode === null && !proc.killed) {
+      proc.kill('SIGTERM');
+      // ffmpeg may take a moment to flush; make sure it goes away
+      setTimeout(() => {
+        if (proc.exitCode === null) proc.kill('SIGKILL');
+      }, 5000).unref();
+    }
+  };
+
+  if (signal.aborted) {
+    onAbort();
+    return () => undefined;
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
@@ -0,0 +1,97 @@
+import { promisify } from 'util';
+import { execFile } from 'child_process';
+
+const execFileAsync = promisify(execFile);
+
+/** Media duration in seconds via ffprobe; throws when it can't be determined. */
+export async function probeDurationSeconds(mediaPath: string, signal?: AbortSignal): Promise<number> {
+  const { stdout } = await execFileAsync(
+    'ffprobe',
+    ['-i', mediaPath, '-show_entries', 'format=duration', '-v', 'quiet', '-of', 'csv=p=0'],
+    { signal }
+  );
+  const value = parseFloat(stdout.trim());
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Unable to determine duration via ffprobe for: ${mediaPath}`);
+  }
+  return value;
+}
+
+/**
+ * Copy `durationSeconds` of audio starting at `startSeconds` into a new MP3,
+ * with short fades so the cut doesn't click.
+ */
+export async function extractAudioWindow(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const fadeSeconds = Math.min(0.5, durationSeconds / 4);
+  await execFileAsync(
+    'ffmpeg',
+    [
+      '-ss', startSeconds.toFixed(3),
+      '-t', durationSeconds.toFixed(3),
+      '-i', inputPath,
+      '-af', `afade=t=in:st=0:d=${fadeSeconds},afade=t=out:st=${(durationSeconds - fadeSeconds).toFixed(3)}:d=${fadeSeconds}`,
+      '-c:a', 'libmp3lame',
+      '-q:a', '2',
+      '-y',
+      outputPath
+    ],
+    { signal }
+  );
+}
+
+/** Join audio files end to end into one MP3 (re-encoded, so inputs may differ in sample rate). */
+export async function concatAudioFiles(inputPaths: string[], outputPath: string, signal?: AbortSignal): Promise<void> {
+  if (inputPaths.length === 0) {
+    throw new Error('No audio files to concatenate');
+  }
+  const inputs = inputPaths.flatMap((p) => ['-i', p]);
+  const labels = inputPaths.map((_, idx) => `[${idx}:a]`).join('');
+  await execFileAsync(
+    'ffmpeg',
+    [
+      ...inputs,
+      '-filter_complex', `${labels}concat=n=${inputPaths.length}:v=0:a=1[out]`,
+      '-map', '[out]',
+      '-c:a', 'libmp3lame',
+      '-q:a', '2',
+      '-y',
+      outputPath
+    ],
+    { signal }
+  );
+}
+
+/** Stretches of audio louder than the noise floor, found with FFmpeg's silencedetect. */
+export async function detectSpeechRegions(
+  audioPath: string,
+  signal?: AbortSignal
+): Promise<Array<{ startSeconds: number; endSeconds: number }>> {
+  const duration = await probeDurationSeconds(audioPath, signal);
+  const { stderr } = await execFileAsync(
+    'ffmpeg',
+    ['-i', audioPath, '-af', 'silencedetect=noise=-35dB:d=0.25', '-f', 'null', '-'],
+    { signal, maxBuffer: 16 * 1024 * 1024 }
+  );
+
+  const regions: Array<{ startSeconds: number; endSeconds: number }> = [];
+  let speechStart = 0;
+  for (const line of stderr.split('\n')) {
+    const start = line.match(/silence_start: (-?[\d.]+)/);
+    const end = line.match(/silence_end: ([\d.]+)/);
+    if (start) {
+      const silenceStart = Math.max(0, parseFloat(start[1]));
+      if (silenceStart > speechStart) regions.push({ startSeconds: speechStart, endSeconds: silenceStart });
+      speechStart = Infinity;
+    } else if (end) {
+      speechStart = parseFloat(end[1]);
+    }
+  }
+  if (speechStart < duration) regions.push({ startSeconds: speechStart, endSeconds: duration });
+  return regions;
+}
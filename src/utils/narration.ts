@@ -0,0 +1,96 @@
+import { Channel, VideoScript } from '../types/index.js';
+import { NarrationTiming } from '../types/timeline.js';
+
+/** One spoken part of the narration, labelled like the timeline planner's segments. */
+export interface NarrationSegment {
+  /** hook, sting, section-N, soft-cta, conclusion, outro-teaser, final-cta */
+  key: string;
+  text: string;
+}
+
+/**
+ * What the narrator says, in order, with the channel's branding lines injected at
+ * safe moments. Localized versions pass a channel carrying the translated branding.
+ */
+export function narrationSegments(channel: Channel, script: VideoScript): NarrationSegment[] {
+  const sting = channel.branding?.stingText?.replace('{ChannelName}', channel.name);
+  const softCta = channel.branding?.softCtaText;
+  const outroTeaser = channel.branding?.outroTeaserText;
+  const finalCta = channel.branding?.finalCtaText;
+
+  // Hook ~0:00–0:07 (no intro)
+  const segments: NarrationSegment[] = [{ key: 'hook', text: script.hook.trim() }];
+
+  // Sting 2–3s after hook
+  if (sting) segments.push({ key: 'sting', text: sting });
+
+  // Main body: insert soft CTA around ~1:20 by placing after first section
+  script.sections.forEach((section, idx) => {
+    segments.push({ key: `section-${idx + 1}`, text: section.narration.trim() });
+    if (idx === 0 && softCta) {
+      segments.push({ key: 'soft-cta', text: softCta });
+    }
+  });
+
+  segments.push({ key: 'conclusion', text: script.conclusion.trim() });
+
+  // Outro teaser 10–12s + final CTA
+  if (outroTeaser) segments.push({ key: 'outro-teaser', text: outroTeaser });
+  if (finalCta) segments.push({ key: 'final-cta', text: finalCta });
+
+  return segments;
+}
+
+export function narrationParts(channel: Channel, script: VideoScript): string[] {
+  return narrationSegments(channel, script).map((segment) => segment.text);
+}
+
+export function buildNarrationWithBranding(channel: Channel, script: VideoScript): string {
+  return narrationParts(channel, script).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+export function wordCount(text: string): number {
+  return (text || '').trim().split(/\s+/).filter(Boolean).length;
+}
+
+/** Timing map from per-segment durations, scaled so the last segment ends with the audio. */
+export function timingFromDurations(
+  parts: Array<{ key: string; durationSeconds: number }>,
+  audioDuration: number
+): NarrationTiming {
+  const total = parts.reduce((sum, p) => sum + p.durationSeconds, 0);
+  const scale = total > 0 ? audioDuration / total : 0;
+  let startSeconds = 0;
+  return parts.map((part) => {
+    const durationSeconds = part.durationSeconds * scale;
+    const entry = { key: part.key, startSeconds, durationSeconds };
+    startSeconds += durationSeconds;
+    return entry;
+  });
+}
+
+/** Timing map estimated from word counts, for narrations voiced in one take. */
+export function estimateTiming(channel: Channel, script: VideoScript, audioDuration: number): NarrationTiming {
+  const segments = narrationSegments(channel, script).filter((s) => s.text.trim());
+  return timingFromDurations(
+    segments.map((s) => ({ key: s.key, durationSeconds: Math.max(1, wordCount(s.text)) })),
+    audioDuration
+  );
+}
+
+/**
+ * Timing map of a narration file: the `measured` one (voiced clip by clip) when it ends with
+ * the audio, estimated from word counts otherwise.
+ */
+export function narrationTimingFor(
+  channel: Channel,
+  script: VideoScript,
+  audioDuration: number,
+  measured?: NarrationTiming
+): NarrationTiming {
+  const last = measured?.[measured.length - 1];
+  if (measured && last && Math.abs(last.startSeconds + last.durationSeconds - audioDuration) < 1) {
+    return measured;
+  }
+  return estimateTiming(channel, script, audioDuration);
+}
@@ -0,0 +1,119 @@
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { WordTiming } from '../types/subtitles.js';
+
+/** Word timings are kept next to the audio they describe: `<name>.mp3` → `<name>.words.json`. */
+export function wordTimingsPath(audioPath: string): string {
+  return audioPath.replace(/\.[^./\\]+$/, '') + '.words.json';
+}
+
+export async function writeWordTimings(audioPath: string, words: WordTiming[]): Promise<void> {
+  await writeFile(wordTimingsPath(audioPath), JSON.stringify(words));
+}
+
+/** Timings saved by the TTS provider for this audio file, or null when it gave none. */
+export async function readWordTimings(audioPath: string): Promise<WordTiming[] | null> {
+  const file = wordTimingsPath(audioPath);
+  if (!existsSync(file)) return null;
+  const words = JSON.parse(await readFile(file, 'utf-8')) as WordTiming[];
+  return Array.isArray(words) && words.length > 0 ? words : null;
+}
+
+/** ElevenLabs `with-timestamps` alignment (one entry per character) grouped into words. */
+export function wordsFromCharacterAlignment(alignment: {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((char, idx) => {
+    if (/\s/.test(char)) {
+      if (current) words.push(current);
+      current = null;
+      return;
+    }
+    const start = alignment.character_start_times_seconds[idx] ?? 0;
+    const end = alignment.character_end_times_seconds[idx] ?? start;
+    if (!current) {
+      current = { word: char, startSeconds: start, endSeconds: end };
+    } else {
+      current.word += char;
+      current.endSeconds = end;
+    }
+  });
+  if (current) words.push(current);
+  return words;
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Words from an SRT/WebVTT file written by Edge TTS (`--write-subtitles`). Older versions
+ * write one cue per word boundary, newer ones one cue per sentence: words sharing a cue
+ * get its time in proportion to their length.
+ */
+export function wordsFromCueFile(content: string): WordTiming[] {
+  const words: WordTiming[] = [];
+  const blocks = content.replace(/\r/g, '').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timeIdx = lines.findIndex((l) => l.includes('-->'));
+    if (timeIdx === -1) continue;
+
+    const [from, to] = lines[timeIdx].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to.trim().split(/\s+/)[0]);
+    const cueWords = lines.slice(timeIdx + 1).join(' ').split(/\s+/).filter(Boolean);
+    words.push(...spreadWords(cueWords, start, end));
+  }
+  return words;
+}
+
+/** Lay words end to end over [start, end], each taking time in proportion to its length. */
+function spreadWords(words: string[], start: number, end: number): WordTiming[] {
+  const total = words.reduce((sum, w) => sum + w.length, 0) || 1;
+  let cursor = start;
+  return words.map((word) => {
+    const duration = ((end - start) * word.length) / total;
+    const timing = { word, startSeconds: cursor, endSeconds: cursor + duration };
+    cursor += duration;
+    return timing;
+  });
+}
+
+/**
+ * Fallback for providers without timings: spread the text's words over the speech
+ * regions found by silence detection, in proportion to their length. Words never
+ * straddle a pause.
+ */
+export function alignWordsToSpeech(text: string, speech: Array<{ startSeconds: number; endSeconds: number }>): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const regions = speech.filter((r) => r.endSeconds > r.startSeconds);
+  if (words.length === 0 || regions.length === 0) return [];
+
+  const speechSeconds = regions.reduce((sum, r) => sum + (r.endSeconds - r.startSeconds), 0);
+  const totalChars = words.reduce((sum, w) => sum + w.length, 0);
+
+  // Words in each region, in proportion to the region's share of the speech.
+  const timings: WordTiming[] = [];
+  let wordIdx = 0;
+  let charsBefore = 0;
+  regions.forEach((region, regionIdx) => {
+    const regionEnd = regions.slice(0, regionIdx + 1).reduce((sum, r) => sum + (r.endSeconds - r.startSeconds), 0);
+    const charLimit = regionIdx === regions.length - 1 ? Infinity : (regionEnd / speechSeconds) * totalChars;
+    const regionWords: string[] = [];
+    while (wordIdx < words.length && (regionWords.length === 0 || charsBefore + words[wordIdx].length / 2 <= charLimit)) {
+      regionWords.push(words[wordIdx]);
+      charsBefore += words[wordIdx].length;
+      wordIdx++;
+    }
+    timings.push(...spreadWords(regionWords, region.startSeconds, region.endSeconds));
+  });
+  return timings;
+}
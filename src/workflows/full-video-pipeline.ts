@@ -1,649 +1,861 @@
 import 'dotenv/config';
-import { ScriptGenerator, EnhancedVideoScript } from '../services/script-generator.js';
-import { VoiceGeneratorFactory } from '../services/voice-generator-factory.js';
-import { AssetCollector } from '../services/asset-collector.js';
+import { EnhancedVideoScript } from '../services/script-generator.js';
+import { UnifiedVoiceGenerator } from '../services/voice-generator-factory.js';
 import { AssetDownloader } from '../services/asset-downloader.js';
 import { VideoComposer, ComposeOptions } from '../services/video-composer.js';
-import { Channel, VisualRequest, VideoScript } from '../types/index.js';
+import { TimelinePlanner, spliceReusedBeats } from '../services/timeline-planner.js';
+import { NarrationClipRenderer, NarrationClipRendererOptions, matchUnchangedClips, textHash } from '../services/narration-clips.js';
+import { SubtitleGenerator } from '../services/subtitle-generator.js';
+import { ScriptLinter, blockingSegments } from '../services/script-linter.js';
+import { Asset, Channel, VideoScript, VisualRequest } from '../types/index.js';
+import {
+  PipelineMode,
+  PipelineProgressReporter,
+  PipelineResult,
+  PipelineRunOptions,
+  PipelineStage,
+  ScriptUpdateResult
+} from '../types/pipeline.js';
+import { AssetProvider, Providers, ScriptProvider } from '../types/providers.js';
+import { createProviders } from '../providers/index.js';
+import { ProjectStore } from '../services/project-store.js';
+import { CostTracker } from '../services/cost-tracker.js';
+import { UsageReporter } from '../types/usage.js';
+import { NarrationTiming } from '../types/timeline.js';
+import { NarrationClip, ProjectManifest, projectTopic } from '../schemas/project-manifest.js';
+import { channels } from '../config/channels.js';
+import {
+  formatContractWindow,
+  getDurationContract,
+  targetDurationMinutes,
+  targetWordCount
+} from '../config/duration-contract.js';
+import { getScriptRules } from '../config/script-rules.js';
 import { mkdir, readFile, writeFile } from 'fs/promises';
-import { promisify } from 'util';
-import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import path from 'path';
 import logger from '../utils/logger.js';
+import { throwIfAborted } from '../utils/abort.js';
+import { probeDurationSeconds } from '../utils/media.js';
+import { buildNarrationWithBranding, narrationSegments, narrationTimingFor, wordCount } from '../utils/narration.js';
+
+const STAGE_ORDER: PipelineStage[] = ['script', 'audio', 'collect', 'download', 'compose'];
+
+interface ProjectContext {
+  channel: Channel;
+  topic: string;
+  projectId: string;
+  scriptPath: string;
+  audioPath: string;
+  signal?: AbortSignal;
+  onProgress?: PipelineProgressReporter;
+  /** Records provider usage (tokens, characters, requests) in the project manifest. */
+  onUsage: UsageReporter;
+}
 
-const execFileAsync = promisify(execFile);
+/**
+ * Work out the last stage whose output is still usable on disk (script and narration at
+ * `paths`). Older manifests have no `completedStages`, so checkpoints are inferred from their fields.
+ */
+export function resolveLastCompletedStage(
+  manifest: ProjectManifest,
+  paths: { scriptPath: string; audioPath: string }
+): PipelineStage | null {
+  const recorded = manifest.completedStages;
+  const hasDownloads = manifest.downloadedAssets.some((a) => a.localPath && existsSync(a.localPath));
+
+  const checks: Record<PipelineStage, boolean> = {
+    script: existsSync(paths.scriptPath),
+    audio: existsSync(paths.audioPath),
+    collect: manifest.collectedAssets.length > 0,
+    download: hasDownloads,
+    compose: !!manifest.videoPath && existsSync(manifest.videoPath)
+  };
+
+  let last: PipelineStage | null = null;
+  for (const stage of STAGE_ORDER) {
+    const done = recorded.length > 0 ? recorded.includes(stage) && checks[stage] : checks[stage];
+    if (!done) break;
+    last = stage;
+  }
+  return last;
+}
+
+export interface FullVideoPipelineOptions {
+  /** Scripts and narration go to `<outputDir>/scripts` and `<outputDir>/audio` (default ./output). */
+  outputDir?: string;
+  /** ffprobe/ffmpeg calls on the narration; must match the voice generator's output directory. */
+  media?: NarrationClipRendererOptions['media'];
+  assetDownloader?: Pick<AssetDownloader, 'downloadAssets'>;
+  videoComposer?: Pick<VideoComposer, 'composeVideo'>;
+}
+
+/** Beats and assets of the previous render, for segments whose narration did not change. */
+interface BeatReuse {
+  requests: VisualRequest[];
+  assets: Asset[];
+  /** New segment label → previous segment label. */
+  segments: Record<string, string>;
+}
 
 export class FullVideoPipeline {
-  private scriptGenerator: ScriptGenerator;
-  private voiceGeneratorFactory: VoiceGeneratorFactory;
-  private assetCollector: AssetCollector;
-  private assetDownloader: AssetDownloader;
-  private videoComposer: VideoComposer;
-
-  constructor() {
-    this.scriptGenerator = new ScriptGenerator();
-    this.voiceGeneratorFactory = new VoiceGeneratorFactory();
-    this.assetCollector = new AssetCollector();
-    this.assetDownloader = new AssetDownloader();
-    this.videoComposer = new VideoComposer();
+  private scriptGenerator: ScriptProvider;
+  private voiceGenerator: UnifiedVoiceGenerator;
+  private assetCollector: AssetProvider;
+  private assetDownloader: Pick<AssetDownloader, 'downloadAssets'>;
+  private videoComposer: Pick<VideoComposer, 'composeVideo'>;
+  private timelinePlanner: TimelinePlanner;
+  private narrationRenderer: NarrationClipRenderer;
+  private subtitleGenerator: SubtitleGenerator;
+  private scriptLinter: ScriptLinter;
+  private projectStore: ProjectStore;
+  private costTracker: CostTracker;
+  private outputDir: string;
+  private probeDuration: typeof probeDurationSeconds;
+
+  constructor(
+    providers: Pick<Providers, 'scriptGenerator' | 'voiceGenerator' | 'assetCollector'> = createProviders(),
+    projectStore: ProjectStore = new ProjectStore(),
+    costTracker: CostTracker = new CostTracker(projectStore),
+    options: FullVideoPipelineOptions = {}
+  ) {
+    this.scriptGenerator = providers.scriptGenerator;
+    this.voiceGenerator = providers.voiceGenerator;
+    this.assetCollector = providers.assetCollector;
+    this.assetDownloader = options.assetDownloader || new AssetDownloader();
+    this.videoComposer = options.videoComposer || new VideoComposer();
+    this.timelinePlanner = new TimelinePlanner();
+    this.outputDir = options.outputDir || './output';
+    this.probeDuration = options.media?.probeDurationSeconds || probeDurationSeconds;
+    this.narrationRenderer = new NarrationClipRenderer(this.voiceGenerator, {
+      audioDir: `${this.outputDir}/audio`,
+      media: options.media
+    });
+    this.projectStore = projectStore;
+    this.costTracker = costTracker;
+    this.subtitleGenerator = new SubtitleGenerator(projectStore);
+    this.scriptLinter = new ScriptLinter();
+  }
+
+  async generateVideo(
+    channel: Channel,
+    topic: string,
+    projectId?: string,
+    options: PipelineRunOptions = {}
+  ): Promise<string> {
+    const result = await this.generateProject(channel, topic, projectId, { ...options, mode: 'full' });
+    return result.videoPath as string;
   }
 
-  async generateVideo(channel: Channel, topic: string, projectId?: string): Promise<string> {
+  /**
+   * Generate a project up to the stage allowed by `mode`.
+   * `script-only` and `audio-only` runs leave a `draft` manifest that `resumeProject` continues to a full video.
+   */
+  async generateProject(
+    channel: Channel,
+    topic: string,
+    projectId?: string,
+    options: PipelineRunOptions & { mode?: PipelineMode } = {}
+  ): Promise<PipelineResult> {
+    const mode = options.mode || 'full';
+
     console.log('\n🎬 Full Video Pipeline Started');
     console.log('='.repeat(60));
     console.log(`📺 Channel: ${channel.name}`);
     console.log(`📝 Topic: ${topic}`);
+    if (mode !== 'full') console.log(`⏸️  Mode: ${mode}`);
     console.log('='.repeat(60) + '\n');
 
-    const resolvedProjectId = projectId || `${channel.id}-${Date.now()}`;
+    const ctx = this.createContext(channel, topic, projectId || `${channel.id}-${Date.now()}`, options);
+
+    // A restart under the same projectId keeps the spend of earlier attempts.
+    const previous = await this.projectStore.get(ctx.projectId).catch(() => null);
+    await this.projectStore.save({
+      ...this.projectStore.newManifest({
+        projectId: ctx.projectId,
+        channelId: channel.id,
+        topic,
+        mode,
+        scriptPath: ctx.scriptPath,
+        audioPath: ctx.audioPath
+      }),
+      usage: previous?.usage ?? []
+    });
 
-    const metaDir = './output/meta';
-    const metaPath = `${metaDir}/${resolvedProjectId}.json`;
+    return this.runStages(ctx, async () => {
+      if (mode === 'script-only') {
+        // Script for review: no TTS spend yet, the duration contract is enforced when audio is generated.
+        console.log('📝 STEP 1/1: Generating script for review...\n');
+        this.report(ctx, 'script', 0, 'Generating script for review');
+        const contract = getDurationContract(channel);
+        const draft = await this.scriptGenerator.generateScript(channel, topic, {
+          targetWordCount: targetWordCount(contract),
+          targetDurationMinutes: targetDurationMinutes(contract),
+          signal: ctx.signal,
+          onUsage: ctx.onUsage
+        });
+        const script = await this.lintScript(ctx, draft, ctx.onUsage);
+        await this.verifyClaims(ctx, script);
+        await this.saveScript(ctx, script);
+        await this.markStagesComplete(ctx, ['script'], { status: 'draft' });
+        this.report(ctx, 'script', 100, `Script ready for review: "${script.title}"`);
+
+        console.log(`✅ Script generated: "${script.title}"`);
+        console.log(`   Saved: ${ctx.scriptPath}`);
+        console.log(`\n⏸️  Stopped after script. Continue with: npm run generate:resume ${ctx.projectId}\n`);
+        return { projectId: ctx.projectId, mode, stage: 'script', scriptPath: ctx.scriptPath };
+      }
 
-    try {
       // Step 1: Generate Script + Audio with strict duration contract
-      console.log('📝 STEP 1/5: Generating script (9–12 min contract) + audio...\n');
+      console.log(`📝 STEP 1/5: Generating script (${formatContractWindow(getDurationContract(channel))} contract) + audio...\n`);
+
+      const { script, audioDuration, clips, timing } = await this.generateScriptAndAudioWithContract(ctx);
 
-      const { script, audioPath, audioDuration, narrationText } = await this.generateScriptAndAudioWithContract(channel, topic, resolvedProjectId);
-      
       console.log(`✅ Script generated: "${script.title}"`);
       console.log(`   Script target duration: ${Math.floor(script.duration / 60)}:${String(script.duration % 60).padStart(2, '0')}`);
       console.log(`   Sections: ${script.sections.length}`);
       console.log(`   Audio (ffprobe): ${Math.floor(audioDuration / 60)}:${String(Math.round(audioDuration % 60)).padStart(2, '0')}`);
-      
-      // Save script
-      const scriptPath = `./output/scripts/${resolvedProjectId}.json`;
-      await writeFile(scriptPath, JSON.stringify(script, null, 2));
-      console.log(`   Saved: ${scriptPath}\n`);
-
-      // Save manifest (used for pre-publish checks)
-      await mkdir(metaDir, { recursive: true });
-      await writeFile(
-        metaPath,
-        JSON.stringify(
-          {
-            projectId: resolvedProjectId,
-            channelId: channel.id,
-            topic,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            scriptPath,
-            audioPath,
-            videoPath: null,
-            audioDurationSeconds: audioDuration,
-            beatsPlanned: null,
-            forceImagesOnly: false,
-            minClipsRequested: null,
-            requests: [],
-            collectedAssets: [],
-            downloadedAssets: []
-          },
-          null,
-          2
-        )
-      );
-
-      // Step 3: Collect Assets
-      console.log('🎨 STEP 3/5: Collecting visual assets from Pexels...\n');
-      const requests = this.buildVisualTimelineRequests(channel, topic, script, audioDuration);
-      const avgBeat = requests.length > 0 ? (audioDuration / requests.length) : 0;
-      console.log(`   🎞️ Beats: ${requests.length} (avg ${(avgBeat || 0).toFixed(2)}s/shot)`);
-      const assets = await this.assetCollector.collectAssetsForTimeline(requests);
-      console.log(`   Images: ${assets.filter(a => a.type === 'image').length}`);
-      console.log(`   Videos: ${assets.filter(a => a.type === 'video').length}\n`);
-      const fromLibrary = assets.filter(a => a.source === 'library' && a.localPath).length;
-      const fromPexels = assets.filter(a => a.source === 'pexels').length;
-      if (fromLibrary > 0) {
-        console.log(`   ♻️  Assets from library: ${fromLibrary}`);
-      }
-      console.log(`   🌐 Assets from Pexels: ${fromPexels}\n`);
-
-      // Update manifest with timeline + collected assets (before downloads)
-      await this.updateProjectManifest(metaPath, (curr) => ({
-        ...curr,
-        updatedAt: new Date().toISOString(),
-        beatsPlanned: requests.length,
-        requests,
-        collectedAssets: assets
-      }));
-
-      // Step 4: Download Assets
-      console.log('📥 STEP 4/5: Downloading assets...\n');
-      const downloadedAssets = await this.assetDownloader.downloadAssets(assets);
-      const successfulDownloads = downloadedAssets.filter(a => a.localPath).length;
-      console.log(`   Downloaded: ${successfulDownloads}/${assets.length}\n`);
 
-      await this.updateProjectManifest(metaPath, (curr) => ({
-        ...curr,
-        updatedAt: new Date().toISOString(),
-        downloadedAssets
-      }));
+      await this.verifyClaims(ctx, script);
+      await this.saveScript(ctx, script);
+      console.log(`   Saved: ${ctx.scriptPath}\n`);
 
-      // Step 5: Compose Video with enhanced effects
-      console.log('🎬 STEP 5/5: Composing final video with FFmpeg (enhanced)...\n');
-      const composeOptions: ComposeOptions = {
-        channel,
-        shortVideoStrategy: 'loop',
-        enableMusic: true,
-        enableSFX: true,
-        enableVisualEffects: true,
-        enableColorGrading: true,
-        musicVolume: 0.15,
-        enhancedScript: script as EnhancedVideoScript
-      };
+      await this.markStagesComplete(ctx, ['script', 'audio'], {
+        audioDurationSeconds: audioDuration,
+        narrationClips: clips,
+        narrationTiming: timing,
+        ...(mode === 'audio-only' ? { status: 'draft' } : {})
+      });
 
-      const videoPath = await this.videoComposer.composeVideo(
-        script,
-        audioPath,
-        downloadedAssets.filter(a => a.localPath),
-        `${resolvedProjectId}.mp4`,
-        composeOptions
-      );
+      if (mode === 'audio-only') {
+        console.log(`\n⏸️  Stopped after audio. Continue with: npm run generate:resume ${ctx.projectId}\n`);
+        return { projectId: ctx.projectId, mode, stage: 'audio', scriptPath: ctx.scriptPath, audioPath: ctx.audioPath };
+      }
 
-      await this.updateProjectManifest(metaPath, (curr) => ({
-        ...curr,
-        updatedAt: new Date().toISOString(),
-        videoPath
-      }));
+      const assets = await this.stageCollect(ctx, script, audioDuration);
+      const downloadedAssets = await this.stageDownload(ctx, assets);
+      const videoPath = await this.stageCompose(ctx, script, downloadedAssets);
 
       console.log('\n' + '='.repeat(60));
       console.log('🎉 VIDEO GENERATION COMPLETE!');
       console.log('='.repeat(60));
-      console.log(`\n📄 Script:  ${scriptPath}`);
-      console.log(`🎵 Audio:   ${audioPath}`);
+      console.log(`\n📄 Script:  ${ctx.scriptPath}`);
+      console.log(`🎵 Audio:   ${ctx.audioPath}`);
       console.log(`🎬 Video:   ${videoPath}`);
       console.log(`\n✨ Your video is ready to upload to YouTube!\n`);
 
       // Optional: Cleanup assets to save space
       // await this.assetDownloader.cleanup(downloadedAssets);
 
-      return videoPath;
-
-    } catch (error) {
-      console.error('\n❌ Pipeline failed:', error);
-      throw error;
-    }
+      return {
+        projectId: ctx.projectId,
+        mode,
+        stage: 'compose',
+        scriptPath: ctx.scriptPath,
+        audioPath: ctx.audioPath,
+        videoPath
+      };
+    });
   }
 
   /**
-   * Regenerate only visuals (assets + downloads + compose) using the existing script/audio on disk.
-   * This is used by pre-publish “fix it” actions.
+   * Continue a project from its last checkpoint (script/audio, collect, download, compose).
+   * Paid outputs already on disk (script, narration, downloads) are reused as-is.
+   * This is also the "continue to full" step for script-only / audio-only drafts.
    */
-  async regenerateAssetsAndRecompose(
-    channel: Channel,
-    topic: string,
-    projectId: string,
-    options: { forceImagesOnly?: boolean; minClipsRequested?: number } = {}
-  ): Promise<string> {
-    const metaDir = './output/meta';
-    const metaPath = `${metaDir}/${projectId}.json`;
-
-    const scriptPath = `./output/scripts/${projectId}.json`;
-    const audioPath = `./output/audio/${projectId}.mp3`;
+  async resumeProject(projectId: string, options: PipelineRunOptions = {}): Promise<string> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    this.assertPipelineProject(manifest);
 
-    const script = JSON.parse(await readFile(scriptPath, 'utf-8')) as VideoScript;
-    const audioDuration = await this.probeDurationSeconds(audioPath);
+    const channel = channels[manifest.channelId];
+    if (!channel) {
+      throw new Error(`Unknown channel in manifest: ${manifest.channelId}`);
+    }
 
-    await mkdir(metaDir, { recursive: true });
+    const topic = projectTopic(manifest);
+    const ctx = this.createContext(channel, topic, projectId, options);
+    const lastStage = resolveLastCompletedStage(manifest, ctx);
 
-    console.log('🎨 REGEN: Collecting visual assets...');
-    const requests = this.buildVisualTimelineRequests(channel, topic, script, audioDuration, {
-      forceImagesOnly: !!options.forceImagesOnly,
-      minClipsRequested: options.minClipsRequested
-    });
-    const assets = await this.assetCollector.collectAssetsForTimeline(requests);
+    console.log('\n🔁 Resuming project');
+    console.log('='.repeat(60));
+    console.log(`📺 Channel: ${channel.name}`);
+    console.log(`📝 Topic: ${topic}`);
+    console.log(`✅ Last completed stage: ${lastStage || 'none'}`);
+    console.log('='.repeat(60) + '\n');
 
-    await this.updateProjectManifest(metaPath, (curr) => ({
-      ...curr,
-      projectId,
-      channelId: channel.id,
-      topic,
-      scriptPath,
-      audioPath,
-      updatedAt: new Date().toISOString(),
-      audioDurationSeconds: audioDuration,
-      beatsPlanned: requests.length,
-      forceImagesOnly: !!options.forceImagesOnly,
-      minClipsRequested: options.minClipsRequested ?? null,
-      requests,
-      collectedAssets: assets
-    }));
+    if (lastStage === 'compose') {
+      console.log(`🎬 Video already composed: ${manifest.videoPath}\n`);
+      return manifest.videoPath as string;
+    }
 
-    console.log('📥 REGEN: Downloading assets...');
-    const downloadedAssets = await this.assetDownloader.downloadAssets(assets);
+    if (!lastStage) {
+      // Nothing reusable on disk: a fresh run under the same projectId is the resume.
+      return this.generateVideo(channel, topic, projectId, options);
+    }
 
-    await this.updateProjectManifest(metaPath, (curr) => ({
+    await this.projectStore.update(projectId, (curr) => ({
       ...curr,
-      updatedAt: new Date().toISOString(),
-      downloadedAssets
+      mode: 'full',
+      status: 'running',
+      lastError: undefined,
+      completedStages: STAGE_ORDER.slice(0, STAGE_ORDER.indexOf(lastStage) + 1)
     }));
 
-    console.log('🎬 REGEN: Composing video with enhanced effects...');
-    const composeOptions: ComposeOptions = {
-      channel,
-      shortVideoStrategy: 'loop',
-      enableMusic: true,
-      enableSFX: true,
-      enableVisualEffects: true,
-      enableColorGrading: true,
-      musicVolume: 0.15,
-      enhancedScript: script as EnhancedVideoScript
-    };
+    return this.runStages(ctx, async () => {
+      const script = JSON.parse(await readFile(ctx.scriptPath, 'utf-8')) as VideoScript;
 
-    const videoPath = await this.videoComposer.composeVideo(
-      script,
-      audioPath,
-      downloadedAssets.filter(a => a.localPath),
-      `${projectId}.mp4`,
-      composeOptions
-    );
+      if (lastStage === 'script') {
+        console.log('🎙️ RESUME: Generating audio from saved script...\n');
+        // A run that failed while voicing checkpointed its script before the claims were extracted.
+        if (!script.claims) await this.verifyClaims(ctx, script);
+        await this.stageNarration(ctx, script);
+      }
 
-    await this.updateProjectManifest(metaPath, (curr) => ({
-      ...curr,
-      updatedAt: new Date().toISOString(),
-      videoPath
-    }));
+      const audioDuration = await this.probeDuration(ctx.audioPath, ctx.signal);
 
-    return videoPath;
-  }
+      let assets: Asset[] = manifest.collectedAssets;
+      if (STAGE_ORDER.indexOf(lastStage) < STAGE_ORDER.indexOf('collect')) {
+        assets = await this.stageCollect(ctx, script, audioDuration, {
+          forceImagesOnly: manifest.visualOverrides.forceImagesOnly,
+          minClipsRequested: manifest.visualOverrides.minClipsRequested
+        });
+      } else {
+        console.log(`♻️  RESUME: Reusing ${assets.length} collected assets\n`);
+      }
 
-  private async updateProjectManifest(
-    metaPath: string,
-    mutate: (curr: any) => any
-  ): Promise<void> {
-    try {
-      const curr = JSON.parse(await readFile(metaPath, 'utf-8'));
-      const next = mutate(curr);
-      await writeFile(metaPath, JSON.stringify(next, null, 2));
-    } catch {
-      const next = mutate({});
-      await writeFile(metaPath, JSON.stringify(next, null, 2));
-    }
+      let downloadedAssets: Asset[] = manifest.downloadedAssets;
+      if (STAGE_ORDER.indexOf(lastStage) < STAGE_ORDER.indexOf('download')) {
+        downloadedAssets = await this.stageDownload(ctx, assets);
+      } else {
+        console.log(`♻️  RESUME: Reusing ${downloadedAssets.length} downloaded assets\n`);
+      }
+
+      const videoPath = await this.stageCompose(ctx, script, downloadedAssets);
+      console.log(`\n🎉 Project resumed and completed: ${videoPath}\n`);
+      return videoPath;
+    });
   }
 
-  private async generateScriptAndAudioWithContract(
+  /**
+   * Regenerate only visuals (assets + downloads + compose) using the existing script/audio on disk.
+   * This is used by pre-publish “fix it” actions, and after a script edit with `reuseSegments`
+   * (new segment label → previous label) so unchanged sections keep their shots.
+   */
+  async regenerateAssetsAndRecompose(
     channel: Channel,
     topic: string,
-    projectId: string
-  ): Promise<{ script: VideoScript; audioPath: string; audioDuration: number; narrationText: string }>
-  {
-    const minSeconds = 9 * 60;
-    const maxSeconds = 12 * 60;
+    projectId: string,
+    options: { forceImagesOnly?: boolean; minClipsRequested?: number; reuseSegments?: Record<string, string> } & PipelineRunOptions = {}
+  ): Promise<string> {
+    const ctx = this.createContext(channel, topic, projectId, options);
 
-    const attempts = 3;
-    let mode: 'normal' | 'expand' | 'compress' = 'normal';
-    let targetWordCount = { min: 1500, max: 1800 };
+    const script = JSON.parse(await readFile(ctx.scriptPath, 'utf-8')) as VideoScript;
+    const audioDuration = await this.probeDuration(ctx.audioPath, ctx.signal);
 
-    let lastScript: VideoScript | null = null;
-    let lastAudioPath: string | null = null;
-    let lastDuration = 0;
-    let lastNarration = '';
+    // Projects generated before manifests existed get one here.
+    const current = await this.projectStore.get(projectId) ?? this.projectStore.newManifest({
+      projectId,
+      channelId: channel.id,
+      topic,
+      mode: 'full',
+      scriptPath: ctx.scriptPath,
+      audioPath: ctx.audioPath
+    });
+    this.assertPipelineProject(current);
+    const reuse: BeatReuse | undefined = options.reuseSegments && Object.keys(options.reuseSegments).length > 0
+      ? {
+        requests: current.requests,
+        assets: current.downloadedAssets.length > 0 ? current.downloadedAssets : current.collectedAssets,
+        segments: options.reuseSegments
+      }
+      : undefined;
+    await this.projectStore.save({
+      ...current,
+      channelId: channel.id,
+      topic,
+      mode: 'full',
+      scriptPath: ctx.scriptPath,
+      audioPath: ctx.audioPath,
+      updatedAt: new Date().toISOString(),
+      status: 'running',
+      lastError: undefined,
+      videoPath: undefined,
+      completedStages: ['script', 'audio'],
+      audioDurationSeconds: audioDuration,
+      visualOverrides: {
+        forceImagesOnly: !!options.forceImagesOnly,
+        minClipsRequested: options.minClipsRequested
+      }
+    });
 
-    for (let i = 1; i <= attempts; i++) {
-      console.log(`   ↳ Attempt ${i}/${attempts} (${mode})`);
-      const script = await this.scriptGenerator.generateScript(channel, topic, { mode, targetWordCount });
+    return this.runStages(ctx, async () => {
+      console.log('🎨 REGEN: Collecting visual assets...');
+      const assets = await this.stageCollect(ctx, script, audioDuration, {
+        forceImagesOnly: !!options.forceImagesOnly,
+        minClipsRequested: options.minClipsRequested
+      }, reuse);
 
-      // Build narration with branding injected at safe moments.
-      const narrationText = this.buildNarrationWithBranding(channel, script);
+      console.log('📥 REGEN: Downloading assets...');
+      const downloadedAssets = await this.stageDownload(ctx, assets);
 
-      const audioPath = await this.voiceGeneratorFactory.generateAudio(
-        narrationText,
-        channel.voice,
-        `${projectId}.mp3`
-      );
-      const audioDuration = await this.probeDurationSeconds(audioPath);
+      console.log('🎬 REGEN: Composing video with enhanced effects...');
+      return this.stageCompose(ctx, script, downloadedAssets);
+    });
+  }
 
-      lastScript = script;
-      lastAudioPath = audioPath;
-      lastDuration = audioDuration;
-      lastNarration = narrationText;
+  /**
+   * Save an edited script. When its narration changed on a voiced project, the project
+   * goes back to `draft` until `revoiceProject` voices the changed segments again.
+   */
+  async updateScript(projectId: string, script: VideoScript): Promise<ScriptUpdateResult> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    this.assertPipelineProject(manifest);
 
-      if (audioDuration >= minSeconds && audioDuration <= maxSeconds) {
-        // Use actual audio duration as source-of-truth
-        script.duration = Math.round(audioDuration);
-        return { script, audioPath, audioDuration, narrationText };
-      }
+    const channel = channels[manifest.channelId];
+    if (!channel) {
+      throw new Error(`Unknown channel in manifest: ${manifest.channelId}`);
+    }
+    const ctx = this.createContext(channel, projectTopic(manifest), projectId);
+    const voiced = manifest.completedStages.includes('audio');
+
+    // Narrations voiced in one take have no clips: keep their segments so unchanged sections keep their shots.
+    let previousClips = manifest.narrationClips;
+    if (previousClips.length === 0 && voiced && existsSync(ctx.scriptPath)) {
+      const previous = JSON.parse(await readFile(ctx.scriptPath, 'utf-8')) as VideoScript;
+      previousClips = narrationSegments(channel, previous).map((s) => ({ key: s.key, textHash: textHash(s.text) }));
+    }
 
-      if (audioDuration < minSeconds) {
-        mode = 'expand';
-        targetWordCount = { min: 1700, max: 2000 };
-      } else if (audioDuration > maxSeconds) {
-        mode = 'compress';
-        targetWordCount = { min: 1350, max: 1550 };
-      }
+    const segments = narrationSegments(channel, script).filter((s) => s.text.trim());
+    const known = new Set(previousClips.map((c) => c.textHash));
+    const changedSegments = segments.filter((s) => !known.has(textHash(s.text))).map((s) => s.key);
+    const sameNarration = segments.length === previousClips.length &&
+      segments.every((s, idx) => textHash(s.text) === previousClips[idx].textHash);
+    const revoice = voiced && !sameNarration;
+
+    // Claims are reviewed on their own (ClaimReview): an edit sent without them keeps the reviewed list.
+    if (!script.claims && existsSync(ctx.scriptPath)) {
+      const { claims } = JSON.parse(await readFile(ctx.scriptPath, 'utf-8')) as VideoScript;
+      if (claims) script.claims = claims;
     }
 
-    if (!lastScript || !lastAudioPath) {
-      throw new Error('Unable to generate script/audio');
+    await this.saveScript(ctx, script);
+    if (revoice) {
+      await this.projectStore.update(projectId, (curr) => ({
+        ...curr,
+        status: 'draft',
+        lastError: undefined,
+        completedStages: ['script'],
+        narrationClips: previousClips
+      }));
     }
 
-    // Best-effort: return last attempt but still enforce script.duration to audio
-    lastScript.duration = Math.round(lastDuration);
-    return { script: lastScript, audioPath: lastAudioPath, audioDuration: lastDuration, narrationText: lastNarration };
+    logger.info({ projectId, changedSegments, revoice }, 'Script updated');
+    return { projectId, changedSegments, revoice };
   }
 
-  private buildNarrationWithBranding(channel: Channel, script: VideoScript): string {
-    const sting = channel.branding?.stingText?.replace('{ChannelName}', channel.name);
-    const softCta = channel.branding?.softCtaText;
-    const outroTeaser = channel.branding?.outroTeaserText;
-    const finalCta = channel.branding?.finalCtaText;
+  /**
+   * Voice an edited script again, reusing the cached clips of unchanged segments, then
+   * recompose the video keeping the shots of those segments. Audio-only drafts stop after the narration.
+   */
+  async revoiceProject(projectId: string, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    const manifest = await this.projectStore.get(projectId);
+    if (!manifest) {
+      throw new Error(`No manifest found for project: ${projectId}`);
+    }
+    this.assertPipelineProject(manifest);
 
-    // Hook ~0:00–0:07 (no intro)
-    const parts: string[] = [script.hook.trim()];
+    const channel = channels[manifest.channelId];
+    if (!channel) {
+      throw new Error(`Unknown channel in manifest: ${manifest.channelId}`);
+    }
 
-    // Sting 2–3s after hook
-    if (sting) parts.push(sting);
+    const topic = projectTopic(manifest);
+    const ctx = this.createContext(channel, topic, projectId, options);
+    const previousClips = manifest.narrationClips;
+    const hadVisuals = manifest.requests.length > 0;
 
-    // Main body: insert soft CTA around ~1:20 by placing after first section
-    script.sections.forEach((section, idx) => {
-      parts.push(section.narration.trim());
-      if (idx === 0 && softCta) {
-        parts.push(softCta);
-      }
-    });
+    await this.projectStore.update(projectId, (curr) => ({
+      ...curr,
+      status: 'running',
+      lastError: undefined,
+      completedStages: ['script']
+    }));
 
-    parts.push(script.conclusion.trim());
+    return this.runStages(ctx, async () => {
+      const script = JSON.parse(await readFile(ctx.scriptPath, 'utf-8')) as VideoScript;
 
-    // Outro teaser 10–12s + final CTA
-    if (outroTeaser) parts.push(outroTeaser);
-    if (finalCta) parts.push(finalCta);
+      console.log('🎙️ EDIT: Voicing changed sections...\n');
+      const { clips, voiced } = await this.stageNarration(ctx, script, manifest.mode === 'full' ? {} : { status: 'draft' });
+      console.log(`   Re-voiced ${voiced.length}/${clips.length} segments: ${voiced.join(', ') || 'none'}\n`);
 
-    return parts.join(' ').replace(/\s+/g, ' ').trim();
-  }
+      if (manifest.mode !== 'full') {
+        return { projectId, mode: manifest.mode, stage: 'audio', scriptPath: ctx.scriptPath, audioPath: ctx.audioPath };
+      }
 
-  private async probeDurationSeconds(mediaPath: string): Promise<number> {
-    const { stdout } = await execFileAsync(
-      'ffprobe',
-      ['-i', mediaPath, '-show_entries', 'format=duration', '-v', 'quiet', '-of', 'csv=p=0']
-    );
-    const value = parseFloat(stdout.trim());
-    if (!Number.isFinite(value) || value <= 0) {
-      throw new Error(`Unable to determine duration via ffprobe for: ${mediaPath}`);
-    }
-    return value;
+      const videoPath = await this.regenerateAssetsAndRecompose(channel, topic, projectId, {
+        forceImagesOnly: manifest.visualOverrides.forceImagesOnly,
+        minClipsRequested: manifest.visualOverrides.minClipsRequested,
+        reuseSegments: hadVisuals ? matchUnchangedClips(previousClips, clips) : {},
+        signal: options.signal,
+        onProgress: options.onProgress
+      });
+      return { projectId, mode: 'full', stage: 'compose', scriptPath: ctx.scriptPath, audioPath: ctx.audioPath, videoPath };
+    });
   }
 
-  private buildVisualTimelineRequests(
+  private createContext(
     channel: Channel,
     topic: string,
-    script: VideoScript,
-    audioDuration: number,
-    overrides: { forceImagesOnly?: boolean; minClipsRequested?: number } = {}
-  ): VisualRequest[] {
-    // Beats timeline (indispensable): ~6–8s shots => docu monté (pas slideshow).
-    const pacing = channel.pacing || { minShotSeconds: 6, maxShotSeconds: 8 };
-
-    // Règle produit: plans ~6–8s pour un montage “docu” (même si un channel préfère plus rapide).
-    const minBeat = Math.max(6, pacing.minShotSeconds);
-    const maxBeat = Math.max(minBeat, Math.min(8, pacing.maxShotSeconds));
-
-    // Majoritairement images animées + quelques clips.
-    const baseMix = channel.visualMix || { image: 0.85, video: 0.15 };
-    const visualMix = overrides.forceImagesOnly
-      ? { image: 1, video: 0 }
-      : baseMix;
-
-    const rng = this.mulberry32(this.hashStringToSeed(`${channel.id}:${topic}:${script.title}`));
-
-    const stingText = channel.branding?.stingText?.replace('{ChannelName}', channel.name)?.trim();
-    const softCtaText = channel.branding?.softCtaText?.trim();
-    const outroTeaserText = channel.branding?.outroTeaserText?.trim();
-    const finalCtaText = channel.branding?.finalCtaText?.trim();
-
-    const stingQuery = channel.id === 'classified-files'
-      ? 'classified dossier files archive evidence'
-      : channel.id === 'human-odyssey'
-        ? 'ancient map parchment artifact archaeology'
-        : 'futuristic interface hologram abstract technology';
-
-    const outroQuery = channel.id === 'classified-files'
-      ? 'surveillance camera night city evidence board'
-      : channel.id === 'human-odyssey'
-        ? 'cinematic landscape ruins sunset ancient civilization'
-        : 'space galaxy futuristic city night cinematic';
-
-    type Segment = {
-      label: string;
-      text: string;
-      baseQuery: string;
-      transition?: VisualRequest['transition'];
-      forceType?: VisualRequest['preferredType'];
+    projectId: string,
+    options: PipelineRunOptions = {}
+  ): ProjectContext {
+    return {
+      channel,
+      topic,
+      projectId,
+      scriptPath: `${this.outputDir}/scripts/${projectId}.json`,
+      audioPath: `${this.outputDir}/audio/${projectId}.mp3`,
+      signal: options.signal,
+      onProgress: options.onProgress,
+      onUsage: this.costTracker.reporterFor(projectId)
     };
+  }
 
-    const segments: Segment[] = [];
-
-    // Hook first (7–8s typiquement)
-    segments.push({
-      label: 'hook',
-      text: script.hook || topic,
-      baseQuery: script.sections[0]?.searchQuery || topic,
-      transition: 'fade'
-    });
-
-    // Branding sting text exists in narration; give it a dedicated segment to avoid jarring visuals.
-    if (stingText) {
-      segments.push({
-        label: 'sting',
-        text: stingText,
-        baseQuery: stingQuery,
-        transition: 'fade',
-        forceType: 'image'
+  /** Emit a progress event; a failing reporter must never break the run. */
+  private report(ctx: ProjectContext, stage: PipelineStage, percent: number, detail: string): void {
+    if (!ctx.onProgress) return;
+    try {
+      ctx.onProgress({
+        stage,
+        stepIndex: STAGE_ORDER.indexOf(stage) + 1,
+        stepCount: STAGE_ORDER.length,
+        percent: Math.max(0, Math.min(100, Math.round(percent))),
+        detail
       });
+    } catch (error) {
+      logger.warn({ projectId: ctx.projectId, error: (error as Error).message }, 'Progress reporter failed');
     }
+  }
 
-    // Sections: base is section.searchQuery
-    script.sections.forEach((section, idx) => {
-      segments.push({
-        label: `section-${idx + 1}`,
-        text: section.narration,
-        baseQuery: section.searchQuery || topic,
-        transition: section.transition
-      });
+  private formatDuration(seconds: number): string {
+    return `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+  }
 
-      // Soft CTA is injected after first section in narration; allocate a small segment so the timeline matches audio better.
-      if (idx === 0 && softCtaText) {
-        segments.push({
-          label: 'soft-cta',
-          text: softCtaText,
-          baseQuery: section.searchQuery || topic,
-          transition: section.transition,
-          forceType: 'image'
-        });
+  /**
+   * Run stages and record a failure (or cancellation) in the manifest so the project can be resumed later.
+   */
+  private async runStages<T>(ctx: ProjectContext, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      const cancelled = !!ctx.signal?.aborted;
+      if (cancelled) {
+        console.log('\n🛑 Pipeline cancelled');
+      } else {
+        console.error('\n❌ Pipeline failed:', error);
       }
+      await this.projectStore.update(ctx.projectId, (curr) => ({
+        ...curr,
+        status: cancelled ? 'cancelled' : 'failed',
+        lastError: cancelled ? undefined : ((error as Error)?.message || String(error))
+      })).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /** Voice the script clip by clip (cached clips are reused) and checkpoint the audio stage. */
+  private async stageNarration(ctx: ProjectContext, script: VideoScript, patch: Partial<ProjectManifest> = {}) {
+    throwIfAborted(ctx.signal);
+    this.report(ctx, 'audio', 0, 'Generating narration from saved script');
+    const result = await this.narrationRenderer.render(ctx.projectId, ctx.channel, script, ctx.channel.voice, {
+      signal: ctx.signal,
+      onUsage: ctx.onUsage,
+      onClip: (done, total) => this.report(ctx, 'audio', (done / total) * 100, `Narration clips ${done}/${total}`)
     });
 
-    // Conclusion
-    segments.push({
-      label: 'conclusion',
-      text: script.conclusion || '',
-      baseQuery: `${topic} legacy aftermath`.
-        replace(/\s+/g, ' ')
-        .trim(),
-      transition: 'dissolve'
+    script.duration = Math.round(result.audioDuration);
+    await this.saveScript(ctx, script);
+    await this.markStagesComplete(ctx, ['audio'], {
+      audioDurationSeconds: result.audioDuration,
+      narrationClips: result.clips,
+      narrationTiming: result.timing,
+      ...patch
     });
+    this.report(ctx, 'audio', 100, `Narration ready (${this.formatDuration(result.audioDuration)})`);
+    return result;
+  }
 
-    if (outroTeaserText) {
-      segments.push({
-        label: 'outro-teaser',
-        text: outroTeaserText,
-        baseQuery: outroQuery,
-        transition: 'fade',
-        forceType: 'image'
-      });
+  private async stageCollect(
+    ctx: ProjectContext,
+    script: VideoScript,
+    audioDuration: number,
+    overrides: { forceImagesOnly?: boolean; minClipsRequested?: number } = {},
+    reuse?: BeatReuse
+  ): Promise<Asset[]> {
+    throwIfAborted(ctx.signal);
+    console.log('🎨 STEP 3/5: Collecting visual assets from Pexels...\n');
+    const timing = await this.narrationTiming(ctx, script, audioDuration);
+    let requests = this.timelinePlanner.buildRequests(ctx.channel, ctx.topic, script, audioDuration, overrides, timing);
+    let reused: Array<Asset | undefined> = requests.map(() => undefined);
+    if (reuse) {
+      ({ requests, assets: reused } = spliceReusedBeats(requests, reuse.requests, reuse.assets, reuse.segments));
     }
+    const avgBeat = requests.length > 0 ? (audioDuration / requests.length) : 0;
+    console.log(`   🎞️ Beats: ${requests.length} (avg ${(avgBeat || 0).toFixed(2)}s/shot)`);
 
-    if (finalCtaText) {
-      segments.push({
-        label: 'final-cta',
-        text: finalCtaText,
-        baseQuery: outroQuery,
-        transition: 'fade',
-        forceType: 'image'
-      });
+    const pending = requests.filter((_, idx) => !reused[idx]);
+    if (pending.length < requests.length) {
+      console.log(`   ♻️  Keeping ${requests.length - pending.length} beats of unchanged sections`);
+    }
+    const collected = pending.length > 0
+      ? await this.assetCollector.collectAssetsForTimeline(pending, {
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        onProgress: (done, total) => this.report(ctx, 'collect', total ? (done / total) * 100 : 100, `Collecting assets ${done}/${total}`)
+      })
+      : [];
+    let cursor = 0;
+    const assets = requests.map((_, idx) => reused[idx] ?? collected[cursor++]);
+    console.log(`   Images: ${assets.filter(a => a.type === 'image').length}`);
+    console.log(`   Videos: ${assets.filter(a => a.type === 'video').length}\n`);
+    const fromLibrary = assets.filter(a => a.source === 'library' && a.localPath).length;
+    const fromPexels = assets.filter(a => a.source === 'pexels').length;
+    if (fromLibrary > 0) {
+      console.log(`   ♻️  Assets from library: ${fromLibrary}`);
     }
+    console.log(`   🌐 Assets from Pexels: ${fromPexels}\n`);
 
-    const weights = segments.map(s => Math.max(1, this.wordCount(s.text)));
-    const totalWeight = Math.max(1, weights.reduce((a, b) => a + b, 0));
+    // Update manifest with timeline + collected assets (before downloads)
+    await this.markStagesComplete(ctx, ['collect'], {
+      beatsPlanned: requests.length,
+      requests,
+      collectedAssets: assets,
+      downloadedAssets: []
+    });
 
-    const requests: VisualRequest[] = [];
-    let lastQuery: string | null = null;
+    return assets;
+  }
 
-    const pickType = (forceType?: VisualRequest['preferredType']): VisualRequest['preferredType'] => {
-      if (forceType) return forceType;
-      if (overrides.forceImagesOnly) return 'image';
-      return rng() < visualMix.video ? 'video' : 'image';
-    };
+  private async stageDownload(ctx: ProjectContext, assets: Asset[]): Promise<Asset[]> {
+    throwIfAborted(ctx.signal);
+    console.log('📥 STEP 4/5: Downloading assets...\n');
+    const downloadedAssets = await this.assetDownloader.downloadAssets(assets, {
+      signal: ctx.signal,
+      onProgress: (done, total) => this.report(ctx, 'download', total ? (done / total) * 100 : 100, `Downloading assets ${done}/${total}`)
+    });
+    const successfulDownloads = downloadedAssets.filter(a => a.localPath).length;
+    console.log(`   Downloaded: ${successfulDownloads}/${assets.length}\n`);
 
-    const pickBeatDuration = (remaining: number): number => {
-      if (remaining <= 0.2) return remaining;
-      // If the remaining time is small, don't force a 6s+ beat.
-      if (remaining < minBeat * 0.75) return remaining;
+    await this.markStagesComplete(ctx, ['download'], { downloadedAssets });
+    return downloadedAssets;
+  }
 
-      const raw = minBeat + (maxBeat - minBeat) * rng();
-      return Math.min(remaining, Math.max(minBeat, Math.min(maxBeat, raw)));
+  private async stageCompose(ctx: ProjectContext, script: VideoScript, downloadedAssets: Asset[]): Promise<string> {
+    throwIfAborted(ctx.signal);
+    console.log('🎬 STEP 5/5: Composing final video with FFmpeg (enhanced)...\n');
+    this.report(ctx, 'compose', 0, 'Preparing render');
+    const audioDuration = await this.probeDuration(ctx.audioPath, ctx.signal);
+    const composeOptions: ComposeOptions = {
+      channel: ctx.channel,
+      shortVideoStrategy: 'loop',
+      enableMusic: true,
+      enableSFX: true,
+      enableVisualEffects: true,
+      enableColorGrading: true,
+      musicVolume: 0.15,
+      enhancedScript: script as EnhancedVideoScript,
+      narrationTiming: await this.narrationTiming(ctx, script, audioDuration),
+      ...await this.subtitleGenerator.tracksForRender(ctx.projectId, ctx.signal),
+      signal: ctx.signal,
+      onProgress: (percent) => this.report(ctx, 'compose', percent, `Rendering ${Math.floor(percent)}%`)
     };
 
-    const pickQueryFromPalette = (
-      baseQuery: string,
-      theme: Channel['style']['theme'],
-      preferredType: VisualRequest['preferredType'],
-      beatIndex: number
-    ): string => {
-      const palette = this.buildBeatQueryPalette(baseQuery, theme, preferredType);
-      if (palette.length === 0) return baseQuery;
-      // Rotate deterministically to keep caching effective (few unique queries per segment).
-      let q = palette[beatIndex % palette.length];
-      if (lastQuery && q === lastQuery && palette.length > 1) {
-        q = palette[(beatIndex + 1) % palette.length];
-      }
-      lastQuery = q;
-      return q;
-    };
+    const videoPath = await this.videoComposer.composeVideo(
+      script,
+      ctx.audioPath,
+      downloadedAssets.filter(a => a.localPath),
+      `${ctx.projectId}.mp4`,
+      composeOptions
+    );
 
-    segments.forEach((seg, segIdx) => {
-      const segSeconds = (weights[segIdx] / totalWeight) * audioDuration;
-      let remaining = segSeconds;
-      let beat = 0;
-
-      while (remaining > 0.05) {
-        beat += 1;
-        const dur = pickBeatDuration(remaining);
-        remaining -= dur;
-
-        const preferredType = pickType(seg.forceType);
-        const searchQuery = pickQueryFromPalette(seg.baseQuery, channel.style.theme, preferredType, beat - 1);
-
-        requests.push({
-          label: `${seg.label}-beat-${beat}`,
-          preferredType,
-          durationSeconds: Math.max(0.1, dur),
-          transition: seg.transition,
-          searchQuery,
-          channelId: channel.id
-        });
-      }
-    });
+    await this.markStagesComplete(ctx, ['compose'], { videoPath, status: 'complete' });
+    return videoPath;
+  }
 
-    // If requested, ensure we hit a minimum number of video beats.
-    const minClips = Math.max(0, Math.floor(overrides.minClipsRequested || 0));
-    if (!overrides.forceImagesOnly && minClips > 0) {
-      const videoEligible = requests
-        .map((r, idx) => ({ r, idx }))
-        .filter(({ r }) => r.preferredType !== 'video');
-
-      let currentVideos = requests.filter(r => r.preferredType === 'video').length;
-      while (currentVideos < minClips && videoEligible.length > 0) {
-        // deterministic pick to keep results stable
-        const pickIdx = Math.floor(rng() * videoEligible.length);
-        const { idx } = videoEligible.splice(pickIdx, 1)[0];
-        requests[idx] = { ...requests[idx], preferredType: 'video' };
-        currentVideos++;
-      }
-    }
+  /**
+   * Timing map of the narration on disk: measured per clip when it was voiced segment by
+   * segment, estimated from word counts for narrations voiced in one take.
+   */
+  private async narrationTiming(ctx: ProjectContext, script: VideoScript, audioDuration: number): Promise<NarrationTiming> {
+    const manifest = await this.projectStore.get(ctx.projectId).catch(() => null);
+    return narrationTimingFor(ctx.channel, script, audioDuration, manifest?.narrationTiming);
+  }
 
-    // Ensure the visual timeline is never shorter than audio (composer enforces too).
-    const sum = requests.reduce((s, r) => s + r.durationSeconds, 0);
-    if (sum + 0.05 < audioDuration) {
-      requests[requests.length - 1].durationSeconds += (audioDuration - sum);
+  /** Shorts and localized versions are derived from another project and re-rendered from it. */
+  private assertPipelineProject(manifest: ProjectManifest): void {
+    if (manifest.shortSource) {
+      throw new Error(`Project ${manifest.projectId} is a Short: render it again from ${manifest.shortSource.projectId}`);
+    }
+    if (manifest.localization) {
+      throw new Error(`Project ${manifest.projectId} is a ${manifest.localization.language} version: localize ${manifest.localization.sourceProjectId} again`);
     }
-
-    return requests;
   }
 
-  private buildBeatQueryPalette(
-    baseQuery: string,
-    theme: Channel['style']['theme'],
-    preferredType: VisualRequest['preferredType']
-  ): string[] {
-    const base = (baseQuery || '').trim();
-    if (!base) return [];
-
-    // Keep palettes small to preserve Pexels caching (avoid 80 unique queries).
-    if (theme === 'historical') {
-      if (preferredType === 'video') {
-        return [
-          base,
-          `${base} archival footage`,
-          `${base} cinematic b-roll`
-        ];
-      }
-      return [
-        base,
-        `${base} archival photo`,
-        `${base} old map`
-      ];
+  /**
+   * Pre-TTS lint against the channel's script rules. Segments with blocking issues are
+   * rewritten on their own (up to `maxRevisions` rounds) rather than paying for a new
+   * script; whatever is left is logged and the run goes on.
+   */
+  private async lintScript(ctx: ProjectContext, script: EnhancedVideoScript, onUsage: UsageReporter): Promise<EnhancedVideoScript> {
+    const rules = getScriptRules(ctx.channel);
+    let report = this.scriptLinter.lint(ctx.channel, script);
+
+    for (let round = 1; !report.ok && round <= rules.maxRevisions; round++) {
+      const segments = blockingSegments(report);
+      console.log(`   ↳ Script lint: rewriting ${segments.join(', ')} (round ${round}/${rules.maxRevisions})`);
+      this.report(ctx, 'script', 50, `Rewriting ${segments.length} segment(s) flagged by the script linter`);
+      script = await this.scriptGenerator.reviseScript(
+        ctx.channel,
+        script,
+        report.issues.filter((i) => i.severity === 'error'),
+        { signal: ctx.signal, onUsage, wordsPerMinute: getDurationContract(ctx.channel).wordsPerMinute }
+      );
+      report = this.scriptLinter.lint(ctx.channel, script);
     }
 
-    if (theme === 'mysterious') {
-      if (preferredType === 'video') {
-        return [
-          base,
-          `${base} surveillance footage`,
-          `${base} night b-roll`
-        ];
-      }
-      return [
-        base,
-        `${base} evidence board`,
-        `${base} classified document`
-      ];
+    const warnings = report.issues.filter((i) => i.severity === 'warning');
+    if (!report.ok) {
+      logger.warn({ projectId: ctx.projectId, issues: report.issues.filter((i) => i.severity === 'error') }, 'Script lint errors left after revisions');
     }
-
-    // sci-fi
-    if (preferredType === 'video') {
-      return [
-        base,
-        `${base} cinematic b-roll`,
-        `${base} futuristic city`
-      ];
+    if (warnings.length) {
+      logger.info({ projectId: ctx.projectId, warnings }, 'Script lint warnings');
     }
-    return [
-      base,
-      `${base} futuristic interface`,
-      `${base} hologram`
-    ];
+    return script;
   }
 
-  private wordCount(text: string): number {
-    return (text || '').trim().split(/\s+/).filter(Boolean).length;
+  /**
+   * Checkable claims of the final script, for channels with `factCheck`. Failures only
+   * leave the script without claims (cancellation still stops the run).
+   */
+  private async verifyClaims(ctx: ProjectContext, script: VideoScript): Promise<void> {
+    if (!ctx.channel.factCheck) return;
+    this.report(ctx, 'script', 100, 'Extracting claims to verify');
+    try {
+      script.claims = await this.scriptGenerator.extractClaims(ctx.channel, script, {
+        signal: ctx.signal,
+        onUsage: ctx.onUsage
+      });
+      console.log(`   Claims to verify: ${script.claims.length}`);
+    } catch (error) {
+      throwIfAborted(ctx.signal);
+      logger.warn({ projectId: ctx.projectId, error: (error as Error).message }, 'Claim extraction skipped');
+    }
   }
 
-  private hashStringToSeed(input: string): number {
-    let h = 2166136261;
-    for (let i = 0; i < input.length; i++) {
-      h ^= input.charCodeAt(i);
-      h = Math.imul(h, 16777619);
+  private async saveScript(ctx: ProjectContext, script: VideoScript): Promise<void> {
+    await mkdir(path.dirname(ctx.scriptPath), { recursive: true });
+    await writeFile(ctx.scriptPath, JSON.stringify(script, null, 2));
+    // Hand edits keep the version of the script they started from.
+    if (script.prompt) {
+      const promptPack = { id: script.prompt.id, version: script.prompt.version };
+      await this.projectStore.update(ctx.projectId, (curr) => ({ ...curr, promptPack }));
     }
-    return h >>> 0;
   }
 
-  private mulberry32(seed: number): () => number {
-    let t = seed >>> 0;
-    return () => {
-      t += 0x6D2B79F5;
-      let x = t;
-      x = Math.imul(x ^ (x >>> 15), x | 1);
-      x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
-      return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-    };
+  private async markStagesComplete(
+    ctx: ProjectContext,
+    stages: PipelineStage[],
+    patch: Partial<ProjectManifest> = {}
+  ): Promise<void> {
+    await this.projectStore.update(ctx.projectId, (curr) => {
+      const done = new Set<PipelineStage>(curr.completedStages);
+      stages.forEach((s) => done.add(s));
+      // A stage invalidates everything downstream of it.
+      const lastIdx = Math.max(...stages.map((s) => STAGE_ORDER.indexOf(s)));
+      return {
+        ...curr,
+        ...patch,
+        completedStages: STAGE_ORDER.filter((s, idx) => done.has(s) && idx <= lastIdx)
+      };
+    });
+  }
+
+  private async generateScriptAndAudioWithContract(
+    ctx: ProjectContext
+  ): Promise<{ script: VideoScript; audioPath: string; audioDuration: number; narrationText: string; clips: NarrationClip[]; timing: NarrationTiming }>
+  {
+    const { channel, topic, projectId, signal } = ctx;
+    const contract = getDurationContract(channel);
+    const { minSeconds, maxSeconds } = contract;
+
+    const attempts = Math.max(1, contract.maxAttempts);
+    let mode: 'normal' | 'expand' | 'compress' = 'normal';
+
+    let lastScript: VideoScript | null = null;
+    let lastAudioPath: string | null = null;
+    let lastDuration = 0;
+    let lastNarration = '';
+    let lastClips: NarrationClip[] = [];
+    let lastTiming: NarrationTiming = [];
+
+    for (let i = 1; i <= attempts; i++) {
+      throwIfAborted(signal);
+      console.log(`   ↳ Attempt ${i}/${attempts} (${mode})`);
+      this.report(ctx, 'script', 0, `Generating script (attempt ${i}/${attempts}, ${mode})`);
+      // Every attempt pays for a full script + narration; later ones are accounted as retries.
+      const onUsage = i > 1 ? this.costTracker.reporterFor(projectId, { retries: 1 }) : ctx.onUsage;
+      const draft = await this.scriptGenerator.generateScript(channel, topic, {
+        mode,
+        targetWordCount: targetWordCount(contract, mode),
+        targetDurationMinutes: targetDurationMinutes(contract),
+        signal,
+        onUsage
+      });
+      const script = await this.lintScript(ctx, draft, onUsage);
+      // Checkpoint before voicing: a failed narration resumes from this script instead of paying for another.
+      await this.saveScript(ctx, script);
+      await this.markStagesComplete(ctx, ['script']);
+      this.report(ctx, 'script', 100, `Script generated: "${script.title}"`);
+
+      // Build narration with branding injected at safe moments.
+      const narrationText = buildNarrationWithBranding(channel, script);
+      this.report(ctx, 'audio', 0, `Generating narration (${wordCount(narrationText)} words)`);
+
+      const { audioPath, audioDuration, clips, timing } = await this.narrationRenderer.render(projectId, channel, script, channel.voice, {
+        signal,
+        onUsage,
+        onClip: (done, total) => this.report(ctx, 'audio', (done / total) * 100, `Narration clips ${done}/${total}`)
+      });
+
+      lastScript = script;
+      lastAudioPath = audioPath;
+      lastDuration = audioDuration;
+      lastNarration = narrationText;
+      lastClips = clips;
+      lastTiming = timing;
+      this.report(ctx, 'audio', 100, `Narration: ${this.formatDuration(audioDuration)}`);
+
+      if (audioDuration >= minSeconds && audioDuration <= maxSeconds) {
+        // Use actual audio duration as source-of-truth
+        script.duration = Math.round(audioDuration);
+        return { script, audioPath, audioDuration, narrationText, clips, timing };
+      }
+
+      mode = audioDuration < minSeconds ? 'expand' : 'compress';
+    }
+
+    if (!lastScript || !lastAudioPath) {
+      throw new Error('Unable to generate script/audio');
+    }
+
+    // Best-effort: return last attempt but still enforce script.duration to audio
+    lastScript.duration = Math.round(lastDuration);
+    return { script: lastScript, audioPath: lastAudioPath, audioDuration: lastDuration, narrationText: lastNarration, clips: lastClips, timing: lastTiming };
   }
 }